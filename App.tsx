@@ -1,14 +1,89 @@
 // App.tsx
-import React, { useEffect, useMemo, useRef, useState } from "react";
-import { CCNA_DOMAINS, CCNA_Category, Deck, Card, User } from "./types";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { CCNA_DOMAINS, Deck, Card, User } from "./types";
 import FlashcardComponent from "./components/FlashcardComponent";
+import TypedRecallCard from "./components/TypedRecallCard";
+import CliPracticeCard from "./components/CliPracticeCard";
 import StudyAssistant from "./components/StudyAssistant";
-import { explainConcept, type AiTutorResult } from "./services/gemini";
-import { loadDecks, loadCards } from "./services/csvParser";
-import { startStripeCheckout } from "./services/stripe";
-import { SignedIn, SignedOut, SignIn, UserButton, useUser } from "@clerk/clerk-react";
-
-type AppView = "login" | "domainSelect" | "deckSelect" | "study" | "paywall";
+import DataDiagnostics from "./components/DataDiagnostics";
+import BlueprintView from "./components/BlueprintView";
+import ExamView from "./components/ExamView";
+import SubnettingView from "./components/SubnettingView";
+import SessionBuilderView from "./components/SessionBuilderView";
+import ShortcutOverlay from "./components/ShortcutOverlay";
+import StatsView from "./components/StatsView";
+import ReadinessPanel from "./components/ReadinessPanel";
+import DeckImportPanel from "./components/DeckImportPanel";
+import DeckExportButtons from "./components/DeckExportButtons";
+import { explainCardStream, TutorLimitError, TutorOfflineError, type AiTutorResult, type QuizScope } from "./services/gemini";
+import { loadCardBank } from "./services/csvParser";
+import { isPremiumValue, toFlashcard } from "./services/cards";
+import { buildObjectiveStats, type ObjectiveStats } from "./services/blueprint";
+import { CardBankError, type CsvIssue } from "./services/cardValidation";
+import { fetchProStatus, startStripeCheckout } from "./services/stripe";
+import {
+  getDueCardIds,
+  isMastered,
+  newSchedule,
+  previewIntervals,
+  reviewCard,
+  type ReviewGrade,
+} from "./services/srs";
+import {
+  appendReviewEvent,
+  createReviewEvent,
+  loadReviewEvents,
+  mergeReviewEvents,
+  saveReviewEvents,
+  type ReviewEvent,
+} from "./services/reviewLog";
+import { flushReviewEvents, hasPendingReviews, queueReviewEvents, syncReviewEvents } from "./services/reviewSync";
+import { appendQuizResult, loadQuizResults, saveQuizResults, type QuizResult } from "./services/quizLog";
+import { appendSubnetResult, loadSubnetResults, saveSubnetResults, type SubnetResult } from "./services/subnetLog";
+import { buildStudyStats } from "./services/stats";
+import { normalizeSessionFilter, type SessionFilter } from "./services/sessionBuilder";
+import {
+  actionForKey,
+  GRADE_ACTIONS,
+  isControlTarget,
+  isTypingTarget,
+  normalizeShortcuts,
+  type ShortcutMap,
+} from "./services/shortcuts";
+import { buildReadiness } from "./services/readiness";
+import {
+  addCustomDeck,
+  emptyCustomDecks,
+  isCustomCardId,
+  isCustomDeckId,
+  loadCustomDecks,
+  removeCustomDeck,
+  saveCustomDecks,
+  type CustomDeckStore,
+} from "./services/customDecks";
+import type { ImportedDeck } from "./services/deckTransfer";
+import { emptyProgress, mergeProgress, type ProgressDoc } from "./services/progressDoc";
+import {
+  getPref,
+  hasPendingProgress,
+  loadLocalProgress,
+  markProgressPending,
+  saveLocalProgress,
+  setPref,
+  syncProgress,
+} from "./services/progressSync";
+import { SignedIn, SignedOut, SignIn, UserButton, useAuth, useUser } from "@clerk/clerk-react";
+
+type AppView = "login" | "domainSelect" | "deckSelect" | "blueprint" | "exam" | "subnetting" | "session" | "stats" | "study" | "paywall";
+
+// "flip" = tap to reveal and self-grade, "type" = typed active recall graded automatically
+type StudyMode = "flip" | "type" | "cli";
+
+const STUDY_MODES: StudyMode[] = ["flip", "type", "cli"];
+const STUDY_MODE_LABELS: Record<StudyMode, string> = { flip: "Flip", type: "Type", cli: "CLI" };
+
+// Ad-hoc study queue (due today, an objective …) — a snapshot of card ids so grading doesn't reshuffle it
+type StudySession = { title: string; cardIds: string[]; returnView: AppView };
 
 // Domain color mapping
 const DOMAIN_COLORS: Record<number, string> = {
@@ -20,25 +95,36 @@ const DOMAIN_COLORS: Record<number, string> = {
   6: "#CA8A04",
 };
 
-const getDomainColor = (id: number | null): string => DOMAIN_COLORS[id ?? 0] || "#64748b";
+// After Stripe redirects back, the webhook may not have landed yet
+const PRO_POLL_ATTEMPTS = 6;
+const PRO_POLL_INTERVAL_MS = 2000;
 
-// Helper to handle various truthy strings from CSV
-const isPremiumValue = (v: any) => {
-  const s = String(v ?? "").trim().toLowerCase();
-  return ["true", "1", "yes", "y", "pro", "premium"].includes(s);
-};
+// Batches rapid grading into one progress upload
+const PROGRESS_PUSH_DELAY_MS = 1500;
+
+const getDomainColor = (id: number | null): string => DOMAIN_COLORS[id ?? 0] || "#64748b";
 
 export default function App() {
   const { isLoaded, isSignedIn, user: clerkUser } = useUser();
+  const { getToken } = useAuth();
+  // effects below read the latest getToken through this ref instead of re-running when it changes
+  const getTokenRef = useRef(getToken);
+  getTokenRef.current = getToken;
 
   const [view, setView] = useState<AppView>("login");
   const [appUser, setAppUser] = useState<User | null>(null);
+  const [isPro, setIsPro] = useState(false);
+
+  // Stripe checkout return params, read once before the URL is cleaned up
+  const [checkoutReturn] = useState(() => new URLSearchParams(window.location.search));
 
   // Data
-  const [decks, setDecks] = useState<Deck[]>([]);
-  const [cards, setCards] = useState<Card[]>([]);
+  const [bankDecks, setBankDecks] = useState<Deck[]>([]);
+  const [bankCards, setBankCards] = useState<Card[]>([]);
   const [isDataLoading, setIsDataLoading] = useState(true);
   const [dataError, setDataError] = useState<string | null>(null);
+  const [dataIssues, setDataIssues] = useState<CsvIssue[]>([]);
+  const [dataIssuesDismissed, setDataIssuesDismissed] = useState(false);
 
   // Selection
   const [selectedDomainId, setSelectedDomainId] = useState<number | null>(null);
@@ -46,26 +132,51 @@ export default function App() {
   const [selectedDeckId, setSelectedDeckId] = useState<string | null>(null);
   const [selectedDeckName, setSelectedDeckName] = useState<string | null>(null);
 
+  // Ad-hoc session (overrides the selected deck while set)
+  const [studySession, setStudySession] = useState<StudySession | null>(null);
+
   // Paywall
   const [attemptedDeckId, setAttemptedDeckId] = useState<string | null>(null);
   const [attemptedDeckName, setAttemptedDeckName] = useState<string | null>(null);
+  const [paywallReturnView, setPaywallReturnView] = useState<AppView>("deckSelect");
+  const [subnettingReturnView, setSubnettingReturnView] = useState<AppView>("domainSelect");
+  const [examRunning, setExamRunning] = useState(false); // reported by ExamView; Back asks first only then
 
   // Study
   const [currentIndex, setCurrentIndex] = useState(0);
   const [aiExplanation, setAiExplanation] = useState<AiTutorResult | null>(null);
   const [aiLoading, setAiLoading] = useState(false);
+  const [aiLimit, setAiLimit] = useState<TutorLimitError | null>(null);
+  const [aiOffline, setAiOffline] = useState<TutorOfflineError | null>(null);
   const [currentConcept, setCurrentConcept] = useState("");
-
-  // Mastery
-  const [masteredIds, setMasteredIds] = useState<Set<string>>(new Set());
+  const [cardFlipped, setCardFlipped] = useState(false);
+  // Part of the card's key: a one-card queue shows the same card again after grading, fresh
+  const [gradedCount, setGradedCount] = useState(0);
+  const [shortcutsOpen, setShortcutsOpen] = useState(false);
+  const explainRequestRef = useRef(0); // ignore late (streamed) results after the tutor was closed
+
+  // Progress (schedules, last deck, prefs) — cached per user, synced via /api/progress
+  const [progressOwner, setProgressOwner] = useState<string | null>(null);
+  const [progress, setProgress] = useState<ProgressDoc>(() => emptyProgress());
+  const progressSyncingRef = useRef(false);
+  const schedules = progress.schedules;
+
+  // Review history (local only) + when the current card was shown, for time-to-answer
+  const [reviewEvents, setReviewEvents] = useState<ReviewEvent[]>([]);
+  const [quizResults, setQuizResults] = useState<QuizResult[]>([]);
+  const [subnetResults, setSubnetResults] = useState<SubnetResult[]>([]);
+  const [customDecks, setCustomDecks] = useState<CustomDeckStore>(() => emptyCustomDecks());
+  const [importOpen, setImportOpen] = useState(false);
+  const [deckActionsId, setDeckActionsId] = useState<string | null>(null);
+  const cardShownAtRef = useRef(Date.now());
+  const savedStudyMode = getPref<string>(progress, "studyMode", "flip");
+  const studyMode: StudyMode = STUDY_MODES.includes(savedStudyMode as StudyMode) ? (savedStudyMode as StudyMode) : "flip";
 
   // Speech (browser TTS)
   const [isSpeaking, setIsSpeaking] = useState(false);
   const ttsUtterRef = useRef<SpeechSynthesisUtterance | null>(null);
   const lastSpokenKeyRef = useRef<string>(""); // lets us toggle stop on same button
 
-  const isPro = (appUser?.isPro ?? false) || localStorage.getItem("ccna_isPro") === "true";
-
   // -----------------------------
   // Clerk → View gating
   // -----------------------------
@@ -82,10 +193,62 @@ export default function App() {
     }
     setAppUser({
       email: clerkUser.primaryEmailAddress?.emailAddress ?? "User",
-      isPro: localStorage.getItem("ccna_isPro") === "true",
+      isPro,
       isGuest: false,
     });
-  }, [clerkUser]);
+  }, [clerkUser, isPro]);
+
+  // -----------------------------
+  // Pro entitlement (server is the only source of truth)
+  // -----------------------------
+  useEffect(() => {
+    if (!isLoaded) return;
+
+    // legacy client-side flag; never trusted again
+    localStorage.removeItem("ccna_isPro");
+
+    if (checkoutReturn.has("success") || checkoutReturn.has("canceled")) {
+      window.history.replaceState({}, document.title, window.location.pathname);
+    }
+
+    if (!isSignedIn) {
+      setIsPro(false);
+      return;
+    }
+
+    const justPaid = checkoutReturn.get("success") === "true";
+    const attempts = justPaid ? PRO_POLL_ATTEMPTS : 1;
+    let cancelled = false;
+
+    (async () => {
+      for (let i = 0; i < attempts && !cancelled; i++) {
+        try {
+          const pro = await fetchProStatus(await getTokenRef.current());
+          if (cancelled) return;
+          setIsPro(pro);
+
+          if (pro) {
+            const resumeId = checkoutReturn.get("deckId");
+            if (justPaid && resumeId) {
+              setSelectedDeckId(resumeId);
+              setSelectedDeckName(checkoutReturn.get("deckName"));
+              setCurrentIndex(0);
+              setView("study");
+            }
+            return;
+          }
+        } catch (e) {
+          console.error(e);
+        }
+
+        if (i < attempts - 1) await new Promise((r) => setTimeout(r, PRO_POLL_INTERVAL_MS));
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isLoaded, isSignedIn, checkoutReturn]);
 
   // -----------------------------
   // Load CSV data
@@ -93,55 +256,121 @@ export default function App() {
   useEffect(() => {
     (async () => {
       try {
-        const [d, c] = await Promise.all([loadDecks(), loadCards()]);
-        setDecks(d);
-        setCards(c);
-        setIsDataLoading(false);
-
-        // Stripe success/cancel handling
-        const urlParams = new URLSearchParams(window.location.search);
-        const success = urlParams.get("success");
-        const canceled = urlParams.get("canceled");
-
-        if (success === "true") {
-          localStorage.setItem("ccna_isPro", "true");
-
-          const resumeId = urlParams.get("deckId");
-          const resumeName = urlParams.get("deckName");
-          if (resumeId) {
-            setSelectedDeckId(resumeId);
-            setSelectedDeckName(resumeName);
-            setCurrentIndex(0);
-            setView("study");
-          }
+        const { decks: d, cards: c, issues } = await loadCardBank();
+        if (issues.length > 0) console.warn("Card bank issues:", issues);
 
-          window.history.replaceState({}, document.title, window.location.pathname);
-        } else if (canceled === "true") {
-          window.history.replaceState({}, document.title, window.location.pathname);
-        }
+        setBankDecks(d);
+        setBankCards(c);
+        setDataIssues(issues);
+        setIsDataLoading(false);
       } catch (e) {
         console.error(e);
-        setDataError("Failed to load decks/cards. Please refresh.");
+        if (e instanceof CardBankError) {
+          setDataError(e.message);
+          setDataIssues(e.issues);
+        } else {
+          setDataError("Failed to load decks/cards. Please refresh.");
+        }
         setIsDataLoading(false);
       }
     })();
   }, []);
 
-  // Load mastery
-  useEffect(() => {
-    const saved = localStorage.getItem("ccna_mastery");
-    if (!saved) return;
+  // -----------------------------
+  // Progress sync
+  // -----------------------------
+  // Stable (refs and state setters only), so the effects below can list them as dependencies
+  const runProgressSync = useCallback(async (userId: string, local: ProgressDoc) => {
+    if (progressSyncingRef.current) return;
+    progressSyncingRef.current = true;
+    try {
+      const remote = await syncProgress(userId, await getTokenRef.current(), local);
+      // merge rather than replace: grades made while the request was in flight must survive
+      if (remote) setProgress((cur) => mergeProgress(cur, remote));
+    } catch (e) {
+      console.error(e); // stays pending; retried on the next change or when back online
+    } finally {
+      progressSyncingRef.current = false;
+    }
+  }, []);
+
+  const runReviewFlush = useCallback(async (userId: string) => {
     try {
-      setMasteredIds(new Set(JSON.parse(saved)));
-    } catch {
-      // ignore
+      await flushReviewEvents(userId, await getTokenRef.current());
+    } catch (e) {
+      console.error(e); // stays queued; retried after the next grade or when back online
     }
   }, []);
 
-  // Save mastery
+  // Load the signed-in user's cached progress, then pull from the server
+  useEffect(() => {
+    const userId = clerkUser?.id ?? null;
+    const local = userId ? loadLocalProgress(userId) : emptyProgress();
+    const localEvents = userId ? loadReviewEvents(userId) : [];
+    setProgressOwner(userId);
+    setProgress(local);
+    setReviewEvents(localEvents);
+    setQuizResults(userId ? loadQuizResults(userId) : []);
+    setSubnetResults(userId ? loadSubnetResults(userId) : []);
+    setCustomDecks(userId ? loadCustomDecks(userId) : emptyCustomDecks());
+    if (userId) {
+      runProgressSync(userId, local);
+      (async () => {
+        try {
+          const merged = await syncReviewEvents(userId, await getTokenRef.current(), localEvents);
+          // grades given during the sync are already in state; merging keeps them
+          if (merged) setReviewEvents((cur) => mergeReviewEvents(cur, merged));
+        } catch (e) {
+          console.error(e);
+        }
+      })();
+    }
+  }, [clerkUser?.id, runProgressSync]);
+
+  // Cache every change locally; push queued changes shortly after
+  useEffect(() => {
+    if (!progressOwner || progressOwner !== clerkUser?.id) return;
+    saveLocalProgress(progressOwner, progress);
+
+    if (!hasPendingProgress(progressOwner)) return;
+    const t = window.setTimeout(() => runProgressSync(progressOwner, progress), PROGRESS_PUSH_DELAY_MS);
+    return () => window.clearTimeout(t);
+  }, [progress, progressOwner, clerkUser?.id, runProgressSync]);
+
+  useEffect(() => {
+    if (!progressOwner || progressOwner !== clerkUser?.id) return;
+    saveReviewEvents(progressOwner, reviewEvents);
+
+    if (!hasPendingReviews(progressOwner)) return;
+    const t = window.setTimeout(() => runReviewFlush(progressOwner), PROGRESS_PUSH_DELAY_MS);
+    return () => window.clearTimeout(t);
+  }, [reviewEvents, progressOwner, clerkUser?.id, runReviewFlush]);
+
+  useEffect(() => {
+    if (!progressOwner || progressOwner !== clerkUser?.id) return;
+    saveQuizResults(progressOwner, quizResults);
+  }, [quizResults, progressOwner, clerkUser?.id]);
+
+  useEffect(() => {
+    if (!progressOwner || progressOwner !== clerkUser?.id) return;
+    saveSubnetResults(progressOwner, subnetResults);
+  }, [subnetResults, progressOwner, clerkUser?.id]);
+
+  useEffect(() => {
+    if (!progressOwner || progressOwner !== clerkUser?.id) return;
+    saveCustomDecks(progressOwner, customDecks);
+  }, [customDecks, progressOwner, clerkUser?.id]);
+
+  // Flush the offline queue when connectivity returns
   useEffect(() => {
-    localStorage.setItem("ccna_mastery", JSON.stringify(Array.from(masteredIds)));
-  }, [masteredIds]);
+    if (!progressOwner) return;
+    const onOnline = () => {
+      if (hasPendingProgress(progressOwner)) runProgressSync(progressOwner, progress);
+      if (hasPendingReviews(progressOwner)) runReviewFlush(progressOwner);
+    };
+    window.addEventListener("online", onOnline);
+    return () => window.removeEventListener("online", onOnline);
+  }, [progress, progressOwner, runProgressSync, runReviewFlush]);
 
   // Cleanup TTS on unmount
   useEffect(() => {
@@ -158,17 +387,47 @@ export default function App() {
   // -----------------------------
   // Derived lists
   // -----------------------------
+  // The card bank plus the user's imported decks
+  const decks = useMemo(() => [...bankDecks, ...customDecks.decks], [bankDecks, customDecks]);
+  const cards = useMemo(() => [...bankCards, ...customDecks.cards], [bankCards, customDecks]);
+
   const domainStats = useMemo(() => {
     const stats: Record<number, { total: number; mastered: number }> = {};
     CCNA_DOMAINS.forEach((d) => {
       const domainDecks = decks.filter((deck) => Number(deck.domain_int) === d.id);
       const domainDeckIds = new Set(domainDecks.map((deck) => deck.deck_id));
       const domainCards = cards.filter((c) => domainDeckIds.has(c.deck_id));
-      const masteredCount = domainCards.filter((c) => masteredIds.has(c.card_id)).length;
+      const masteredCount = domainCards.filter((c) => isMastered(schedules[c.card_id])).length;
       stats[d.id] = { total: domainCards.length, mastered: masteredCount };
     });
     return stats;
-  }, [decks, cards, masteredIds]);
+  }, [decks, cards, schedules]);
+
+  // Projected exam score across the whole card bank (locked Pro cards count as unlearned; imported decks don't count)
+  const readiness = useMemo(() => buildReadiness(bankCards, schedules), [bankCards, schedules]);
+
+  const lockedDeckIds = useMemo(() => {
+    if (isPro) return new Set<string>();
+    return new Set(decks.filter((d) => isPremiumValue(d.is_premium)).map((d) => d.deck_id));
+  }, [decks, isPro]);
+
+  const accessibleCards = useMemo(
+    () => cards.filter((c) => !lockedDeckIds.has(c.deck_id)),
+    [cards, lockedDeckIds]
+  );
+
+  const accessibleDecks = useMemo(() => decks.filter((d) => !lockedDeckIds.has(d.deck_id)), [decks, lockedDeckIds]);
+
+  // Due today across all decks (excluding decks the user can't open)
+  const dueCardIds = useMemo(() => {
+    const known = new Set(accessibleCards.map((c) => c.card_id));
+    return getDueCardIds(schedules).filter((id) => known.has(id));
+  }, [accessibleCards, schedules]);
+
+  const objectiveStats = useMemo(
+    () => buildObjectiveStats(cards, schedules, lockedDeckIds),
+    [cards, schedules, lockedDeckIds]
+  );
 
   const domainDecksList = useMemo(() => {
     if (!selectedDomainId) return [];
@@ -178,28 +437,43 @@ export default function App() {
   }, [decks, selectedDomainId]);
 
   const deckCards = useMemo(() => {
+    if (studySession) {
+      const byId = new Map(cards.map((c) => [c.card_id, c]));
+      return studySession.cardIds.map((id) => byId.get(id)).filter((c): c is Card => !!c);
+    }
     if (!selectedDeckId) return [];
     return cards.filter((c) => c.deck_id === selectedDeckId);
-  }, [cards, selectedDeckId]);
+  }, [cards, selectedDeckId, studySession]);
 
   const studyCards = useMemo(() => {
-    return deckCards.map((c) => ({
-      id: c.card_id,
-      question: c.front,
-      answer: c.back,
-      explanation: c.explanation,
-      cliExample:
-        c.cli_config && c.cli_verify ? `${c.cli_config}\n${c.cli_verify}` : (c.cli_config || c.cli_verify),
-      category: CCNA_Category.NetworkFundamentals,
-      difficulty: "Medium" as const,
-      domainId: selectedDomainId || 0,
-      deckId: c.deck_id,
-      deckName: c.deck_name,
-      isPremium: isPremiumValue(c.is_premium),
-    }));
+    return deckCards.map((c) => toFlashcard(c, selectedDomainId || 0));
   }, [deckCards, selectedDomainId]);
 
   const currentCard = studyCards[currentIndex];
+  const lastDeck = useMemo(
+    () => decks.find((d) => d.deck_id === progress.lastDeck?.deckId) ?? null,
+    [decks, progress.lastDeck]
+  );
+
+  const studyStats = useMemo(
+    () => buildStudyStats(reviewEvents, cards, quizResults, subnetResults),
+    [reviewEvents, cards, quizResults, subnetResults]
+  );
+
+  const currentSchedule = currentCard ? schedules[currentCard.id] : undefined;
+  // CLI mode only applies to cards with commands to type; the rest are shown as flip cards
+  const cardMode: StudyMode = studyMode === "cli" && !currentCard?.cliConfig ? "flip" : studyMode;
+
+  // Time-to-answer starts when a card (or a new study mode) is shown
+  useEffect(() => {
+    cardShownAtRef.current = Date.now();
+    setCardFlipped(false);
+  }, [currentCard?.id, cardMode, view]);
+
+  const shortcuts = useMemo(
+    () => normalizeShortcuts(getPref<Partial<ShortcutMap> | null>(progress, "shortcuts", null)),
+    [progress]
+  );
 
   // -----------------------------
   // Actions
@@ -213,11 +487,79 @@ export default function App() {
     ttsUtterRef.current = null;
   };
 
-  const toggleMastery = (id: string) => {
-    const next = new Set(masteredIds);
-    if (next.has(id)) next.delete(id);
-    else next.add(id);
-    setMasteredIds(next);
+  // All local progress edits go through here so they're queued for sync
+  const updateProgress = (fn: (prev: ProgressDoc) => ProgressDoc) => {
+    if (!progressOwner) return;
+    markProgressPending(progressOwner);
+    setProgress((prev) => ({ ...fn(prev), updatedAt: Date.now() }));
+  };
+
+  const setStudyMode = (mode: StudyMode) => updateProgress((p) => setPref(p, "studyMode", mode));
+
+  const gradeCard = (id: string, grade: ReviewGrade) => {
+    stopSpeaking();
+    updateProgress((p) => ({ ...p, schedules: { ...p.schedules, [id]: reviewCard(p.schedules[id], id, grade) } }));
+    const event = createReviewEvent(id, grade, cardShownAtRef.current, cardMode);
+    if (progressOwner) queueReviewEvents(progressOwner, [event]);
+    setReviewEvents((prev) => appendReviewEvent(prev, event));
+    cardShownAtRef.current = Date.now();
+    setCardFlipped(false);
+    setGradedCount((n) => n + 1);
+    if (studyCards.length > 1) setCurrentIndex((prev) => (prev + 1) % studyCards.length);
+  };
+
+  // Manual override from the keyboard: mastered cards start over, others are marked as known (no review logged)
+  const toggleMastered = (id: string) => {
+    updateProgress((p) => {
+      const prev = p.schedules[id];
+      const next = isMastered(prev) ? newSchedule(id) : reviewCard(prev, id, "easy");
+      return { ...p, schedules: { ...p.schedules, [id]: next } };
+    });
+  };
+
+  const stepCard = (delta: number) => {
+    if (studyCards.length === 0) return;
+    stopSpeaking();
+    setCurrentIndex((prev) => (prev + delta + studyCards.length) % studyCards.length);
+  };
+
+  const setShortcuts = (map: ShortcutMap) => updateProgress((p) => setPref(p, "shortcuts", map));
+
+  const startSession = (session: StudySession) => {
+    if (session.cardIds.length === 0) return;
+    stopSpeaking();
+    setStudySession(session);
+    setSelectedDeckId(null);
+    setSelectedDeckName(null);
+    setCurrentIndex(0);
+    setView("study");
+  };
+
+  const startDueSession = () =>
+    startSession({ title: "Due today", cardIds: dueCardIds, returnView: "domainSelect" });
+
+  const savedSessionFilter = normalizeSessionFilter(getPref<Partial<SessionFilter> | null>(progress, "sessionFilter", null));
+
+  const startCustomSession = (filter: SessionFilter, cardIds: string[]) => {
+    updateProgress((p) => setPref(p, "sessionFilter", filter));
+    startSession({ title: `Custom session • ${cardIds.length} cards`, cardIds, returnView: "session" });
+  };
+
+  const startObjectiveSession = (o: ObjectiveStats) =>
+    startSession({ title: `Objective ${o.code} • ${o.title}`, cardIds: o.cardIds, returnView: "blueprint" });
+
+  const showObjectivePaywall = (o: ObjectiveStats, returnView: AppView = "blueprint") => {
+    setAttemptedDeckId(null);
+    setAttemptedDeckName(`Objective ${o.code}`);
+    setPaywallReturnView(returnView);
+    setView("paywall");
+  };
+
+  const studyObjectiveByCode = (code: string, returnView: AppView) => {
+    const o = objectiveStats.find((x) => x.code === code);
+    if (!o) return;
+    if (o.cardIds.length === 0 && o.lockedCount > 0) showObjectivePaywall(o, returnView);
+    else if (o.cardIds.length > 0) startSession({ title: `Objective ${o.code} • ${o.title}`, cardIds: o.cardIds, returnView });
   };
 
   const handleDeckSelect = (deck: Deck) => {
@@ -226,6 +568,7 @@ export default function App() {
     if (premium && !isPro) {
       setAttemptedDeckId(deck.deck_id);
       setAttemptedDeckName(deck.deck_name);
+      setPaywallReturnView("deckSelect");
       setView("paywall");
       return;
     }
@@ -233,9 +576,9 @@ export default function App() {
     // stop any speech when switching content
     stopSpeaking();
 
-    localStorage.setItem("ccna_lastDeckId", deck.deck_id);
-    localStorage.setItem("ccna_lastDeckName", deck.deck_name);
+    updateProgress((p) => ({ ...p, lastDeck: { deckId: deck.deck_id, deckName: deck.deck_name, at: Date.now() } }));
 
+    setStudySession(null);
     setSelectedDeckId(deck.deck_id);
     setSelectedDeckName(deck.deck_name);
     setAttemptedDeckId(null);
@@ -244,15 +587,78 @@ export default function App() {
     setView("study");
   };
 
+  const resumeLastDeck = () => {
+    if (!lastDeck) return;
+    const domain = CCNA_DOMAINS.find((d) => d.id === Number(lastDeck.domain_int));
+    setSelectedDomainId(domain?.id ?? null);
+    setSelectedDomainName(domain?.subtitle ?? null);
+    handleDeckSelect(lastDeck);
+  };
+
+  const importDeck = ({ deck, cards: imported, schedules: importedSchedules }: ImportedDeck) => {
+    setCustomDecks((prev) => addCustomDeck(prev, deck, imported));
+    if (Object.keys(importedSchedules).length > 0) {
+      updateProgress((p) => ({ ...p, schedules: { ...p.schedules, ...importedSchedules } }));
+    }
+    setImportOpen(false);
+    setDeckActionsId(deck.deck_id);
+  };
+
+  const deleteCustomDeck = (deck: Deck) => {
+    if (!window.confirm(`Delete "${deck.deck_name}" from this device? Export it first to keep a copy.`)) return;
+    setCustomDecks((prev) => removeCustomDeck(prev, deck.deck_id));
+    setDeckActionsId(null);
+  };
+
   const handleExplain = async (concept: string) => {
+    if (!currentCard) return;
+    const cardId = currentCard.id;
+    const requestId = ++explainRequestRef.current;
+    const isCurrent = () => explainRequestRef.current === requestId;
+
     setCurrentConcept(concept);
+    setAiLimit(null);
+    setAiOffline(null);
+
+    // the tutor endpoints look cards up in the server's card bank, which doesn't have imported decks
+    if (isCustomCardId(cardId)) {
+      setAiLoading(false);
+      setAiExplanation({
+        title: "AI Tutor",
+        simpleExplanation: "The AI tutor only knows the built-in card bank, so it can't explain cards from an imported deck.",
+        realWorldExample: "",
+        keyCommands: [],
+        commonMistakes: [],
+        quickCheck: [],
+      });
+      return;
+    }
+
     setAiLoading(true);
     setAiExplanation(null);
 
     try {
-      const res = await explainConcept(concept, currentCard?.answer || "");
-      setAiExplanation(res);
-    } catch {
+      // sections fill in as the stream arrives; aiLoading stays on until the final result
+      const res = await explainCardStream(
+        cardId,
+        concept,
+        (partial) => {
+          if (isCurrent()) setAiExplanation(partial);
+        },
+        await getToken()
+      );
+      if (isCurrent()) setAiExplanation(res);
+    } catch (e) {
+      if (!isCurrent()) return;
+      if (e instanceof TutorLimitError) {
+        setAiLimit(e);
+        return;
+      }
+      if (e instanceof TutorOfflineError) {
+        setAiOffline(e);
+        setAiExplanation(e.saved);
+        return;
+      }
       setAiExplanation({
         title: "AI Tutor",
         simpleExplanation: "Error connecting to AI tutor.",
@@ -262,8 +668,42 @@ export default function App() {
         quickCheck: [],
       });
     } finally {
-      setAiLoading(false);
+      if (isCurrent()) setAiLoading(false);
+    }
+  };
+
+  const closeTutor = () => {
+    explainRequestRef.current += 1;
+    setAiExplanation(null);
+    setAiLoading(false);
+    setAiLimit(null);
+    setAiOffline(null);
+  };
+
+  const recordQuiz = (scope: QuizScope, correct: number, total: number) => {
+    setQuizResults((prev) => appendQuizResult(prev, { at: Date.now(), ...scope, total, correct }));
+  };
+
+  const recordSubnetResult = (result: SubnetResult) => {
+    setSubnetResults((prev) => appendSubnetResult(prev, result));
+  };
+
+  const openSubnetting = (returnView: AppView) => {
+    stopSpeaking();
+    setSubnettingReturnView(returnView);
+    setView("subnetting");
+  };
+
+  const upgradeToPro = () => {
+    const uid = clerkUser?.id;
+    const email = clerkUser?.primaryEmailAddress?.emailAddress;
+
+    if (!uid) {
+      alert("Please sign in to purchase Pro.");
+      return;
     }
+
+    startStripeCheckout(uid, email);
   };
 
   /**
@@ -313,10 +753,70 @@ export default function App() {
     }
   };
 
+  // -----------------------------
+  // Keyboard shortcuts (study view + closing the tutor)
+  // -----------------------------
+  const tutorOpen = !!(aiExplanation || aiLoading || aiLimit || aiOffline);
+
+  const handleShortcut = (e: KeyboardEvent) => {
+    // a held key would otherwise grade or skip a run of cards
+    if (shortcutsOpen || e.repeat || e.ctrlKey || e.metaKey || e.altKey) return;
+    const action = actionForKey(shortcuts, e.key);
+    if (!action) return;
+
+    if (action === "closeTutor") {
+      if (!tutorOpen) return;
+      e.preventDefault();
+      stopSpeaking();
+      closeTutor();
+      return;
+    }
+    if (tutorOpen || view !== "study" || !currentCard) return;
+    if (isTypingTarget(e.target)) return;
+    // other shortcuts still work while a button has focus
+    if (isControlTarget(e.target) && (e.key === " " || e.key === "Enter")) return;
+
+    const grade = GRADE_ACTIONS[action];
+    // typed recall and the CLI grade through their own checks; flip cards once the answer is showing
+    if (grade && (cardMode !== "flip" || !cardFlipped)) return;
+    if (action === "flip" && cardMode !== "flip") return;
+    e.preventDefault();
+
+    if (grade) gradeCard(currentCard.id, grade);
+    else if (action === "flip") setCardFlipped((f) => !f);
+    else if (action === "prev") stepCard(-1);
+    else if (action === "next") stepCard(1);
+    else if (action === "toggleMastered") toggleMastered(currentCard.id);
+    else if (action === "explain") handleExplain(currentCard.question);
+    else if (action === "speak") {
+      handleSpeak(
+        cardMode === "flip" && cardFlipped
+          ? currentCard.answer + ". " + (currentCard.explanation || "")
+          : currentCard.question
+      );
+    } else if (action === "help") setShortcutsOpen(true);
+  };
+
+  // one listener; the ref always points at this render's handler
+  const shortcutHandlerRef = useRef(handleShortcut);
+  shortcutHandlerRef.current = handleShortcut;
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => shortcutHandlerRef.current(e);
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
   const goBack = () => {
     stopSpeaking();
-    if (view === "study") setView("deckSelect");
-    else if (view === "deckSelect" || view === "paywall") setView("domainSelect");
+    if (view === "study" && studySession) {
+      setView(studySession.returnView);
+      setStudySession(null);
+    } else if (view === "study") setView("deckSelect");
+    else if (view === "exam") {
+      if (!examRunning || window.confirm("Leave the practice exam? Your progress in it will be lost.")) setView("domainSelect");
+    } else if (view === "subnetting") setView(subnettingReturnView);
+    else if (view === "deckSelect" || view === "blueprint" || view === "session" || view === "stats" || view === "paywall")
+      setView("domainSelect");
   };
 
   // -----------------------------
@@ -335,18 +835,25 @@ export default function App() {
 
   if (dataError) {
     return (
-      <div className="min-h-screen flex items-center justify-center bg-slate-950 text-white p-6">
-        <div className="max-w-md w-full rounded-3xl border border-white/10 bg-white/5 p-6">
-          <div className="text-lg font-black">Sync Error</div>
-          <p className="text-white/70 mt-2 text-sm">{dataError}</p>
-          <button
-            onClick={() => window.location.reload()}
-            className="mt-5 w-full py-3 rounded-2xl bg-white text-slate-900 font-black"
-          >
-            Retry
-          </button>
-        </div>
-      </div>
+      <DataDiagnostics
+        message={dataError}
+        issues={dataIssues}
+        onRetry={() => window.location.reload()}
+      />
+    );
+  }
+
+  // Row-level errors: the bad rows were skipped, let the user see why before studying
+  const dataErrorCount = dataIssues.filter((i) => i.severity === "error").length;
+  if (dataErrorCount > 0 && !dataIssuesDismissed) {
+    return (
+      <DataDiagnostics
+        message={`${dataErrorCount} row problem${dataErrorCount === 1 ? "" : "s"} found. Invalid rows were skipped.`}
+        issues={dataIssues}
+        onRetry={() => window.location.reload()}
+        onContinue={cards.length > 0 ? () => setDataIssuesDismissed(true) : undefined}
+        continueLabel={`Continue with ${cards.length} cards`}
+      />
     );
   }
 
@@ -354,7 +861,7 @@ export default function App() {
   // UI
   // -----------------------------
   return (
-    <div className="min-h-screen flex flex-col select-none">
+    <div className="min-h-screen flex flex-col">
       {/* SIGNED OUT (LOGIN) */}
       <SignedOut>
         <div className="min-h-screen relative overflow-hidden flex items-center justify-center px-6">
@@ -491,11 +998,91 @@ export default function App() {
                     <p className="text-white/70 text-sm mt-2">
                       {cards.length} cards • {decks.length} decks • 6 domains
                     </p>
+
+                    <div className="mt-5 flex flex-col sm:flex-row gap-3">
+                      <button
+                        type="button"
+                        onClick={startDueSession}
+                        disabled={dueCardIds.length === 0}
+                        className="px-6 py-3 rounded-2xl bg-white text-slate-900 font-black shadow-lg hover:opacity-95 disabled:opacity-40 disabled:cursor-not-allowed"
+                      >
+                        {dueCardIds.length > 0 ? `Review due today (${dueCardIds.length})` : "Nothing due today ✓"}
+                      </button>
+
+                      {lastDeck && (
+                        <button
+                          type="button"
+                          onClick={resumeLastDeck}
+                          className="px-6 py-3 rounded-2xl bg-white/10 border border-white/15 text-white font-black hover:bg-white/15"
+                        >
+                          ▶ Continue {lastDeck.deck_name}
+                        </button>
+                      )}
+
+                      <button
+                        type="button"
+                        onClick={() => {
+                          stopSpeaking();
+                          setView("blueprint");
+                        }}
+                        className="px-6 py-3 rounded-2xl bg-white/10 border border-white/15 text-white font-black hover:bg-white/15"
+                      >
+                        📋 Exam blueprint
+                      </button>
+
+                      <button
+                        type="button"
+                        onClick={() => {
+                          stopSpeaking();
+                          setView("session");
+                        }}
+                        className="px-6 py-3 rounded-2xl bg-white/10 border border-white/15 text-white font-black hover:bg-white/15"
+                      >
+                        🎯 Custom session
+                      </button>
+
+                      <button
+                        type="button"
+                        onClick={() => {
+                          stopSpeaking();
+                          setView("exam");
+                        }}
+                        className="px-6 py-3 rounded-2xl bg-white/10 border border-white/15 text-white font-black hover:bg-white/15"
+                      >
+                        ⏱ Practice exam
+                      </button>
+
+                      <button
+                        type="button"
+                        onClick={() => openSubnetting("domainSelect")}
+                        className="px-6 py-3 rounded-2xl bg-white/10 border border-white/15 text-white font-black hover:bg-white/15"
+                      >
+                        🧮 Subnetting
+                      </button>
+
+                      <button
+                        type="button"
+                        onClick={() => {
+                          stopSpeaking();
+                          setView("stats");
+                        }}
+                        className="px-6 py-3 rounded-2xl bg-white/10 border border-white/15 text-white font-black hover:bg-white/15"
+                      >
+                        📈 Stats{studyStats.currentStreak > 0 ? ` • 🔥 ${studyStats.currentStreak}` : ""}
+                      </button>
+                    </div>
                   </div>
 
+                  <ReadinessPanel
+                    report={readiness}
+                    getDomainColor={getDomainColor}
+                    onFocus={(code) => studyObjectiveByCode(code, "domainSelect")}
+                  />
+
                   <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                     {CCNA_DOMAINS.map((domain) => {
                       const stats = domainStats[domain.id] || { total: 0, mastered: 0 };
+                      const domainReadiness = readiness.domains.find((r) => r.domainId === domain.id);
                       const progress = stats.total > 0 ? (stats.mastered / stats.total) * 100 : 0;
                       const color = getDomainColor(domain.id);
 
@@ -506,6 +1093,8 @@ export default function App() {
                             stopSpeaking();
                             setSelectedDomainId(domain.id);
                             setSelectedDomainName(domain.subtitle);
+                            setImportOpen(false);
+                            setDeckActionsId(null);
                             setView("deckSelect");
                           }}
                           style={{ borderLeftColor: color }}
@@ -532,6 +1121,10 @@ export default function App() {
                             <div className="mt-2 h-2 w-full bg-black/20 rounded-full overflow-hidden">
                               <div className="h-full rounded-full" style={{ width: `${progress}%`, backgroundColor: color }} />
                             </div>
+                            <div className="mt-2 flex justify-between text-[10px] font-black uppercase tracking-widest text-white/40">
+                              <span>{domain.weight}% of exam</span>
+                              <span>{Math.round((domainReadiness?.readiness ?? 0) * 100)}% ready</span>
+                            </div>
                           </div>
                         </button>
                       );
@@ -547,40 +1140,152 @@ export default function App() {
                     <h2 className="text-2xl font-black uppercase tracking-tight text-white">
                       {selectedDomainName ? `${selectedDomainName} Decks` : "Available Decks"}
                     </h2>
-                    <p className="text-white/60 text-sm mt-1">Choose a deck to start studying.</p>
+                    <div className="flex items-center justify-between gap-3 mt-1">
+                      <p className="text-white/60 text-sm">Choose a deck to start studying.</p>
+                      {!importOpen && (
+                        <button
+                          onClick={() => setImportOpen(true)}
+                          className="shrink-0 px-4 py-2 rounded-full bg-white/10 border border-white/15 text-white text-xs font-black hover:bg-white/15"
+                        >
+                          ＋ Import deck
+                        </button>
+                      )}
+                    </div>
                   </div>
 
+                  {importOpen && selectedDomainId && (
+                    <DeckImportPanel
+                      domainId={selectedDomainId}
+                      deckOrder={domainDecksList.length + 1}
+                      onImport={importDeck}
+                      onCancel={() => setImportOpen(false)}
+                    />
+                  )}
+
                   <div className="space-y-4">
+                    {selectedDomainId === 1 && (
+                      <button
+                        onClick={() => openSubnetting("deckSelect")}
+                        style={{ borderLeftColor: getDomainColor(1) }}
+                        className="w-full rounded-2xl p-5 text-left border border-l-[6px] bg-white/10 border-white/10 hover:bg-white/15 backdrop-blur-xl transition-all"
+                      >
+                        <div className="flex items-center justify-between">
+                          <div>
+                            <div className="text-white font-black">🧮 Subnetting Practice</div>
+                            <div className="text-white/60 text-xs mt-1">
+                              Generated IPv4 / IPv6 problems • {studyStats.subnetting.attempts} solved so far
+                            </div>
+                          </div>
+                          <div className="text-white/60 text-sm font-black">›</div>
+                        </div>
+                      </button>
+                    )}
+
                     {domainDecksList.map((deck) => {
                       const premium = isPremiumValue(deck.is_premium);
                       const locked = premium && !isPro;
+                      const custom = isCustomDeckId(deck.deck_id);
+                      const actionsOpen = deckActionsId === deck.deck_id;
 
                       return (
-                        <button
+                        <div
                           key={deck.deck_id}
-                          onClick={() => handleDeckSelect(deck)}
-                          className={`w-full rounded-2xl p-5 text-left border backdrop-blur-xl transition-all ${
-                            locked
-                              ? "bg-amber-500/10 border-amber-400/30 hover:bg-amber-500/15"
-                              : "bg-white/10 border-white/10 hover:bg-white/15"
+                          className={`rounded-2xl border backdrop-blur-xl transition-all ${
+                            locked ? "bg-amber-500/10 border-amber-400/30" : "bg-white/10 border-white/10"
                           }`}
                         >
-                          <div className="flex items-center justify-between">
-                            <div>
-                              <div className="text-white font-black">{deck.deck_name}</div>
-                              <div className="text-white/60 text-xs mt-1">
-                                {premium ? "PRO 🔒" : "FREE"} • Deck ID: {deck.deck_id}
+                          <div className="flex items-stretch">
+                            <button
+                              onClick={() => handleDeckSelect(deck)}
+                              className={`flex-1 min-w-0 p-5 text-left rounded-2xl transition-all ${
+                                locked ? "hover:bg-amber-500/15" : "hover:bg-white/5"
+                              }`}
+                            >
+                              <div className="flex items-center justify-between">
+                                <div>
+                                  <div className="text-white font-black">{deck.deck_name}</div>
+                                  <div className="text-white/60 text-xs mt-1">
+                                    {custom ? "IMPORTED" : premium ? "PRO 🔒" : "FREE"} • Deck ID: {deck.deck_id}
+                                  </div>
+                                </div>
+                                <div className="text-white/60 text-sm font-black">›</div>
                               </div>
-                            </div>
-                            <div className="text-white/60 text-sm font-black">›</div>
+                            </button>
+                            {!locked && (
+                              <button
+                                onClick={() => setDeckActionsId(actionsOpen ? null : deck.deck_id)}
+                                title="Export or delete"
+                                aria-label={`Export or delete ${deck.deck_name}`}
+                                aria-expanded={actionsOpen}
+                                className={`px-4 text-sm font-black rounded-2xl transition-all ${
+                                  actionsOpen ? "text-white" : "text-white/40 hover:text-white"
+                                }`}
+                              >
+                                ⋯
+                              </button>
+                            )}
                           </div>
-                        </button>
+                          {actionsOpen && !locked && (
+                            <DeckExportButtons
+                              deck={deck}
+                              cards={cards.filter((c) => c.deck_id === deck.deck_id)}
+                              schedules={schedules}
+                              onDelete={custom ? () => deleteCustomDeck(deck) : undefined}
+                            />
+                          )}
+                        </div>
                       );
                     })}
                   </div>
                 </main>
               )}
 
+              {/* BLUEPRINT */}
+              {view === "blueprint" && (
+                <BlueprintView
+                  objectives={objectiveStats}
+                  getDomainColor={getDomainColor}
+                  onStudy={startObjectiveSession}
+                  onLocked={(o) => showObjectivePaywall(o)}
+                />
+              )}
+
+              {/* CUSTOM SESSION */}
+              {view === "session" && (
+                <SessionBuilderView
+                  cards={accessibleCards}
+                  decks={accessibleDecks}
+                  schedules={schedules}
+                  initialFilter={savedSessionFilter}
+                  getDomainColor={getDomainColor}
+                  onStart={startCustomSession}
+                />
+              )}
+
+              {/* STATS */}
+              {view === "stats" && (
+                <StatsView stats={studyStats} getDomainColor={getDomainColor} onStudyObjective={(code) => studyObjectiveByCode(code, "stats")} />
+              )}
+
+              {/* PRACTICE EXAM */}
+              {view === "exam" && (
+                <ExamView
+                  cards={accessibleCards}
+                  getDomainColor={getDomainColor}
+                  onExit={() => setView("domainSelect")}
+                  onRunningChange={setExamRunning}
+                />
+              )}
+
+              {/* SUBNETTING */}
+              {view === "subnetting" && (
+                <SubnettingView
+                  color={getDomainColor(1)}
+                  onResult={recordSubnetResult}
+                  onExit={() => setView(subnettingReturnView)}
+                />
+              )}
+
               {/* STUDY */}
               {view === "study" && (
                 <main className="flex-1 flex flex-col items-center justify-center p-4 max-w-4xl mx-auto w-full">
@@ -590,49 +1295,101 @@ export default function App() {
                       <div className="text-lg font-black">Deck is Empty</div>
                       <div className="text-white/70 text-sm mt-2">No cards were found for this deck.</div>
                       <button
-                        onClick={() => setView("deckSelect")}
+                        onClick={goBack}
                         className="mt-6 px-6 py-3 rounded-2xl bg-white text-slate-900 font-black"
                       >
-                        Return to Decks
+                        {studySession ? "Go Back" : "Return to Decks"}
                       </button>
                     </div>
                   ) : (
                     <div className="w-full max-w-lg space-y-6">
                       <div className="flex items-center justify-between">
                         <div className="text-white/70 text-xs font-black uppercase tracking-widest line-clamp-1">
-                          {selectedDeckName}
+                          {studySession?.title ?? selectedDeckName}
                         </div>
-                        <div className="text-white/80 text-xs font-black">
-                          {currentIndex + 1} / {studyCards.length}
+                        <div className="flex items-center gap-3">
+                          <div className="flex rounded-full bg-white/10 border border-white/10 p-0.5 text-[10px] font-black uppercase tracking-widest">
+                            {STUDY_MODES.map((m) => (
+                              <button
+                                key={m}
+                                type="button"
+                                onClick={() => {
+                                  stopSpeaking();
+                                  setStudyMode(m);
+                                }}
+                                aria-pressed={studyMode === m}
+                                className={`px-3 py-1 rounded-full ${
+                                  studyMode === m ? "bg-white text-slate-900" : "text-white/70 hover:text-white"
+                                }`}
+                              >
+                                {STUDY_MODE_LABELS[m]}
+                              </button>
+                            ))}
+                          </div>
+                          <div className="text-white/80 text-xs font-black">
+                            {currentIndex + 1} / {studyCards.length}
+                          </div>
+                          <button
+                            type="button"
+                            onClick={() => setShortcutsOpen(true)}
+                            title="Keyboard shortcuts"
+                            aria-label="Keyboard shortcuts"
+                            className="hidden sm:block w-7 h-7 rounded-full bg-white/10 border border-white/10 text-white/70 text-xs font-black hover:text-white"
+                          >
+                            ?
+                          </button>
                         </div>
                       </div>
 
-                      <FlashcardComponent
-                        card={currentCard}
-                        isMastered={masteredIds.has(currentCard.id)}
-                        onMastered={() => toggleMastery(currentCard.id)}
-                        onExplain={handleExplain}
-                        onSpeak={handleSpeak}
-                        isSpeaking={isSpeaking}
-                        domainColor={getDomainColor(selectedDomainId)}
-                      />
+                      {cardMode === "cli" ? (
+                        <CliPracticeCard
+                          key={`${currentCard.id}:${gradedCount}`}
+                          card={currentCard}
+                          onGrade={(grade) => gradeCard(currentCard.id, grade)}
+                          onExplain={handleExplain}
+                          onSpeak={handleSpeak}
+                          isSpeaking={isSpeaking}
+                          domainColor={getDomainColor(currentCard.domainId || selectedDomainId)}
+                        />
+                      ) : cardMode === "type" ? (
+                        <TypedRecallCard
+                          key={`${currentCard.id}:${gradedCount}`}
+                          card={currentCard}
+                          onGrade={(grade) => gradeCard(currentCard.id, grade)}
+                          onExplain={handleExplain}
+                          onSpeak={handleSpeak}
+                          isSpeaking={isSpeaking}
+                          domainColor={getDomainColor(currentCard.domainId || selectedDomainId)}
+                        />
+                      ) : (
+                        <FlashcardComponent
+                          key={`${currentCard.id}:${gradedCount}`}
+                          card={currentCard}
+                          isMastered={isMastered(currentSchedule)}
+                          gradeHints={previewIntervals(currentSchedule, currentCard.id)}
+                          onGrade={(grade) => gradeCard(currentCard.id, grade)}
+                          onExplain={handleExplain}
+                          onPracticeCli={currentCard.cliConfig ? () => setStudyMode("cli") : undefined}
+                          onSpeak={handleSpeak}
+                          isSpeaking={isSpeaking}
+                          domainColor={getDomainColor(currentCard.domainId || selectedDomainId)}
+                          isFlipped={cardFlipped}
+                          onFlip={() => setCardFlipped((f) => !f)}
+                        />
+                      )}
 
                       <div className="flex items-center justify-center gap-6 pb-10">
                         <button
-                          onClick={() => {
-                            stopSpeaking();
-                            setCurrentIndex((prev) => (prev - 1 + studyCards.length) % studyCards.length);
-                          }}
+                          onClick={() => stepCard(-1)}
+                          aria-label="Previous card"
                           className="p-4 rounded-full bg-white/10 border border-white/10 text-white hover:bg-white/15"
                         >
                           ‹
                         </button>
 
                         <button
-                          onClick={() => {
-                            stopSpeaking();
-                            setCurrentIndex((prev) => (prev + 1) % studyCards.length);
-                          }}
+                          onClick={() => stepCard(1)}
+                          aria-label="Next card"
                           className="p-4 rounded-full bg-white/10 border border-white/10 text-white hover:bg-white/15"
                         >
                           ›
@@ -650,29 +1407,19 @@ export default function App() {
                     <div className="text-5xl mb-4">👑</div>
                     <div className="text-2xl font-black">Unlock Pro</div>
                     <p className="text-white/70 text-sm mt-2">
-                      The deck <b className="text-white">"{attemptedDeckName}"</b> is part of CCNA Mastery Pro.
+                      {attemptedDeckId ? "The deck " : ""}
+                      <b className="text-white">"{attemptedDeckName}"</b> is part of CCNA Mastery Pro.
                     </p>
 
                     <button
-                      onClick={() => {
-                       const uid = clerkUser?.id;
-                       const email = clerkUser?.primaryEmailAddress?.emailAddress;
-
-                       if (!uid) {
-                         alert("Please sign in to purchase Pro.");
-                         return;
-                      }
-
-                      startStripeCheckout(uid, email);
-                     }}
-
+                      onClick={upgradeToPro}
                       className="mt-6 w-full py-4 rounded-2xl bg-amber-400 text-amber-900 font-black shadow-lg hover:opacity-95"
                     >
                       Pay $39 to Unlock Pro
                     </button>
 
                     <button
-                      onClick={() => setView("deckSelect")}
+                      onClick={() => setView(paywallReturnView)}
                       className="mt-3 w-full py-3 rounded-2xl bg-white/10 border border-white/10 text-white font-black hover:bg-white/15"
                     >
                       Maybe later
@@ -683,17 +1430,24 @@ export default function App() {
             </div>
 
             {/* AI Tutor Modal */}
-            {(aiExplanation || aiLoading) && (
+            {(aiExplanation || aiLoading || aiLimit || aiOffline) && (
               <StudyAssistant
                 concept={currentConcept}
                 result={aiExplanation}
                 loading={aiLoading}
-                onClose={() => {
-                  setAiExplanation(null);
-                  setAiLoading(false);
-                }}
+                limit={aiLimit}
+                offline={aiOffline}
+                onUpgrade={upgradeToPro}
+                chatContext={currentCard && !isCustomCardId(currentCard.id) ? { cardId: currentCard.id } : undefined}
+                objective={currentCard?.objective}
+                onQuizComplete={recordQuiz}
+                onClose={closeTutor}
               />
             )}
+
+            {shortcutsOpen && (
+              <ShortcutOverlay shortcuts={shortcuts} onChange={setShortcuts} onClose={() => setShortcutsOpen(false)} />
+            )}
           </div>
         </div>
       </SignedIn>
@@ -0,0 +1,152 @@
+// api/_lib/aiAccess.ts
+// Gatekeeper for the AI endpoints: model allowlist, per-IP and per-user rate limits,
+// Clerk sign-in and a daily quota that depends on the plan.
+// Counters live in the key/value store and are bumped with its atomic incr, then compared,
+// so concurrent requests can't both slip under a limit.
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { getVerifiedUserId } from "./auth";
+import { getEntitlementStore } from "./entitlements";
+import { getKeyValueStore } from "./kv";
+
+export type AiPlan = "free" | "pro";
+
+export type AiDenialCode = "unauthorized" | "rate_limited" | "daily_quota" | "model_not_allowed" | "pro_required";
+
+/** JSON body of every refusal; the client turns it into a TutorLimitError. */
+export type AiDenial = {
+  status: number;
+  body: {
+    error: string;
+    code: AiDenialCode;
+    retryAfterSeconds?: number;
+    plan?: AiPlan;
+    limit?: number;
+    upgrade?: boolean; // true when Pro would lift the limit
+    allowedModels?: string[];
+  };
+};
+
+export type AiAccess = { userId: string; plan: AiPlan };
+
+type RateWindow = { limit: number; seconds: number };
+
+const IP_WINDOW: RateWindow = { limit: 30, seconds: 60 };
+const USER_WINDOW: RateWindow = { limit: 10, seconds: 60 };
+const DEFAULT_DAILY_QUOTA: Record<AiPlan, number> = { free: 25, pro: 400 };
+const DEFAULT_ALLOWED_MODELS = ["gemini-2.5-flash", "gemini-2.5-flash-lite"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const limits = () => getKeyValueStore("ai-limits");
+
+export function allowedModels(): string[] {
+  const fromEnv = (process.env.AI_ALLOWED_MODELS || "")
+    .split(",")
+    .map((m) => m.trim())
+    .filter(Boolean);
+  return fromEnv.length ? fromEnv : DEFAULT_ALLOWED_MODELS;
+}
+
+export function dailyQuota(plan: AiPlan): number {
+  const env = Number(plan === "pro" ? process.env.AI_DAILY_QUOTA_PRO : process.env.AI_DAILY_QUOTA_FREE);
+  return Number.isFinite(env) && env > 0 ? Math.floor(env) : DEFAULT_DAILY_QUOTA[plan];
+}
+
+function clientIp(req: VercelRequest): string {
+  const forwarded = req.headers["x-forwarded-for"];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(",")[0]?.trim();
+  return first || req.socket?.remoteAddress || "unknown";
+}
+
+/** Counts one request in the current fixed window; returns the seconds to wait when it's over the limit. */
+async function takeSlot(key: string, window: RateWindow, now = Date.now()): Promise<number> {
+  const windowMs = window.seconds * 1000;
+  const index = Math.floor(now / windowMs);
+  const count = await limits().incr(`${key}:${index}`, { ttlSeconds: window.seconds * 2 });
+  if (count <= window.limit) return 0;
+  return Math.max(1, Math.ceil(((index + 1) * windowMs - now) / 1000));
+}
+
+const rateLimited = (retryAfterSeconds: number): AiDenial => ({
+  status: 429,
+  body: {
+    error: "Too many AI requests. Slow down for a moment.",
+    code: "rate_limited",
+    retryAfterSeconds,
+  },
+});
+
+/**
+ * Per-request checks, cheapest first. Returns the caller's identity and plan, or the refusal to send.
+ * `requestedModel` is the raw client value; an empty value means "server default".
+ */
+export async function checkAiAccess(req: VercelRequest, requestedModel?: unknown): Promise<AiAccess | AiDenial> {
+  const model = typeof requestedModel === "string" ? requestedModel.trim() : "";
+  const allowed = allowedModels();
+  if (model && !allowed.includes(model)) {
+    return {
+      status: 400,
+      body: { error: `Model "${model}" is not allowed`, code: "model_not_allowed", allowedModels: allowed },
+    };
+  }
+
+  const ipWait = await takeSlot(`ip:${clientIp(req)}`, IP_WINDOW);
+  if (ipWait > 0) return rateLimited(ipWait);
+
+  const userId = await getVerifiedUserId(req);
+  if (!userId) {
+    return { status: 401, body: { error: "Sign in to use the AI tutor.", code: "unauthorized" } };
+  }
+
+  const userWait = await takeSlot(`user:${userId}`, USER_WINDOW);
+  if (userWait > 0) return rateLimited(userWait);
+
+  const entitlement = await getEntitlementStore().get(userId);
+  return { userId, plan: entitlement?.isPro ? "pro" : "free" };
+}
+
+/**
+ * Counts one model call against today's (UTC) quota. Call it only when the model will actually
+ * run, so cached answers stay free.
+ */
+export async function consumeDailyQuota(access: AiAccess, now = Date.now()): Promise<AiDenial | null> {
+  const day = new Date(now).toISOString().slice(0, 10);
+  const key = `day:${access.userId}:${day}`;
+  const limit = dailyQuota(access.plan);
+
+  // counted before the check; a refused request's count doesn't matter, the day is used up anyway
+  const used = await limits().incr(key, { ttlSeconds: 2 * 24 * 60 * 60 });
+  if (used > limit) {
+    const nextDay = Math.floor(now / DAY_MS + 1) * DAY_MS;
+    return {
+      status: 429,
+      body: {
+        error:
+          access.plan === "free"
+            ? `You've used all ${limit} free AI requests for today.`
+            : `You've reached today's limit of ${limit} AI requests.`,
+        code: "daily_quota",
+        retryAfterSeconds: Math.ceil((nextDay - now) / 1000),
+        plan: access.plan,
+        limit,
+        upgrade: access.plan === "free",
+      },
+    };
+  }
+
+  return null;
+}
+
+/** The card belongs to a Pro deck and the caller is on the free plan. */
+export const proRequired = (): AiDenial => ({
+  status: 403,
+  body: { error: "This card is part of CCNA Mastery Pro.", code: "pro_required", plan: "free", upgrade: true },
+});
+
+export const isAiDenial = (x: AiAccess | AiDenial): x is AiDenial => "status" in x;
+
+export function sendAiDenial(res: VercelResponse, denial: AiDenial) {
+  if (denial.body.retryAfterSeconds) res.setHeader("Retry-After", String(denial.body.retryAfterSeconds));
+  res.setHeader("Cache-Control", "no-store");
+  return res.status(denial.status).json(denial.body);
+}
@@ -0,0 +1,34 @@
+// api/_lib/auth.ts
+import type { VercelRequest } from "@vercel/node";
+import { verifyToken } from "@clerk/backend";
+
+function getSessionToken(req: VercelRequest): string | null {
+  const header = req.headers.authorization;
+  if (typeof header === "string" && header.startsWith("Bearer ")) {
+    const token = header.slice("Bearer ".length).trim();
+    if (token) return token;
+  }
+
+  // same-origin requests also carry Clerk's session cookie
+  const cookie = req.cookies?.__session;
+  return typeof cookie === "string" && cookie ? cookie : null;
+}
+
+/**
+ * Verifies the Clerk session token on the request and returns the user id (JWT `sub`).
+ * Returns null for a missing/invalid token; throws only if the server is misconfigured.
+ */
+export async function getVerifiedUserId(req: VercelRequest): Promise<string | null> {
+  const secretKey = process.env.CLERK_SECRET_KEY;
+  if (!secretKey) throw new Error("Missing CLERK_SECRET_KEY environment variable");
+
+  const token = getSessionToken(req);
+  if (!token) return null;
+
+  try {
+    const payload = await verifyToken(token, { secretKey });
+    return typeof payload.sub === "string" && payload.sub ? payload.sub : null;
+  } catch {
+    return null;
+  }
+}
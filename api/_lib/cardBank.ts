@@ -0,0 +1,63 @@
+// api/_lib/cardBank.ts
+// Server-side read of the published card bank (the same CSVs the client loads from /data),
+// so prompts are built from trusted card data rather than text sent by the browser.
+// Vercel bundles public/data with the AI functions via `includeFiles` in vercel.json.
+import { promises as fs } from "fs";
+import path from "path";
+import type { Card } from "../../types";
+import { compareCards, isPremiumValue, isPublished } from "../../services/cards";
+import { parseCSV, recordsToRows } from "../../services/csvParser";
+import { validateCards, validateDecks } from "../../services/cardValidation";
+
+export type CardBank = {
+  byId: Map<string, Card>;
+  premiumDeckIds: Set<string>;
+};
+
+let bank: Promise<CardBank> | null = null;
+
+async function readCsv(file: "decks.csv" | "cards.csv") {
+  const dir = process.env.CARD_DATA_DIR || path.join(process.cwd(), "public", "data");
+  const text = await fs.readFile(path.join(dir, file), "utf8");
+  return recordsToRows(parseCSV(text), file);
+}
+
+async function loadBank(): Promise<CardBank> {
+  const [deckFile, cardFile] = await Promise.all([readCsv("decks.csv"), readCsv("cards.csv")]);
+  const decks = validateDecks(deckFile.rows, deckFile.headers).items;
+  const cards = validateCards(cardFile.rows, cardFile.headers, new Set(decks.map((d) => d.deck_id)))
+    .items.filter(isPublished)
+    .sort(compareCards);
+
+  return {
+    byId: new Map(cards.map((c) => [c.card_id, c])),
+    premiumDeckIds: new Set(decks.filter((d) => isPremiumValue(d.is_premium)).map((d) => d.deck_id)),
+  };
+}
+
+/** Loaded once per function instance; a failed load is retried on the next call. */
+export function getCardBank(): Promise<CardBank> {
+  if (!bank) {
+    bank = loadBank().catch((e) => {
+      bank = null;
+      throw e;
+    });
+  }
+  return bank;
+}
+
+export async function getCard(cardId: string): Promise<{ card: Card; premium: boolean } | null> {
+  const { byId, premiumDeckIds } = await getCardBank();
+  const card = byId.get(cardId);
+  if (!card) return null;
+  // same rule as the client: premium is decided per deck
+  return { card, premium: premiumDeckIds.has(card.deck_id) };
+}
+
+/** Published cards tagged with this objective (e.g. "1.4"), in card bank order. */
+export async function getObjectiveCards(code: string): Promise<{ card: Card; premium: boolean }[]> {
+  const { byId, premiumDeckIds } = await getCardBank();
+  return [...byId.values()]
+    .filter((c) => (c.objective || "").trim() === code)
+    .map((card) => ({ card, premium: premiumDeckIds.has(card.deck_id) }));
+}
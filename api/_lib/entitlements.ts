@@ -0,0 +1,53 @@
+// api/_lib/entitlements.ts
+// Pro entitlement store. The webhook is the only writer; /api/pro-status is the only reader.
+import { getKeyValueStore, type KeyValueStore } from "./kv";
+
+export type Entitlement = {
+  userId: string;
+  isPro: boolean;
+  source: "stripe";
+  sourceId: string; // checkout session id
+  eventId: string; // Stripe event that granted it
+  grantedAt: string; // ISO
+};
+
+/** Implement this to back entitlements with a database instead of a key/value store. */
+export interface EntitlementStore {
+  get(userId: string): Promise<Entitlement | null>;
+  /** Returns false when this event id was already applied (Stripe retries deliveries). */
+  grantPro(input: { userId: string; eventId: string; sourceId: string }): Promise<boolean>;
+}
+
+export function createKeyValueEntitlementStore(kv: KeyValueStore): EntitlementStore {
+  return {
+    async get(userId) {
+      return kv.get<Entitlement>(`user:${userId}`);
+    },
+
+    async grantPro({ userId, eventId, sourceId }) {
+      const seen = await kv.get(`event:${eventId}`);
+      if (seen) return false;
+
+      const entitlement: Entitlement = {
+        userId,
+        isPro: true,
+        source: "stripe",
+        sourceId,
+        eventId,
+        grantedAt: new Date().toISOString(),
+      };
+
+      // write the entitlement first: if recording the event fails, a retry re-applies the same grant
+      await kv.set(`user:${userId}`, entitlement);
+      await kv.set(`event:${eventId}`, { userId, processedAt: entitlement.grantedAt });
+      return true;
+    },
+  };
+}
+
+let store: EntitlementStore | null = null;
+
+export function getEntitlementStore(): EntitlementStore {
+  if (!store) store = createKeyValueEntitlementStore(getKeyValueStore("entitlements"));
+  return store;
+}
@@ -0,0 +1,178 @@
+// api/_lib/kv.ts
+// Minimal key/value abstraction shared by server-side stores.
+// - "file": JSON file on disk (local dev; Vercel's FS is read-only outside /tmp)
+// - "kv":   Vercel KV / Upstash Redis REST API (production)
+import { promises as fs } from "fs";
+import path from "path";
+
+export interface KeyValueStore {
+  get<T = unknown>(key: string): Promise<T | null>;
+  set<T = unknown>(key: string, value: T, opts?: { ttlSeconds?: number }): Promise<void>;
+  delete(key: string): Promise<void>;
+  /** Atomically adds 1 and returns the new count; a key created by this call expires after ttlSeconds. */
+  incr(key: string, opts?: { ttlSeconds?: number }): Promise<number>;
+}
+
+/** ---------------------------
+ *  File adapter
+ *  --------------------------- */
+type FileEntry = { value: unknown; expiresAt: number | null };
+
+export function createFileStore(filePath: string): KeyValueStore {
+  // serialize writes within this process so concurrent requests don't clobber each other
+  let queue: Promise<unknown> = Promise.resolve();
+
+  async function readAll(): Promise<Record<string, FileEntry>> {
+    try {
+      const text = await fs.readFile(filePath, "utf8");
+      const parsed = JSON.parse(text);
+      return parsed && typeof parsed === "object" ? parsed : {};
+    } catch (e: any) {
+      if (e?.code === "ENOENT") return {};
+      throw e;
+    }
+  }
+
+  async function writeAll(data: Record<string, FileEntry>) {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tmp = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(data, null, 2), "utf8");
+    await fs.rename(tmp, filePath);
+  }
+
+  function mutate<R>(fn: (data: Record<string, FileEntry>) => R): Promise<R> {
+    const next = queue.then(async () => {
+      const data = await readAll();
+      const result = fn(data);
+      await writeAll(data);
+      return result;
+    });
+    queue = next.catch(() => {});
+    return next;
+  }
+
+  return {
+    async get<T>(key: string) {
+      await queue;
+      const entry = (await readAll())[key];
+      if (!entry) return null;
+      if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) return null;
+      return entry.value as T;
+    },
+    async set(key, value, opts) {
+      const expiresAt = opts?.ttlSeconds ? Date.now() + opts.ttlSeconds * 1000 : null;
+      await mutate((data) => {
+        data[key] = { value, expiresAt };
+      });
+    },
+    async delete(key) {
+      await mutate((data) => {
+        delete data[key];
+      });
+    },
+    incr(key, opts) {
+      return mutate((data) => {
+        const entry = data[key];
+        const live = entry && (entry.expiresAt === null || entry.expiresAt > Date.now());
+        if (live) {
+          entry.value = (Number(entry.value) || 0) + 1;
+          return entry.value as number;
+        }
+        data[key] = { value: 1, expiresAt: opts?.ttlSeconds ? Date.now() + opts.ttlSeconds * 1000 : null };
+        return 1;
+      });
+    },
+  };
+}
+
+/** ---------------------------
+ *  Vercel KV / Upstash REST adapter
+ *  --------------------------- */
+export function createKvRestStore(baseUrl: string, token: string): KeyValueStore {
+  async function command(args: (string | number)[]) {
+    const r = await fetch(baseUrl, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${token}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(args),
+    });
+
+    const data = await r.json().catch(() => null);
+    if (!r.ok || data?.error) {
+      throw new Error(`KV command ${args[0]} failed: ${data?.error || r.status}`);
+    }
+    return data?.result;
+  }
+
+  return {
+    async get<T>(key: string) {
+      const raw = await command(["GET", key]);
+      if (raw === null || raw === undefined) return null;
+      try {
+        return JSON.parse(raw) as T;
+      } catch {
+        return null;
+      }
+    },
+    async set(key, value, opts) {
+      const args: (string | number)[] = ["SET", key, JSON.stringify(value)];
+      if (opts?.ttlSeconds) args.push("EX", Math.max(1, Math.round(opts.ttlSeconds)));
+      await command(args);
+    },
+    async delete(key) {
+      await command(["DEL", key]);
+    },
+    async incr(key, opts) {
+      const count = Number(await command(["INCR", key]));
+      // only the call that created the key sets its expiry, so later ones don't push it back
+      if (count === 1 && opts?.ttlSeconds) await command(["EXPIRE", key, Math.max(1, Math.round(opts.ttlSeconds))]);
+      return count;
+    },
+  };
+}
+
+/** ---------------------------
+ *  Factory (selected by env)
+ *  --------------------------- */
+const stores = new Map<string, KeyValueStore>();
+
+/**
+ * Returns the store for a namespace ("entitlements", "progress", …).
+ * STORE_BACKEND=file|kv forces a backend; otherwise KV is used when its REST credentials exist
+ * (required on Vercel, where the file backend is never picked silently).
+ */
+export function getKeyValueStore(namespace: string): KeyValueStore {
+  const existing = stores.get(namespace);
+  if (existing) return existing;
+
+  const kvUrl = process.env.KV_REST_API_URL;
+  const kvToken = process.env.KV_REST_API_TOKEN;
+  const backend = process.env.STORE_BACKEND || (kvUrl && kvToken ? "kv" : "file");
+
+  let store: KeyValueStore;
+  if (backend === "kv") {
+    if (!kvUrl || !kvToken) throw new Error("Missing KV_REST_API_URL / KV_REST_API_TOKEN environment variables");
+    store = prefixed(createKvRestStore(kvUrl, kvToken), `ccna:${namespace}:`);
+  } else {
+    // Vercel's filesystem is read-only and per-instance, so a silent file fallback would lose data
+    if (!process.env.STORE_BACKEND && process.env.VERCEL) {
+      throw new Error("Missing KV_REST_API_URL / KV_REST_API_TOKEN environment variables (required on Vercel)");
+    }
+    const dir = process.env.DATA_DIR || path.join(process.cwd(), ".data");
+    store = createFileStore(path.join(dir, `${namespace}.json`));
+  }
+
+  stores.set(namespace, store);
+  return store;
+}
+
+function prefixed(store: KeyValueStore, prefix: string): KeyValueStore {
+  return {
+    get: (key) => store.get(prefix + key),
+    set: (key, value, opts) => store.set(prefix + key, value, opts),
+    delete: (key) => store.delete(prefix + key),
+    incr: (key, opts) => store.incr(prefix + key, opts),
+  };
+}
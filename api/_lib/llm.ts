@@ -0,0 +1,248 @@
+// api/_lib/llm.ts
+// Minimal LLM provider abstraction used by the tutor endpoints.
+// - "gemini": Google Generative Language REST API (production)
+// - "openai": any OpenAI-compatible /chat/completions server (Ollama, llama.cpp, vLLM …)
+// - "mock":   deterministic fixtures, no network (offline dev and tests)
+import { mockResponseFor } from "./llmFixtures";
+
+export type GenerateOptions = {
+  model: string;
+  json?: boolean; // ask the model for a single JSON object
+  maxOutputTokens?: number;
+  temperature?: number;
+};
+
+export interface LlmProvider {
+  name: "gemini" | "openai" | "mock";
+  /** Picks the model to run; providers may ignore models they can't serve. */
+  resolveModel(requested?: string): string;
+  generate(prompt: string, opts: GenerateOptions): Promise<string>;
+  /** Calls onText with each text delta and resolves with the full text. Throws if streaming is unavailable. */
+  stream(prompt: string, opts: GenerateOptions, onText: (text: string) => void): Promise<string>;
+}
+
+/** Upstream rejected the request; `status`/`details` are passed through to the API response. */
+export class LlmError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = "LlmError";
+  }
+}
+
+const DEFAULT_MAX_OUTPUT_TOKENS = 1100;
+const DEFAULT_TEMPERATURE = 0.6;
+
+/** Reads an SSE response body line by line and hands each `data:` payload to onData. */
+async function readSseData(body: ReadableStream<Uint8Array>, onData: (payload: string) => void) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const handleLine = (line: string) => {
+    if (!line.startsWith("data:")) return;
+    const payload = line.slice(5).trim();
+    if (payload && payload !== "[DONE]") onData(payload);
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() ?? "";
+    lines.forEach(handleLine);
+  }
+  handleLine(buffer + decoder.decode());
+}
+
+/** ---------------------------
+ *  Gemini adapter
+ *  --------------------------- */
+const GEMINI_API_BASE = "https://generativelanguage.googleapis.com/v1beta";
+
+export function createGeminiProvider(key: string, defaultModel = "gemini-2.5-flash"): LlmProvider {
+  const requestBody = (prompt: string, opts: GenerateOptions) =>
+    JSON.stringify({
+      contents: [{ parts: [{ text: prompt }] }],
+      generationConfig: {
+        // near-zero cutoffs + still fast
+        maxOutputTokens: opts.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS,
+        temperature: opts.temperature ?? DEFAULT_TEMPERATURE,
+
+        // IMPORTANT: force JSON output
+        ...(opts.json ? { responseMimeType: "application/json" } : {}),
+      },
+    });
+
+  const call = (method: string, prompt: string, opts: GenerateOptions) =>
+    fetch(`${GEMINI_API_BASE}/models/${encodeURIComponent(opts.model)}:${method}`, {
+      method: "POST",
+      headers: {
+        "x-goog-api-key": key,
+        "Content-Type": "application/json",
+      },
+      body: requestBody(prompt, opts),
+    });
+
+  const textOf = (data: any): string => {
+    const parts = data?.candidates?.[0]?.content?.parts;
+    if (!Array.isArray(parts)) return "";
+    return parts.map((p: any) => p?.text).filter(Boolean).join("");
+  };
+
+  return {
+    name: "gemini",
+    resolveModel: (requested) => requested?.trim() || process.env.GEMINI_MODEL || defaultModel,
+
+    async generate(prompt, opts) {
+      const r = await call("generateContent", prompt, opts);
+      const data = await r.json().catch(() => null);
+      if (!r.ok) throw new LlmError("Gemini request failed", r.status, data);
+      return textOf(data);
+    },
+
+    async stream(prompt, opts, onText) {
+      const r = await call("streamGenerateContent?alt=sse", prompt, opts);
+      if (!r.ok || !r.body) throw new LlmError(`Gemini stream failed (${r.status})`, r.status);
+
+      let full = "";
+      await readSseData(r.body, (payload) => {
+        try {
+          const text = textOf(JSON.parse(payload));
+          if (text) {
+            full += text;
+            onText(text);
+          }
+        } catch {
+          // ignore keep-alives / partial frames
+        }
+      });
+      return full;
+    },
+  };
+}
+
+/** ---------------------------
+ *  OpenAI-compatible adapter
+ *  --------------------------- */
+export function createOpenAiCompatibleProvider(baseUrl: string, model: string, apiKey?: string): LlmProvider {
+  const url = `${baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  const call = (prompt: string, opts: GenerateOptions, stream: boolean) =>
+    fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: opts.model,
+        messages: [{ role: "user", content: prompt }],
+        max_tokens: opts.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS,
+        temperature: opts.temperature ?? DEFAULT_TEMPERATURE,
+        stream,
+        ...(opts.json ? { response_format: { type: "json_object" } } : {}),
+      }),
+    });
+
+  return {
+    name: "openai",
+    // local servers only have what's been pulled, so the configured model always wins
+    resolveModel: () => model,
+
+    async generate(prompt, opts) {
+      const r = await call(prompt, opts, false);
+      const data = await r.json().catch(() => null);
+      if (!r.ok) throw new LlmError("LLM request failed", r.status, data);
+      return String(data?.choices?.[0]?.message?.content ?? "");
+    },
+
+    async stream(prompt, opts, onText) {
+      const r = await call(prompt, opts, true);
+      if (!r.ok || !r.body) throw new LlmError(`LLM stream failed (${r.status})`, r.status);
+
+      let full = "";
+      await readSseData(r.body, (payload) => {
+        try {
+          const text = JSON.parse(payload)?.choices?.[0]?.delta?.content;
+          if (typeof text === "string" && text) {
+            full += text;
+            onText(text);
+          }
+        } catch {
+          // ignore keep-alives / partial frames
+        }
+      });
+      return full;
+    },
+  };
+}
+
+/** ---------------------------
+ *  Mock adapter (fixtures)
+ *  --------------------------- */
+const MOCK_CHUNK_CHARS = 24;
+
+export function createMockProvider(delayMs = 0): LlmProvider {
+  const wait = () => (delayMs > 0 ? new Promise((r) => setTimeout(r, delayMs)) : Promise.resolve());
+
+  return {
+    name: "mock",
+    resolveModel: () => "mock",
+
+    async generate(prompt) {
+      await wait();
+      return mockResponseFor(prompt);
+    },
+
+    async stream(prompt, _opts, onText) {
+      const text = mockResponseFor(prompt);
+      for (let i = 0; i < text.length; i += MOCK_CHUNK_CHARS) {
+        await wait();
+        onText(text.slice(i, i + MOCK_CHUNK_CHARS));
+      }
+      return text;
+    },
+  };
+}
+
+/** ---------------------------
+ *  Factory (selected by env)
+ *  --------------------------- */
+let provider: LlmProvider | null = null;
+
+/**
+ * LLM_PROVIDER=gemini|openai|mock selects the provider. Without it, Gemini is used when
+ * GEMINI_API_KEY is set and the mock otherwise (never silently in production).
+ */
+export function getLlmProvider(): LlmProvider {
+  if (provider) return provider;
+
+  const geminiKey = process.env.GEMINI_API_KEY;
+  const name = process.env.LLM_PROVIDER || (geminiKey ? "gemini" : "mock");
+
+  if (name === "gemini") {
+    if (!geminiKey) throw new Error("Missing GEMINI_API_KEY environment variable");
+    provider = createGeminiProvider(geminiKey);
+  } else if (name === "openai") {
+    provider = createOpenAiCompatibleProvider(
+      process.env.OPENAI_BASE_URL || "http://localhost:11434/v1",
+      process.env.OPENAI_MODEL || "llama3.1",
+      process.env.OPENAI_API_KEY
+    );
+  } else if (name === "mock") {
+    if (!process.env.LLM_PROVIDER && process.env.VERCEL_ENV === "production") {
+      throw new Error("Missing GEMINI_API_KEY environment variable");
+    }
+    provider = createMockProvider(Number(process.env.MOCK_LLM_DELAY_MS) || 0);
+  } else {
+    throw new Error(`Unknown LLM_PROVIDER "${name}" (expected gemini, openai or mock)`);
+  }
+
+  return provider;
+}
@@ -0,0 +1,107 @@
+// api/_lib/llmFixtures.ts
+// Canned responses for the mock LLM provider. Selection is deterministic: the request kind is
+// read from the JSON schema in the prompt, then the first fixture whose pattern matches wins.
+// MOCK_LLM_TUTOR_FIXTURE=<name> replays one of the malformed outputs in services/tutorFixtures.ts
+// for every explain request (repairs included), to exercise the parser end to end.
+import { TUTOR_FIXTURES as MALFORMED_TUTOR_OUTPUTS } from "../../services/tutorFixtures";
+
+type Fixture = { match: RegExp; response: unknown };
+
+const TUTOR_FIXTURES: Fixture[] = [
+  {
+    match: /\bospf\b/i,
+    response: {
+      title: "OSPF in a nutshell",
+      simpleExplanation:
+        "OSPF is a link-state routing protocol. Every router floods link-state advertisements, builds the same map of the area and runs SPF (Dijkstra) to pick the lowest-cost path to each network.",
+      realWorldExample:
+        "A campus with three buildings runs OSPF area 0 on its core routers; when a fibre link fails, neighbours notice within the dead interval and traffic shifts to the backup path in seconds.",
+      keyCommands: ["router ospf 1", "network 10.0.0.0 0.0.0.255 area 0", "show ip ospf neighbor", "show ip route ospf"],
+      commonMistakes: [
+        "Mismatched hello/dead timers or area IDs, so neighbours never reach FULL",
+        "Forgetting that the wildcard mask is inverted compared to a subnet mask",
+      ],
+      quickCheck: ["Q: What metric does OSPF use? A: Cost, based on interface bandwidth", "Q: Default hello on broadcast links? A: 10 seconds"],
+    },
+  },
+  {
+    match: /\bvlan/i,
+    response: {
+      title: "VLANs",
+      simpleExplanation:
+        "A VLAN splits one physical switch into several logical broadcast domains. Ports in different VLANs can't talk without a router or Layer 3 switch.",
+      realWorldExample: "An office puts staff PCs in VLAN 10, phones in VLAN 20 and guest Wi-Fi in VLAN 99 on the same access switches.",
+      keyCommands: ["vlan 10", "switchport mode access", "switchport access vlan 10", "show vlan brief"],
+      commonMistakes: ["Creating the VLAN on one switch but not the others on the trunk path", "Native VLAN mismatch on 802.1Q trunks"],
+      quickCheck: ["Q: What separates VLAN traffic on a trunk? A: The 802.1Q tag", "Q: Default VLAN? A: VLAN 1"],
+    },
+  },
+];
+
+const DEFAULT_TUTOR_RESPONSE = {
+  title: "Mock tutor",
+  simpleExplanation:
+    "This is a canned explanation from the mock LLM provider. Set LLM_PROVIDER=gemini (or openai) to get real answers.",
+  realWorldExample: "Use it to work on the tutor UI offline: streaming, follow-ups and error handling all behave like the real thing.",
+  keyCommands: ["show running-config", "show ip interface brief"],
+  commonMistakes: ["Forgetting the mock is on when answers look generic"],
+  quickCheck: ["Q: Which provider is active? A: mock"],
+};
+
+const DEFAULT_CHAT_RESPONSE = {
+  reply: "Mock tutor here: good question! With a real provider this would answer your follow-up using the card and earlier messages.",
+  summary: "Student asked a follow-up; mock provider replied.",
+};
+
+// cardId is filled in from the first card in the prompt
+const QUIZ_RESPONSE = {
+  items: [
+    {
+      type: "mcq",
+      stem: "Which device forwards packets between different IP networks?",
+      options: ["Hub", "Layer 2 switch", "Router", "Repeater"],
+      correctIndex: 2,
+      rationale: "Routers make Layer 3 forwarding decisions using the destination IP address and the routing table.",
+    },
+    {
+      type: "mcq",
+      stem: "Which command shows the interfaces and their IP addresses in a compact table?",
+      options: ["show running-config", "show ip interface brief", "show vlan brief", "show version"],
+      correctIndex: 1,
+      rationale: "show ip interface brief lists each interface with its IP address and status on one line.",
+    },
+    {
+      type: "dragdrop",
+      stem: "Order the OSI layers from Layer 1 upwards.",
+      options: ["Physical", "Data Link", "Network", "Transport"],
+      rationale: "Physical (1), Data Link (2), Network (3) and Transport (4) are the bottom four layers.",
+    },
+  ],
+};
+
+// Only the card part of the prompt (see api/_lib/prompts.ts), so words in the instructions don't pick a fixture
+function userPart(prompt: string) {
+  const idx = prompt.search(/FLASHCARD QUESTION:/);
+  return idx >= 0 ? prompt.slice(idx) : prompt;
+}
+
+export function mockResponseFor(prompt: string): string {
+  if (prompt.includes('"reply"')) return JSON.stringify(DEFAULT_CHAT_RESPONSE);
+  if (prompt.includes('"items"')) {
+    const cardId = prompt.match(/CARD ID: (\S+)/)?.[1];
+    return JSON.stringify({ items: QUIZ_RESPONSE.items.map((item) => ({ ...item, cardId })) });
+  }
+
+  const replay = process.env.MOCK_LLM_TUTOR_FIXTURE?.trim();
+  if (replay) {
+    const malformed = MALFORMED_TUTOR_OUTPUTS.find((f) => f.name === replay);
+    if (malformed) return malformed.raw;
+    console.warn(`Unknown MOCK_LLM_TUTOR_FIXTURE "${replay}"; using the normal fixtures.`);
+  }
+
+  const subject = userPart(prompt);
+  const fixture = TUTOR_FIXTURES.find((f) => f.match.test(subject));
+  const response = fixture?.response ?? DEFAULT_TUTOR_RESPONSE;
+
+  return JSON.stringify(response);
+}
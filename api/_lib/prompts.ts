@@ -0,0 +1,192 @@
+// api/_lib/prompts.ts
+// Every prompt the server sends to a model lives here. Clients send typed requests
+// ({ kind: "explain", cardId }) and never prompt text, so these templates are the only
+// instructions the model sees.
+//
+// Bump `version` when changing a template's wording or output shape; the version (and a hash
+// of the render function) is part of the tutor cache key, so stale answers aren't served.
+import type { Card } from "../../types";
+
+export interface PromptTemplate<I> {
+  id: string;
+  version: number;
+  render(input: I): string;
+}
+
+/** Requests the client may send to /api/gemini. */
+export type TutorRequest =
+  | { kind: "explain"; cardId: string }
+  | { kind: "quiz"; cardId: string }
+  | { kind: "quiz"; objective: string };
+
+const nonEmpty = (v: unknown): v is string => typeof v === "string" && v.trim() !== "";
+
+export function parseTutorRequest(body: any): TutorRequest | null {
+  if (body?.kind === "explain" && nonEmpty(body.cardId)) {
+    return { kind: "explain", cardId: body.cardId.trim() };
+  }
+  if (body?.kind === "quiz") {
+    if (nonEmpty(body.cardId)) return { kind: "quiz", cardId: body.cardId.trim() };
+    if (nonEmpty(body.objective)) return { kind: "quiz", objective: body.objective.trim() };
+  }
+  return null;
+}
+
+export const templateTag = (t: PromptTemplate<any>) => `${t.id}@v${t.version}`;
+
+const MAX_FIELD_CHARS = 2000;
+
+export const clip = (s: unknown, max: number) => {
+  const t = typeof s === "string" ? s.trim() : "";
+  return t.length > max ? `${t.slice(0, max)}…` : t;
+};
+
+/** Card fields as labelled blocks; empty fields are left out. */
+function cardBlock(card: Card) {
+  const fields: [string, string | undefined][] = [
+    ["FLASHCARD QUESTION", card.front],
+    ["FLASHCARD ANSWER", card.back],
+    ["CARD EXPLANATION", card.explanation],
+    ["CLI CONFIG", card.cli_config],
+    ["CLI VERIFY", card.cli_verify],
+    ["KNOWN MISTAKES", card.common_mistakes],
+    ["EXAM OBJECTIVE", [card.objective, card.subobjective].filter(Boolean).join(" / ")],
+  ];
+
+  return fields
+    .filter(([, v]) => v && v.trim())
+    .map(([label, v]) => `${label}:\n${clip(v, MAX_FIELD_CHARS)}`)
+    .join("\n\n");
+}
+
+/** ---------------------------
+ *  Explain a card
+ *  --------------------------- */
+export const explainCardTemplate: PromptTemplate<Card> = {
+  id: "explain-card",
+  version: 1,
+  render: (card) =>
+    `
+You are a CCNA tutor. Be clear, natural, and practical.
+Explain the concept behind the flashcard below to a student preparing for CCNA 200-301.
+
+Return ONLY valid JSON (no markdown, no code fences, no extra text):
+{
+  "title": string,
+  "simpleExplanation": string,
+  "realWorldExample": string,
+  "keyCommands": string[],
+  "commonMistakes": string[],
+  "quickCheck": string[]
+}
+
+RULES:
+- Every field must be present. Strings are plain text (no markdown headings, no hashtags).
+- keyCommands/commonMistakes/quickCheck are arrays; include at least 2 items each when relevant (empty array if none).
+- keyCommands: real IOS commands; prefer the card's CLI lines when given.
+- quickCheck: 2–4 short bullets like "Q: ... A: ...".
+- Keep it concise, practical, and human-sounding. Stay consistent with the card's answer.
+
+${cardBlock(card)}
+`.trim(),
+};
+
+/** ---------------------------
+ *  Practice quiz from one card or an objective
+ *  --------------------------- */
+export type QuizPromptInput = {
+  scope: string; // "this flashcard" / "exam objective 1.4 …"
+  cards: Card[];
+  itemCount: number;
+};
+
+export const quizTemplate: PromptTemplate<QuizPromptInput> = {
+  id: "quiz",
+  version: 1,
+  render: ({ scope, cards, itemCount }) =>
+    `
+You are a CCNA 200-301 exam writer. Write ${itemCount} practice questions about ${scope},
+grounded ONLY in the flashcards below (don't test facts they don't support).
+
+Return ONLY valid JSON (no markdown, no code fences, no extra text):
+{
+  "items": [
+    { "type": "mcq", "cardId": string, "stem": string, "options": string[], "correctIndex": number, "rationale": string },
+    { "type": "dragdrop", "cardId": string, "stem": string, "options": string[], "rationale": string }
+  ]
+}
+
+RULES:
+- Mostly "mcq": exactly 4 options, one correct, plausible distractors, "correctIndex" is 0-based.
+- Include one "dragdrop" item when the material has a natural order (steps, config sequence, OSI layers, election process):
+  list 3–6 "options" in the CORRECT order; the app shuffles them.
+- "cardId": the CARD ID the question is based on.
+- "rationale": 1–2 sentences explaining why the answer is right.
+- Plain text only. Don't repeat the flashcard question word for word.
+
+${cards.map((c) => `CARD ID: ${c.card_id}\n${cardBlock(c)}`).join("\n\n---\n\n")}
+`.trim(),
+};
+
+/** ---------------------------
+ *  One-time repair of malformed output
+ *  --------------------------- */
+export const repairTemplate: PromptTemplate<{ request: string; badOutput: string }> = {
+  id: "repair-json",
+  version: 1,
+  render: ({ request, badOutput }) =>
+    `
+You returned output that was missing fields or not valid JSON.
+
+Fix it and return ONLY valid JSON that matches the schema in the original request exactly.
+
+ORIGINAL REQUEST:
+${request}
+
+BAD OUTPUT:
+${badOutput}
+`.trim(),
+};
+
+/** ---------------------------
+ *  Follow-up chat
+ *  --------------------------- */
+export type ChatRole = "user" | "tutor";
+
+export type ChatMessage = { role: ChatRole; text: string };
+
+export type ChatPromptInput = {
+  card: Card;
+  tutorExplanation?: string; // the cached explanation of this card (api/_lib/tutorCache.ts), if any
+  summary: string;
+  history: ChatMessage[];
+  message: string;
+};
+
+export const chatTemplate: PromptTemplate<ChatPromptInput> = {
+  id: "tutor-chat",
+  version: 1,
+  render: ({ card, tutorExplanation, summary, history, message }) => {
+    const transcript = history.map((m) => `${m.role === "user" ? "STUDENT" : "TUTOR"}: ${m.text}`).join("\n\n");
+
+    return `
+You are a CCNA tutor answering a student's follow-up question about one flashcard.
+Return ONLY valid JSON (no markdown, no code fences, no extra text):
+{
+  "reply": string,
+  "summary": string
+}
+
+RULES:
+- "reply": answer the new question directly in plain text, 2–6 short paragraphs or bullet lines max. Include IOS commands when useful.
+- "summary": rewrite the conversation summary to include this exchange, under 80 words. Keep facts the student got wrong or asked about.
+- Stay on CCNA 200-301 topics; if the question is off-topic, say so briefly.
+
+${cardBlock(card)}
+${tutorExplanation ? `\nYOUR EARLIER EXPLANATION:\n${clip(tutorExplanation, MAX_FIELD_CHARS)}\n` : ""}
+${summary ? `CONVERSATION SO FAR (summary):\n${summary}\n` : ""}${transcript ? `\nRECENT MESSAGES:\n${transcript}\n` : ""}
+NEW QUESTION:
+${message}
+`.trim();
+  },
+};
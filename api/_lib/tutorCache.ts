@@ -0,0 +1,115 @@
+// api/_lib/tutorCache.ts
+// Shared cache of finished tutor explanations, so the same "What is OSPF?" is generated once
+// for everyone. Backed by the key/value store (JSON file locally, KV in production).
+//
+// Invalidation: the key includes the prompt version, so changing the template (its text is
+// hashed into the version) or bumping TUTOR_CACHE_VERSION orphans old entries until their TTL ends.
+import { createHash } from "crypto";
+import type { Card } from "../../types";
+import { validateTutorResult, type AiTutorResult } from "../../services/tutorSchema";
+import { getKeyValueStore, type KeyValueStore } from "./kv";
+import type { LlmProvider } from "./llm";
+import { explainCardTemplate, repairTemplate, templateTag } from "./prompts";
+
+export type TutorCacheKeyParts = {
+  concept?: string;
+  answerContext?: string;
+  prompt: string; // the rendered prompt, so card edits get fresh answers
+  promptVersion: string;
+  model: string;
+};
+
+const DEFAULT_TTL_SECONDS = 60 * 60 * 24 * 30; // 30 days
+
+const normalize = (s: string | undefined) => (s ?? "").trim().replace(/\s+/g, " ").toLowerCase();
+
+export const hashText = (s: string) => createHash("sha256").update(s).digest("hex");
+
+/** Version string for a prompt template: a manual tag plus a hash of the template text. */
+export function promptVersionOf(tag: string, ...templates: string[]) {
+  const envVersion = process.env.TUTOR_CACHE_VERSION ? `.${process.env.TUTOR_CACHE_VERSION}` : "";
+  return `${tag}${envVersion}.${hashText(templates.join("\u0000")).slice(0, 12)}`;
+}
+
+export function tutorCacheKey(parts: TutorCacheKeyParts) {
+  const material = [
+    parts.promptVersion,
+    parts.model,
+    normalize(parts.concept),
+    normalize(parts.answerContext),
+    normalize(parts.prompt),
+  ].join("\u0000");
+  return `${parts.promptVersion}:${hashText(material)}`;
+}
+
+/** Returns null when caching is switched off (TUTOR_CACHE=off). */
+export function getTutorCache(): { get<T>(key: string): Promise<T | null>; set<T>(key: string, value: T): Promise<void> } | null {
+  if (process.env.TUTOR_CACHE === "off") return null;
+
+  const store: KeyValueStore = getKeyValueStore("tutor-cache");
+  const ttlSeconds = Number(process.env.TUTOR_CACHE_TTL_SECONDS) || DEFAULT_TTL_SECONDS;
+
+  // cache failures must never break the tutor
+  return {
+    async get<T>(key: string) {
+      try {
+        return await store.get<T>(key);
+      } catch (e) {
+        console.warn("Tutor cache read failed:", e);
+        return null;
+      }
+    },
+    async set<T>(key: string, value: T) {
+      try {
+        await store.set(key, value, { ttlSeconds });
+      } catch (e) {
+        console.warn("Tutor cache write failed:", e);
+      }
+    },
+  };
+}
+
+/* -------------------- Card explanations (api/gemini.ts, read back by api/gemini-chat.ts) -------------------- */
+// Template version plus a hash of the render code: any prompt change invalidates cached explanations
+const TUTOR_PROMPT_VERSION = promptVersionOf(
+  `${templateTag(explainCardTemplate)}+${templateTag(repairTemplate)}`,
+  explainCardTemplate.render.toString(),
+  repairTemplate.render.toString()
+);
+
+export type TutorCacheEntry = { key: string; cache: NonNullable<ReturnType<typeof getTutorCache>> };
+
+export function tutorCacheFor(
+  llm: LlmProvider,
+  model: string,
+  card: Card,
+  prompt = explainCardTemplate.render(card)
+): TutorCacheEntry | null {
+  const cache = getTutorCache();
+  if (!cache) return null;
+
+  const key = tutorCacheKey({
+    concept: card.front,
+    answerContext: card.back,
+    prompt,
+    promptVersion: TUTOR_PROMPT_VERSION,
+    model: `${llm.name}:${model}`,
+  });
+  return { key, cache };
+}
+
+/** Cache entries are checked strictly; anything off (old shape, corruption) counts as a miss. */
+export async function readCachedTutor(entry: TutorCacheEntry | null): Promise<AiTutorResult | null> {
+  const value = entry ? await entry.cache.get<unknown>(entry.key) : null;
+  if (!value) return null;
+  try {
+    return validateTutorResult(value);
+  } catch {
+    return null;
+  }
+}
+
+/** Only clean results are cached; raw-text fallbacks get another chance next time. */
+export async function rememberTutor(entry: TutorCacheEntry | null, result: { data: AiTutorResult; raw?: string }) {
+  if (entry && !result.raw) await entry.cache.set(entry.key, result.data);
+}
@@ -0,0 +1,109 @@
+// api/gemini-chat.ts
+// Follow-up questions under an AI Tutor explanation.
+// Token use stays bounded: only the last few turns are sent verbatim, older turns live in a
+// running summary that the model rewrites on every reply (and the client sends back next time).
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { getLlmProvider, LlmError } from "./_lib/llm";
+import { checkAiAccess, consumeDailyQuota, isAiDenial, proRequired, sendAiDenial } from "./_lib/aiAccess";
+import { getCard } from "./_lib/cardBank";
+import { readCachedTutor, tutorCacheFor } from "./_lib/tutorCache";
+import { chatTemplate, clip, type ChatMessage, type ChatRole } from "./_lib/prompts";
+
+type ChatReply = { reply: string; summary: string };
+
+const MAX_RECENT_MESSAGES = 6;
+const MAX_MESSAGE_CHARS = 1500;
+const MAX_SUMMARY_CHARS = 1200;
+
+function sanitizeHistory(history: unknown): ChatMessage[] {
+  if (!Array.isArray(history)) return [];
+  return history
+    .filter((m) => m && (m.role === "user" || m.role === "tutor") && typeof m.text === "string" && m.text.trim())
+    .slice(-MAX_RECENT_MESSAGES)
+    .map((m) => ({ role: m.role as ChatRole, text: clip(m.text, MAX_MESSAGE_CHARS) }));
+}
+
+function parseChatReply(raw: string): ChatReply | null {
+  const first = raw.indexOf("{");
+  const last = raw.lastIndexOf("}");
+  if (first === -1 || last <= first) return null;
+
+  try {
+    const obj = JSON.parse(raw.slice(first, last + 1));
+    const reply = typeof obj?.reply === "string" ? obj.reply.trim() : "";
+    if (!reply) return null;
+    return { reply, summary: clip(obj?.summary, MAX_SUMMARY_CHARS) };
+  } catch {
+    return null;
+  }
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    const llm = getLlmProvider();
+
+    if (req.method !== "POST") {
+      return res.status(405).json({ error: "Method not allowed" });
+    }
+
+    const { cardId, summary, history, message, model } = (req.body ?? {}) as {
+      cardId?: string;
+      summary?: string;
+      history?: unknown;
+      message?: string;
+      model?: string;
+    };
+
+    if (!message || typeof message !== "string" || !message.trim()) {
+      return res.status(400).json({ error: "Missing 'message' in JSON body" });
+    }
+    if (!cardId || typeof cardId !== "string") {
+      return res.status(400).json({ error: "Missing 'cardId' in JSON body" });
+    }
+
+    const access = await checkAiAccess(req, model);
+    if (isAiDenial(access)) return sendAiDenial(res, access);
+
+    const found = await getCard(cardId);
+    if (!found) return res.status(404).json({ error: `Unknown card "${cardId}"` });
+    if (found.premium && access.plan !== "pro") return sendAiDenial(res, proRequired());
+
+    const overQuota = await consumeDailyQuota(access);
+    if (overQuota) return sendAiDenial(res, overQuota);
+
+    const chosenModel = llm.resolveModel(typeof model === "string" ? model : undefined);
+
+    // The explanation the student is asking about comes from the tutor cache, never from the client
+    const explained = await readCachedTutor(tutorCacheFor(llm, chosenModel, found.card));
+
+    const prompt = chatTemplate.render({
+      card: found.card,
+      tutorExplanation: explained?.simpleExplanation || undefined,
+      summary: clip(summary, MAX_SUMMARY_CHARS),
+      history: sanitizeHistory(history),
+      message: clip(message, MAX_MESSAGE_CHARS),
+    });
+
+    let raw: string;
+    try {
+      raw = await llm.generate(prompt, { model: chosenModel, json: true, maxOutputTokens: 800 });
+    } catch (e) {
+      if (!(e instanceof LlmError)) throw e;
+      return res.status(500).json({
+        error: e.message,
+        status: e.status,
+        details: e.details,
+        model: chosenModel,
+      });
+    }
+
+    const parsed = parseChatReply(raw);
+
+    // Unparseable output: show the text, keep the previous summary
+    const data: ChatReply = parsed ?? { reply: raw.trim() || "Sorry, I couldn't answer that.", summary: clip(summary, MAX_SUMMARY_CHARS) };
+
+    return res.status(200).json({ ok: true, provider: llm.name, model: chosenModel, data });
+  } catch (e: any) {
+    return res.status(500).json({ error: e?.message || "Server error" });
+  }
+}
@@ -1,213 +1,262 @@
 // api/gemini.ts
 import type { VercelRequest, VercelResponse } from "@vercel/node";
-
-const API_BASE = "https://generativelanguage.googleapis.com/v1beta";
-
-type TutorJSON = {
-  title: string;
-  simpleExplanation: string;
-  realWorldExample: string;
-  keyCommands: string[];
-  commonMistakes: string[];
-  quickCheck: string[];
-};
-
-function getKey() {
-  const key = process.env.GEMINI_API_KEY;
-  if (!key) throw new Error("Missing GEMINI_API_KEY environment variable");
-  return key;
+import { getLlmProvider, LlmError, type LlmProvider } from "./_lib/llm";
+import { readCachedTutor, rememberTutor, tutorCacheFor, type TutorCacheEntry } from "./_lib/tutorCache";
+import { checkAiAccess, consumeDailyQuota, isAiDenial, proRequired, sendAiDenial, type AiAccess } from "./_lib/aiAccess";
+import { getCard, getObjectiveCards } from "./_lib/cardBank";
+import {
+  explainCardTemplate,
+  parseTutorRequest,
+  quizTemplate,
+  repairTemplate,
+  type TutorRequest,
+} from "./_lib/prompts";
+import type { Card } from "../types";
+import { validateQuizItems } from "../services/quizSchema";
+import {
+  coerceTutorResult,
+  extractJsonObject,
+  missingSections,
+  parseTutorOutput,
+  TutorSchemaError,
+  type AiTutorResult,
+  type ParsedTutorOutput,
+} from "../services/tutorSchema";
+
+/** Model text → schema result, or null when there's nothing usable in it. */
+function parseTutor(raw: string): ParsedTutorOutput | null {
+  try {
+    return parseTutorOutput(raw);
+  } catch (e) {
+    if (e instanceof TutorSchemaError) return null;
+    throw e;
+  }
 }
 
-function safeJsonExtract(s: string): string | null {
-  if (!s) return null;
-  const first = s.indexOf("{");
-  const last = s.lastIndexOf("}");
-  if (first === -1 || last === -1 || last <= first) return null;
-  return s.slice(first, last + 1);
-}
+/**
+ * Parses the model output (services/tutorSchema.ts), with a one-time repair call when it isn't
+ * JSON or sections are missing. Always returns a structured object; `raw` is included only when
+ * the result had to be recovered from plain text.
+ */
+async function finalizeTutor(llm: LlmProvider, model: string, prompt: string, raw1: string): Promise<{ data: AiTutorResult; raw?: string }> {
+  let parsed = parseTutor(raw1);
+
+  if (!parsed || parsed.source !== "json" || missingSections(parsed.result).length > 0) {
+    try {
+      const repaired = parseTutor(await llm.generate(repairTemplate.render({ request: prompt, badOutput: raw1 }), { model, json: true }));
+      if (repaired?.source === "json") parsed = repaired;
+    } catch (e) {
+      console.warn("Repair call failed:", e);
+    }
+  }
 
-function tryParseTutorJSON(raw: string): TutorJSON | null {
-  // 1) direct JSON
-  try {
-    const obj = JSON.parse(raw);
-    return obj as TutorJSON;
-  } catch {}
+  // nothing usable even after the repair (empty output, "{}")
+  if (!parsed) {
+    return { data: coerceTutorResult({ simpleExplanation: "No explanation available." }).result, raw: raw1 };
+  }
 
-  // 2) extract { ... } region
-  const extracted = safeJsonExtract(raw);
-  if (!extracted) return null;
+  return parsed.source === "json" ? { data: parsed.result } : { data: parsed.result, raw: raw1 };
+}
 
-  try {
-    const obj = JSON.parse(extracted);
-    return obj as TutorJSON;
-  } catch {}
+/** ---------------------------
+ *  Practice quiz items (schema: services/quizSchema.ts)
+ *  --------------------------- */
+const MAX_QUIZ_CARDS = 6;
+const QUIZ_ITEM_COUNT = 4;
+
+/** Same one-time repair as finalizeTutor; null when the model never produced a usable item. */
+async function finalizeQuiz(llm: LlmProvider, model: string, prompt: string, raw1: string, cardIds: Set<string>) {
+  let items = validateQuizItems(extractJsonObject(raw1), cardIds);
+
+  if (items.length === 0) {
+    try {
+      const raw2 = await llm.generate(repairTemplate.render({ request: prompt, badOutput: raw1 }), { model, json: true });
+      items = validateQuizItems(extractJsonObject(raw2), cardIds);
+    } catch (e) {
+      console.warn("Quiz repair call failed:", e);
+    }
+  }
 
-  return null;
+  return items.length ? items : null;
 }
 
-function normalizeTutorJSON(obj: Partial<TutorJSON>): TutorJSON {
-  return {
-    title: String(obj.title ?? "").trim() || "AI Tutor",
-    simpleExplanation: String(obj.simpleExplanation ?? "").trim(),
-    realWorldExample: String(obj.realWorldExample ?? "").trim(),
-    keyCommands: Array.isArray(obj.keyCommands) ? obj.keyCommands.map(String).filter(Boolean) : [],
-    commonMistakes: Array.isArray(obj.commonMistakes) ? obj.commonMistakes.map(String).filter(Boolean) : [],
-    quickCheck: Array.isArray(obj.quickCheck) ? obj.quickCheck.map(String).filter(Boolean) : [],
-  };
+function shuffled<T>(list: T[]): T[] {
+  const out = [...list];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
 }
 
-function needsRepair(obj: TutorJSON) {
-  // if key sections are missing/empty, trigger a one-time repair call
-  return (
-    !obj.simpleExplanation ||
-    !obj.realWorldExample ||
-    obj.keyCommands.length === 0 ||
-    obj.commonMistakes.length === 0
-  );
-}
+async function handleQuiz(
+  res: VercelResponse,
+  llm: LlmProvider,
+  access: AiAccess,
+  request: Extract<TutorRequest, { kind: "quiz" }>,
+  requestedModel: string | undefined
+) {
+  let cards: Card[];
+  let scope: string;
+
+  if ("cardId" in request) {
+    const found = await getCard(request.cardId);
+    if (!found) return res.status(404).json({ error: `Unknown card "${request.cardId}"` });
+    if (found.premium && access.plan !== "pro") return sendAiDenial(res, proRequired());
+    cards = [found.card];
+    scope = "this flashcard";
+  } else {
+    const all = await getObjectiveCards(request.objective);
+    const usable = all.filter((c) => !c.premium || access.plan === "pro");
+    if (usable.length === 0) {
+      if (all.length > 0) return sendAiDenial(res, proRequired());
+      return res.status(404).json({ error: `No cards for objective ${request.objective}` });
+    }
+    // a different sample each time keeps repeat quizzes fresh
+    cards = shuffled(usable).slice(0, MAX_QUIZ_CARDS).map((c) => c.card);
+    scope = `CCNA exam objective ${request.objective}`;
+  }
 
-async function generateContent(key: string, model: string, prompt: string) {
-  const url = `${API_BASE}/models/${encodeURIComponent(model)}:generateContent`;
-
-  const r = await fetch(url, {
-    method: "POST",
-    headers: {
-      "x-goog-api-key": key,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      contents: [{ parts: [{ text: prompt }] }],
-      generationConfig: {
-        // near-zero cutoffs + still fast
-        maxOutputTokens: 1100,
-        temperature: 0.6,
-
-        // IMPORTANT: force JSON output
-        responseMimeType: "application/json",
-      },
-    }),
-  });
-
-  const data = await r.json();
-  return { status: r.status, data };
-}
+  const overQuota = await consumeDailyQuota(access);
+  if (overQuota) return sendAiDenial(res, overQuota);
 
-function getTextFromGeminiResponse(data: any): string {
-  const parts = data?.candidates?.[0]?.content?.parts;
-  if (!Array.isArray(parts)) return "";
-  return parts.map((p: any) => p?.text).filter(Boolean).join("");
-}
+  const chosenModel = llm.resolveModel(requestedModel);
+  const prompt = quizTemplate.render({ scope, cards, itemCount: QUIZ_ITEM_COUNT });
 
-function buildJsonPrompt(conceptPrompt: string) {
-  return `
-You are a CCNA tutor. Return ONLY valid JSON (no markdown, no code fences, no extra text).
-
-JSON SCHEMA:
-{
-  "title": string,
-  "simpleExplanation": string,
-  "realWorldExample": string,
-  "keyCommands": string[],
-  "commonMistakes": string[],
-  "quickCheck": string[]
-}
+  let raw1: string;
+  try {
+    raw1 = await llm.generate(prompt, { model: chosenModel, json: true, maxOutputTokens: 1600 });
+  } catch (e) {
+    if (!(e instanceof LlmError)) throw e;
+    return res.status(500).json({ error: e.message, status: e.status, details: e.details, model: chosenModel });
+  }
 
-RULES:
-- Do NOT include hashtags.
-- Every field must be present.
-- keyCommands/commonMistakes/quickCheck must be arrays (can be empty, but try to include at least 2 items each when relevant).
-- Keep it concise, practical, and human-sounding.
+  const items = await finalizeQuiz(llm, chosenModel, prompt, raw1, new Set(cards.map((c) => c.card_id)));
+  if (!items) {
+    return res.status(502).json({ error: "The tutor couldn't write a quiz this time. Try again.", model: chosenModel });
+  }
 
-USER REQUEST:
-${conceptPrompt}
-`.trim();
+  return res.status(200).json({ ok: true, provider: llm.name, model: chosenModel, data: { items } });
 }
 
-function buildRepairPrompt(originalRequest: string, badOutput: string) {
-  return `
-You returned output that was missing fields or not valid JSON.
+function sendEvent(res: VercelResponse, event: string, data: unknown) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
 
-Fix it and return ONLY valid JSON that matches the schema exactly.
+/**
+ * SSE variant: `delta` events carry raw JSON text as it arrives (the client parses it
+ * incrementally), then a single `done` event with the final normalized object.
+ * If the stream can't be opened or breaks, the non-streaming call supplies `done` instead.
+ * A cache hit skips the deltas and sends `done` straight away.
+ */
+async function streamTutor(
+  res: VercelResponse,
+  llm: LlmProvider,
+  model: string,
+  prompt: string,
+  cacheEntry: TutorCacheEntry | null,
+  cached: AiTutorResult | null
+) {
+  res.status(200);
+  res.setHeader("Content-Type", "text/event-stream; charset=utf-8");
+  res.setHeader("Cache-Control", "no-cache, no-transform");
+  res.setHeader("Connection", "keep-alive");
+  res.setHeader("X-Accel-Buffering", "no");
+  res.flushHeaders?.();
+
+  try {
+    if (cached) {
+      sendEvent(res, "done", { ok: true, provider: llm.name, model, cached: true, data: cached });
+      return res.end();
+    }
 
-ORIGINAL REQUEST:
-${originalRequest}
+    const opts = { model, json: true };
+    let raw: string;
+    try {
+      raw = await llm.stream(prompt, opts, (text) => sendEvent(res, "delta", { text }));
+    } catch (e) {
+      console.warn("Streaming failed, falling back to generate:", e);
+      raw = await llm.generate(prompt, opts);
+    }
 
-BAD OUTPUT:
-${badOutput}
-`.trim();
+    const result = await finalizeTutor(llm, model, prompt, raw);
+    await rememberTutor(cacheEntry, result);
+    sendEvent(res, "done", { ok: true, provider: llm.name, model, ...result });
+  } catch (e: any) {
+    if (e instanceof LlmError) sendEvent(res, "error", { error: e.message, status: e.status, model });
+    else sendEvent(res, "error", { error: e?.message || "Server error" });
+  }
+  return res.end();
 }
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   try {
-    const key = getKey();
+    const llm = getLlmProvider();
 
     if (req.method === "GET") {
-      return res.status(200).json({ ok: true, hint: "Send POST with { prompt }" });
+      return res.status(200).json({ ok: true, hint: 'Send POST with { kind: "explain", cardId, stream? } or { kind: "quiz", cardId | objective }' });
     }
 
     if (req.method !== "POST") {
       return res.status(405).json({ error: "Method not allowed" });
     }
 
-    const { prompt, model } = (req.body ?? {}) as { prompt?: string; model?: string };
+    const body = req.body ?? {};
+    const { model, stream } = body as { model?: string; stream?: boolean };
 
-    if (!prompt || typeof prompt !== "string") {
-      return res.status(400).json({ error: "Missing 'prompt' in JSON body" });
+    const request = parseTutorRequest(body);
+    if (!request) {
+      return res.status(400).json({ error: 'Expected { kind: "explain", cardId } or { kind: "quiz", cardId | objective } in JSON body' });
     }
 
-    const chosenModel =
-      (typeof model === "string" && model.trim()) ||
-      process.env.GEMINI_MODEL ||
-      "gemini-2.5-flash";
-
-    // 1) Primary call (forced JSON)
-    const jsonPrompt = buildJsonPrompt(prompt);
-    const out1 = await generateContent(key, chosenModel, jsonPrompt);
+    const access = await checkAiAccess(req, model);
+    if (isAiDenial(access)) return sendAiDenial(res, access);
 
-    if (!String(out1.status).startsWith("2")) {
-      return res.status(500).json({
-        error: "Gemini request failed",
-        status: out1.status,
-        details: out1.data,
-        model: chosenModel,
-      });
+    // quizzes are short and never cached (a new set each time), so no streaming either
+    if (request.kind === "quiz") {
+      return handleQuiz(res, llm, access, request, typeof model === "string" ? model : undefined);
     }
 
-    const raw1 = getTextFromGeminiResponse(out1.data);
-    let parsed = tryParseTutorJSON(raw1);
-    let normalized = parsed ? normalizeTutorJSON(parsed) : null;
+    const found = await getCard(request.cardId);
+    if (!found) return res.status(404).json({ error: `Unknown card "${request.cardId}"` });
+    if (found.premium && access.plan !== "pro") return sendAiDenial(res, proRequired());
+
+    const prompt = explainCardTemplate.render(found.card);
+    const chosenModel = llm.resolveModel(typeof model === "string" ? model : undefined);
+    const cacheEntry = tutorCacheFor(llm, chosenModel, found.card, prompt);
+    const cached = await readCachedTutor(cacheEntry);
 
-    // 2) One-time repair if missing sections / parse failed
-    if (!normalized || needsRepair(normalized)) {
-      const repairPrompt = buildRepairPrompt(prompt, raw1);
-      const out2 = await generateContent(key, chosenModel, repairPrompt);
+    // cached answers don't cost a model call, so they don't count against the daily quota
+    if (!cached) {
+      const overQuota = await consumeDailyQuota(access);
+      if (overQuota) return sendAiDenial(res, overQuota);
+    }
+
+    if (stream === true) {
+      return streamTutor(res, llm, chosenModel, prompt, cacheEntry, cached);
+    }
 
-      if (String(out2.status).startsWith("2")) {
-        const raw2 = getTextFromGeminiResponse(out2.data);
-        const parsed2 = tryParseTutorJSON(raw2);
-        if (parsed2) normalized = normalizeTutorJSON(parsed2);
-      }
+    if (cached) {
+      return res.status(200).json({ ok: true, provider: llm.name, model: chosenModel, cached: true, data: cached });
     }
 
-    // 3) Final response: ALWAYS return structured object
-    if (!normalized) {
-      return res.status(200).json({
-        ok: true,
+    // 1) Primary call (forced JSON)
+    let raw1: string;
+    try {
+      raw1 = await llm.generate(prompt, { model: chosenModel, json: true });
+    } catch (e) {
+      if (!(e instanceof LlmError)) throw e;
+      return res.status(500).json({
+        error: e.message,
+        status: e.status,
+        details: e.details,
         model: chosenModel,
-        data: normalizeTutorJSON({
-          title: "AI Tutor",
-          simpleExplanation: raw1 || "No explanation available.",
-          realWorldExample: "",
-          keyCommands: [],
-          commonMistakes: [],
-          quickCheck: [],
-        }),
-        // keep raw only for debugging
-        raw: raw1,
       });
     }
 
-    return res.status(200).json({ ok: true, model: chosenModel, data: normalized });
+    const result = await finalizeTutor(llm, chosenModel, prompt, raw1);
+    await rememberTutor(cacheEntry, result);
+    return res.status(200).json({ ok: true, provider: llm.name, model: chosenModel, ...result });
   } catch (e: any) {
     return res.status(500).json({ error: e?.message || "Server error" });
   }
@@ -1,7 +1,20 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { getVerifiedUserId } from "./_lib/auth";
+import { getEntitlementStore } from "./_lib/entitlements";
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
-  // Temporary placeholder until we wire KV/DB in the next step
-  // We'll return false unless localStorage says true (client will update later)
-  return res.status(200).json({ isPro: false });
+  try {
+    if (req.method !== "GET") return res.status(405).json({ error: "Method not allowed" });
+
+    const userId = await getVerifiedUserId(req);
+    if (!userId) return res.status(401).json({ isPro: false, error: "Unauthorized" });
+
+    const entitlement = await getEntitlementStore().get(userId);
+
+    res.setHeader("Cache-Control", "no-store");
+    return res.status(200).json({ isPro: !!entitlement?.isPro });
+  } catch (e: any) {
+    console.error(e);
+    return res.status(500).json({ isPro: false, error: e?.message || "Server error" });
+  }
 }
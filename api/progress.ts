@@ -0,0 +1,51 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { getVerifiedUserId } from "./_lib/auth";
+import { getKeyValueStore } from "./_lib/kv";
+import { coerceProgress, mergeProgress, type ProgressDoc } from "../services/progressDoc";
+
+const MAX_BODY_BYTES = 2 * 1024 * 1024;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    if (req.method !== "GET" && req.method !== "PUT") {
+      return res.status(405).json({ error: "Method not allowed" });
+    }
+
+    const userId = await getVerifiedUserId(req);
+    if (!userId) return res.status(401).json({ error: "Unauthorized" });
+
+    const store = getKeyValueStore("progress");
+    const stored = coerceProgress(await store.get<ProgressDoc>(`user:${userId}`));
+
+    res.setHeader("Cache-Control", "no-store");
+
+    if (req.method === "GET") {
+      return res.status(200).json({ ok: true, data: stored });
+    }
+
+    const raw = typeof req.body === "string" ? req.body : JSON.stringify(req.body ?? {});
+    if (raw.length > MAX_BODY_BYTES) return res.status(413).json({ error: "Progress payload too large" });
+
+    let body = req.body;
+    if (typeof body === "string") {
+      try {
+        body = JSON.parse(body);
+      } catch {
+        return res.status(400).json({ error: "Malformed JSON body" });
+      }
+    }
+    if (!body || typeof body !== "object" || !body.data) {
+      return res.status(400).json({ error: "Missing 'data' in JSON body" });
+    }
+
+    // Merge instead of overwrite so concurrent devices can't clobber each other's reviews
+    const merged = mergeProgress(stored, coerceProgress(body.data));
+    merged.updatedAt = Date.now();
+    await store.set(`user:${userId}`, merged);
+
+    return res.status(200).json({ ok: true, data: merged });
+  } catch (e: any) {
+    console.error(e);
+    return res.status(500).json({ error: e?.message || "Server error" });
+  }
+}
@@ -0,0 +1,51 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { getVerifiedUserId } from "./_lib/auth";
+import { getKeyValueStore } from "./_lib/kv";
+import { coerceReviewEvents, mergeReviewEvents, missingReviewEvents, type ReviewEvent } from "../services/reviewLog";
+
+const MAX_BODY_BYTES = 2 * 1024 * 1024;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  try {
+    if (req.method !== "GET" && req.method !== "POST") {
+      return res.status(405).json({ error: "Method not allowed" });
+    }
+
+    const userId = await getVerifiedUserId(req);
+    if (!userId) return res.status(401).json({ error: "Unauthorized" });
+
+    const store = getKeyValueStore("reviews");
+    const stored = coerceReviewEvents(await store.get<ReviewEvent[]>(`user:${userId}`));
+
+    res.setHeader("Cache-Control", "no-store");
+
+    if (req.method === "GET") {
+      return res.status(200).json({ ok: true, data: stored });
+    }
+
+    const raw = typeof req.body === "string" ? req.body : JSON.stringify(req.body ?? {});
+    if (raw.length > MAX_BODY_BYTES) return res.status(413).json({ error: "Review batch too large" });
+
+    let body = req.body;
+    if (typeof body === "string") {
+      try {
+        body = JSON.parse(body);
+      } catch {
+        return res.status(400).json({ error: "Malformed JSON body" });
+      }
+    }
+    if (!body || typeof body !== "object" || !Array.isArray(body.events)) {
+      return res.status(400).json({ error: "Missing 'events' in JSON body" });
+    }
+
+    // Append-only and de-duplicated, so a batch retried after a dropped response is harmless
+    const incoming = missingReviewEvents(coerceReviewEvents(body.events), stored);
+    const merged = mergeReviewEvents(stored, incoming);
+    if (incoming.length > 0) await store.set(`user:${userId}`, merged);
+
+    return res.status(200).json({ ok: true, count: merged.length });
+  } catch (e: any) {
+    console.error(e);
+    return res.status(500).json({ error: e?.message || "Server error" });
+  }
+}
@@ -1,5 +1,6 @@
 import type { VercelRequest, VercelResponse } from "@vercel/node";
 import Stripe from "stripe";
+import { getEntitlementStore } from "../_lib/entitlements";
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY as string, {
   apiVersion: "2024-06-20",
@@ -32,11 +33,15 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       const session = event.data.object as Stripe.Checkout.Session;
       const userId = session.metadata?.userId;
 
-      if (userId) {
-        // ✅ Store entitlement in KV (fast + simple) OR your DB later
-        // For now we’ll use Vercel KV REST API (next step) OR Supabase if you prefer.
-        // Placeholder response:
-        console.log("Payment complete for userId:", userId);
+      if (userId && session.payment_status === "paid") {
+        // Idempotent by event id: Stripe may deliver the same event more than once
+        const applied = await getEntitlementStore().grantPro({
+          userId,
+          eventId: event.id,
+          sourceId: session.id,
+        });
+
+        if (!applied) return res.status(200).json({ received: true, duplicate: true });
       }
     }
 
@@ -0,0 +1,114 @@
+// components/BlueprintView.tsx
+import React from "react";
+import { CCNA_DOMAINS } from "../types";
+import type { ObjectiveStats } from "../services/blueprint";
+
+type Props = {
+  objectives: ObjectiveStats[];
+  getDomainColor: (id: number) => string;
+  onStudy: (objective: ObjectiveStats) => void;
+  onLocked: (objective: ObjectiveStats) => void;
+};
+
+export default function BlueprintView({ objectives, getDomainColor, onStudy, onLocked }: Props) {
+  return (
+    <main className="flex-1 max-w-4xl mx-auto p-6 w-full">
+      <div className="mb-6">
+        <h2 className="text-2xl font-black uppercase tracking-tight text-white">Exam Blueprint</h2>
+        <p className="text-white/60 text-sm mt-1">
+          Every 200-301 objective with card coverage and mastery. Study an objective across all of its decks.
+        </p>
+      </div>
+
+      <div className="space-y-8">
+        {CCNA_DOMAINS.map((domain) => {
+          const color = getDomainColor(domain.id);
+          const rows = objectives.filter((o) => o.domainId === domain.id);
+
+          return (
+            <section key={domain.id}>
+              <div className="flex items-baseline justify-between mb-3">
+                <div className="text-[10px] font-black uppercase tracking-[0.2em]" style={{ color }}>
+                  {domain.id}.0 {domain.subtitle}
+                </div>
+                <div className="text-[10px] font-black uppercase tracking-widest text-white/50">{domain.weight}% of exam</div>
+              </div>
+
+              <div className="space-y-2">
+                {rows.map((o) => {
+                  const progress = o.total > 0 ? (o.mastered / o.total) * 100 : 0;
+                  const locked = o.cardIds.length === 0 && o.lockedCount > 0;
+
+                  return (
+                    <details
+                      key={o.code}
+                      className="bg-white/10 border border-white/10 rounded-2xl backdrop-blur-xl"
+                    >
+                      <summary className="cursor-pointer list-none p-4 flex items-center gap-4">
+                        <div className="w-12 shrink-0 text-sm font-black" style={{ color }}>
+                          {o.code}
+                        </div>
+
+                        <div className="flex-1 min-w-0">
+                          <div className="text-white font-bold text-sm truncate">{o.title}</div>
+                          <div className="mt-2 h-1.5 w-full bg-black/20 rounded-full overflow-hidden">
+                            <div className="h-full rounded-full" style={{ width: `${progress}%`, backgroundColor: color }} />
+                          </div>
+                          <div className="mt-1 text-[10px] font-black uppercase tracking-widest text-white/50">
+                            {o.total === 0 ? "No cards yet" : `${o.mastered}/${o.total} mastered`}
+                            {o.lockedCount > 0 && !locked ? ` • ${o.lockedCount} PRO 🔒` : ""}
+                          </div>
+                        </div>
+
+                        <button
+                          type="button"
+                          disabled={o.total === 0}
+                          onClick={(e) => {
+                            e.preventDefault();
+                            if (locked) onLocked(o);
+                            else onStudy(o);
+                          }}
+                          className={`shrink-0 px-4 py-2 rounded-xl text-xs font-black transition-all disabled:opacity-30 disabled:cursor-not-allowed ${
+                            locked ? "bg-amber-400 text-amber-900" : "bg-white text-slate-900 hover:opacity-90"
+                          }`}
+                        >
+                          {locked ? "PRO 🔒" : "Study"}
+                        </button>
+                      </summary>
+
+                      {(o.subobjectives.length > 0 || o.deckNames.length > 0) && (
+                        <div className="px-4 pb-4 space-y-3">
+                          {o.deckNames.length > 0 && (
+                            <div className="text-xs text-white/60">Decks: {o.deckNames.join(" • ")}</div>
+                          )}
+                          <div className="flex flex-wrap gap-1.5">
+                            {o.subobjectives.map((s) => {
+                              const done = s.total > 0 && s.mastered === s.total;
+                              return (
+                                <span
+                                  key={s.code}
+                                  title={`${s.mastered}/${s.total} mastered`}
+                                  className={`text-[10px] font-black px-2 py-1 rounded-md border ${
+                                    done
+                                      ? "bg-green-500/20 border-green-400/30 text-green-200"
+                                      : "bg-black/20 border-white/10 text-white/70"
+                                  }`}
+                                >
+                                  {s.code} {s.mastered}/{s.total}
+                                </span>
+                              );
+                            })}
+                          </div>
+                        </div>
+                      )}
+                    </details>
+                  );
+                })}
+              </div>
+            </section>
+          );
+        })}
+      </div>
+    </main>
+  );
+}
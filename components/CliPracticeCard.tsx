@@ -0,0 +1,258 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Flashcard } from '../types';
+import {
+  completeIosCommand,
+  createIosSession,
+  expectedCli,
+  gradeCliSession,
+  iosHelp,
+  promptFor,
+  runIosCommand,
+  suggestedHostname,
+  type CliGrade,
+  type CliOutputLine,
+} from '../services/iosCli';
+import type { ReviewGrade } from '../services/srs';
+
+interface CliPracticeCardProps {
+  card: Flashcard;
+  onGrade: (grade: ReviewGrade) => void;
+  onExplain: (concept: string) => void;
+  onSpeak: (text: string) => void;
+  isSpeaking: boolean;
+  domainColor?: string;
+}
+
+const VERDICT_STYLES: Record<CliGrade['verdict'], { label: string; className: string }> = {
+  correct: { label: '✓ Configured', className: 'bg-green-600' },
+  partial: { label: '≈ Partly configured', className: 'bg-amber-500' },
+  incorrect: { label: '✗ Not configured', className: 'bg-red-600' },
+};
+
+const GRADE_LABELS: Record<ReviewGrade, string> = { again: 'Again', hard: 'Hard', good: 'Good', easy: 'Easy' };
+
+const LINE_STYLES: Record<CliOutputLine['kind'], string> = {
+  echo: 'text-green-300',
+  output: 'text-green-400/90',
+  error: 'text-red-400',
+  hint: 'text-amber-300 italic',
+};
+
+const MAX_SCROLLBACK = 400;
+
+const contextLabel = (context: string) =>
+  context === '' ? 'global config' : context === 'exec' ? 'privileged EXEC' : context;
+
+const CliPracticeCard: React.FC<CliPracticeCardProps> = ({
+  card,
+  onGrade,
+  onExplain,
+  onSpeak,
+  isSpeaking,
+  domainColor = '#2563EB'
+}) => {
+  const expected = useMemo(() => expectedCli(card.cliConfig, card.cliVerify), [card.cliConfig, card.cliVerify]);
+  const [session, setSession] = useState(() => createIosSession(suggestedHostname(card.cliConfig)));
+  const [lines, setLines] = useState<CliOutputLine[]>([]);
+  const [input, setInput] = useState('');
+  const [history, setHistory] = useState<string[]>([]);
+  const [historyIndex, setHistoryIndex] = useState<number | null>(null);
+  const [result, setResult] = useState<CliGrade | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight });
+  }, [lines]);
+
+  const print = (more: CliOutputLine[]) => setLines((prev) => [...prev, ...more].slice(-MAX_SCROLLBACK));
+
+  const run = () => {
+    const { session: next, output } = runIosCommand(session, input);
+    setSession(next);
+    print(output);
+    if (input.trim()) setHistory((prev) => [...prev, input]);
+    setHistoryIndex(null);
+    setInput('');
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      run();
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      setInput(completeIosCommand(session, input));
+    } else if (e.key === '?') {
+      // like IOS: list what can come next, then give the line back
+      e.preventDefault();
+      print([
+        { text: `${promptFor(session)}${input}?`, kind: 'echo' },
+        ...iosHelp(session, input).map((text) => ({ text: `  ${text}`, kind: 'output' as const })),
+      ]);
+    } else if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+      e.preventDefault();
+      if (!history.length) return;
+      const from = historyIndex ?? history.length;
+      const to = e.key === 'ArrowUp' ? Math.max(0, from - 1) : from + 1;
+      setHistoryIndex(to >= history.length ? null : to);
+      setInput(to >= history.length ? '' : history[to]);
+    }
+  };
+
+  const verdict = result && VERDICT_STYLES[result.verdict];
+
+  return (
+    <div className="w-full max-w-lg bg-slate-900 rounded-3xl shadow-2xl p-6 text-white border-4 border-slate-800 flex flex-col">
+      <div className="flex items-center justify-between">
+        <span
+          className="text-[10px] font-black px-2.5 py-1 rounded-md uppercase tracking-[0.1em]"
+          style={{ backgroundColor: `${domainColor}30`, color: domainColor }}
+        >
+          {card.category} • CLI
+        </span>
+        <button
+          onClick={() => onSpeak(card.question)}
+          aria-label="Read the question aloud"
+          aria-pressed={isSpeaking}
+          className={`p-2 rounded-full transition-all ${isSpeaking ? 'bg-blue-600 text-white animate-pulse motion-reduce:animate-none' : 'bg-white/10 text-white/50 hover:text-white'}`}
+        >
+          <svg aria-hidden="true" className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" />
+          </svg>
+        </button>
+      </div>
+
+      <h2 className="text-xl font-bold leading-tight mt-4">{card.question}</h2>
+      <p className="text-[11px] text-white/50 font-bold mt-1">
+        Configure it from scratch. Abbreviations work; <span className="font-mono">?</span> lists options, Tab completes.
+      </p>
+
+      <div
+        ref={scrollRef}
+        onClick={() => inputRef.current?.focus()}
+        className="mt-4 h-64 overflow-y-auto custom-scrollbar bg-black rounded-2xl border border-white/10 p-3 font-mono text-xs leading-relaxed cursor-text"
+      >
+        {lines.map((l, i) => (
+          <div key={i} className={`whitespace-pre-wrap break-all ${LINE_STYLES[l.kind]}`}>
+            {l.text || ' '}
+          </div>
+        ))}
+        {!result && (
+          <div className="flex text-green-300">
+            <span className="whitespace-pre">{promptFor(session)}</span>
+            <input
+              ref={inputRef}
+              autoFocus
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              onKeyDown={onKeyDown}
+              spellCheck={false}
+              autoCapitalize="off"
+              autoComplete="off"
+              aria-label="IOS command"
+              className="flex-1 min-w-0 bg-transparent outline-none text-green-300 caret-green-300"
+            />
+          </div>
+        )}
+      </div>
+
+      {!result ? (
+        <>
+          <button
+            onClick={() => setResult(gradeCliSession(expected, session))}
+            className="mt-4 w-full py-3 rounded-xl text-white text-xs font-black"
+            style={{ backgroundColor: domainColor }}
+          >
+            CHECK CONFIGURATION
+          </button>
+          <button
+            onClick={() => setResult(gradeCliSession(expected, createIosSession()))}
+            className="mt-2 w-full py-2 text-white/40 text-xs font-bold hover:text-white/70"
+          >
+            I don't know — show me
+          </button>
+        </>
+      ) : (
+        <div className="mt-4">
+          <div className="flex items-center justify-between">
+            <span className={`text-[10px] font-black px-2.5 py-1 rounded-md uppercase tracking-[0.1em] ${verdict!.className}`}>
+              {verdict!.label}
+            </span>
+            <span className="text-xs font-black text-white/50">
+              {result.expected.filter((i) => i.matched).length}/{result.expected.length} commands
+            </span>
+          </div>
+
+          <div className="mt-4">
+            <h4 className="text-[10px] font-black uppercase tracking-widest mb-2 opacity-80" style={{ color: domainColor }}>Expected</h4>
+            <ul className="space-y-1 font-mono text-xs">
+              {result.expected.map((item, i) => (
+                <li key={i} className={item.matched ? 'text-green-300' : 'text-red-400'}>
+                  {item.matched ? '✓' : '✗'} <span className="text-white/40">{contextLabel(item.context)} ›</span> {item.command}
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {result.extra.length > 0 && (
+            <div className="mt-3 text-xs text-white/50">
+              <span className="font-black uppercase tracking-widest text-[10px]">Also entered: </span>
+              <span className="font-mono">{result.extra.map((e) => e.command).join(' • ')}</span>
+            </div>
+          )}
+
+          {expected.unsupported.length > 0 && (
+            <div className="mt-3 text-xs text-white/50">
+              Not checked (the simulator doesn't know it): <span className="font-mono">{expected.unsupported.join(' • ')}</span>
+            </div>
+          )}
+
+          {result.verified.length > 0 && (
+            <div className="mt-3 bg-white/5 p-3 rounded-xl text-xs">
+              <h4 className="text-[10px] font-black uppercase tracking-widest mb-1 text-white/50">Verify with</h4>
+              {result.verified.map((v, i) => (
+                <div key={i} className={`font-mono ${v.ran ? 'text-green-300' : 'text-white/70'}`}>
+                  {v.ran ? '✓' : '○'} {v.label}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {card.explanation && (
+            <div className="mt-3 bg-white/5 p-4 rounded-xl">
+              <p className="text-slate-300 text-sm leading-relaxed">{card.explanation}</p>
+            </div>
+          )}
+
+          <div className="pt-5 mt-5 border-t border-white/10 space-y-3">
+            <button
+              onClick={() => onGrade(result.suggestedGrade)}
+              className="w-full py-3 rounded-xl text-white text-xs font-black"
+              style={{ backgroundColor: domainColor }}
+            >
+              NEXT CARD • RECORD AS {GRADE_LABELS[result.suggestedGrade].toUpperCase()}
+            </button>
+
+            <div className="flex gap-2">
+              <button
+                onClick={() => setResult(null)}
+                className="flex-1 py-2.5 bg-white/10 hover:bg-white/20 rounded-xl text-[11px] font-bold"
+              >
+                Keep typing
+              </button>
+              <button
+                onClick={() => onExplain(card.question)}
+                className="flex-1 py-2.5 bg-white/10 hover:bg-white/20 rounded-xl text-[11px] font-bold"
+              >
+                AI EXPLAIN
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CliPracticeCard;
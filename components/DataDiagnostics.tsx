@@ -0,0 +1,75 @@
+// components/DataDiagnostics.tsx
+import React from "react";
+import type { CsvIssue } from "../services/cardValidation";
+
+type Props = {
+  message: string;
+  issues: CsvIssue[];
+  onRetry: () => void;
+  // only offered when some valid cards did load
+  onContinue?: () => void;
+  continueLabel?: string;
+};
+
+const MAX_VISIBLE = 50;
+
+export default function DataDiagnostics({ message, issues, onRetry, onContinue, continueLabel }: Props) {
+  const errors = issues.filter((i) => i.severity === "error").length;
+  const warnings = issues.length - errors;
+  const visible = issues.slice(0, MAX_VISIBLE);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-slate-950 text-white p-6">
+      <div className="max-w-2xl w-full rounded-3xl border border-white/10 bg-white/5 p-6">
+        <div className="text-lg font-black">Card Bank Problems</div>
+        <p className="text-white/70 mt-2 text-sm">{message}</p>
+
+        {issues.length > 0 && (
+          <>
+            <div className="mt-4 text-[10px] font-black uppercase tracking-widest text-white/60">
+              {errors} error{errors === 1 ? "" : "s"} • {warnings} warning{warnings === 1 ? "" : "s"}
+            </div>
+
+            <ul className="mt-2 max-h-[50vh] overflow-y-auto custom-scrollbar space-y-1.5 pr-2 font-mono text-xs">
+              {visible.map((issue, i) => (
+                <li
+                  key={i}
+                  className={`rounded-xl px-3 py-2 border ${
+                    issue.severity === "error"
+                      ? "bg-red-500/10 border-red-400/30 text-red-100"
+                      : "bg-amber-500/10 border-amber-400/30 text-amber-100"
+                  }`}
+                >
+                  <span className="font-bold">
+                    {issue.file}
+                    {issue.row > 0 ? `:${issue.row}` : ""}
+                    {issue.column ? ` [${issue.column}]` : ""}
+                  </span>{" "}
+                  {issue.message}
+                </li>
+              ))}
+            </ul>
+
+            {issues.length > MAX_VISIBLE && (
+              <div className="mt-2 text-xs text-white/50">…and {issues.length - MAX_VISIBLE} more (see console)</div>
+            )}
+          </>
+        )}
+
+        <div className="mt-5 flex flex-col sm:flex-row gap-3">
+          <button onClick={onRetry} className="flex-1 py-3 rounded-2xl bg-white text-slate-900 font-black">
+            Retry
+          </button>
+          {onContinue && (
+            <button
+              onClick={onContinue}
+              className="flex-1 py-3 rounded-2xl bg-white/10 border border-white/10 text-white font-black hover:bg-white/15"
+            >
+              {continueLabel ?? "Continue anyway"}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+// components/DeckExportButtons.tsx
+import React from "react";
+import { Card, Deck } from "../types";
+import { DECK_FORMATS, exportDeck, type DeckFormat } from "../services/deckTransfer";
+import type { ScheduleMap } from "../services/srs";
+
+type Props = {
+  deck: Deck;
+  cards: Card[]; // the deck's cards
+  schedules: ScheduleMap;
+  onDelete?: () => void; // custom decks only
+};
+
+function download(fileName: string, mime: string, text: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: `${mime};charset=utf-8` }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export default function DeckExportButtons({ deck, cards, schedules, onDelete }: Props) {
+  const save = (format: DeckFormat) => {
+    const { fileName, mime, text } = exportDeck(format, deck, cards, schedules);
+    download(fileName, mime, text);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 px-5 pb-4 -mt-1">
+      <span className="text-[10px] font-black uppercase tracking-widest text-white/40 mr-1">Export with progress</span>
+      {DECK_FORMATS.map((f) => (
+        <button
+          key={f.format}
+          onClick={() => save(f.format)}
+          disabled={cards.length === 0}
+          className="px-3 py-1.5 rounded-full bg-white/10 border border-white/10 text-white/80 text-[11px] font-black hover:bg-white/15 disabled:opacity-40"
+        >
+          {f.label}
+        </button>
+      ))}
+      {onDelete && (
+        <button
+          onClick={onDelete}
+          className="ml-auto px-3 py-1.5 rounded-full bg-red-500/10 border border-red-400/30 text-red-200 text-[11px] font-black hover:bg-red-500/20"
+        >
+          Delete deck
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+// components/DeckImportPanel.tsx
+import React, { useMemo, useState } from "react";
+import { CCNA_DOMAINS } from "../types";
+import { CardBankError, type CsvIssue } from "../services/cardValidation";
+import { buildCustomDeck, DECK_FORMATS, readDeckFile, type DeckFile, type ImportedDeck } from "../services/deckTransfer";
+
+type Props = {
+  domainId: number; // preselected: the domain whose decks are on screen
+  deckOrder: number; // new deck goes after the existing ones
+  onImport: (imported: ImportedDeck) => void;
+  onCancel: () => void;
+};
+
+const MAX_VISIBLE_ISSUES = 8;
+
+const IssueList = ({ issues }: { issues: CsvIssue[] }) => (
+  <ul className="mt-3 space-y-1 font-mono text-[11px]">
+    {issues.slice(0, MAX_VISIBLE_ISSUES).map((issue, i) => (
+      <li key={i} className={issue.severity === "error" ? "text-red-300" : "text-amber-200"}>
+        {issue.row > 0 ? `line ${issue.row}` : issue.file}
+        {issue.column ? ` [${issue.column}]` : ""}: {issue.message}
+      </li>
+    ))}
+    {issues.length > MAX_VISIBLE_ISSUES && <li className="text-white/50">…and {issues.length - MAX_VISIBLE_ISSUES} more</li>}
+  </ul>
+);
+
+export default function DeckImportPanel({ domainId, deckOrder, onImport, onCancel }: Props) {
+  const [file, setFile] = useState<DeckFile | null>(null);
+  const [loadedAt, setLoadedAt] = useState(Date.now());
+  const [readError, setReadError] = useState<CardBankError | null>(null);
+  const [deckName, setDeckName] = useState("");
+  const [targetDomain, setTargetDomain] = useState(domainId);
+
+  const preview = useMemo(
+    () => (file ? buildCustomDeck(file, { deckName, domainId: targetDomain, deckOrder, now: loadedAt }) : null),
+    [file, deckName, targetDomain, deckOrder, loadedAt]
+  );
+
+  const chooseFile = async (picked: File | undefined) => {
+    if (!picked) return;
+    setReadError(null);
+    setFile(null);
+    try {
+      const parsed = readDeckFile(await picked.text(), picked.name);
+      setFile(parsed);
+      setLoadedAt(Date.now());
+      setDeckName(parsed.deckName ?? picked.name.replace(/\.[^.]+$/, ""));
+      if (parsed.domainId && CCNA_DOMAINS.some((d) => d.id === parsed.domainId)) setTargetDomain(parsed.domainId);
+    } catch (e) {
+      setReadError(
+        e instanceof CardBankError
+          ? e
+          : new CardBankError(`Could not read ${picked.name}`, [{ file: picked.name, row: 0, severity: "error", message: String(e) }])
+      );
+    }
+  };
+
+  const format = file && DECK_FORMATS.find((f) => f.format === file.format);
+
+  return (
+    <div className="mb-4 rounded-2xl border border-white/15 bg-white/10 p-5 text-white backdrop-blur-xl">
+      <div className="flex items-center justify-between">
+        <div className="font-black">Import a deck</div>
+        <button onClick={onCancel} className="text-white/50 hover:text-white text-xs font-black">
+          Cancel
+        </button>
+      </div>
+      <p className="text-white/60 text-xs mt-1">
+        CSV with cards.csv columns (front, back, …), JSON exported from here, or an Anki "Notes in Plain Text" export. The
+        deck stays on this device.
+      </p>
+
+      <input
+        type="file"
+        accept=".csv,.json,.txt,.tsv"
+        onChange={(e) => chooseFile(e.target.files?.[0])}
+        className="mt-4 block w-full text-xs text-white/70 file:mr-3 file:rounded-xl file:border-0 file:bg-white file:px-4 file:py-2 file:text-xs file:font-black file:text-slate-900"
+      />
+
+      {readError && (
+        <div className="mt-4 rounded-xl bg-red-500/10 border border-red-400/30 p-3 text-xs">
+          <div className="font-black text-red-100">{readError.message}</div>
+          <IssueList issues={readError.issues} />
+        </div>
+      )}
+
+      {file && preview && (
+        <div className="mt-4 space-y-3">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <label className="block">
+              <span className="text-[10px] font-black uppercase tracking-widest text-white/50">Deck name</span>
+              <input
+                value={deckName}
+                onChange={(e) => setDeckName(e.target.value)}
+                className="mt-1 w-full rounded-xl bg-black/20 border border-white/10 px-3 py-2 text-sm outline-none focus:border-white/30"
+              />
+            </label>
+            <label className="block">
+              <span className="text-[10px] font-black uppercase tracking-widest text-white/50">Domain</span>
+              <select
+                value={targetDomain}
+                onChange={(e) => setTargetDomain(Number(e.target.value))}
+                className="mt-1 w-full rounded-xl bg-black/20 border border-white/10 px-3 py-2 text-sm outline-none focus:border-white/30"
+              >
+                {CCNA_DOMAINS.map((d) => (
+                  <option key={d.id} value={d.id} className="text-slate-900">
+                    {d.id}.0 {d.subtitle}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div className="text-xs text-white/70">
+            {format?.label} • <b className="text-white">{preview.cards.length}</b> of {file.entries.length} card
+            {file.entries.length === 1 ? "" : "s"} valid
+            {Object.keys(preview.schedules).length > 0 && <> • progress for {Object.keys(preview.schedules).length}</>}
+          </div>
+          {preview.issues.length > 0 && <IssueList issues={preview.issues} />}
+
+          <button
+            onClick={() => onImport(preview)}
+            disabled={preview.cards.length === 0}
+            className="w-full py-3 rounded-xl bg-white text-slate-900 text-xs font-black disabled:opacity-40"
+          >
+            IMPORT {preview.cards.length} CARD{preview.cards.length === 1 ? "" : "S"}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
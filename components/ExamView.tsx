@@ -0,0 +1,335 @@
+// components/ExamView.tsx
+import React, { useEffect, useMemo, useState } from "react";
+import { CCNA_DOMAINS, Card } from "../types";
+import {
+  buildExam,
+  EXAM_PRESETS,
+  PASS_MARK,
+  scoreExam,
+  type ExamConfig,
+  type ExamQuestion,
+} from "../services/exam";
+
+type Props = {
+  cards: Card[];
+  getDomainColor: (id: number) => string;
+  onExit: () => void;
+  onRunningChange?: (running: boolean) => void; // App confirms leaving only while an exam is running
+};
+
+type Phase = "setup" | "running" | "report";
+
+const formatClock = (ms: number) => {
+  const total = Math.max(0, Math.ceil(ms / 1000));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const mm = String(m).padStart(2, "0");
+  const ss = String(s).padStart(2, "0");
+  return h > 0 ? `${h}:${mm}:${ss}` : `${mm}:${ss}`;
+};
+
+export default function ExamView({ cards, getDomainColor, onExit, onRunningChange }: Props) {
+  const [phase, setPhase] = useState<Phase>("setup");
+  const [questions, setQuestions] = useState<ExamQuestion[]>([]);
+  const [answers, setAnswers] = useState<Record<string, number>>({});
+  const [flagged, setFlagged] = useState<Set<string>>(new Set());
+  const [index, setIndex] = useState(0);
+  const [deadline, setDeadline] = useState(0);
+  const [now, setNow] = useState(Date.now());
+
+  const availableDomains = useMemo(
+    () => new Set(cards.map((c) => Number(c.domain_int) || 0)),
+    [cards]
+  );
+
+  useEffect(() => {
+    if (!onRunningChange) return;
+    onRunningChange(phase === "running");
+    return () => onRunningChange(false);
+  }, [phase, onRunningChange]);
+
+  // Timer (auto-submits at zero)
+  useEffect(() => {
+    if (phase !== "running") return;
+    const t = window.setInterval(() => {
+      const n = Date.now();
+      setNow(n);
+      if (n >= deadline) setPhase("report");
+    }, 1000);
+    return () => window.clearInterval(t);
+  }, [phase, deadline]);
+
+  const start = (config: ExamConfig) => {
+    const qs = buildExam(cards, config);
+    if (qs.length === 0) return;
+    setQuestions(qs);
+    setAnswers({});
+    setFlagged(new Set());
+    setIndex(0);
+    setNow(Date.now());
+    setDeadline(Date.now() + config.durationMinutes * 60 * 1000);
+    setPhase("running");
+  };
+
+  const submit = () => {
+    const unanswered = questions.length - Object.keys(answers).length;
+    const msg =
+      unanswered > 0
+        ? `${unanswered} question${unanswered === 1 ? " is" : "s are"} unanswered. Submit anyway?`
+        : "Submit your exam?";
+    if (window.confirm(msg)) setPhase("report");
+  };
+
+  const toggleFlag = (id: string) => {
+    const next = new Set(flagged);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setFlagged(next);
+  };
+
+  const report = useMemo(
+    () => (phase === "report" ? scoreExam(questions, answers) : null),
+    [phase, questions, answers]
+  );
+
+  // -----------------------------
+  // Setup
+  // -----------------------------
+  if (phase === "setup") {
+    const missing = CCNA_DOMAINS.filter((d) => !availableDomains.has(d.id));
+
+    return (
+      <main className="flex-1 max-w-2xl mx-auto p-6 w-full">
+        <div className="mb-6">
+          <h2 className="text-2xl font-black uppercase tracking-tight text-white">Practice Exam</h2>
+          <p className="text-white/60 text-sm mt-1">
+            Timed multiple choice, weighted like the real 200-301. Target: {Math.round(PASS_MARK * 100)}%.
+          </p>
+        </div>
+
+        {missing.length > 0 && (
+          <div className="mb-4 rounded-2xl bg-amber-500/10 border border-amber-400/30 p-4 text-amber-100 text-xs">
+            Questions come only from decks you can open. Not included: {missing.map((d) => d.subtitle).join(", ")}.
+          </div>
+        )}
+
+        <div className="space-y-3">
+          {EXAM_PRESETS.map((p) => (
+            <button
+              key={p.label}
+              onClick={() => start(p)}
+              disabled={cards.length < 4}
+              className="w-full rounded-2xl p-5 text-left border bg-white/10 border-white/10 hover:bg-white/15 backdrop-blur-xl transition-all disabled:opacity-40"
+            >
+              <div className="flex items-center justify-between">
+                <div>
+                  <div className="text-white font-black">{p.label}</div>
+                  <div className="text-white/60 text-xs mt-1">
+                    {p.questionCount} questions • {p.durationMinutes} minutes
+                  </div>
+                </div>
+                <div className="text-white/60 text-sm font-black">›</div>
+              </div>
+            </button>
+          ))}
+        </div>
+      </main>
+    );
+  }
+
+  // -----------------------------
+  // Report
+  // -----------------------------
+  if (phase === "report" && report) {
+    const missed = questions.filter((q) => answers[q.id] !== q.correctIndex);
+
+    return (
+      <main className="flex-1 max-w-3xl mx-auto p-6 w-full space-y-6">
+        <div className="bg-white/10 border border-white/15 backdrop-blur-xl rounded-3xl p-6 shadow-2xl text-white">
+          <div className="text-white/70 text-xs font-black uppercase tracking-widest">Score Report</div>
+          <div className="flex items-end gap-4 mt-2">
+            <div className="text-5xl font-black">{Math.round(report.percent * 100)}%</div>
+            <div
+              className={`mb-1 text-xs font-black px-3 py-1 rounded-full ${
+                report.passed ? "bg-green-500 text-white" : "bg-red-500 text-white"
+              }`}
+            >
+              {report.passed ? "PASS" : "BELOW TARGET"}
+            </div>
+          </div>
+          <p className="text-white/70 text-sm mt-2">
+            {report.correct}/{report.total} correct • {report.unanswered} unanswered
+          </p>
+
+          <div className="mt-6 space-y-3">
+            {CCNA_DOMAINS.filter((d) => report.byDomain[d.id]).map((d) => {
+              const r = report.byDomain[d.id];
+              const pct = r.total > 0 ? (r.correct / r.total) * 100 : 0;
+              const color = getDomainColor(d.id);
+              return (
+                <div key={d.id}>
+                  <div className="flex justify-between text-[10px] font-black uppercase tracking-widest text-white/70">
+                    <span style={{ color }}>
+                      {d.id}.0 {d.subtitle}
+                    </span>
+                    <span>
+                      {r.correct}/{r.total} • {Math.round(pct)}%
+                    </span>
+                  </div>
+                  <div className="mt-1.5 h-2 w-full bg-black/20 rounded-full overflow-hidden">
+                    <div className="h-full rounded-full" style={{ width: `${pct}%`, backgroundColor: color }} />
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="mt-6 flex gap-3">
+            <button onClick={() => setPhase("setup")} className="flex-1 py-3 rounded-2xl bg-white text-slate-900 font-black">
+              New Exam
+            </button>
+            <button
+              onClick={onExit}
+              className="flex-1 py-3 rounded-2xl bg-white/10 border border-white/10 text-white font-black hover:bg-white/15"
+            >
+              Dashboard
+            </button>
+          </div>
+        </div>
+
+        {missed.length > 0 && (
+          <div className="space-y-3">
+            <div className="text-white/70 text-xs font-black uppercase tracking-widest">Review ({missed.length})</div>
+            {missed.map((q) => (
+              <div key={q.id} className="bg-white rounded-2xl p-4 border-l-[6px]" style={{ borderLeftColor: getDomainColor(q.domainId) }}>
+                <div className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+                  {q.objective ? `${q.objective} • ` : ""}
+                  {q.deckName}
+                </div>
+                <div className="font-bold text-slate-800 mt-1">{q.stem}</div>
+                {answers[q.id] !== undefined && (
+                  <div className="text-sm text-red-600 mt-2">✗ {q.options[answers[q.id]]}</div>
+                )}
+                <div className="text-sm text-green-700 mt-1">✓ {q.options[q.correctIndex]}</div>
+                {q.explanation && <div className="text-xs text-slate-500 mt-2">{q.explanation}</div>}
+              </div>
+            ))}
+          </div>
+        )}
+      </main>
+    );
+  }
+
+  // -----------------------------
+  // Running
+  // -----------------------------
+  const q = questions[index];
+  const remaining = deadline - now;
+  const color = getDomainColor(q.domainId);
+
+  return (
+    <main className="flex-1 max-w-4xl mx-auto p-4 w-full">
+      <div className="flex items-center justify-between mb-4 text-white">
+        <div className="text-xs font-black uppercase tracking-widest text-white/70">
+          Question {index + 1} / {questions.length}
+        </div>
+        <div className={`font-mono text-lg font-black ${remaining < 5 * 60 * 1000 ? "text-red-400" : "text-white"}`}>
+          ⏱ {formatClock(remaining)}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-[1fr_240px] gap-4">
+        <div className="bg-white rounded-3xl shadow-xl p-6">
+          <div className="flex items-center justify-between">
+            <span
+              className="text-[10px] font-black px-2.5 py-1 rounded-md uppercase tracking-[0.1em]"
+              style={{ backgroundColor: `${color}15`, color }}
+            >
+              Domain {q.domainId}
+            </span>
+            <button
+              onClick={() => toggleFlag(q.id)}
+              className={`text-xs font-black px-3 py-1.5 rounded-full border ${
+                flagged.has(q.id) ? "bg-amber-400 border-amber-400 text-amber-900" : "border-slate-200 text-slate-500"
+              }`}
+            >
+              {flagged.has(q.id) ? "⚑ Flagged" : "⚐ Flag for review"}
+            </button>
+          </div>
+
+          <h3 className="text-xl font-bold text-slate-800 mt-4">{q.stem}</h3>
+
+          <div className="mt-5 space-y-2">
+            {q.options.map((opt, i) => {
+              const selected = answers[q.id] === i;
+              return (
+                <button
+                  key={i}
+                  onClick={() => setAnswers({ ...answers, [q.id]: i })}
+                  className={`w-full text-left p-4 rounded-2xl border text-sm transition-all ${
+                    selected ? "text-white" : "border-slate-200 text-slate-700 hover:bg-slate-50"
+                  }`}
+                  style={selected ? { backgroundColor: color, borderColor: color } : undefined}
+                >
+                  <span className="font-black mr-2">{String.fromCharCode(65 + i)}.</span>
+                  {opt}
+                </button>
+              );
+            })}
+          </div>
+
+          <div className="mt-6 flex justify-between">
+            <button
+              onClick={() => setIndex(Math.max(0, index - 1))}
+              disabled={index === 0}
+              className="px-5 py-3 rounded-2xl bg-slate-100 text-slate-700 font-black disabled:opacity-40"
+            >
+              ‹ Prev
+            </button>
+            {index < questions.length - 1 ? (
+              <button onClick={() => setIndex(index + 1)} className="px-5 py-3 rounded-2xl bg-slate-900 text-white font-black">
+                Next ›
+              </button>
+            ) : (
+              <button onClick={submit} className="px-5 py-3 rounded-2xl bg-green-600 text-white font-black">
+                Submit
+              </button>
+            )}
+          </div>
+        </div>
+
+        {/* Navigator */}
+        <div className="bg-white/10 border border-white/10 rounded-3xl p-4 backdrop-blur-xl h-fit">
+          <div className="text-[10px] font-black uppercase tracking-widest text-white/60 mb-3">
+            {Object.keys(answers).length} answered • {flagged.size} flagged
+          </div>
+          <div className="grid grid-cols-8 lg:grid-cols-6 gap-1.5">
+            {questions.map((qq, i) => {
+              const answered = answers[qq.id] !== undefined;
+              return (
+                <button
+                  key={qq.id}
+                  onClick={() => setIndex(i)}
+                  className={`relative h-8 rounded-lg text-[11px] font-black ${
+                    i === index
+                      ? "bg-white text-slate-900"
+                      : answered
+                        ? "bg-white/30 text-white"
+                        : "bg-black/20 text-white/60"
+                  }`}
+                >
+                  {i + 1}
+                  {flagged.has(qq.id) && <span className="absolute -top-1 -right-1 text-[9px] text-amber-400">⚑</span>}
+                </button>
+              );
+            })}
+          </div>
+          <button onClick={submit} className="mt-4 w-full py-2.5 rounded-xl bg-green-600 text-white text-xs font-black">
+            Submit Exam
+          </button>
+        </div>
+      </div>
+    </main>
+  );
+}
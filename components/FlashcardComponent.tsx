@@ -1,39 +1,87 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Flashcard } from '../types';
+import { REVIEW_GRADES, type ReviewGrade } from '../services/srs';
 
 interface FlashcardProps {
   card: Flashcard;
   isMastered: boolean;
-  onMastered: () => void;
+  gradeHints?: Partial<Record<ReviewGrade, string>>;
+  onGrade: (grade: ReviewGrade) => void;
   onExplain: (concept: string) => void;
+  onPracticeCli?: () => void; // switch to the CLI simulator (cards with cli_config)
   onSpeak: (text: string) => void;
   isSpeaking: boolean;
   domainColor?: string;
+  isFlipped?: boolean; // controlled by the parent (keyboard shortcuts); local state otherwise
+  onFlip?: () => void;
 }
 
+const GRADE_STYLES: Record<ReviewGrade, { label: string; className: string }> = {
+  again: { label: 'AGAIN', className: 'bg-red-600 hover:bg-red-500' },
+  hard: { label: 'HARD', className: 'bg-amber-600 hover:bg-amber-500' },
+  good: { label: 'GOOD', className: 'bg-green-600 hover:bg-green-500' },
+  easy: { label: 'EASY', className: 'bg-blue-600 hover:bg-blue-500' },
+};
+
 const FlashcardComponent: React.FC<FlashcardProps> = ({ 
   card, 
   isMastered, 
-  onMastered, 
+  gradeHints,
+  onGrade, 
   onExplain, 
+  onPracticeCli,
   onSpeak,
   isSpeaking,
-  domainColor = '#2563EB'
+  domainColor = '#2563EB',
+  isFlipped: flippedProp,
+  onFlip,
 }) => {
-  const [isFlipped, setIsFlipped] = useState(false);
+  const [flippedState, setFlippedState] = useState(false);
+  const isFlipped = flippedProp ?? flippedState;
+
+  const toggleFlip = () => (onFlip ? onFlip() : setFlippedState(!flippedState));
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const revealRef = useRef<HTMLButtonElement>(null);
+  const questionRef = useRef<HTMLButtonElement>(null);
+  const flippedBefore = useRef(isFlipped);
+
+  // The face that was showing becomes inert: if focus was on it, keep it on the card's own toggle.
+  // Focus left on the page body stays there so the study shortcuts keep working.
+  useEffect(() => {
+    if (flippedBefore.current === isFlipped) return;
+    flippedBefore.current = isFlipped;
+    const active = document.activeElement;
+    if (active && active !== document.body && containerRef.current?.contains(active)) {
+      (isFlipped ? questionRef : revealRef).current?.focus({ preventScroll: true });
+    }
+  }, [isFlipped]);
 
-  const toggleFlip = () => setIsFlipped(!isFlipped);
+  // Clicking flips the card, but not when the click ends a text selection
+  const onCardClick = () => {
+    if (window.getSelection()?.toString()) return;
+    toggleFlip();
+  };
 
   if (!card) return null;
 
   return (
-    <div className="w-full max-w-lg h-[450px] perspective-1000 cursor-pointer group">
+    <div ref={containerRef} className="w-full max-w-lg h-[450px] perspective-1000 cursor-pointer group">
+      {/* Screen readers hear the answer when it's revealed */}
+      <div className="sr-only" aria-live="polite">
+        {isFlipped ? `Answer: ${card.answer}` : ''}
+      </div>
+
       <div 
-        className={`relative w-full h-full transition-transform duration-700 transform-style-3d ${isFlipped ? 'rotate-y-180' : ''}`}
-        onClick={toggleFlip}
+        className={`flip-card relative w-full h-full transition-transform duration-700 transform-style-3d ${isFlipped ? 'rotate-y-180' : ''}`}
+        onClick={onCardClick}
       >
         {/* Front Side */}
-        <div className={`absolute inset-0 backface-hidden border rounded-3xl shadow-xl flex flex-col p-10 items-center justify-center text-center transition-colors ${isMastered ? 'bg-green-50 border-green-200' : 'bg-white border-slate-200'}`}>
+        <div
+          aria-hidden={isFlipped}
+          inert={isFlipped}
+          className={`flip-face absolute inset-0 backface-hidden border rounded-3xl shadow-xl flex flex-col p-10 items-center justify-center text-center transition-colors ${isMastered ? 'bg-green-50 border-green-200' : 'bg-white border-slate-200'}`}
+        >
           <div className="absolute top-6 left-6 flex items-center gap-2">
             <span 
               className={`text-[10px] font-black px-2.5 py-1 rounded-md uppercase tracking-[0.1em] ${isMastered ? 'bg-green-600 text-white' : ''}`}
@@ -41,13 +89,20 @@ const FlashcardComponent: React.FC<FlashcardProps> = ({
             >
               {isMastered ? '✓ Mastered' : card.category}
             </span>
+            {(card.subobjective || card.objective) && (
+              <span className="text-[10px] font-black px-2 py-1 rounded-md bg-slate-100 text-slate-500 tracking-wider">
+                {card.subobjective || card.objective}
+              </span>
+            )}
           </div>
           
           <button 
             onClick={(e) => { e.stopPropagation(); onSpeak(card.question); }}
-            className={`absolute top-6 right-6 p-2 rounded-full transition-all ${isSpeaking ? 'bg-blue-600 text-white animate-pulse' : 'bg-slate-100 text-slate-400 hover:text-blue-600'}`}
+            aria-label="Read the question aloud"
+            aria-pressed={isSpeaking}
+            className={`absolute top-6 right-6 p-2 rounded-full transition-all ${isSpeaking ? 'bg-blue-600 text-white animate-pulse motion-reduce:animate-none' : 'bg-slate-100 text-slate-400 hover:text-blue-600'}`}
           >
-            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <svg aria-hidden="true" className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" />
             </svg>
           </button>
@@ -58,23 +113,45 @@ const FlashcardComponent: React.FC<FlashcardProps> = ({
           
           <div className="mt-8 flex flex-col items-center gap-2">
              <div className="w-8 h-1 rounded-full" style={{ backgroundColor: `${domainColor}30` }}></div>
-             <p className="text-xs text-slate-400 font-bold uppercase tracking-widest">Tap to reveal</p>
+             <button
+               ref={revealRef}
+               onClick={(e) => { e.stopPropagation(); toggleFlip(); }}
+               className="text-xs text-slate-400 font-bold uppercase tracking-widest rounded-md px-2 py-1 hover:text-slate-600"
+             >
+               Reveal answer
+             </button>
+             <p className="text-[10px] text-slate-300 font-bold uppercase tracking-widest">{card.difficulty}</p>
           </div>
         </div>
 
         {/* Back Side */}
-        <div className="absolute inset-0 backface-hidden rotate-y-180 bg-slate-900 rounded-3xl shadow-2xl flex flex-col p-8 text-white overflow-hidden border-4 border-slate-800">
+        <div
+          aria-hidden={!isFlipped}
+          inert={!isFlipped}
+          className="flip-face absolute inset-0 backface-hidden rotate-y-180 bg-slate-900 rounded-3xl shadow-2xl flex flex-col p-8 text-white overflow-hidden border-4 border-slate-800"
+        >
           <div className="flex-1 overflow-y-auto custom-scrollbar pr-2">
             <div className="flex justify-between items-start mb-4 border-b border-white/10 pb-2">
                <h3 className="text-xl font-bold" style={{ color: domainColor }}>Answer</h3>
-               <button 
-                onClick={(e) => { e.stopPropagation(); onSpeak(card.answer + ". " + (card.explanation || "")); }}
-                className={`p-2 rounded-full transition-all ${isSpeaking ? 'bg-blue-600 text-white animate-pulse' : 'bg-white/10 text-white/50 hover:text-white'}`}
-              >
-                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" />
-                </svg>
-              </button>
+               <div className="flex items-center gap-1">
+                 <button
+                   ref={questionRef}
+                   onClick={(e) => { e.stopPropagation(); toggleFlip(); }}
+                   className="px-3 py-2 rounded-full bg-white/10 text-white/50 hover:text-white text-[10px] font-black uppercase tracking-widest leading-4"
+                 >
+                   <span aria-hidden="true">↺ </span>Back to question
+                 </button>
+                 <button 
+                   onClick={(e) => { e.stopPropagation(); onSpeak(card.answer + ". " + (card.explanation || "")); }}
+                   aria-label="Read the answer aloud"
+                   aria-pressed={isSpeaking}
+                   className={`p-2 rounded-full transition-all ${isSpeaking ? 'bg-blue-600 text-white animate-pulse motion-reduce:animate-none' : 'bg-white/10 text-white/50 hover:text-white'}`}
+                 >
+                   <svg aria-hidden="true" className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" />
+                   </svg>
+                 </button>
+               </div>
             </div>
             
             <p className="text-2xl font-semibold mb-6">
@@ -90,9 +167,28 @@ const FlashcardComponent: React.FC<FlashcardProps> = ({
               </div>
             )}
 
+            {card.commonMistakes && (
+              <div className="mb-6 bg-red-500/10 border border-red-400/20 p-4 rounded-xl">
+                <h4 className="text-[10px] font-black uppercase tracking-widest mb-2 text-red-300/80">Common Mistakes</h4>
+                <p className="text-slate-300 text-sm leading-relaxed">
+                  {card.commonMistakes}
+                </p>
+              </div>
+            )}
+
             {card.cliExample && (
               <div className="mb-6">
-                <h4 className="text-[10px] font-black uppercase tracking-widest text-green-400/60 mb-2">Live Configuration</h4>
+                <div className="flex items-center justify-between mb-2">
+                  <h4 className="text-[10px] font-black uppercase tracking-widest text-green-400/60">Live Configuration</h4>
+                  {onPracticeCli && (
+                    <button
+                      onClick={(e) => { e.stopPropagation(); onPracticeCli(); }}
+                      className="text-[10px] font-black uppercase tracking-widest text-green-400 hover:text-green-300"
+                    >
+                      Type it in the CLI ›
+                    </button>
+                  )}
+                </div>
                 <div className="bg-black/80 p-4 rounded-xl border border-white/5 font-mono text-xs text-green-400 overflow-x-auto whitespace-pre">
                   {card.cliExample}
                 </div>
@@ -100,26 +196,31 @@ const FlashcardComponent: React.FC<FlashcardProps> = ({
             )}
           </div>
           
-          <div className="pt-6 mt-4 border-t border-white/10 flex gap-3">
+          <div className="pt-6 mt-4 border-t border-white/10 space-y-3">
             <button 
               onClick={(e) => { e.stopPropagation(); onExplain(card.question); }}
-              className="flex-1 py-3 bg-white/10 hover:bg-white/20 rounded-xl text-xs font-bold transition-all flex items-center justify-center gap-2"
+              className="w-full py-3 bg-white/10 hover:bg-white/20 rounded-xl text-xs font-bold transition-all flex items-center justify-center gap-2"
             >
-              <svg className="w-4 h-4" style={{ color: domainColor }} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <svg aria-hidden="true" className="w-4 h-4" style={{ color: domainColor }} fill="none" viewBox="0 0 24 24" stroke="currentColor">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
               </svg>
               AI EXPLAIN
             </button>
-            <button 
-              onClick={(e) => { e.stopPropagation(); onMastered(); }}
-              className={`flex-1 py-3 rounded-xl text-xs font-bold transition-all flex items-center justify-center gap-2 ${isMastered ? 'bg-green-600 text-white' : 'bg-blue-600 hover:bg-blue-500 text-white'}`}
-              style={!isMastered ? { backgroundColor: domainColor } : undefined}
-            >
-              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
-              </svg>
-              {isMastered ? 'MASTERED ✓' : 'MARK MASTERED'}
-            </button>
+            <div className="grid grid-cols-4 gap-2">
+              {REVIEW_GRADES.map((grade) => (
+                <button
+                  key={grade}
+                  onClick={(e) => { e.stopPropagation(); onGrade(grade); }}
+                  aria-label={gradeHints?.[grade] ? `${grade}, next review in ${gradeHints[grade]}` : grade}
+                  className={`py-2.5 rounded-xl text-white text-[11px] font-black transition-all flex flex-col items-center leading-tight ${GRADE_STYLES[grade].className}`}
+                >
+                  {GRADE_STYLES[grade].label}
+                  {gradeHints?.[grade] && (
+                    <span className="text-[10px] font-bold opacity-70">{gradeHints[grade]}</span>
+                  )}
+                </button>
+              ))}
+            </div>
           </div>
         </div>
       </div>
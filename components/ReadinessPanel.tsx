@@ -0,0 +1,86 @@
+// components/ReadinessPanel.tsx
+import React from "react";
+import type { ReadinessReport } from "../services/readiness";
+
+type Props = {
+  report: ReadinessReport;
+  getDomainColor: (id: number) => string;
+  onFocus: (objectiveCode: string) => void;
+};
+
+const pct = (v: number) => `${Math.round(v * 100)}%`;
+
+const VERDICTS: Record<ReadinessReport["verdict"], { label: string; className: string }> = {
+  ready: { label: "On track to pass", className: "bg-green-500" },
+  close: { label: "Getting close", className: "bg-amber-500" },
+  not_yet: { label: "Not ready yet", className: "bg-red-500" },
+};
+
+const CONFIDENCE_NOTES: Record<ReadinessReport["confidence"], string> = {
+  low: "Low confidence — most cards haven't been reviewed yet.",
+  medium: "Medium confidence — keep reviewing to sharpen the estimate.",
+  high: "High confidence — based on most of the card bank.",
+};
+
+export default function ReadinessPanel({ report, getDomainColor, onFocus }: Props) {
+  const verdict = VERDICTS[report.verdict];
+
+  return (
+    <div className="bg-white/10 border border-white/15 backdrop-blur-xl rounded-3xl p-6 shadow-2xl mb-8 grid grid-cols-1 lg:grid-cols-[260px_1fr] gap-6">
+      <div>
+        <div className="text-white/70 text-xs font-black uppercase tracking-widest">Exam Readiness</div>
+        <div className="flex items-end gap-3 mt-2">
+          <div className="text-5xl font-black text-white">{pct(report.projectedPercent)}</div>
+          <div className="mb-1 text-white/60 text-xs font-bold">projected • pass {pct(report.passMark)}</div>
+        </div>
+        <div className={`inline-block mt-3 text-[10px] font-black uppercase tracking-widest px-3 py-1 rounded-full text-white ${verdict.className}`}>
+          {verdict.label}
+        </div>
+        <p className="text-white/50 text-xs mt-3">{CONFIDENCE_NOTES[report.confidence]}</p>
+
+        {/* Weighted bar: each segment's width is the domain's exam weight, fill is its readiness */}
+        <div className="mt-4 flex h-2.5 w-full rounded-full overflow-hidden bg-black/20 gap-px">
+          {report.domains.map((d) => (
+            <div
+              key={d.domainId}
+              className="h-full bg-black/20"
+              style={{ width: `${d.weight}%` }}
+              title={`Domain ${d.domainId}: ${pct(d.readiness)} ready (${d.weight}% of exam)`}
+            >
+              <div className="h-full" style={{ width: pct(d.readiness), backgroundColor: getDomainColor(d.domainId) }} />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <div className="text-white/70 text-xs font-black uppercase tracking-widest mb-3">Suggested focus</div>
+        {report.focus.length === 0 ? (
+          <div className="text-white/50 text-sm">Nothing stands out — keep up your daily reviews.</div>
+        ) : (
+          <div className="space-y-2">
+            {report.focus.map((f) => (
+              <button
+                key={f.code}
+                type="button"
+                onClick={() => onFocus(f.code)}
+                className="w-full text-left rounded-2xl bg-black/20 hover:bg-black/30 p-3 flex items-center gap-3"
+              >
+                <div className="w-10 shrink-0 text-sm font-black" style={{ color: getDomainColor(f.domainId) }}>
+                  {f.code}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="text-white text-sm font-bold truncate">{f.title}</div>
+                  <div className="text-[10px] font-black uppercase tracking-widest text-white/50">
+                    {pct(f.readiness)} ready • {f.cardCount} cards • up to +{(f.gain * 100).toFixed(1)} pts
+                  </div>
+                </div>
+                <div className="text-white/60 text-sm font-black">›</div>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
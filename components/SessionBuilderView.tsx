@@ -0,0 +1,202 @@
+// components/SessionBuilderView.tsx
+import React, { useMemo, useState } from "react";
+import { CCNA_DOMAINS, Card, Deck, Difficulty } from "../types";
+import type { ScheduleMap } from "../services/srs";
+import {
+  buildSessionCardIds,
+  collectTags,
+  filterSessionCards,
+  SESSION_LIMITS,
+  SESSION_ORDERS,
+  SESSION_STATUSES,
+  type SessionFilter,
+} from "../services/sessionBuilder";
+
+type Props = {
+  cards: Card[]; // cards the user can open
+  decks: Deck[];
+  schedules: ScheduleMap;
+  initialFilter: SessionFilter;
+  getDomainColor: (id: number) => string;
+  onStart: (filter: SessionFilter, cardIds: string[]) => void;
+};
+
+const DIFFICULTIES: Difficulty[] = ["Easy", "Medium", "Hard"];
+const VISIBLE_TAGS = 24;
+
+const toggle = <T,>(list: T[], item: T) => (list.includes(item) ? list.filter((x) => x !== item) : [...list, item]);
+
+const chipClass = (active: boolean) =>
+  `px-3 py-1.5 rounded-full border text-xs font-black transition-all ${
+    active ? "bg-white text-slate-900 border-white" : "bg-white/10 text-white/80 border-white/10 hover:bg-white/15"
+  }`;
+
+const SectionLabel = ({ children }: { children: React.ReactNode }) => (
+  <div className="text-[10px] font-black uppercase tracking-widest text-white/50 mb-2">{children}</div>
+);
+
+export default function SessionBuilderView({ cards, decks, schedules, initialFilter, getDomainColor, onStart }: Props) {
+  const [filter, setFilter] = useState<SessionFilter>(initialFilter);
+  const [showAllTags, setShowAllTags] = useState(false);
+  const update = (patch: Partial<SessionFilter>) => setFilter((f) => ({ ...f, ...patch }));
+
+  const visibleDecks = useMemo(
+    () =>
+      decks
+        .filter((d) => filter.domainIds.length === 0 || filter.domainIds.includes(Number(d.domain_int)))
+        .sort((a, b) => Number(a.domain_int) - Number(b.domain_int) || Number(a.deck_order) - Number(b.deck_order)),
+    [decks, filter.domainIds]
+  );
+
+  // Tags offered are the ones left after the domain/deck choice
+  const tags = useMemo(() => {
+    const scoped = filterSessionCards(cards, decks, schedules, { ...filter, tags: [], difficulties: [], status: "all" });
+    return collectTags(scoped);
+  }, [cards, decks, schedules, filter]);
+
+  const matching = useMemo(() => filterSessionCards(cards, decks, schedules, filter), [cards, decks, schedules, filter]);
+  const sessionSize = filter.limit > 0 ? Math.min(filter.limit, matching.length) : matching.length;
+
+  const setDomains = (domainIds: number[]) => {
+    // drop decks that are no longer in a selected domain
+    const keep = new Set(
+      decks.filter((d) => domainIds.length === 0 || domainIds.includes(Number(d.domain_int))).map((d) => d.deck_id)
+    );
+    update({ domainIds, deckIds: filter.deckIds.filter((id) => keep.has(id)) });
+  };
+
+  const start = () => {
+    const cardIds = buildSessionCardIds(cards, decks, schedules, filter);
+    if (cardIds.length > 0) onStart(filter, cardIds);
+  };
+
+  return (
+    <main className="flex-1 max-w-3xl mx-auto p-6 w-full">
+      <div className="mb-6">
+        <h2 className="text-2xl font-black uppercase tracking-tight text-white">Custom Session</h2>
+        <p className="text-white/60 text-sm mt-1">
+          Mix cards from any domains and decks, narrow them down, and study them in one session. Leave a section empty to
+          include everything.
+        </p>
+      </div>
+
+      <div className="bg-white/10 border border-white/15 backdrop-blur-xl rounded-3xl p-6 shadow-2xl space-y-6 text-white">
+        <section>
+          <SectionLabel>Domains</SectionLabel>
+          <div className="flex flex-wrap gap-2">
+            {CCNA_DOMAINS.map((d) => {
+              const active = filter.domainIds.includes(d.id);
+              return (
+                <button
+                  key={d.id}
+                  onClick={() => setDomains(toggle(filter.domainIds, d.id))}
+                  style={active ? undefined : { borderColor: getDomainColor(d.id) }}
+                  className={chipClass(active)}
+                >
+                  {d.icon} {d.id}.0 {d.subtitle}
+                </button>
+              );
+            })}
+          </div>
+        </section>
+
+        <section>
+          <SectionLabel>Decks</SectionLabel>
+          <div className="flex flex-wrap gap-2 max-h-48 overflow-y-auto">
+            {visibleDecks.map((d) => (
+              <button
+                key={d.deck_id}
+                onClick={() => update({ deckIds: toggle(filter.deckIds, d.deck_id) })}
+                className={chipClass(filter.deckIds.includes(d.deck_id))}
+              >
+                {d.deck_name}
+              </button>
+            ))}
+          </div>
+        </section>
+
+        {tags.length > 0 && (
+          <section>
+            <SectionLabel>Tags (any of)</SectionLabel>
+            <div className="flex flex-wrap gap-2">
+              {(showAllTags ? tags : tags.slice(0, VISIBLE_TAGS)).map(({ tag, count }) => (
+                <button key={tag} onClick={() => update({ tags: toggle(filter.tags, tag) })} className={chipClass(filter.tags.includes(tag))}>
+                  {tag} <span className="opacity-50">{count}</span>
+                </button>
+              ))}
+              {tags.length > VISIBLE_TAGS && (
+                <button onClick={() => setShowAllTags((v) => !v)} className="px-3 py-1.5 text-xs font-black text-white/60 hover:text-white">
+                  {showAllTags ? "Fewer" : `+${tags.length - VISIBLE_TAGS} more`}
+                </button>
+              )}
+            </div>
+          </section>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+          <section>
+            <SectionLabel>Difficulty</SectionLabel>
+            <div className="flex flex-wrap gap-2">
+              {DIFFICULTIES.map((d) => (
+                <button
+                  key={d}
+                  onClick={() => update({ difficulties: toggle(filter.difficulties, d) })}
+                  className={chipClass(filter.difficulties.includes(d))}
+                >
+                  {d}
+                </button>
+              ))}
+            </div>
+          </section>
+
+          <section>
+            <SectionLabel>Cards</SectionLabel>
+            <div className="flex flex-wrap gap-2">
+              {SESSION_STATUSES.map((s) => (
+                <button key={s.status} onClick={() => update({ status: s.status })} className={chipClass(filter.status === s.status)}>
+                  {s.label}
+                </button>
+              ))}
+            </div>
+          </section>
+
+          <section>
+            <SectionLabel>Limit</SectionLabel>
+            <div className="flex flex-wrap gap-2">
+              {SESSION_LIMITS.map((n) => (
+                <button key={n} onClick={() => update({ limit: n })} className={chipClass(filter.limit === n)}>
+                  {n === 0 ? "No limit" : n}
+                </button>
+              ))}
+            </div>
+          </section>
+
+          <section>
+            <SectionLabel>Order</SectionLabel>
+            <div className="flex flex-wrap gap-2">
+              {SESSION_ORDERS.map((o) => (
+                <button key={o.order} onClick={() => update({ order: o.order })} className={chipClass(filter.order === o.order)}>
+                  {o.label}
+                </button>
+              ))}
+            </div>
+          </section>
+        </div>
+
+        <div className="pt-2 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div className="text-sm text-white/70">
+            <b className="text-white">{matching.length}</b> matching card{matching.length === 1 ? "" : "s"}
+            {sessionSize < matching.length && <> • studying {sessionSize}</>}
+          </div>
+          <button
+            onClick={start}
+            disabled={sessionSize === 0}
+            className="px-6 py-3 rounded-2xl bg-white text-slate-900 font-black shadow-lg hover:opacity-95 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Start session ({sessionSize})
+          </button>
+        </div>
+      </div>
+    </main>
+  );
+}
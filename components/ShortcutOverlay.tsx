@@ -0,0 +1,110 @@
+// components/ShortcutOverlay.tsx
+import React, { useEffect, useRef, useState } from "react";
+import {
+  assignShortcut,
+  DEFAULT_SHORTCUTS,
+  isBindableKey,
+  keyLabel,
+  normalizeKey,
+  SHORTCUT_ACTIONS,
+  type ShortcutAction,
+  type ShortcutMap,
+} from "../services/shortcuts";
+import { useDialogFocus } from "./useDialogFocus";
+
+type Props = {
+  shortcuts: ShortcutMap;
+  onChange: (shortcuts: ShortcutMap) => void;
+  onClose: () => void;
+};
+
+export default function ShortcutOverlay({ shortcuts, onChange, onClose }: Props) {
+  // the action waiting for its new key, if any
+  const [capturing, setCapturing] = useState<ShortcutAction | null>(null);
+
+  const dialogRef = useRef<HTMLDivElement>(null);
+  useDialogFocus(dialogRef, () => (capturing ? setCapturing(null) : onClose()));
+
+  // Owns the keyboard while open: the study shortcuts in App.tsx stand down
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      if (capturing) {
+        e.preventDefault();
+        if (e.key === "Escape") setCapturing(null);
+        else if (isBindableKey(e.key)) {
+          onChange(assignShortcut(shortcuts, capturing, e.key));
+          setCapturing(null);
+        }
+        return;
+      }
+      const key = normalizeKey(e.key);
+      if (key === "Escape" || key === shortcuts.closeTutor || key === shortcuts.help) {
+        e.preventDefault();
+        onClose();
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [capturing, shortcuts, onChange, onClose]);
+
+  const isDefault = SHORTCUT_ACTIONS.every(({ action }) => shortcuts[action] === DEFAULT_SHORTCUTS[action]);
+
+  return (
+    <div className="fixed inset-0 z-[210] flex items-center justify-center p-4">
+      <div aria-hidden="true" onClick={onClose} className="absolute inset-0 bg-black/40" />
+
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shortcut-overlay-title"
+        tabIndex={-1}
+        className="relative w-full max-w-md bg-white rounded-3xl shadow-2xl border border-slate-200 overflow-hidden outline-none"
+      >
+        <div className="p-5 flex items-start justify-between border-b border-slate-200">
+          <div>
+            <div id="shortcut-overlay-title" className="text-sm font-black text-slate-900">Keyboard shortcuts</div>
+            <div className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400">
+              Click a key to change it
+            </div>
+          </div>
+          <button onClick={onClose} aria-label="Close keyboard shortcuts" className="w-10 h-10 rounded-full hover:bg-slate-100 text-slate-500 font-black">
+            ×
+          </button>
+        </div>
+
+        <ul className="p-5 max-h-[60vh] overflow-y-auto divide-y divide-slate-100">
+          {SHORTCUT_ACTIONS.map(({ action, label }) => (
+            <li key={action} className="flex items-center justify-between py-2">
+              <span className="text-sm text-slate-700">{label}</span>
+              <button
+                onClick={() => setCapturing(capturing === action ? null : action)}
+                aria-label={`${label}: ${capturing === action ? "press the new key, or Escape to cancel" : keyLabel(shortcuts[action])}`}
+                aria-pressed={capturing === action}
+                className={`min-w-[64px] px-3 py-1.5 rounded-lg border font-mono text-xs font-bold ${
+                  capturing === action
+                    ? "bg-blue-600 border-blue-600 text-white animate-pulse motion-reduce:animate-none"
+                    : "bg-slate-50 border-slate-200 text-slate-700 hover:border-slate-400"
+                }`}
+              >
+                {capturing === action ? "press a key" : keyLabel(shortcuts[action])}
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <div className="px-5 pb-5 flex items-center justify-between text-xs">
+          <span className="text-slate-400">Grades apply once the card is flipped.</span>
+          <button
+            onClick={() => onChange(DEFAULT_SHORTCUTS)}
+            disabled={isDefault}
+            className="font-black text-slate-500 hover:text-slate-900 disabled:opacity-40"
+          >
+            Reset to defaults
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
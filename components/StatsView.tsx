@@ -0,0 +1,160 @@
+// components/StatsView.tsx
+import React from "react";
+import type { AccuracyRow, DayActivity, StudyStats } from "../services/stats";
+
+type Props = {
+  stats: StudyStats;
+  getDomainColor: (id: number) => string;
+  onStudyObjective: (code: string) => void;
+};
+
+const pct = (v: number) => `${Math.round(v * 100)}%`;
+
+const heatClass = (reviews: number) => {
+  if (reviews === 0) return "bg-white/10";
+  if (reviews < 10) return "bg-emerald-900";
+  if (reviews < 25) return "bg-emerald-700";
+  if (reviews < 50) return "bg-emerald-500";
+  return "bg-emerald-300";
+};
+
+const dayTitle = (d: DayActivity) =>
+  d.reviews === 0 ? `${d.day}: no reviews` : `${d.day}: ${d.reviews} reviews, ${pct(d.correct / d.reviews)} correct`;
+
+const Tile = ({ label, value }: { label: string; value: string }) => (
+  <div className="bg-white/10 border border-white/10 rounded-2xl p-4 backdrop-blur-xl">
+    <div className="text-[10px] font-black uppercase tracking-widest text-white/50">{label}</div>
+    <div className="text-2xl font-black text-white mt-1">{value}</div>
+  </div>
+);
+
+const AccuracyBar = ({ row, color }: { row: AccuracyRow; color: string }) => (
+  <div>
+    <div className="flex justify-between gap-3 text-[10px] font-black uppercase tracking-widest text-white/70">
+      <span className="truncate" style={{ color }}>
+        {row.label}
+      </span>
+      <span className="shrink-0">
+        {row.correct}/{row.reviews} • {pct(row.accuracy)}
+      </span>
+    </div>
+    <div className="mt-1.5 h-2 w-full bg-black/20 rounded-full overflow-hidden">
+      <div className="h-full rounded-full" style={{ width: pct(row.accuracy), backgroundColor: color }} />
+    </div>
+  </div>
+);
+
+export default function StatsView({ stats, getDomainColor, onStudyObjective }: Props) {
+  const maxRecent = Math.max(1, ...stats.recentDays.map((d) => d.reviews));
+
+  return (
+    <main className="flex-1 max-w-4xl mx-auto p-6 w-full space-y-6">
+      <div>
+        <h2 className="text-2xl font-black uppercase tracking-tight text-white">Study Stats</h2>
+        <p className="text-white/60 text-sm mt-1">Every graded card is logged on this device. Accuracy counts Hard, Good and Easy as correct.</p>
+      </div>
+
+      {stats.totalReviews === 0 && stats.subnetting.attempts === 0 ? (
+        <div className="bg-white/10 border border-white/10 rounded-3xl p-8 text-center text-white/70">
+          No reviews yet — grade a few cards and your history shows up here.
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <Tile label="Current streak" value={`${stats.currentStreak} day${stats.currentStreak === 1 ? "" : "s"}`} />
+            <Tile label="Longest streak" value={`${stats.longestStreak} day${stats.longestStreak === 1 ? "" : "s"}`} />
+            <Tile label="Reviews" value={`${stats.totalReviews}`} />
+            <Tile label="Accuracy" value={`${pct(stats.accuracy)} • ${Math.round(stats.avgAnswerMs / 1000)}s avg`} />
+          </div>
+
+          {stats.quizzes.taken > 0 && (
+            <div className="bg-white/10 border border-white/10 rounded-2xl px-4 py-3 text-sm text-white/80">
+              🧠 AI quizzes: <b className="text-white">{stats.quizzes.taken}</b> taken •{" "}
+              <b className="text-white">{pct(stats.quizzes.accuracy)}</b> of {stats.quizzes.questions} questions correct
+            </div>
+          )}
+
+          {stats.subnetting.attempts > 0 && (
+            <div className="bg-white/10 border border-white/10 rounded-2xl px-4 py-3 text-sm text-white/80">
+              🧮 Subnetting drills: <b className="text-white">{stats.subnetting.correct}</b>/{stats.subnetting.attempts} solved •{" "}
+              <b className="text-white">{pct(stats.subnetting.accuracy)}</b> (counted in Domain 1)
+            </div>
+          )}
+
+          {/* Heatmap: one column per week, Sunday on top */}
+          <section className="bg-white/10 border border-white/10 rounded-3xl p-5 backdrop-blur-xl">
+            <div className="text-[10px] font-black uppercase tracking-widest text-white/60 mb-3">
+              Activity • {stats.activeDays} active day{stats.activeDays === 1 ? "" : "s"}
+            </div>
+            <div className="grid grid-rows-7 grid-flow-col gap-1 w-fit">
+              {stats.heatmap.map((d) => (
+                <div key={d.day} title={dayTitle(d)} className={`w-3.5 h-3.5 rounded-sm ${heatClass(d.reviews)}`} />
+              ))}
+            </div>
+          </section>
+
+          {/* Reviews per day */}
+          <section className="bg-white/10 border border-white/10 rounded-3xl p-5 backdrop-blur-xl">
+            <div className="text-[10px] font-black uppercase tracking-widest text-white/60 mb-3">
+              Cards reviewed per day • last {stats.recentDays.length} days
+            </div>
+            <div className="flex items-end gap-1 h-28">
+              {stats.recentDays.map((d) => (
+                <div key={d.day} title={dayTitle(d)} className="flex-1 h-full flex items-end">
+                  <div
+                    className="w-full rounded-t bg-emerald-400"
+                    style={{ height: `${(d.reviews / maxRecent) * 100}%`, minHeight: d.reviews > 0 ? 2 : 0 }}
+                  />
+                </div>
+              ))}
+            </div>
+          </section>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <section className="bg-white/10 border border-white/10 rounded-3xl p-5 backdrop-blur-xl space-y-3">
+              <div className="text-[10px] font-black uppercase tracking-widest text-white/60">Accuracy by domain</div>
+              {stats.byDomain.map((r) => (
+                <AccuracyBar key={r.key} row={r} color={getDomainColor(Number(r.key))} />
+              ))}
+            </section>
+
+            <section className="bg-white/10 border border-white/10 rounded-3xl p-5 backdrop-blur-xl">
+              <div className="text-[10px] font-black uppercase tracking-widest text-white/60 mb-3">Weakest objectives</div>
+              {stats.weakestObjectives.length === 0 ? (
+                <div className="text-white/50 text-sm">Not enough reviews per objective yet.</div>
+              ) : (
+                <div className="space-y-2">
+                  {stats.weakestObjectives.map((r) => (
+                    <button
+                      key={r.key}
+                      onClick={() => onStudyObjective(r.key)}
+                      className="w-full text-left rounded-2xl bg-black/20 hover:bg-black/30 p-3 flex items-center gap-3"
+                    >
+                      <div className="w-10 shrink-0 text-sm font-black" style={{ color: getDomainColor(Number(r.key.split(".")[0])) }}>
+                        {r.key}
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <div className="text-white text-sm font-bold truncate">{r.label}</div>
+                        <div className="text-[10px] font-black uppercase tracking-widest text-white/50">
+                          {pct(r.accuracy)} of {r.reviews} reviews
+                        </div>
+                      </div>
+                      <div className="text-white/60 text-sm font-black">›</div>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </section>
+          </div>
+
+          <section className="bg-white/10 border border-white/10 rounded-3xl p-5 backdrop-blur-xl space-y-3">
+            <div className="text-[10px] font-black uppercase tracking-widest text-white/60">Accuracy by deck</div>
+            {stats.byDeck.map((r) => (
+              <AccuracyBar key={r.key} row={r} color="#34d399" />
+            ))}
+          </section>
+        </>
+      )}
+    </main>
+  );
+}
@@ -1,11 +1,33 @@
 // components/StudyAssistant.tsx
 import React, { useEffect, useMemo, useRef, useState } from "react";
-import type { AiTutorResult } from "../services/gemini";
+import { useAuth } from "@clerk/clerk-react";
+import {
+  askTutor,
+  emptyThread,
+  TutorLimitError,
+  TutorOfflineError,
+  type AiTutorResult,
+  type QuizScope,
+  type TutorChatContext,
+  type TutorThread,
+} from "../services/gemini";
+import { coerceTutorResult } from "../services/tutorSchema";
+import TutorQuiz from "./TutorQuiz";
+import { useDialogFocus } from "./useDialogFocus";
 
 type Props = {
   concept: string;
   result: AiTutorResult | null;
   loading: boolean;
+  // set when the server refused the explanation (quota, rate limit, signed out)
+  limit?: TutorLimitError | null;
+  // set when there was no connection; `result` is then the saved copy (or null)
+  offline?: TutorOfflineError | null;
+  onUpgrade?: () => void;
+  // card the follow-up chat and "Quiz me" are about; both are hidden without it
+  chatContext?: TutorChatContext;
+  objective?: string; // offers an objective-wide quiz too
+  onQuizComplete?: (scope: QuizScope, correct: number, total: number) => void;
   onClose: () => void;
 };
 
@@ -60,113 +82,6 @@ function useSectionTTS() {
   return { speak, stop, speakingId };
 }
 
-/* -------------------- Normalizers (avoid JSON blob issues) -------------------- */
-function extractJsonBlock(s: string): string | null {
-  if (!s) return null;
-  const first = s.indexOf("{");
-  const last = s.lastIndexOf("}");
-  if (first === -1 || last === -1 || last <= first) return null;
-  return s.slice(first, last + 1);
-}
-
-function tryParseJson(s: string): any | null {
-  try {
-    return JSON.parse(s);
-  } catch {
-    return null;
-  }
-}
-
-function looksLikeJsonBlob(s: string) {
-  if (!s) return false;
-  const t = s.trim();
-  return t.startsWith("{") && t.includes('"simpleExplanation"') && t.includes('"title"');
-}
-
-function cleanText(s?: string) {
-  if (!s) return "";
-  let t = String(s);
-
-  // remove code fences if any
-  t = t.replace(/```(?:json)?/gi, "").replace(/```/g, "");
-  t = t.trim();
-
-  // remove markdown headers like ### that can appear in responses
-  t = t
-    .split("\n")
-    .filter((line) => !/^\s*#+\s*/.test(line))
-    .join("\n")
-    .trim();
-
-  return t;
-}
-
-function toStringArray(v: any): string[] {
-  if (!v) return [];
-  if (Array.isArray(v)) return v.map((x) => cleanText(String(x))).filter(Boolean);
-
-  const s = cleanText(String(v));
-  if (!s) return [];
-
-  return s
-    .split(/\n|•|·|\u2022|-\s+/g)
-    .map((x) => cleanText(x))
-    .filter(Boolean);
-}
-
-function normalizeResult(input: AiTutorResult | null): AiTutorResult | null {
-  if (!input) return null;
-
-  // Sometimes the whole JSON ends up inside simpleExplanation or title, etc.
-  const candidates = [
-    (input as any)?.simpleExplanation,
-    (input as any)?.title,
-    (input as any)?.raw,
-    (input as any)?.text,
-  ]
-    .map((x) => (typeof x === "string" ? x : ""))
-    .filter(Boolean);
-
-  for (const c of candidates) {
-    const trimmed = c.trim();
-    const jsonBlock = looksLikeJsonBlob(trimmed) ? trimmed : extractJsonBlock(trimmed);
-    if (!jsonBlock) continue;
-
-    const parsed = tryParseJson(jsonBlock);
-    if (parsed && typeof parsed === "object") {
-      const hasEnoughData =
-        typeof parsed.simpleExplanation === "string" &&
-        parsed.simpleExplanation.length > 20 &&
-        (typeof parsed.realWorldExample === "string" ||
-          Array.isArray(parsed.keyCommands) ||
-          Array.isArray(parsed.commonMistakes));
-
-      if (!hasEnoughData) continue;
-
-      const merged: any = { ...(input as any), ...parsed };
-
-      merged.title = cleanText(merged.title) || "AI Tutor";
-      merged.simpleExplanation = cleanText(merged.simpleExplanation);
-      merged.realWorldExample = cleanText(merged.realWorldExample);
-      merged.keyCommands = toStringArray(merged.keyCommands);
-      merged.commonMistakes = toStringArray(merged.commonMistakes);
-      merged.quickCheck = toStringArray(merged.quickCheck);
-
-      return merged as AiTutorResult;
-    }
-  }
-
-  // Normal path
-  const out: any = { ...(input as any) };
-  out.title = cleanText(out.title) || "AI Tutor";
-  out.simpleExplanation = cleanText(out.simpleExplanation);
-  out.realWorldExample = cleanText(out.realWorldExample);
-  out.keyCommands = toStringArray(out.keyCommands);
-  out.commonMistakes = toStringArray(out.commonMistakes);
-  out.quickCheck = toStringArray(out.quickCheck);
-  return out as AiTutorResult;
-}
-
 /* -------------------- UI helpers -------------------- */
 type SectionTone = "default" | "commands" | "mistakes" | "check" | "example";
 
@@ -216,6 +131,7 @@ const SpeakButton: React.FC<{
       }}
       className="text-[11px] font-black uppercase tracking-widest px-3 py-1.5 rounded-full border border-slate-200 bg-white hover:bg-slate-50 text-slate-700"
       title={isOn ? "Stop" : "Listen"}
+      aria-pressed={isOn}
     >
       {isOn ? "⏹ Stop" : "🔊 Listen"}
     </button>
@@ -292,18 +208,157 @@ const Section: React.FC<{
   );
 };
 
+/* -------------------- Limits -------------------- */
+function formatWait(seconds: number) {
+  if (seconds < 60) return `${seconds} s`;
+  if (seconds < 3600) return `${Math.ceil(seconds / 60)} min`;
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.round((seconds % 3600) / 60);
+  return minutes ? `${hours} h ${minutes} min` : `${hours} h`;
+}
+
+/** One line for inline errors (chat): the server message plus when to retry. */
+function limitMessage(limit: TutorLimitError) {
+  return limit.retryAfterSeconds ? `${limit.message} Try again in ${formatWait(limit.retryAfterSeconds)}.` : limit.message;
+}
+
+const LimitNotice: React.FC<{ limit: TutorLimitError; onUpgrade?: () => void }> = ({ limit, onUpgrade }) => (
+  <div className="rounded-2xl border border-amber-200 bg-amber-50 p-5 text-center">
+    <div className="text-3xl mb-2">{limit.upgrade ? "👑" : "⏳"}</div>
+    <div className="text-sm font-black text-slate-900">{limit.message}</div>
+    {limit.retryAfterSeconds ? (
+      <div className="text-xs font-bold text-slate-500 mt-1">
+        {limit.code === "daily_quota" ? "Resets in" : "Try again in"} {formatWait(limit.retryAfterSeconds)}.
+      </div>
+    ) : null}
+    {limit.upgrade && onUpgrade && (
+      <button
+        type="button"
+        onClick={onUpgrade}
+        className="mt-4 px-5 py-2.5 rounded-xl bg-amber-400 text-amber-900 text-xs font-black shadow-sm hover:opacity-95"
+      >
+        Upgrade to Pro for more
+      </button>
+    )}
+  </div>
+);
+
+/* -------------------- Follow-up chat -------------------- */
+const FollowUpChat: React.FC<{ context: TutorChatContext; disabled: boolean }> = ({ context, disabled }) => {
+  const [thread, setThread] = useState<TutorThread>(emptyThread);
+  const [draft, setDraft] = useState("");
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const endRef = useRef<HTMLDivElement | null>(null);
+  const { getToken } = useAuth();
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: "nearest" });
+  }, [thread.messages.length, sending]);
+
+  const send = async () => {
+    const message = draft.trim();
+    if (!message || sending) return;
+
+    setSending(true);
+    setError(null);
+    setDraft("");
+    try {
+      setThread(await askTutor(context, thread, message, await getToken()));
+    } catch (e: any) {
+      setError(e instanceof TutorLimitError ? limitMessage(e) : e?.message || "Couldn't reach the tutor.");
+      setDraft(message);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="border border-slate-200 rounded-2xl p-4 bg-white shadow-sm">
+      <div className="flex items-center gap-2 mb-3">
+        <div className="w-1.5 h-5 rounded-full bg-gradient-to-b from-sky-500 to-blue-500" />
+        <span className="text-base leading-none">💬</span>
+        <span className="text-xs font-extrabold uppercase tracking-widest text-slate-800">Ask a follow-up</span>
+      </div>
+
+      {thread.messages.length > 0 && (
+        <div className="space-y-2 mb-3">
+          {thread.messages.map((m, i) => (
+            <div key={i} className={`flex ${m.role === "user" ? "justify-end" : "justify-start"}`}>
+              <div
+                className={`max-w-[85%] rounded-2xl px-3 py-2 text-sm whitespace-pre-wrap ${
+                  m.role === "user" ? "bg-slate-900 text-white" : "bg-slate-100 text-slate-800"
+                }`}
+              >
+                {m.text}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {sending && <div className="text-xs font-bold text-slate-400 mb-2">Tutor is typing…</div>}
+      {error && <div className="text-xs font-bold text-red-600 mb-2">{error}</div>}
+      <div ref={endRef} />
+
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          send();
+        }}
+      >
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          disabled={disabled || sending}
+          placeholder={'e.g. "Why not use a /30 here?"'}
+          className="flex-1 rounded-xl border border-slate-200 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-slate-50"
+        />
+        <button
+          type="submit"
+          disabled={disabled || sending || !draft.trim()}
+          className="px-4 py-2 rounded-xl bg-slate-900 text-white text-xs font-black disabled:opacity-40"
+        >
+          Ask
+        </button>
+      </form>
+    </div>
+  );
+};
+
 /* -------------------- Component -------------------- */
-export default function StudyAssistant({ concept, result, loading, onClose }: Props) {
-  const normalized = useMemo(() => normalizeResult(result), [result]);
+export default function StudyAssistant({
+  concept,
+  result,
+  loading,
+  limit,
+  offline,
+  onUpgrade,
+  chatContext,
+  objective,
+  onQuizComplete,
+  onClose,
+}: Props) {
+  // results come from the server already coerced; this also covers partial (streaming) ones
+  const normalized = useMemo(() => (result ? coerceTutorResult(result).result : null), [result]);
 
   const { speak, stop, speakingId } = useSectionTTS();
 
-  // stop TTS when modal closes
+  // stop TTS when a new explanation starts
   useEffect(() => {
     if (loading) stop();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [loading]);
 
+  const close = () => {
+    stop();
+    onClose();
+  };
+
+  const dialogRef = useRef<HTMLDivElement>(null);
+  useDialogFocus(dialogRef, close);
+
   const safe = normalized ?? {
     title: "AI Tutor",
     simpleExplanation: "",
@@ -322,51 +377,68 @@ export default function StudyAssistant({ concept, result, loading, onClose }: Pr
 
   return (
     <div className="fixed inset-0 z-[200] flex items-center justify-center p-4">
-      {/* Backdrop */}
-      <button
-        aria-label="Close AI Tutor"
-        onClick={() => {
-          stop();
-          onClose();
-        }}
-        className="absolute inset-0 bg-black/40"
-      />
+      {/* Backdrop (Escape and the buttons below cover keyboard users) */}
+      <div aria-hidden="true" onClick={close} className="absolute inset-0 bg-black/40" />
 
       {/* Modal */}
-      <div className="relative w-full max-w-3xl bg-white rounded-3xl shadow-2xl border border-slate-200 overflow-hidden">
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="study-assistant-title"
+        aria-describedby="study-assistant-concept"
+        tabIndex={-1}
+        className="relative w-full max-w-3xl bg-white rounded-3xl shadow-2xl border border-slate-200 overflow-hidden outline-none"
+      >
         <div className="p-5 flex items-start justify-between border-b border-slate-200">
           <div className="flex items-start gap-3">
             <div className="w-10 h-10 rounded-2xl bg-blue-50 flex items-center justify-center">
               ⚡
             </div>
             <div>
-              <div className="text-sm font-black text-slate-900">AI Tutor</div>
-              <div className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400">
+              <div id="study-assistant-title" className="text-sm font-black text-slate-900">AI Tutor</div>
+              <div id="study-assistant-concept" className="text-[10px] font-black uppercase tracking-[0.2em] text-slate-400">
                 Deep Dive: {concept}
               </div>
             </div>
           </div>
 
           <button
-            onClick={() => {
-              stop();
-              onClose();
-            }}
+            onClick={close}
+            aria-label="Close AI Tutor"
             className="w-10 h-10 rounded-full hover:bg-slate-100 text-slate-500 font-black"
           >
             ×
           </button>
         </div>
 
-        <div className="p-5 max-h-[70vh] overflow-y-auto space-y-4">
+        <div className="p-5 max-h-[70vh] overflow-y-auto space-y-4" aria-busy={loading}>
           {loading && (
-            <div className="flex items-center gap-3 text-slate-500">
-              <div className="w-5 h-5 border-2 border-slate-300 border-t-transparent rounded-full animate-spin" />
-              <div className="text-sm font-bold">Thinking...</div>
+            <div role="status" className="flex items-center gap-3 text-slate-500">
+              <div aria-hidden="true" className="w-5 h-5 border-2 border-slate-300 border-t-transparent rounded-full animate-spin motion-reduce:animate-none" />
+              <div className="text-sm font-bold">{normalized ? "Writing..." : "Thinking..."}</div>
             </div>
           )}
 
-          {!loading && normalized && (
+          {limit && <LimitNotice limit={limit} onUpgrade={onUpgrade} />}
+
+          {offline && (
+            <div
+              className={`rounded-2xl border p-4 text-sm font-bold ${
+                offline.saved ? "bg-slate-50 border-slate-200 text-slate-600" : "bg-amber-50 border-amber-200 text-amber-900 text-center"
+              }`}
+            >
+              {!offline.saved && <div className="text-3xl mb-2">📴</div>}
+              {offline.saved && "📴 "}
+              {offline.message}
+              {!offline.saved && (
+                <div className="text-xs font-medium text-amber-800 mt-1">Open it again once you're back online.</div>
+              )}
+            </div>
+          )}
+
+          {/* Rendered while streaming too: sections fill in as partial results arrive */}
+          {normalized && (
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <Section
                 title="Simple explanation"
@@ -433,6 +505,18 @@ export default function StudyAssistant({ concept, result, loading, onClose }: Pr
             </div>
           )}
 
+          {normalized && !loading && !offline && chatContext && (
+            <TutorQuiz key={concept} cardId={chatContext.cardId} objective={objective} onComplete={onQuizComplete} />
+          )}
+
+          {normalized && !offline && chatContext && (
+            <FollowUpChat
+              key={concept}
+              context={chatContext}
+              disabled={loading}
+            />
+          )}
+
           {!loading && !normalized && (
             <p className="text-sm text-slate-600">
               No explanation yet. Click <b>AI Explain</b> again.
@@ -442,10 +526,7 @@ export default function StudyAssistant({ concept, result, loading, onClose }: Pr
 
         <div className="p-5 border-t border-slate-200 flex justify-end">
           <button
-            onClick={() => {
-              stop();
-              onClose();
-            }}
+            onClick={close}
             className="px-6 py-3 bg-slate-900 text-white rounded-2xl font-black shadow-lg hover:bg-slate-800"
           >
             Got it, thanks!
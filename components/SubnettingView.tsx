@@ -0,0 +1,199 @@
+// components/SubnettingView.tsx
+import React, { useRef, useState } from "react";
+import {
+  checkSubnetAnswers,
+  generateSubnetExercise,
+  SUBNET_KINDS,
+  type SubnetCheck,
+  type SubnetKind,
+} from "../services/subnetting";
+import type { SubnetResult } from "../services/subnetLog";
+
+type Props = {
+  color: string; // Domain 1 colour
+  onResult: (result: SubnetResult) => void;
+  onExit: () => void;
+};
+
+const kindLabel = (kind: SubnetKind) => SUBNET_KINDS.find((k) => k.kind === kind)?.label ?? kind;
+
+export default function SubnettingView({ color, onResult, onExit }: Props) {
+  const [kind, setKind] = useState<SubnetKind | null>(null); // null = mixed
+  const [exercise, setExercise] = useState(() => generateSubnetExercise());
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [check, setCheck] = useState<SubnetCheck | null>(null);
+  const [startedAt, setStartedAt] = useState(Date.now());
+  const [tally, setTally] = useState({ correct: 0, total: 0 });
+  const firstInput = useRef<HTMLInputElement>(null);
+
+  const next = (k: SubnetKind | null = kind) => {
+    setExercise(generateSubnetExercise(k ?? undefined));
+    setAnswers({});
+    setCheck(null);
+    setStartedAt(Date.now());
+    window.setTimeout(() => firstInput.current?.focus(), 0);
+  };
+
+  const chooseKind = (k: SubnetKind | null) => {
+    setKind(k);
+    next(k);
+  };
+
+  // giving up counts as a miss, same as a wrong answer
+  const submit = (given: Record<string, string>) => {
+    if (check) return;
+    const result = checkSubnetAnswers(exercise, given);
+    setCheck(result);
+    setTally((t) => ({ correct: t.correct + (result.correct ? 1 : 0), total: t.total + 1 }));
+    onResult({
+      at: Date.now(),
+      kind: exercise.kind,
+      objective: exercise.objective,
+      correct: result.correct,
+      elapsedMs: Date.now() - startedAt,
+    });
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== "Enter") return;
+    e.preventDefault();
+    if (check) next();
+    else submit(answers);
+  };
+
+  const fieldCheck = (key: string) => check?.fields.find((f) => f.key === key);
+
+  return (
+    <main className="flex-1 max-w-2xl mx-auto p-6 w-full">
+      <div className="mb-6 flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-black uppercase tracking-tight text-white">Subnetting Practice</h2>
+          <p className="text-white/60 text-sm mt-1">
+            Endless generated problems, checked exactly, with the working shown. Results count toward Domain 1.
+          </p>
+        </div>
+        <div className="text-right shrink-0">
+          <div className="text-2xl font-black text-white">
+            {tally.correct}/{tally.total}
+          </div>
+          <div className="text-[10px] font-black uppercase tracking-widest text-white/50">This session</div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {[{ kind: null, label: "Mixed" }, ...SUBNET_KINDS].map((k) => (
+          <button
+            key={k.label}
+            onClick={() => chooseKind(k.kind)}
+            className={`px-3 py-1.5 rounded-full text-xs font-black border transition-all ${
+              kind === k.kind ? "bg-white text-slate-900 border-white" : "bg-white/10 text-white/70 border-white/10 hover:bg-white/15"
+            }`}
+          >
+            {k.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="bg-white rounded-3xl shadow-xl p-6 border-l-[6px]" style={{ borderLeftColor: color }}>
+        <span
+          className="text-[10px] font-black px-2.5 py-1 rounded-md uppercase tracking-[0.1em]"
+          style={{ backgroundColor: `${color}15`, color }}
+        >
+          {exercise.objective} • {kindLabel(exercise.kind)}
+        </span>
+
+        <h3 className="text-lg font-bold text-slate-800 mt-4">{exercise.prompt}</h3>
+
+        <div className="mt-3 bg-slate-900 rounded-2xl p-4 font-mono text-sm text-green-300 space-y-1">
+          {exercise.given.map((g) => (
+            <div key={g} className="break-all">
+              {g}
+            </div>
+          ))}
+        </div>
+
+        <div className="mt-5 space-y-3">
+          {exercise.fields.map((f, i) => {
+            const fc = fieldCheck(f.key);
+            return (
+              <label key={f.key} className="block">
+                <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">{f.label}</span>
+                <input
+                  ref={i === 0 ? firstInput : undefined}
+                  autoFocus={i === 0}
+                  value={answers[f.key] ?? ""}
+                  onChange={(e) => setAnswers((a) => ({ ...a, [f.key]: e.target.value }))}
+                  onKeyDown={onKeyDown}
+                  readOnly={!!check}
+                  spellCheck={false}
+                  autoCapitalize="off"
+                  autoComplete="off"
+                  className={`mt-1 w-full rounded-xl border px-3 py-2 font-mono text-sm text-slate-800 outline-none ${
+                    !fc ? "border-slate-200 focus:border-slate-400" : fc.correct ? "border-green-500 bg-green-50" : "border-red-400 bg-red-50"
+                  }`}
+                />
+                {fc && !fc.correct && (
+                  <span className="block text-xs mt-1">
+                    {fc.problem && <span className="text-red-600">{fc.problem}. </span>}
+                    <span className="text-green-700 font-mono">✓ {fc.expected}</span>
+                  </span>
+                )}
+              </label>
+            );
+          })}
+        </div>
+
+        {!check ? (
+          <div className="mt-6 flex gap-3">
+            <button
+              onClick={() => submit(answers)}
+              className="flex-1 py-3 rounded-xl text-white text-xs font-black"
+              style={{ backgroundColor: color }}
+            >
+              CHECK
+            </button>
+            <button
+              onClick={() => submit({})}
+              className="px-4 py-3 rounded-xl bg-slate-100 text-slate-500 text-xs font-black hover:bg-slate-200"
+            >
+              Show answer
+            </button>
+          </div>
+        ) : (
+          <>
+            <div
+              className={`mt-6 rounded-xl px-4 py-3 text-sm font-black text-white ${check.correct ? "bg-green-600" : "bg-red-600"}`}
+            >
+              {check.correct ? "✓ Correct" : `✗ ${check.fields.filter((f) => f.correct).length}/${check.fields.length} right`}
+            </div>
+
+            <div className="mt-4">
+              <h4 className="text-[10px] font-black uppercase tracking-widest mb-2" style={{ color }}>
+                Worked solution
+              </h4>
+              <ol className="list-decimal list-inside space-y-1.5 text-sm text-slate-700">
+                {exercise.steps.map((s, i) => (
+                  <li key={i} className="font-mono text-xs leading-relaxed whitespace-pre-wrap">
+                    {s}
+                  </li>
+                ))}
+              </ol>
+            </div>
+
+            <button
+              onClick={() => next()}
+              className="mt-6 w-full py-3 rounded-xl text-white text-xs font-black"
+              style={{ backgroundColor: color }}
+            >
+              NEXT PROBLEM
+            </button>
+          </>
+        )}
+      </div>
+
+      <button onClick={onExit} className="mt-6 w-full py-3 rounded-2xl bg-white/10 border border-white/10 text-white font-black hover:bg-white/15">
+        Dashboard
+      </button>
+    </main>
+  );
+}
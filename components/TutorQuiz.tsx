@@ -0,0 +1,276 @@
+// components/TutorQuiz.tsx
+// "Quiz me" mini-quiz shown inside the AI Tutor: multiple choice (instant feedback) and
+// drag-and-drop ordering (drag rows or use the arrows, then check).
+import React, { useRef, useState } from "react";
+import { useAuth } from "@clerk/clerk-react";
+import { fetchQuiz, type QuizItem, type QuizScope } from "../services/gemini";
+
+type Props = {
+  cardId: string;
+  objective?: string;
+  onComplete?: (scope: QuizScope, correct: number, total: number) => void;
+};
+
+type Answer = { correct: boolean };
+
+/** Shuffled option indices, never already in the solved order. */
+function scrambledOrder(n: number): number[] {
+  const order = Array.from({ length: n }, (_, i) => i);
+  if (n < 2) return order;
+  do {
+    for (let i = n - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+  } while (order.every((v, i) => v === i));
+  return order;
+}
+
+const McqQuestion: React.FC<{
+  item: Extract<QuizItem, { type: "mcq" }>;
+  answer?: Answer;
+  onAnswer: (correct: boolean) => void;
+}> = ({ item, answer, onAnswer }) => {
+  const [picked, setPicked] = useState<number | null>(null);
+
+  return (
+    <div className="space-y-2">
+      {item.options.map((opt, i) => {
+        const revealed = answer !== undefined;
+        const isRight = i === item.correctIndex;
+        const tone = !revealed
+          ? "border-slate-200 hover:bg-slate-50"
+          : isRight
+          ? "border-emerald-400 bg-emerald-50"
+          : i === picked
+          ? "border-red-400 bg-red-50"
+          : "border-slate-200 opacity-60";
+
+        return (
+          <button
+            key={i}
+            type="button"
+            disabled={revealed}
+            onClick={() => {
+              setPicked(i);
+              onAnswer(isRight);
+            }}
+            className={`w-full text-left rounded-xl border px-3 py-2 text-sm text-slate-800 ${tone}`}
+          >
+            <span className="font-black text-slate-400 mr-2">{String.fromCharCode(65 + i)}</span>
+            {opt}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+const DragDropQuestion: React.FC<{
+  item: Extract<QuizItem, { type: "dragdrop" }>;
+  answer?: Answer;
+  onAnswer: (correct: boolean) => void;
+}> = ({ item, answer, onAnswer }) => {
+  const [order, setOrder] = useState(() => scrambledOrder(item.options.length));
+  const dragFrom = useRef<number | null>(null);
+  const revealed = answer !== undefined;
+
+  const move = (from: number, to: number) => {
+    if (revealed || to < 0 || to >= order.length || from === to) return;
+    setOrder((prev) => {
+      const next = [...prev];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      {order.map((optIndex, pos) => {
+        const tone = !revealed
+          ? "border-slate-200 bg-white cursor-grab"
+          : optIndex === pos
+          ? "border-emerald-400 bg-emerald-50"
+          : "border-red-400 bg-red-50";
+
+        return (
+          <div
+            key={optIndex}
+            draggable={!revealed}
+            onDragStart={() => (dragFrom.current = pos)}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => {
+              e.preventDefault();
+              if (dragFrom.current !== null) move(dragFrom.current, pos);
+              dragFrom.current = null;
+            }}
+            className={`flex items-center gap-2 rounded-xl border px-3 py-2 text-sm text-slate-800 ${tone}`}
+          >
+            <span className="font-black text-slate-400 w-5">{pos + 1}</span>
+            <span className="flex-1">{item.options[optIndex]}</span>
+            {!revealed && (
+              <>
+                <button
+                  type="button"
+                  onClick={() => move(pos, pos - 1)}
+                  disabled={pos === 0}
+                  className="px-2 text-slate-500 font-black disabled:opacity-30"
+                  title="Move up"
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  onClick={() => move(pos, pos + 1)}
+                  disabled={pos === order.length - 1}
+                  className="px-2 text-slate-500 font-black disabled:opacity-30"
+                  title="Move down"
+                >
+                  ↓
+                </button>
+              </>
+            )}
+          </div>
+        );
+      })}
+
+      {revealed ? (
+        !answer.correct && (
+          <div className="text-xs font-bold text-slate-600">Correct order: {item.options.join(" → ")}</div>
+        )
+      ) : (
+        <button
+          type="button"
+          onClick={() => onAnswer(order.every((v, i) => v === i))}
+          className="px-4 py-2 rounded-xl bg-slate-900 text-white text-xs font-black"
+        >
+          Check order
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default function TutorQuiz({ cardId, objective, onComplete }: Props) {
+  const { getToken } = useAuth();
+  const [scope, setScope] = useState<QuizScope | null>(null);
+  const [items, setItems] = useState<QuizItem[] | null>(null);
+  const [answers, setAnswers] = useState<Record<number, Answer>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const quizIdRef = useRef(0);
+
+  const start = async (next: QuizScope) => {
+    const quizId = ++quizIdRef.current;
+    setScope(next);
+    setItems(null);
+    setAnswers({});
+    setError(null);
+    setLoading(true);
+    try {
+      const fresh = await fetchQuiz(next, await getToken());
+      if (quizId === quizIdRef.current) setItems(fresh);
+    } catch (e: any) {
+      if (quizId !== quizIdRef.current) return;
+      setError(e?.message || "Couldn't create a quiz.");
+    } finally {
+      if (quizId === quizIdRef.current) setLoading(false);
+    }
+  };
+
+  const answer = (index: number, correct: boolean) => {
+    if (!items || !scope || answers[index]) return;
+    const next = { ...answers, [index]: { correct } };
+    setAnswers(next);
+
+    // record once, when the last question is answered
+    if (Object.keys(next).length === items.length) {
+      onComplete?.(scope, Object.values(next).filter((a) => a.correct).length, items.length);
+    }
+  };
+
+  const answeredCount = Object.keys(answers).length;
+  const correctCount = Object.values(answers).filter((a) => a.correct).length;
+  const finished = !!items && answeredCount === items.length;
+
+  const StartButtons = (
+    <div className="flex flex-wrap gap-2">
+      <button
+        type="button"
+        disabled={loading}
+        onClick={() => start({ cardId })}
+        className="px-4 py-2 rounded-xl bg-slate-900 text-white text-xs font-black disabled:opacity-40"
+      >
+        {items ? "New quiz on this card" : "Quiz me on this card"}
+      </button>
+      {objective && (
+        <button
+          type="button"
+          disabled={loading}
+          onClick={() => start({ objective })}
+          className="px-4 py-2 rounded-xl border border-slate-200 bg-white text-slate-800 text-xs font-black hover:bg-slate-50 disabled:opacity-40"
+        >
+          Quiz me on objective {objective}
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="border border-slate-200 rounded-2xl p-4 bg-white shadow-sm">
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <div className="flex items-center gap-2">
+          <div className="w-1.5 h-5 rounded-full bg-gradient-to-b from-violet-500 to-purple-500" />
+          <span className="text-base leading-none">🧠</span>
+          <span className="text-xs font-extrabold uppercase tracking-widest text-slate-800">Quiz me</span>
+        </div>
+        {items && (
+          <span className="text-[11px] font-black text-slate-500">
+            {answeredCount}/{items.length} answered • {correctCount} correct
+          </span>
+        )}
+      </div>
+
+      {!items && !loading && StartButtons}
+      {loading && <div className="text-xs font-bold text-slate-400">Writing questions…</div>}
+      {error && <div className="text-xs font-bold text-red-600 mt-2">{error}</div>}
+
+      {items && (
+        <div className="space-y-5">
+          {items.map((item, i) => (
+            <div key={i}>
+              <div className="text-sm font-bold text-slate-900 mb-2">
+                {i + 1}. {item.stem}
+                {item.type === "dragdrop" && (
+                  <span className="ml-2 text-[10px] font-black uppercase tracking-widest text-violet-500">Put in order</span>
+                )}
+              </div>
+
+              {item.type === "mcq" ? (
+                <McqQuestion item={item} answer={answers[i]} onAnswer={(c) => answer(i, c)} />
+              ) : (
+                <DragDropQuestion item={item} answer={answers[i]} onAnswer={(c) => answer(i, c)} />
+              )}
+
+              {answers[i] && (
+                <div className={`mt-2 text-xs ${answers[i].correct ? "text-emerald-700" : "text-red-700"}`}>
+                  <b>{answers[i].correct ? "Correct." : "Not quite."}</b> {item.rationale}
+                </div>
+              )}
+            </div>
+          ))}
+
+          {finished && (
+            <div className="rounded-xl bg-slate-50 border border-slate-200 p-3 flex flex-wrap items-center justify-between gap-3">
+              <div className="text-sm font-black text-slate-900">
+                Score: {correctCount}/{items.length}
+              </div>
+              {StartButtons}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
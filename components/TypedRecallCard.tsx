@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import { Flashcard } from '../types';
+import { gradeTypedAnswer, type GradedUnit, type TypedAnswerGrade } from '../services/answerGrader';
+import type { ReviewGrade } from '../services/srs';
+
+interface TypedRecallCardProps {
+  card: Flashcard;
+  onGrade: (grade: ReviewGrade) => void;
+  onExplain: (concept: string) => void;
+  onSpeak: (text: string) => void;
+  isSpeaking: boolean;
+  domainColor?: string;
+}
+
+const VERDICT_STYLES: Record<TypedAnswerGrade['verdict'], { label: string; className: string }> = {
+  correct: { label: '✓ Correct', className: 'bg-green-600' },
+  partial: { label: '≈ Partially correct', className: 'bg-amber-500' },
+  incorrect: { label: '✗ Not quite', className: 'bg-red-600' },
+};
+
+const GRADE_LABELS: Record<ReviewGrade, string> = { again: 'Again', hard: 'Hard', good: 'Good', easy: 'Easy' };
+
+// Diff-style rendering: missed expected words are struck through in red, unmatched typed words dimmed
+const Units: React.FC<{ units: GradedUnit[]; missClassName: string }> = ({ units, missClassName }) => (
+  <p className="text-lg leading-relaxed">
+    {units.map((u, i) => (
+      <React.Fragment key={i}>
+        <span className={u.kind === 'stop' ? 'opacity-60' : u.matched ? 'text-green-300' : missClassName}>{u.text}</span>{' '}
+      </React.Fragment>
+    ))}
+  </p>
+);
+
+const TypedRecallCard: React.FC<TypedRecallCardProps> = ({
+  card,
+  onGrade,
+  onExplain,
+  onSpeak,
+  isSpeaking,
+  domainColor = '#2563EB'
+}) => {
+  const [typed, setTyped] = useState('');
+  const [result, setResult] = useState<TypedAnswerGrade | null>(null);
+
+  if (!card) return null;
+
+  const check = () => setResult(gradeTypedAnswer(card.answer, typed));
+
+  if (!result) {
+    return (
+      <div className="w-full max-w-lg bg-white border border-slate-200 rounded-3xl shadow-xl p-8 flex flex-col">
+        <div className="flex items-center justify-between">
+          <span
+            className="text-[10px] font-black px-2.5 py-1 rounded-md uppercase tracking-[0.1em]"
+            style={{ backgroundColor: `${domainColor}15`, color: domainColor }}
+          >
+            {card.category}
+          </span>
+          <button
+            onClick={() => onSpeak(card.question)}
+            aria-label="Read the question aloud"
+            aria-pressed={isSpeaking}
+            className={`p-2 rounded-full transition-all ${isSpeaking ? 'bg-blue-600 text-white animate-pulse motion-reduce:animate-none' : 'bg-slate-100 text-slate-400 hover:text-blue-600'}`}
+          >
+            <svg aria-hidden="true" className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" />
+            </svg>
+          </button>
+        </div>
+
+        <h2 className="text-2xl font-bold text-slate-800 leading-tight mt-6 text-center">{card.question}</h2>
+
+        <textarea
+          autoFocus
+          value={typed}
+          onChange={(e) => setTyped(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              check();
+            }
+          }}
+          rows={3}
+          placeholder="Type your answer…"
+          className="mt-8 w-full rounded-2xl border border-slate-200 p-4 text-slate-800 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+
+        <button
+          onClick={check}
+          className="mt-4 w-full py-3 rounded-xl text-white text-xs font-black"
+          style={{ backgroundColor: domainColor }}
+        >
+          CHECK ANSWER
+        </button>
+        <button
+          onClick={() => setResult(gradeTypedAnswer(card.answer, ''))}
+          className="mt-2 w-full py-2 text-slate-400 text-xs font-bold hover:text-slate-600"
+        >
+          I don't know — show me
+        </button>
+      </div>
+    );
+  }
+
+  const verdict = VERDICT_STYLES[result.verdict];
+
+  return (
+    <div className="w-full max-w-lg bg-slate-900 rounded-3xl shadow-2xl p-8 text-white border-4 border-slate-800 flex flex-col">
+      <div className="flex items-center justify-between">
+        <span className={`text-[10px] font-black px-2.5 py-1 rounded-md uppercase tracking-[0.1em] ${verdict.className}`}>
+          {verdict.label}
+        </span>
+        <span className="text-xs font-black text-white/50">{Math.round(result.score * 100)}% match</span>
+      </div>
+
+      <div className="mt-5">
+        <h4 className="text-[10px] font-black uppercase tracking-widest mb-2 opacity-80" style={{ color: domainColor }}>Expected</h4>
+        <Units units={result.expected} missClassName="text-red-400 line-through decoration-2" />
+      </div>
+
+      {typed.trim() && (
+        <div className="mt-4">
+          <h4 className="text-[10px] font-black uppercase tracking-widest mb-2 text-white/50">You wrote</h4>
+          <Units units={result.typed} missClassName="text-white/40" />
+        </div>
+      )}
+
+      {result.missedExact.length > 0 && (
+        <div className="mt-4 bg-red-500/10 border border-red-400/20 p-3 rounded-xl text-xs text-red-200">
+          Values must match exactly: {result.missedExact.join(', ')}
+        </div>
+      )}
+
+      {card.explanation && (
+        <div className="mt-4 bg-white/5 p-4 rounded-xl">
+          <p className="text-slate-300 text-sm leading-relaxed">{card.explanation}</p>
+        </div>
+      )}
+
+      <div className="pt-6 mt-6 border-t border-white/10 space-y-3">
+        <button
+          onClick={() => onGrade(result.suggestedGrade)}
+          className="w-full py-3 rounded-xl text-white text-xs font-black"
+          style={{ backgroundColor: domainColor }}
+        >
+          NEXT CARD • RECORD AS {GRADE_LABELS[result.suggestedGrade].toUpperCase()}
+        </button>
+
+        <div className="flex gap-2">
+          {result.suggestedGrade !== 'good' && (
+            <button
+              onClick={() => onGrade('good')}
+              className="flex-1 py-2.5 bg-white/10 hover:bg-white/20 rounded-xl text-[11px] font-bold"
+            >
+              I was right
+            </button>
+          )}
+          <button
+            onClick={() => onExplain(card.question)}
+            className="flex-1 py-2.5 bg-white/10 hover:bg-white/20 rounded-xl text-[11px] font-bold"
+          >
+            AI EXPLAIN
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TypedRecallCard;
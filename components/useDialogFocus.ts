@@ -0,0 +1,66 @@
+// components/useDialogFocus.ts
+// Focus handling for modal dialogs: focus moves into the dialog on open, Tab / Shift+Tab cycle
+// inside it, Escape calls onEscape, and focus returns to whatever had it before on close.
+import { useEffect, useRef, type RefObject } from "react";
+
+const FOCUSABLE = [
+  "a[href]",
+  "button:not([disabled])",
+  "input:not([disabled])",
+  "select:not([disabled])",
+  "textarea:not([disabled])",
+  "summary",
+  "[tabindex]:not([tabindex='-1'])",
+].join(",");
+
+function focusableIn(root: HTMLElement): HTMLElement[] {
+  return Array.from(root.querySelectorAll<HTMLElement>(FOCUSABLE)).filter(
+    (el) => !el.closest("[inert],[aria-hidden='true']") && el.getClientRects().length > 0
+  );
+}
+
+export function useDialogFocus(ref: RefObject<HTMLElement | null>, onEscape: () => void) {
+  const onEscapeRef = useRef(onEscape);
+  onEscapeRef.current = onEscape;
+
+  useEffect(() => {
+    const root = ref.current;
+    if (!root) return;
+    const previous = document.activeElement as HTMLElement | null;
+
+    // the first control (usually Close) rather than the dialog itself, so Tab order starts there
+    (focusableIn(root)[0] ?? root).focus({ preventScroll: true });
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        e.preventDefault();
+        e.stopPropagation(); // App.tsx listens on window for its own Escape binding
+        onEscapeRef.current();
+        return;
+      }
+      if (e.key !== "Tab") return;
+
+      const items = focusableIn(root);
+      if (items.length === 0) {
+        e.preventDefault();
+        return;
+      }
+      const first = items[0];
+      const last = items[items.length - 1];
+      const active = document.activeElement;
+      if (e.shiftKey && (active === first || !root.contains(active))) {
+        e.preventDefault();
+        last.focus();
+      } else if (!e.shiftKey && (active === last || !root.contains(active))) {
+        e.preventDefault();
+        first.focus();
+      }
+    };
+
+    root.addEventListener("keydown", onKeyDown);
+    return () => {
+      root.removeEventListener("keydown", onKeyDown);
+      if (previous && document.contains(previous)) previous.focus({ preventScroll: true });
+    };
+  }, [ref]);
+}
@@ -0,0 +1,85 @@
+// public/sw.js
+// Offline support. Registered by services/pwa.ts as /sw.js?build=<id>&cards=<hash>:
+// - the shell cache is keyed on the build, the card cache on a hash of public/data/*.csv,
+//   so a deploy that doesn't touch the card bank keeps the cached CSVs
+// - install precaches the shell, including the hashed bundle listed in BUILD_ASSETS
+// - page loads are network-first (falling back to the cached shell); hashed assets, CDN scripts
+//   and the CSVs are cache-first
+// - /api/* is never cached here (AI explanations are kept by services/gemini.ts instead)
+const params = new URL(self.location.href).searchParams;
+const BUILD = params.get("build") || "dev";
+const CARDS = params.get("cards") || "dev";
+
+const PREFIX = "ccna-";
+const SHELL_CACHE = `${PREFIX}shell-${BUILD}`;
+const CARDS_CACHE = `${PREFIX}cards-${CARDS}`;
+
+const SHELL_URLS = ["/", "/index.css", "/manifest.webmanifest", "/icon.svg"];
+// Filled in with the built /assets/* files by vite.config.ts (dist/sw.js); empty in dev
+const BUILD_ASSETS = [];
+const CARD_URLS = ["/data/decks.csv", "/data/cards.csv"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    Promise.all([
+      caches.open(SHELL_CACHE).then((cache) => cache.addAll([...SHELL_URLS, ...BUILD_ASSETS])),
+      caches.open(CARDS_CACHE).then((cache) => cache.addAll(CARD_URLS)),
+    ]).then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith(PREFIX) && key !== SHELL_CACHE && key !== CARDS_CACHE)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+async function cacheFirst(request, cacheName) {
+  const cache = await caches.open(cacheName);
+  const hit = await cache.match(request, { ignoreSearch: cacheName === CARDS_CACHE });
+  if (hit) return hit;
+
+  const response = await fetch(request);
+  // opaque (cross-origin no-cors) responses have status 0 but are still usable
+  if (response.ok || response.type === "opaque") cache.put(request, response.clone());
+  return response;
+}
+
+async function networkFirstPage(request) {
+  const cache = await caches.open(SHELL_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put("/", response.clone());
+    return response;
+  } catch {
+    return (await cache.match("/")) || Response.error();
+  }
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  const sameOrigin = url.origin === self.location.origin;
+
+  if (sameOrigin && url.pathname.startsWith("/api/")) return;
+
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirstPage(request));
+  } else if (sameOrigin && CARD_URLS.includes(url.pathname)) {
+    event.respondWith(cacheFirst(request, CARDS_CACHE));
+  } else if (sameOrigin || ["script", "style", "font"].includes(request.destination)) {
+    // Vite's /assets/* names are content-hashed; CDN URLs are versioned in the import map
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+  }
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { gradeTypedAnswer, tokenizeAnswer } from "./answerGrader";
+
+const canons = (text: string) => tokenizeAnswer(text).map((u) => u.canon);
+
+describe("tokenizeAnswer", () => {
+  it("collapses phrases and aliases to one canonical unit", () => {
+    expect(canons("Open Shortest Path First")).toEqual(["ospf"]);
+    expect(canons("L3 switch")).toEqual(["layer3", "switch"]);
+    expect(canons("Layer 3 switch")).toEqual(["layer3", "switch"]);
+    expect(canons("spanning-tree")).toEqual(["stp"]);
+  });
+
+  it("stems plurals and -ing", () => {
+    expect(canons("routers switches policies routing")).toEqual(["router", "switch", "policy", "rout"]);
+  });
+
+  it("splits word pairs and number-unit pairs", () => {
+    expect(canons("TCP/UDP")).toEqual(["tcp", "udp"]);
+    expect(canons("100m")).toEqual(["100", "meter"]);
+  });
+
+  it("strips surrounding punctuation", () => {
+    expect(canons('("VLAN 10"),')).toEqual(["vlan", "10"]);
+  });
+
+  it("classifies stopwords, values and words", () => {
+    expect(tokenizeAnswer("the 10.0.0.0/8 network").map((u) => u.kind)).toEqual(["stop", "exact", "word"]);
+    expect(tokenizeAnswer("Layer 2").map((u) => u.kind)).toEqual(["word"]);
+  });
+});
+
+describe("gradeTypedAnswer", () => {
+  it("accepts synonyms and reordered words", () => {
+    const g = gradeTypedAnswer("Layer 3 switch", "switch at L3");
+    expect(g).toMatchObject({ score: 1, verdict: "correct", suggestedGrade: "good", missedExact: [] });
+  });
+
+  it("accepts units written either way", () => {
+    expect(gradeTypedAnswer("100 meters", "100m").verdict).toBe("correct");
+  });
+
+  it("allows small typos in long words only", () => {
+    expect(gradeTypedAnswer("encapsulation", "encapsulaton").score).toBe(1);
+    expect(gradeTypedAnswer("vlan", "vlen").score).toBe(0);
+  });
+
+  it("never lets a wrong value be fully correct", () => {
+    const g = gradeTypedAnswer(
+      "Use the network 10.0.0.0/8 for the private range",
+      "use network 10.0.0.0/16 for the private range"
+    );
+    expect(g.score).toBe(0.8);
+    expect(g.verdict).toBe("partial");
+    expect(g.suggestedGrade).toBe("hard");
+    expect(g.missedExact).toEqual(["10.0.0.0/8"]);
+  });
+
+  it("grades by share of significant units", () => {
+    expect(gradeTypedAnswer("router switch hub bridge", "router switch").verdict).toBe("partial");
+    expect(gradeTypedAnswer("router switch hub bridge", "router").verdict).toBe("incorrect");
+  });
+
+  it("matches each typed unit once", () => {
+    expect(gradeTypedAnswer("vlan vlan", "vlan").score).toBe(0.5);
+  });
+
+  it("annotates what was missed and what didn't match", () => {
+    const g = gradeTypedAnswer("OSPF and EIGRP", "ospf bgp");
+    expect(g.expected.map((u) => [u.text, u.matched])).toEqual([
+      ["OSPF", true],
+      ["and", true],
+      ["EIGRP", false],
+    ]);
+    expect(g.typed.map((u) => [u.text, u.matched])).toEqual([
+      ["ospf", true],
+      ["bgp", false],
+    ]);
+  });
+
+  it("compares the whole text when the answer is only stopwords", () => {
+    expect(gradeTypedAnswer("It is", " it is ").verdict).toBe("correct");
+    expect(gradeTypedAnswer("It is", "it was").score).toBe(0);
+  });
+
+  it("treats an empty answer as incorrect", () => {
+    expect(gradeTypedAnswer("It is", "  ")).toMatchObject({ verdict: "incorrect", suggestedGrade: "again" });
+  });
+});
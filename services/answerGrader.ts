@@ -0,0 +1,218 @@
+// services/answerGrader.ts
+// Grades a typed answer against a card's `back`.
+// - words: normalized, stemmed, network-aware synonyms ("L3" = "Layer 3"), small typos allowed
+// - numbers / IPs / prefixes / interface ids: must match exactly
+import type { ReviewGrade } from "./srs";
+
+export type UnitKind = "word" | "exact" | "stop";
+
+export type GradedUnit = {
+  text: string; // original text (for display)
+  canon: string;
+  kind: UnitKind;
+  matched: boolean;
+};
+
+export type GradeVerdict = "correct" | "partial" | "incorrect";
+
+export type TypedAnswerGrade = {
+  score: number; // 0..1 share of significant expected units matched
+  verdict: GradeVerdict;
+  suggestedGrade: ReviewGrade;
+  expected: GradedUnit[]; // expected answer, annotated (what was missed)
+  typed: GradedUnit[]; // typed answer, annotated (what didn't match anything)
+  missedExact: string[];
+};
+
+const STOPWORDS = new Set(
+  "a an the to of and or is are was be been it its in on for by with that this as at from which their them they into via than then so do does".split(" ")
+);
+
+// multi-word phrases first (matched greedily, longest first), then single-word aliases
+const PHRASE_SYNONYMS: [string, string][] = [
+  ["open shortest path first", "ospf"],
+  ["network address translation", "nat"],
+  ["port address translation", "pat"],
+  ["dynamic host configuration protocol", "dhcp"],
+  ["domain name system", "dns"],
+  ["network time protocol", "ntp"],
+  ["spanning tree protocol", "stp"],
+  ["spanning tree", "stp"],
+  ["access control list", "acl"],
+  ["access list", "acl"],
+  ["virtual lan", "vlan"],
+  ["mac address", "mac"],
+  ["ip address", "ip"],
+  ["layer 1", "layer1"],
+  ["layer 2", "layer2"],
+  ["layer 3", "layer3"],
+  ["layer 4", "layer4"],
+  ["layer 7", "layer7"],
+];
+
+const WORD_SYNONYMS: Record<string, string> = {
+  l1: "layer1",
+  l2: "layer2",
+  l3: "layer3",
+  l4: "layer4",
+  l7: "layer7",
+  "access-list": "acl",
+  "spanning-tree": "stp",
+  rtr: "router",
+  sw: "switch",
+  int: "interface",
+  intf: "interface",
+  eth: "ethernet",
+  gig: "gigabitethernet",
+  gi: "gigabitethernet",
+  fa: "fastethernet",
+  m: "meter",
+  metre: "meter",
+  sec: "second",
+  secs: "second",
+  s: "second",
+  ms: "millisecond",
+  min: "minute",
+  mins: "minute",
+  pkt: "packet",
+  config: "configuration",
+  cfg: "configuration",
+  addr: "address",
+  auth: "authentication",
+  bw: "bandwidth",
+  gw: "gateway",
+};
+
+// canonical tokens that contain digits but are still words (not exact-match values)
+const WORD_CANONS = new Set(["layer1", "layer2", "layer3", "layer4", "layer7"]);
+
+const MATCH_THRESHOLD = 0.75;
+const PARTIAL_THRESHOLD = 0.5;
+
+/** ---------------------------
+ *  Tokenizing
+ *  --------------------------- */
+function splitWords(text: string): string[] {
+  return (text || "")
+    .split(/\s+/)
+    .flatMap((w) => (/^[a-z]+\/[a-z]+$/i.test(w) ? w.split("/") : [w])) // "TCP/UDP" → two words
+    .flatMap((w) => {
+      const m = w.match(/^(\d+)(m|km|ms|s|sec|kbps|mbps|gbps|kb|mb|gb)$/i); // "100m" → "100 m"
+      return m ? [m[1], m[2]] : [w];
+    })
+    .map((w) => w.replace(/^[("'`[{]+|[)"'`\]},;:!?.]+$/g, ""))
+    .filter(Boolean);
+}
+
+function stem(w: string): string {
+  if (w.length > 5 && w.endsWith("ing")) return w.slice(0, -3);
+  if (w.length > 4 && w.endsWith("ies")) return `${w.slice(0, -3)}y`;
+  if (w.length > 4 && w.endsWith("es") && /(ss|sh|ch|x)es$/.test(w)) return w.slice(0, -2);
+  if (w.length > 3 && w.endsWith("s") && !w.endsWith("ss")) return w.slice(0, -1);
+  return w;
+}
+
+function classify(canon: string): UnitKind {
+  if (STOPWORDS.has(canon)) return "stop";
+  if (/\d/.test(canon) && !WORD_CANONS.has(canon)) return "exact";
+  return "word";
+}
+
+export function tokenizeAnswer(text: string): Omit<GradedUnit, "matched">[] {
+  const words = splitWords(text);
+  const lower = words.map((w) => w.toLowerCase());
+  const stemmed = lower.map(stem);
+  const units: Omit<GradedUnit, "matched">[] = [];
+
+  for (let i = 0; i < words.length; ) {
+    const phrase = PHRASE_SYNONYMS.find(([p]) => {
+      const parts = p.split(" ");
+      return parts.every((part, k) => lower[i + k] === part || stemmed[i + k] === part);
+    });
+
+    if (phrase) {
+      const len = phrase[0].split(" ").length;
+      units.push({ text: words.slice(i, i + len).join(" "), canon: phrase[1], kind: "word" });
+      i += len;
+      continue;
+    }
+
+    const w = lower[i];
+    const aliased = WORD_SYNONYMS[w];
+    const canon = aliased ?? (/\d/.test(w) ? w : stem(w.replace(/[^a-z0-9-]/g, "")));
+    if (canon) units.push({ text: words[i], canon, kind: aliased ? "word" : classify(canon) });
+    i += 1;
+  }
+
+  return units;
+}
+
+/** ---------------------------
+ *  Matching
+ *  --------------------------- */
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  const prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diag = prev[0];
+    prev[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const tmp = prev[j];
+      prev[j] = Math.min(prev[j] + 1, prev[j - 1] + 1, diag + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diag = tmp;
+    }
+  }
+  return prev[b.length];
+}
+
+function typoAllowance(len: number) {
+  if (len <= 4) return 0;
+  if (len <= 8) return 1;
+  return 2;
+}
+
+function unitsMatch(expected: string, typed: string, kind: UnitKind): boolean {
+  if (expected === typed) return true;
+  if (kind === "exact") return false;
+  return levenshtein(expected, typed) <= typoAllowance(expected.length);
+}
+
+export function gradeTypedAnswer(expectedText: string, typedText: string): TypedAnswerGrade {
+  const expectedUnits = tokenizeAnswer(expectedText);
+  const typedUnits = tokenizeAnswer(typedText);
+
+  const typedSignificant = typedUnits.filter((u) => u.kind !== "stop");
+  const usedTyped = new Set<number>();
+
+  const expected: GradedUnit[] = expectedUnits.map((u) => {
+    if (u.kind === "stop") return { ...u, matched: true };
+    const idx = typedSignificant.findIndex((t, i) => !usedTyped.has(i) && unitsMatch(u.canon, t.canon, u.kind));
+    if (idx >= 0) usedTyped.add(idx);
+    return { ...u, matched: idx >= 0 };
+  });
+
+  let sigIndex = -1;
+  const typed: GradedUnit[] = typedUnits.map((u) => {
+    if (u.kind === "stop") return { ...u, matched: true };
+    sigIndex += 1;
+    return { ...u, matched: usedTyped.has(sigIndex) };
+  });
+
+  const significant = expected.filter((u) => u.kind !== "stop");
+  const matchedCount = significant.filter((u) => u.matched).length;
+  const score =
+    significant.length > 0
+      ? matchedCount / significant.length
+      : Number(expectedText.trim().toLowerCase() === typedText.trim().toLowerCase());
+
+  const missedExact = significant.filter((u) => u.kind === "exact" && !u.matched).map((u) => u.text);
+
+  let verdict: GradeVerdict = score >= MATCH_THRESHOLD ? "correct" : score >= PARTIAL_THRESHOLD ? "partial" : "incorrect";
+  // a wrong number / address is never fully correct
+  if (verdict === "correct" && missedExact.length > 0) verdict = "partial";
+  if (!typedText.trim()) verdict = "incorrect";
+
+  const suggestedGrade: ReviewGrade = verdict === "correct" ? "good" : verdict === "partial" ? "hard" : "again";
+
+  return { score, verdict, suggestedGrade, expected, typed, missedExact };
+}
@@ -0,0 +1,94 @@
+// services/blueprint.ts
+// Groups cards by 200-301 exam objective (1.1, 1.1.a …) with per-objective mastery.
+import { CCNA_DOMAINS, Card } from "../types";
+import { isMastered, type ScheduleMap } from "./srs";
+
+export type SubobjectiveStats = {
+  code: string;
+  total: number;
+  mastered: number;
+};
+
+export type ObjectiveStats = {
+  code: string;
+  title: string;
+  domainId: number;
+  total: number;
+  mastered: number;
+  lockedCount: number; // cards in Pro decks the user can't open
+  cardIds: string[]; // studyable (unlocked) cards, in card bank order
+  deckNames: string[];
+  subobjectives: SubobjectiveStats[];
+};
+
+export const compareObjectiveCodes = (a: string, b: string) =>
+  a.localeCompare(b, undefined, { numeric: true });
+
+export const domainIdForObjective = (code: string) => Number(code.split(".")[0]) || 0;
+
+/**
+ * Every blueprint objective (from CCNA_DOMAINS) plus any extra codes found in the data,
+ * sorted by code. Objectives without cards are kept so gaps are visible.
+ */
+export function buildObjectiveStats(
+  cards: Card[],
+  schedules: ScheduleMap,
+  lockedDeckIds: Set<string> = new Set()
+): ObjectiveStats[] {
+  const byCode = new Map<string, ObjectiveStats>();
+  const subsByCode = new Map<string, Map<string, SubobjectiveStats>>();
+
+  const ensure = (code: string, title?: string) => {
+    let o = byCode.get(code);
+    if (!o) {
+      o = {
+        code,
+        title: title ?? "",
+        domainId: domainIdForObjective(code),
+        total: 0,
+        mastered: 0,
+        lockedCount: 0,
+        cardIds: [],
+        deckNames: [],
+        subobjectives: [],
+      };
+      byCode.set(code, o);
+      subsByCode.set(code, new Map());
+    }
+    return o;
+  };
+
+  CCNA_DOMAINS.forEach((d) => d.objectives.forEach((o) => ensure(o.code, o.title)));
+
+  for (const c of cards) {
+    const code = (c.objective || "").trim();
+    if (!code) continue;
+
+    const o = ensure(code);
+    const mastered = isMastered(schedules[c.card_id]);
+
+    o.total += 1;
+    if (mastered) o.mastered += 1;
+    if (lockedDeckIds.has(c.deck_id)) o.lockedCount += 1;
+    else o.cardIds.push(c.card_id);
+    if (c.deck_name && !o.deckNames.includes(c.deck_name)) o.deckNames.push(c.deck_name);
+
+    const subCode = (c.subobjective || "").trim();
+    if (subCode) {
+      const subs = subsByCode.get(code)!;
+      const sub = subs.get(subCode) ?? { code: subCode, total: 0, mastered: 0 };
+      sub.total += 1;
+      if (mastered) sub.mastered += 1;
+      subs.set(subCode, sub);
+    }
+  }
+
+  return Array.from(byCode.values())
+    .map((o) => ({
+      ...o,
+      // objectives missing from the metadata fall back to the decks that cover them
+      title: o.title || o.deckNames.join(", ") || `Objective ${o.code}`,
+      subobjectives: Array.from(subsByCode.get(o.code)!.values()).sort((a, b) => compareObjectiveCodes(a.code, b.code)),
+    }))
+    .sort((a, b) => compareObjectiveCodes(a.code, b.code));
+}
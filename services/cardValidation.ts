@@ -0,0 +1,165 @@
+import { Deck, Card } from '../types';
+
+export type CsvSource = 'decks.csv' | 'cards.csv';
+
+export type CsvRow = { line: number; values: Record<string, string> };
+
+/** One diagnostic. `row` is the CSV line the record starts on (0 = whole file). */
+export type CsvIssue = {
+  file: CsvSource | string; // or the name of an imported deck file
+  row: number;
+  column?: string;
+  severity: 'error' | 'warning';
+  message: string;
+};
+
+/** Rows with an `error` issue are dropped from `items`; warnings keep the row. */
+export type ValidationResult<T> = { items: T[]; issues: CsvIssue[] };
+
+/** Thrown when a file can't be used at all (unreachable, unparseable, missing required columns). */
+export class CardBankError extends Error {
+  issues: CsvIssue[];
+
+  constructor(message: string, issues: CsvIssue[]) {
+    super(message);
+    this.name = 'CardBankError';
+    this.issues = issues;
+  }
+}
+
+const BOOLEAN_VALUES = new Set(['true', 'false', '1', '0', 'yes', 'no', 'y', 'n']);
+const DIFFICULTY_VALUES = new Set(['1', '2', '3', 'easy', 'medium', 'hard']);
+
+const DECK_COLUMNS = ['deck_id', 'domain_int', 'deck_name', 'deck_order', 'is_premium'] as const;
+const CARD_COLUMNS = ['card_id', 'deck_id', 'deck_name', 'front', 'back', 'explanation'] as const;
+
+const requireColumns = (file: string, headers: string[], required: readonly string[]) => {
+  const missing = required.filter(c => !headers.includes(c));
+  if (missing.length === 0) return;
+  throw new CardBankError(
+    `${file} is missing required columns`,
+    missing.map(column => ({ file, row: 1, column, severity: 'error' as const, message: 'Missing column header' }))
+  );
+};
+
+const checkBoolean = (file: string, row: CsvRow, column: string, issues: CsvIssue[], required: boolean) => {
+  const v = (row.values[column] ?? '').toLowerCase();
+  if (!v && !required) return true;
+  if (BOOLEAN_VALUES.has(v)) return true;
+  issues.push({
+    file,
+    row: row.line,
+    column,
+    severity: 'error',
+    message: v ? `Invalid boolean "${row.values[column]}" (expected true/false)` : 'Value is required',
+  });
+  return false;
+};
+
+export const validateDecks = (rows: CsvRow[], headers: string[]): ValidationResult<Deck> => {
+  const file: CsvSource = 'decks.csv';
+  requireColumns(file, headers, DECK_COLUMNS);
+
+  const issues: CsvIssue[] = [];
+  const items: Deck[] = [];
+  const seen = new Map<string, number>();
+
+  for (const row of rows) {
+    const v = row.values;
+    const before = issues.length;
+    const err = (column: string, message: string) =>
+      issues.push({ file, row: row.line, column, severity: 'error', message });
+
+    if (!v.deck_id) err('deck_id', 'Value is required');
+    else if (seen.has(v.deck_id)) err('deck_id', `Duplicate deck_id "${v.deck_id}" (first seen on line ${seen.get(v.deck_id)})`);
+
+    if (!v.deck_name) err('deck_name', 'Value is required');
+
+    const domain = Number(v.domain_int);
+    if (!Number.isInteger(domain) || domain < 1 || domain > 6) err('domain_int', `Invalid domain "${v.domain_int}" (expected 1–6)`);
+
+    if (v.deck_order && !Number.isFinite(Number(v.deck_order))) {
+      issues.push({ file, row: row.line, column: 'deck_order', severity: 'warning', message: `Non-numeric deck_order "${v.deck_order}"` });
+    }
+
+    checkBoolean(file, row, 'is_premium', issues, true);
+
+    if (issues.slice(before).some(i => i.severity === 'error')) continue;
+    seen.set(v.deck_id, row.line);
+    items.push({
+      deck_id: v.deck_id,
+      domain_int: v.domain_int,
+      deck_name: v.deck_name,
+      deck_order: v.deck_order,
+      is_premium: v.is_premium,
+    });
+  }
+
+  return { items, issues };
+};
+
+/**
+ * Validates card rows; pass the loaded deck ids to also flag cards pointing at unknown decks.
+ * `file` names the source in issues (imported decks go through here too, see deckTransfer.ts).
+ */
+export const validateCards = (
+  rows: CsvRow[],
+  headers: string[],
+  knownDeckIds?: Set<string>,
+  file: string = 'cards.csv'
+): ValidationResult<Card> => {
+  requireColumns(file, headers, CARD_COLUMNS);
+
+  const issues: CsvIssue[] = [];
+  const items: Card[] = [];
+  const seen = new Map<string, number>();
+
+  for (const row of rows) {
+    const v = row.values;
+    const before = issues.length;
+    const err = (column: string, message: string) =>
+      issues.push({ file, row: row.line, column, severity: 'error', message });
+
+    if (!v.card_id) err('card_id', 'Value is required');
+    else if (seen.has(v.card_id)) err('card_id', `Duplicate card_id "${v.card_id}" (first seen on line ${seen.get(v.card_id)})`);
+
+    if (!v.deck_id) err('deck_id', 'Value is required');
+    else if (knownDeckIds && !knownDeckIds.has(v.deck_id)) err('deck_id', `Unknown deck_id "${v.deck_id}"`);
+
+    if (!v.front) err('front', 'Question text is required');
+    if (!v.back) err('back', 'Answer text is required');
+
+    checkBoolean(file, row, 'is_premium', issues, false);
+
+    if (v.difficulty && !DIFFICULTY_VALUES.has(v.difficulty.toLowerCase())) {
+      issues.push({ file, row: row.line, column: 'difficulty', severity: 'warning', message: `Unknown difficulty "${v.difficulty}" (expected 1–3)` });
+    }
+
+    if (issues.slice(before).some(i => i.severity === 'error')) continue;
+    seen.set(v.card_id, row.line);
+    items.push({
+      card_id: v.card_id,
+      domain: v.domain || undefined,
+      domain_int: v.domain_int || undefined,
+      objective: v.objective || undefined,
+      subobjective: v.subobjective || undefined,
+      deck_id: v.deck_id,
+      deck_name: v.deck_name,
+      front: v.front,
+      back: v.back,
+      explanation: v.explanation ?? '',
+      cli_config: v.cli_config || undefined,
+      cli_verify: v.cli_verify || undefined,
+      common_mistakes: v.common_mistakes || undefined,
+      tags: v.tags || undefined,
+      difficulty: v.difficulty || undefined,
+      version: v.version || undefined,
+      is_premium: v.is_premium || undefined,
+      status: v.status || undefined,
+      card_num: v.card_num || undefined,
+      sort_key: v.sort_key || undefined,
+    });
+  }
+
+  return { items, issues };
+};
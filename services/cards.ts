@@ -0,0 +1,67 @@
+// services/cards.ts
+// Card (raw CSV row) → Flashcard (UI model) mapping and ordering helpers.
+import { CCNA_Category, CCNA_DOMAINS, Card, Difficulty, Flashcard } from "../types";
+
+// Helper to handle various truthy strings from CSV
+export const isPremiumValue = (v: any) => {
+  const s = String(v ?? "").trim().toLowerCase();
+  return ["true", "1", "yes", "y", "pro", "premium"].includes(s);
+};
+
+const DIFFICULTY_BY_LEVEL: Record<string, Difficulty> = { "1": "Easy", "2": "Medium", "3": "Hard" };
+
+export function difficultyFromValue(v: string | undefined): Difficulty {
+  const s = String(v ?? "").trim();
+  if (DIFFICULTY_BY_LEVEL[s]) return DIFFICULTY_BY_LEVEL[s];
+  const named = (["Easy", "Medium", "Hard"] as Difficulty[]).find((d) => d.toLowerCase() === s.toLowerCase());
+  return named ?? "Medium";
+}
+
+export function categoryForDomain(domainId: number): CCNA_Category {
+  return CCNA_DOMAINS.find((d) => d.id === domainId)?.category ?? CCNA_Category.NetworkFundamentals;
+}
+
+export function splitTags(v: string | undefined): string[] {
+  return String(v ?? "")
+    .split(",")
+    .map((t) => t.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/** Cards without a status column are treated as published (older CSVs). */
+export function isPublished(c: Card): boolean {
+  const status = String(c.status ?? "").trim().toLowerCase();
+  return !status || status === "published";
+}
+
+/** Orders by sort_key ("1-001", "1-010" …) with numeric-aware comparison, falling back to card_id. */
+export function compareCards(a: Card, b: Card): number {
+  return (a.sort_key || a.card_id).localeCompare(b.sort_key || b.card_id, undefined, { numeric: true });
+}
+
+export function toFlashcard(c: Card, fallbackDomainId = 0): Flashcard {
+  const domainId = Number(c.domain_int) || fallbackDomainId;
+
+  return {
+    id: c.card_id,
+    question: c.front,
+    answer: c.back,
+    explanation: c.explanation,
+    cliExample:
+      c.cli_config && c.cli_verify ? `${c.cli_config}\n${c.cli_verify}` : (c.cli_config || c.cli_verify),
+    cliConfig: c.cli_config || undefined,
+    cliVerify: c.cli_verify || undefined,
+    commonMistakes: c.common_mistakes || undefined,
+    category: categoryForDomain(domainId),
+    difficulty: difficultyFromValue(c.difficulty),
+    domainId,
+    deckId: c.deck_id,
+    deckName: c.deck_name,
+    isPremium: isPremiumValue(c.is_premium),
+    objective: c.objective || undefined,
+    subobjective: c.subobjective || undefined,
+    tags: splitTags(c.tags),
+    version: c.version || undefined,
+    sortKey: c.sort_key || undefined,
+  };
+}
@@ -0,0 +1,113 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { CsvStreamParser, parseCSV, recordsToRows, serializeCSV } from './csvParser';
+import { validateCards, validateDecks } from './cardValidation';
+
+const fieldsOf = (text: string, delimiter?: string) => parseCSV(text, delimiter).map(r => r.fields);
+
+describe('parseCSV', () => {
+  it('splits plain records', () => {
+    expect(fieldsOf('a,b,c\n1,2,3\n')).toEqual([['a', 'b', 'c'], ['1', '2', '3']]);
+  });
+
+  it('keeps empty fields', () => {
+    expect(fieldsOf('a,,c\n,,\n')).toEqual([['a', '', 'c'], ['', '', '']]);
+  });
+
+  it('handles quoted delimiters, escaped quotes and line breaks', () => {
+    expect(fieldsOf('"a,b","say ""hi""","two\nlines"\n')).toEqual([['a,b', 'say "hi"', 'two\nlines']]);
+  });
+
+  it('accepts CRLF, LF and CR line endings', () => {
+    expect(fieldsOf('a\r\nb\nc\rd')).toEqual([['a'], ['b'], ['c'], ['d']]);
+  });
+
+  it('strips a leading BOM', () => {
+    expect(fieldsOf('\uFEFFid,name\n')).toEqual([['id', 'name']]);
+  });
+
+  it('skips blank lines but keeps a quoted empty field', () => {
+    expect(fieldsOf('a\n\n\nb\n""\n')).toEqual([['a'], ['b'], ['']]);
+  });
+
+  it('reports the line each record starts on', () => {
+    const records = parseCSV('h1,h2\n"multi\nline",x\n\nlast,y');
+    expect(records.map(r => r.line)).toEqual([1, 2, 5]);
+  });
+
+  it('parses tab-separated text', () => {
+    expect(fieldsOf('front\t"back, with comma"\n', '\t')).toEqual([['front', 'back, with comma']]);
+  });
+
+  it('throws on an unterminated quote', () => {
+    expect(() => parseCSV('a\n"open,b\nc')).toThrow('Unterminated quoted field starting on line 2');
+  });
+});
+
+describe('CsvStreamParser', () => {
+  it('gives the same records however the text is chunked', () => {
+    const text = '\uFEFFid,text\r\n1,"quoted ""x"", y"\r\n2,"line\r\nbreak"\r\n';
+    const whole = parseCSV(text);
+
+    const parser = new CsvStreamParser();
+    const records = [...text].flatMap(ch => parser.push(ch));
+    records.push(...parser.end());
+
+    expect(records).toEqual(whole);
+    expect(whole.map(r => r.fields)).toEqual([['id', 'text'], ['1', 'quoted "x", y'], ['2', 'line\r\nbreak']]);
+  });
+});
+
+describe('serializeCSV', () => {
+  it('quotes only fields that need it', () => {
+    expect(serializeCSV([['a', 'b,c', 'say "hi"', 'two\nlines']])).toBe('a,"b,c","say ""hi""","two\nlines"\r\n');
+  });
+
+  it('round-trips through parseCSV', () => {
+    const rows = [['id', 'note'], ['1', 'plain'], ['2', ' "quoted", with\r\nbreaks '], ['3', '']];
+    expect(fieldsOf(serializeCSV(rows))).toEqual(rows);
+    expect(fieldsOf(serializeCSV(rows, '\t'), '\t')).toEqual(fieldsOf(serializeCSV(rows)));
+  });
+});
+
+describe('recordsToRows', () => {
+  it('keys trimmed values by trimmed header', () => {
+    const { headers, rows, issues } = recordsToRows(parseCSV(' id , name \n 1 , Ada \n'), 'decks.csv');
+    expect(headers).toEqual(['id', 'name']);
+    expect(rows).toEqual([{ line: 2, values: { id: '1', name: 'Ada' } }]);
+    expect(issues).toEqual([]);
+  });
+
+  it('warns about ragged records and fills missing values', () => {
+    const { rows, issues } = recordsToRows(parseCSV('id,name\n1\n2,b,extra\n'), 'cards.csv');
+    expect(rows[0].values).toEqual({ id: '1', name: '' });
+    expect(issues).toEqual([
+      { file: 'cards.csv', row: 2, severity: 'warning', message: 'Expected 2 columns, found 1' },
+      { file: 'cards.csv', row: 3, severity: 'warning', message: 'Expected 2 columns, found 3' },
+    ]);
+  });
+
+  it('returns nothing for an empty file', () => {
+    expect(recordsToRows([], 'decks.csv')).toEqual({ headers: [], rows: [], issues: [] });
+  });
+});
+
+describe('card bank', () => {
+  const load = (file: 'decks.csv' | 'cards.csv') =>
+    recordsToRows(parseCSV(readFileSync(path.resolve(__dirname, '../public/data', file), 'utf8')), file);
+
+  it('parses and validates without errors', () => {
+    const deckFile = load('decks.csv');
+    const decks = validateDecks(deckFile.rows, deckFile.headers);
+    const cardFile = load('cards.csv');
+    const cards = validateCards(cardFile.rows, cardFile.headers, new Set(decks.items.map(d => d.deck_id)));
+
+    const errors = [...deckFile.issues, ...decks.issues, ...cardFile.issues, ...cards.issues].filter(
+      i => i.severity === 'error'
+    );
+    expect(errors).toEqual([]);
+    expect(decks.items.length).toBeGreaterThan(0);
+    expect(cards.items.length).toBeGreaterThan(0);
+  });
+});
@@ -1,51 +1,234 @@
-
 import { Deck, Card } from '../types';
+import { compareCards, isPublished } from './cards';
+import {
+  CardBankError,
+  validateCards,
+  validateDecks,
+  type CsvIssue,
+  type CsvRow,
+  type CsvSource,
+  type ValidationResult,
+} from './cardValidation';
+
+export type CsvRecord = { line: number; fields: string[] };
+
+/**
+ * Incremental RFC 4180 parser: feed it text chunks with push(), call end() once.
+ * Handles quoted fields with commas, escaped "" quotes, CRLF/LF/CR line endings and
+ * line breaks inside quotes. Each record carries the (1-based) line it started on.
+ * Pass another delimiter for tab-separated text (Anki exports use the same quoting).
+ */
+export class CsvStreamParser {
+  constructor(private delimiter = ',') {}
+
+  private field = '';
+  private fields: string[] = [];
+  private inQuotes = false;
+  private quotePending = false; // saw a quote inside a quoted field: escape or closing?
+  private fieldQuoted = false;
+  private pendingCR = false;
+  private atStart = true;
+  private line = 1;
+  private recordLine = 1;
+  private out: CsvRecord[] = [];
+
+  push(chunk: string): CsvRecord[] {
+    for (let i = 0; i < chunk.length; i++) {
+      const ch = chunk[i];
+
+      if (this.atStart) {
+        this.atStart = false;
+        if (ch === '\uFEFF') continue; // BOM
+      }
+
+      if (this.inQuotes) {
+        if (this.quotePending) {
+          this.quotePending = false;
+          if (ch === '"') {
+            this.field += '"';
+            continue;
+          }
+          this.inQuotes = false; // closing quote; handle ch as unquoted below
+        } else if (ch === '"') {
+          this.quotePending = true;
+          continue;
+        } else {
+          if (ch === '\n') this.line++;
+          this.field += ch;
+          continue;
+        }
+      }
 
-const parseRawCSV = (csvText: string): any[] => {
-  const lines = csvText.split(/\r?\n/);
-  if (lines.length === 0) return [];
-  const headers = lines[0].split(',').map(h => h.trim());
-  const results: any[] = [];
-  
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
-    
-    const values = [];
-    let current = '';
-    let inQuotes = false;
-    
-    for (let char of line) {
-      if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === ',' && !inQuotes) {
-        values.push(current.trim());
-        current = '';
+      if (this.pendingCR) {
+        this.pendingCR = false;
+        if (ch === '\n') continue;
+      }
+
+      if (ch === '"' && this.field === '' && !this.fieldQuoted) {
+        this.inQuotes = true;
+        this.fieldQuoted = true;
+      } else if (ch === this.delimiter) {
+        this.endField();
+      } else if (ch === '\r' || ch === '\n') {
+        this.endRecord();
+        this.line++;
+        this.recordLine = this.line;
+        this.pendingCR = ch === '\r';
       } else {
-        current += char;
+        this.field += ch;
       }
     }
-    values.push(current.trim());
-    
-    const obj: any = {};
+
+    return this.drain();
+  }
+
+  end(): CsvRecord[] {
+    if (this.quotePending) {
+      this.quotePending = false;
+      this.inQuotes = false;
+    }
+    if (this.inQuotes) {
+      throw new Error(`Unterminated quoted field starting on line ${this.recordLine}`);
+    }
+    if (this.field !== '' || this.fields.length > 0 || this.fieldQuoted) this.endRecord();
+    return this.drain();
+  }
+
+  private endField() {
+    this.fields.push(this.field);
+    this.field = '';
+    this.fieldQuoted = false;
+  }
+
+  private endRecord() {
+    const wasQuoted = this.fieldQuoted;
+    this.endField();
+    // skip blank lines (a single unquoted empty field)
+    const blank = this.fields.length === 1 && this.fields[0] === '' && !wasQuoted;
+    if (!blank) this.out.push({ line: this.recordLine, fields: this.fields });
+    this.fields = [];
+  }
+
+  private drain() {
+    const records = this.out;
+    this.out = [];
+    return records;
+  }
+}
+
+export const parseCSV = (csvText: string, delimiter = ','): CsvRecord[] => {
+  const parser = new CsvStreamParser(delimiter);
+  return [...parser.push(csvText), ...parser.end()];
+};
+
+const quoteField = (value: string, delimiter: string) =>
+  value.includes('"') || value.includes(delimiter) || /[\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/** Inverse of parseCSV: quotes only the fields that need it, CRLF between records. */
+export const serializeCSV = (rows: string[][], delimiter = ','): string =>
+  rows.map(fields => fields.map(f => quoteField(f, delimiter)).join(delimiter)).join('\r\n') + '\r\n';
+
+/** Map records to header-keyed rows, reporting ragged records. */
+export const recordsToRows = (
+  records: CsvRecord[],
+  file: CsvSource | string
+): { headers: string[]; rows: CsvRow[]; issues: CsvIssue[] } => {
+  const issues: CsvIssue[] = [];
+  if (records.length === 0) return { headers: [], rows: [], issues };
+
+  const headers = records[0].fields.map(h => h.trim());
+  const rows: CsvRow[] = [];
+
+  for (const rec of records.slice(1)) {
+    if (rec.fields.length !== headers.length) {
+      issues.push({
+        file,
+        row: rec.line,
+        severity: 'warning',
+        message: `Expected ${headers.length} columns, found ${rec.fields.length}`,
+      });
+    }
+
+    const values: Record<string, string> = {};
     headers.forEach((header, index) => {
-      obj[header] = values[index];
+      values[header] = (rec.fields[index] ?? '').trim();
     });
-    results.push(obj);
+    rows.push({ line: rec.line, values });
+  }
+
+  return { headers, rows, issues };
+};
+
+const fetchCsvRecords = async (url: string, file: CsvSource): Promise<CsvRecord[]> => {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch {
+    throw new CardBankError(`Could not reach ${file}`, [{ file, row: 0, severity: 'error', message: 'Network error' }]);
   }
-  return results;
+  if (!response.ok) {
+    throw new CardBankError(`Failed to load ${file}`, [
+      { file, row: 0, severity: 'error', message: `HTTP ${response.status}` },
+    ]);
+  }
+
+  const parser = new CsvStreamParser();
+  const records: CsvRecord[] = [];
+
+  try {
+    if (response.body) {
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        records.push(...parser.push(decoder.decode(value, { stream: true })));
+      }
+      records.push(...parser.push(decoder.decode()));
+    } else {
+      records.push(...parser.push(await response.text()));
+    }
+    records.push(...parser.end());
+  } catch (e: any) {
+    throw new CardBankError(`Could not parse ${file}`, [
+      { file, row: 0, severity: 'error', message: e?.message || 'Malformed CSV' },
+    ]);
+  }
+
+  return records;
+};
+
+const fetchRows = async (url: string, file: CsvSource) => recordsToRows(await fetchCsvRecords(url, file), file);
+
+export const loadDecks = async (): Promise<ValidationResult<Deck>> => {
+  const { headers, rows, issues } = await fetchRows('/data/decks.csv', 'decks.csv');
+  const result = validateDecks(rows, headers);
+  return { items: result.items, issues: [...issues, ...result.issues] };
 };
 
-export const loadDecks = async (): Promise<Deck[]> => {
-  const response = await fetch("/data/decks.csv");
-  if (!response.ok) throw new Error("Failed to load decks CSV");
-  const text = await response.text();
-  return parseRawCSV(text) as Deck[];
+export const loadCards = async (knownDeckIds?: Set<string>): Promise<ValidationResult<Card>> => {
+  const { headers, rows, issues } = await fetchRows('/data/cards.csv', 'cards.csv');
+  const result = validateCards(rows, headers, knownDeckIds);
+  return { items: result.items, issues: [...issues, ...result.issues] };
 };
 
-export const loadCards = async (): Promise<Card[]> => {
-  const response = await fetch("/data/cards.csv");
-  if (!response.ok) throw new Error("Failed to load cards CSV");
-  const text = await response.text();
-  return parseRawCSV(text) as Card[];
+/**
+ * Loads both CSVs (fetched in parallel) and validates cards against the loaded decks.
+ * Only published cards are returned, ordered by sort_key.
+ * Throws CardBankError when a file can't be fetched/parsed or is missing required columns.
+ */
+export const loadCardBank = async (): Promise<{ decks: Deck[]; cards: Card[]; issues: CsvIssue[] }> => {
+  const [deckFile, cardFile] = await Promise.all([
+    fetchRows('/data/decks.csv', 'decks.csv'),
+    fetchRows('/data/cards.csv', 'cards.csv'),
+  ]);
+
+  const decks = validateDecks(deckFile.rows, deckFile.headers);
+  const cards = validateCards(cardFile.rows, cardFile.headers, new Set(decks.items.map(d => d.deck_id)));
+
+  return {
+    decks: decks.items,
+    cards: cards.items.filter(isPublished).sort(compareCards),
+    issues: [...deckFile.issues, ...decks.issues, ...cardFile.issues, ...cards.issues],
+  };
 };
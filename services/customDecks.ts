@@ -0,0 +1,52 @@
+// services/customDecks.ts
+// Decks imported by the user (see deckTransfer.ts), kept in localStorage per user.
+// They sit next to the card bank in deckSelect but never reach the server: the AI endpoints
+// only know public/data/*.csv and answer 404 for these cards.
+import { Card, Deck } from "../types";
+
+export type CustomDeckStore = { decks: Deck[]; cards: Card[] };
+
+export const CUSTOM_ID_PREFIX = "custom-";
+
+const storageKey = (userId: string) => `ccna_custom_decks:${userId}`;
+
+export const emptyCustomDecks = (): CustomDeckStore => ({ decks: [], cards: [] });
+
+export const isCustomDeckId = (deckId: string) => deckId.startsWith(CUSTOM_ID_PREFIX);
+
+// Card ids are derived from the deck id (deckTransfer.ts), so the same test works for cards
+export const isCustomCardId = (cardId: string) => cardId.startsWith(CUSTOM_ID_PREFIX);
+
+export function loadCustomDecks(userId: string): CustomDeckStore {
+  const saved = localStorage.getItem(storageKey(userId));
+  if (!saved) return emptyCustomDecks();
+
+  try {
+    const parsed = JSON.parse(saved);
+    const decks: Deck[] = Array.isArray(parsed?.decks)
+      ? parsed.decks.filter((d: any) => d && typeof d.deck_id === "string" && isCustomDeckId(d.deck_id))
+      : [];
+    const deckIds = new Set(decks.map((d) => d.deck_id));
+    const cards: Card[] = Array.isArray(parsed?.cards)
+      ? parsed.cards.filter((c: any) => c && typeof c.card_id === "string" && deckIds.has(c.deck_id))
+      : [];
+    return { decks, cards };
+  } catch {
+    return emptyCustomDecks();
+  }
+}
+
+export function saveCustomDecks(userId: string, store: CustomDeckStore) {
+  localStorage.setItem(storageKey(userId), JSON.stringify(store));
+}
+
+export function addCustomDeck(store: CustomDeckStore, deck: Deck, cards: Card[]): CustomDeckStore {
+  return { decks: [...store.decks, deck], cards: [...store.cards, ...cards] };
+}
+
+export function removeCustomDeck(store: CustomDeckStore, deckId: string): CustomDeckStore {
+  return {
+    decks: store.decks.filter((d) => d.deck_id !== deckId),
+    cards: store.cards.filter((c) => c.deck_id !== deckId),
+  };
+}
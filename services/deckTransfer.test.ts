@@ -0,0 +1,188 @@
+import { describe, expect, it } from "vitest";
+import type { Card, Deck } from "../types";
+import { CardBankError } from "./cardValidation";
+import { buildCustomDeck, DECK_FORMATS, detectDeckFormat, exportDeck, readDeckFile } from "./deckTransfer";
+import { reviewCard, type ScheduleMap } from "./srs";
+
+const NOW = Date.UTC(2026, 0, 15, 12);
+
+const DECK: Deck = { deck_id: "d1", domain_int: "3", deck_name: "OSPF basics", deck_order: "1", is_premium: "false" };
+
+const card = (parts: Partial<Card> & Pick<Card, "card_id" | "front" | "back">): Card => ({
+  deck_id: DECK.deck_id,
+  deck_name: DECK.deck_name,
+  explanation: "",
+  ...parts,
+});
+
+const CARDS: Card[] = [
+  card({
+    card_id: "c1",
+    front: 'What does "show ip route" list?',
+    back: "The routing table,\nincluding connected routes",
+    explanation: "Codes: C, L, O; O = OSPF",
+    tags: "routing,ospf",
+    difficulty: "2",
+    cli_config: "router ospf 1\n network 10.0.0.0 0.255.255.255 area 0",
+  }),
+  card({ card_id: "c2", front: "Range of OSPF process IDs?\tAny", back: "<1-65535>" }),
+];
+
+const SCHEDULES: ScheduleMap = {
+  c1: reviewCard(reviewCard(undefined, "c1", "good", NOW - 86400000), "c1", "hard", NOW),
+};
+
+const CONTENT_FIELDS = ["front", "back", "explanation", "tags", "difficulty", "cli_config"] as const;
+const content = (c: Card) => Object.fromEntries(CONTENT_FIELDS.map((f) => [f, c[f]]));
+
+function reimport(format: (typeof DECK_FORMATS)[number]["format"]) {
+  const { fileName, text } = exportDeck(format, DECK, CARDS, SCHEDULES, NOW);
+  const file = readDeckFile(text, fileName);
+  return { file, imported: buildCustomDeck(file, { deckName: "", domainId: 3, now: NOW }) };
+}
+
+describe("exportDeck / readDeckFile round trip", () => {
+  it.each(["csv", "json"] as const)("%s keeps every field and the progress", (format) => {
+    const { file, imported } = reimport(format);
+    expect(file.format).toBe(format);
+    expect(imported.issues).toEqual([]);
+    expect(imported.cards.map(content)).toEqual(CARDS.map(content));
+
+    const [c1, c2] = imported.cards.map((c) => c.card_id);
+    expect(imported.schedules).toEqual({ [c1]: { ...SCHEDULES.c1, cardId: c1 } });
+    expect(imported.schedules[c2]).toBeUndefined();
+  });
+
+  it("anki keeps the note fields and tags but not the progress", () => {
+    const { file, imported } = reimport("anki");
+    expect(file.format).toBe("anki");
+    expect(imported.issues).toEqual([]);
+    expect(imported.cards.map((c) => [c.front, c.back, c.explanation, c.tags])).toEqual(
+      CARDS.map((c) => [c.front, c.back, c.explanation, c.tags])
+    );
+    expect(imported.schedules).toEqual({});
+  });
+
+  it("anki marks progress with tags", () => {
+    const { text } = exportDeck("anki", DECK, CARDS, { c1: reviewCard(undefined, "c1", "good", NOW) }, NOW);
+    const rows = text.split("\n").filter((l) => l && !l.startsWith("#"));
+    expect(rows.at(-1)).toMatch(/\tccna::new\r?$/);
+    expect(text).toContain("routing ospf ccna::mastered");
+  });
+
+  it("names the file after the deck", () => {
+    expect(DECK_FORMATS.map((f) => exportDeck(f.format, DECK, CARDS, {}, NOW).fileName)).toEqual([
+      "ospf-basics.csv",
+      "ospf-basics.json",
+      "ospf-basics.txt",
+    ]);
+  });
+});
+
+describe("detectDeckFormat", () => {
+  it("goes by the extension first", () => {
+    expect(detectDeckFormat("deck.JSON", "front,back")).toBe("json");
+    expect(detectDeckFormat("deck.csv", "{")).toBe("csv");
+    expect(detectDeckFormat("deck.tsv", "")).toBe("anki");
+    expect(detectDeckFormat("deck.txt", "front,back")).toBe("anki");
+  });
+
+  it("sniffs the content otherwise", () => {
+    expect(detectDeckFormat("deck", '  [{"front":"a"}]')).toBe("json");
+    expect(detectDeckFormat("deck", "#separator:tab\na\tb")).toBe("anki");
+    expect(detectDeckFormat("deck", "a\tb\nc\td")).toBe("anki");
+    expect(detectDeckFormat("deck", "front,back\na,b")).toBe("csv");
+  });
+});
+
+describe("readDeckFile: anki", () => {
+  it("skips guid, notetype and deck columns when assigning fields", () => {
+    const text = [
+      "#separator:tab",
+      "#html:true",
+      "#guid column:1",
+      "#notetype column:2",
+      "#deck column:3",
+      "#tags column:6",
+      "abc123\tBasic\tCCNA\tWhat is <b>OSPF</b>?\tA link-state protocol<br>for IGPs &amp; more\tospf ccna::learning",
+    ].join("\n");
+    const file = readDeckFile(text, "notes.txt");
+    expect(file.entries).toEqual([
+      {
+        row: {
+          line: 7,
+          values: { front: "What is OSPF?", back: "A link-state protocol\nfor IGPs & more", tags: "ospf" },
+        },
+      },
+    ]);
+  });
+
+  it("names columns from #columns and keeps IOS syntax", () => {
+    const text = "#separator:semicolon\n#columns:Answer;Question;Extra\n<1-100>;Valid OSPF areas?;See <cr>";
+    expect(readDeckFile(text, "notes.txt").entries[0].row.values).toEqual({
+      back: "<1-100>",
+      front: "Valid OSPF areas?",
+      explanation: "See <cr>",
+    });
+  });
+
+  it("reads older exports without a header as front, back, extra", () => {
+    expect(readDeckFile("Q\tA\tMore\tignored", "old.txt").entries[0].row.values).toEqual({
+      front: "Q",
+      back: "A",
+      explanation: "More",
+    });
+  });
+});
+
+describe("readDeckFile: errors", () => {
+  const issueOf = (text: string, fileName: string) => {
+    try {
+      readDeckFile(text, fileName);
+    } catch (e) {
+      if (e instanceof CardBankError) return e.issues[0].message;
+      throw e;
+    }
+    throw new Error("expected a CardBankError");
+  };
+
+  it("requires front and back columns in CSV", () => {
+    expect(issueOf("front,answer\na,b", "deck.csv")).toBe("Missing column header: back");
+  });
+
+  it("reports malformed files", () => {
+    expect(issueOf('front,back\n"open', "deck.csv")).toMatch(/Unterminated quoted field/);
+    expect(issueOf("{", "deck.json")).toMatch(/JSON/);
+    expect(issueOf('{"deck":{}}', "deck.json")).toBe('Expected an array of cards or { "cards": [...] }');
+  });
+});
+
+describe("buildCustomDeck", () => {
+  it("gives the deck and its cards fresh custom ids", () => {
+    const file = readDeckFile("front,back\nQ1,A1\nQ2,A2", "mine.csv");
+    const { deck, cards } = buildCustomDeck(file, { deckName: " My OSPF! ", domainId: 3, deckOrder: 5, now: NOW });
+    const deckId = `custom-my-ospf-${NOW.toString(36)}`;
+
+    expect(deck).toEqual({ deck_id: deckId, domain_int: "3", deck_name: "My OSPF!", deck_order: "5", is_premium: "false" });
+    expect(cards.map((c) => [c.card_id, c.deck_id, c.domain, c.is_premium, c.status])).toEqual([
+      [`${deckId}-1`, deckId, "3.0", "false", undefined],
+      [`${deckId}-2`, deckId, "3.0", "false", undefined],
+    ]);
+  });
+
+  it("uses the file's deck name, then a default", () => {
+    expect(buildCustomDeck(reimport("json").file, { deckName: "", domainId: 3 }).deck.deck_name).toBe("OSPF basics");
+    expect(buildCustomDeck(readDeckFile("front,back\nQ,A", "x.csv"), { deckName: " ", domainId: 3 }).deck.deck_name).toBe(
+      "Imported deck"
+    );
+  });
+
+  it("drops invalid rows with an issue naming the file", () => {
+    const { cards, issues } = buildCustomDeck(readDeckFile("front,back\nQ1,\nQ2,A2", "mine.csv"), {
+      deckName: "Mine",
+      domainId: 1,
+    });
+    expect(cards.map((c) => c.front)).toEqual(["Q2"]);
+    expect(issues).toEqual([{ file: "mine.csv", row: 2, column: "back", severity: "error", message: "Answer text is required" }]);
+  });
+});
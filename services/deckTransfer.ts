@@ -0,0 +1,396 @@
+// services/deckTransfer.ts
+// Deck import/export in three formats:
+// - "csv":  the cards.csv columns (plus srs_* progress columns on export)
+// - "json": { format, deck, cards, progress } as written by exportDeck, or a bare array of cards
+// - "anki": Anki's "Notes in Plain Text" (tab-separated, optional #header lines)
+// Imports are checked with the card bank's own rules (validateCards) and become custom decks (customDecks.ts).
+import { CCNA_DOMAINS, Card, Deck } from "../types";
+import { CardBankError, validateCards, type CsvIssue, type CsvRow } from "./cardValidation";
+import { parseCSV, recordsToRows, serializeCSV } from "./csvParser";
+import { CUSTOM_ID_PREFIX } from "./customDecks";
+import { isMastered, REVIEW_GRADES, type CardSchedule, type ScheduleMap } from "./srs";
+
+export type DeckFormat = "csv" | "json" | "anki";
+
+export const DECK_FORMATS: { format: DeckFormat; label: string; extension: string; mime: string }[] = [
+  { format: "csv", label: "CSV", extension: "csv", mime: "text/csv" },
+  { format: "json", label: "JSON", extension: "json", mime: "application/json" },
+  { format: "anki", label: "Anki (tab-separated)", extension: "txt", mime: "text/plain" },
+];
+
+/** One note/row of an import, with its progress when the file carried some. */
+export type DeckFileEntry = { row: CsvRow; schedule?: CardSchedule };
+
+/** A parsed import file, before it's turned into a deck. */
+export type DeckFile = {
+  format: DeckFormat;
+  fileName: string;
+  deckName?: string; // from the file (JSON export) when it has one
+  domainId?: number;
+  entries: DeckFileEntry[];
+  issues: CsvIssue[];
+};
+
+export type ImportedDeck = {
+  deck: Deck;
+  cards: Card[];
+  schedules: ScheduleMap; // keyed by the new card ids
+  issues: CsvIssue[];
+};
+
+// cards.csv column order; everything a Card can hold
+const CARD_FIELDS = [
+  "card_id",
+  "domain",
+  "domain_int",
+  "objective",
+  "subobjective",
+  "deck_id",
+  "deck_name",
+  "front",
+  "back",
+  "explanation",
+  "cli_config",
+  "cli_verify",
+  "common_mistakes",
+  "tags",
+  "difficulty",
+  "version",
+  "is_premium",
+  "status",
+  "card_num",
+  "sort_key",
+] as const;
+
+const PROGRESS_FIELDS = ["srs_due", "srs_interval", "srs_ease", "srs_reps", "srs_lapses", "srs_last_reviewed", "srs_last_grade"];
+
+const JSON_FORMAT_TAG = "ccna-deck";
+const JSON_FORMAT_VERSION = 1;
+
+// Anki tags that carry our progress on export; dropped again on import
+const ANKI_PROGRESS_TAG = "ccna::";
+
+// -----------------------------
+// Reading
+// -----------------------------
+
+export function detectDeckFormat(fileName: string, text: string): DeckFormat {
+  const ext = fileName.toLowerCase().split(".").pop();
+  if (ext === "json") return "json";
+  if (ext === "csv") return "csv";
+  if (ext === "txt" || ext === "tsv") return "anki";
+
+  const start = text.trimStart();
+  if (start.startsWith("{") || start.startsWith("[")) return "json";
+  return start.startsWith("#") || start.split(/\r?\n/, 1)[0].includes("\t") ? "anki" : "csv";
+}
+
+const fail = (fileName: string, message: string, detail = message): never => {
+  throw new CardBankError(message, [{ file: fileName, row: 0, severity: "error", message: detail }]);
+};
+
+const asText = (v: unknown): string => {
+  if (v === null || v === undefined) return "";
+  if (Array.isArray(v)) return v.map(asText).filter(Boolean).join(",");
+  return typeof v === "object" ? "" : String(v).trim();
+};
+
+function scheduleFrom(v: Record<string, string>): CardSchedule | undefined {
+  const due = Date.parse(v.srs_due ?? "");
+  if (!Number.isFinite(due)) return undefined;
+  const lastReviewed = Date.parse(v.srs_last_reviewed ?? "");
+  const grade = REVIEW_GRADES.find((g) => g === v.srs_last_grade) ?? null;
+  const num = (s: string | undefined, fallback: number) => (Number.isFinite(Number(s)) && s !== "" ? Number(s) : fallback);
+
+  return {
+    cardId: v.card_id ?? "",
+    ease: Math.max(1.3, num(v.srs_ease, 2.5)),
+    interval: Math.max(0, num(v.srs_interval, 0)),
+    reps: Math.max(0, Math.round(num(v.srs_reps, 0))),
+    lapses: Math.max(0, Math.round(num(v.srs_lapses, 0))),
+    due,
+    lastReviewed: Number.isFinite(lastReviewed) ? lastReviewed : null,
+    lastGrade: grade,
+  };
+}
+
+function coerceSchedule(raw: any): CardSchedule | undefined {
+  if (!raw || typeof raw !== "object" || !Number.isFinite(Number(raw.due))) return undefined;
+  return scheduleFrom({
+    srs_due: new Date(Number(raw.due)).toISOString(),
+    srs_interval: String(raw.interval ?? ""),
+    srs_ease: String(raw.ease ?? ""),
+    srs_reps: String(raw.reps ?? ""),
+    srs_lapses: String(raw.lapses ?? ""),
+    srs_last_reviewed: raw.lastReviewed ? new Date(Number(raw.lastReviewed)).toISOString() : "",
+    srs_last_grade: String(raw.lastGrade ?? ""),
+  });
+}
+
+function readCsv(text: string, fileName: string): DeckFile {
+  let records;
+  try {
+    records = parseCSV(text);
+  } catch (e: any) {
+    return fail(fileName, `Could not parse ${fileName}`, e?.message || "Malformed CSV");
+  }
+
+  const { headers, rows, issues } = recordsToRows(records, fileName);
+  const missing = ["front", "back"].filter((c) => !headers.includes(c));
+  if (missing.length > 0) {
+    return fail(fileName, `${fileName} is missing required columns`, `Missing column header: ${missing.join(", ")}`);
+  }
+  return {
+    format: "csv",
+    fileName,
+    entries: rows.map((row) => ({ row, schedule: scheduleFrom(row.values) })),
+    issues,
+  };
+}
+
+function readJson(text: string, fileName: string): DeckFile {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e: any) {
+    return fail(fileName, `Could not parse ${fileName}`, e?.message || "Malformed JSON");
+  }
+
+  const list = Array.isArray(parsed) ? parsed : parsed?.cards;
+  if (!Array.isArray(list)) return fail(fileName, `${fileName} has no cards`, 'Expected an array of cards or { "cards": [...] }');
+
+  const progress = parsed?.progress && typeof parsed.progress === "object" ? parsed.progress : {};
+  const entries = list.map((raw: any, i: number): DeckFileEntry => {
+    const values: Record<string, string> = {};
+    for (const field of CARD_FIELDS) values[field] = asText(raw?.[field]);
+    return { row: { line: i + 1, values }, schedule: coerceSchedule(progress[values.card_id]) };
+  });
+
+  const domainId = Number(parsed?.deck?.domain_int);
+  return {
+    format: "json",
+    fileName,
+    deckName: asText(parsed?.deck?.deck_name) || undefined,
+    domainId: Number.isInteger(domainId) ? domainId : undefined,
+    entries,
+    issues: [],
+  };
+}
+
+const ANKI_SEPARATORS: Record<string, string> = { tab: "\t", comma: ",", semicolon: ";", pipe: "|", space: " " };
+
+// Only real markup: IOS syntax like <1-100> or <cr> must survive
+const ANKI_HTML_TAG = /<\/?(?:br|div|p|span|b|i|u|strong|em|font|a|ul|ol|li|sub|sup|code|pre|img)\b[^>]*>/gi;
+
+function ankiToText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>|<\/(?:div|p|li)>/gi, "\n")
+    .replace(ANKI_HTML_TAG, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function readAnki(text: string, fileName: string): DeckFile {
+  // "#key:value" header lines come first (Anki 2.1.54+); older exports have none
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/);
+  const header: Record<string, string> = {};
+  let bodyStart = 0;
+  while (bodyStart < lines.length && lines[bodyStart].startsWith("#")) {
+    const m = lines[bodyStart].match(/^#([^:]+):(.*)$/);
+    if (m) header[m[1].trim().toLowerCase()] = m[2].trim();
+    bodyStart++;
+  }
+
+  const separator = ANKI_SEPARATORS[(header.separator ?? "tab").toLowerCase()] ?? header.separator ?? "\t";
+  const html = (header.html ?? "true").toLowerCase() !== "false";
+  let records;
+  try {
+    records = parseCSV(lines.slice(bodyStart).join("\n"), separator);
+  } catch (e: any) {
+    return fail(fileName, `Could not parse ${fileName}`, e?.message || "Malformed Anki export");
+  }
+
+  // column roles: named by "#columns:", otherwise Front, Back, then an optional extra field, counted
+  // over the note fields only (the guid/notetype/deck columns Anki can add are skipped)
+  const names = header.columns ? header.columns.split(separator).map((c) => c.trim().toLowerCase()) : [];
+  const tagsColumn = Number(header["tags column"]) - 1;
+  const excluded = new Set(
+    ["guid column", "notetype column", "deck column"].map((key) => Number(header[key]) - 1).filter((i) => i >= 0)
+  );
+  const fieldIndex = (i: number) => {
+    let n = 0;
+    for (let j = 0; j < i; j++) if (j !== tagsColumn && !excluded.has(j)) n++;
+    return n;
+  };
+  const roleOf = (i: number): keyof Card | null => {
+    if (i === tagsColumn) return "tags";
+    if (excluded.has(i)) return null;
+    const name = names.length > 0 ? names[i] : ["front", "back", "explanation"][fieldIndex(i)];
+    if (name === "front" || name === "question") return "front";
+    if (name === "back" || name === "answer") return "back";
+    if (name === "explanation" || name === "extra" || name === "back extra") return "explanation";
+    if (name === "tags") return "tags";
+    return null;
+  };
+
+  const entries = records.map((rec): DeckFileEntry => {
+    const values: Record<string, string> = {};
+    rec.fields.forEach((field, i) => {
+      const role = roleOf(i);
+      if (!role) return;
+      values[role] =
+        role === "tags"
+          ? field
+              .split(/\s+/)
+              .filter((t) => t && !t.toLowerCase().startsWith(ANKI_PROGRESS_TAG))
+              .join(",")
+          : html
+            ? ankiToText(field)
+            : field.trim();
+    });
+    return { row: { line: rec.line + bodyStart, values } };
+  });
+
+  return { format: "anki", fileName, entries, issues: [] };
+}
+
+/** Parses an import file. Throws CardBankError when the file can't be read at all. */
+export function readDeckFile(text: string, fileName: string, format = detectDeckFormat(fileName, text)): DeckFile {
+  if (format === "json") return readJson(text, fileName);
+  if (format === "anki") return readAnki(text, fileName);
+  return readCsv(text, fileName);
+}
+
+const slug = (s: string) =>
+  s
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+    .slice(0, 32) || "deck";
+
+/**
+ * Turns a parsed file into a custom deck under `domainId`. Every card gets a fresh id derived
+ * from the new deck id, so imports can't collide with the card bank (or each other) and
+ * progress carried in the file is re-keyed to match.
+ */
+export function buildCustomDeck(
+  file: DeckFile,
+  opts: { deckName: string; domainId: number; deckOrder?: number; now?: number }
+): ImportedDeck {
+  const deckName = opts.deckName.trim() || file.deckName || "Imported deck";
+  const deckId = `${CUSTOM_ID_PREFIX}${slug(deckName)}-${(opts.now ?? Date.now()).toString(36)}`;
+  const domain = CCNA_DOMAINS.find((d) => d.id === opts.domainId);
+  const width = String(file.entries.length).length;
+
+  const byId = new Map<string, DeckFileEntry>();
+  const rows = file.entries.map((entry, i) => {
+    const cardId = `${deckId}-${String(i + 1).padStart(width, "0")}`;
+    byId.set(cardId, entry);
+    return {
+      line: entry.row.line,
+      values: {
+        ...entry.row.values,
+        card_id: cardId,
+        deck_id: deckId,
+        deck_name: deckName,
+        domain: domain ? `${domain.id}.0` : "",
+        domain_int: String(opts.domainId),
+        explanation: entry.row.values.explanation ?? "",
+        is_premium: "false",
+        status: "", // imported cards are always shown
+      },
+    };
+  });
+
+  const result = validateCards(rows, [...CARD_FIELDS], undefined, file.fileName);
+  const schedules: ScheduleMap = {};
+  for (const card of result.items) {
+    const schedule = byId.get(card.card_id)?.schedule;
+    if (schedule) schedules[card.card_id] = { ...schedule, cardId: card.card_id };
+  }
+
+  return {
+    deck: {
+      deck_id: deckId,
+      domain_int: String(opts.domainId),
+      deck_name: deckName,
+      deck_order: String(opts.deckOrder ?? 1000),
+      is_premium: "false",
+    },
+    cards: result.items,
+    schedules,
+    issues: [...file.issues, ...result.issues],
+  };
+}
+
+// -----------------------------
+// Writing
+// -----------------------------
+
+const isoOrEmpty = (ts: number | null | undefined) => (ts ? new Date(ts).toISOString() : "");
+
+function progressValues(s: CardSchedule | undefined): string[] {
+  if (!s) return PROGRESS_FIELDS.map(() => "");
+  return [
+    isoOrEmpty(s.due),
+    String(s.interval),
+    String(s.ease),
+    String(s.reps),
+    String(s.lapses),
+    isoOrEmpty(s.lastReviewed),
+    s.lastGrade ?? "",
+  ];
+}
+
+const progressTag = (s: CardSchedule | undefined) =>
+  `${ANKI_PROGRESS_TAG}${!s || s.lastReviewed === null ? "new" : isMastered(s) ? "mastered" : "learning"}`;
+
+// Anki tags are space-separated, ours comma-separated
+const ankiTags = (tags: string | undefined) =>
+  (tags ?? "")
+    .split(",")
+    .map((t) => t.trim().replace(/\s+/g, "_"))
+    .filter(Boolean);
+
+/** Serializes a deck with the learner's progress. The result can be imported again as-is. */
+export function exportDeck(
+  format: DeckFormat,
+  deck: Deck,
+  cards: Card[],
+  schedules: ScheduleMap,
+  now = Date.now()
+): { fileName: string; mime: string; text: string } {
+  const spec = DECK_FORMATS.find((f) => f.format === format)!;
+  const fileName = `${slug(deck.deck_name)}.${spec.extension}`;
+
+  if (format === "json") {
+    const progress: ScheduleMap = {};
+    for (const c of cards) if (schedules[c.card_id]) progress[c.card_id] = schedules[c.card_id];
+    const text = JSON.stringify(
+      { format: JSON_FORMAT_TAG, version: JSON_FORMAT_VERSION, exportedAt: new Date(now).toISOString(), deck, cards, progress },
+      null,
+      2
+    );
+    return { fileName, mime: spec.mime, text };
+  }
+
+  if (format === "anki") {
+    const header = ["#separator:tab", "#html:false", "#columns:Front\tBack\tExplanation\tTags", "#tags column:4"];
+    const rows = cards.map((c) => [
+      c.front,
+      c.back,
+      c.explanation ?? "",
+      [...ankiTags(c.tags), progressTag(schedules[c.card_id])].join(" "),
+    ]);
+    return { fileName, mime: spec.mime, text: `${header.join("\n")}\n${serializeCSV(rows, "\t")}` };
+  }
+
+  const rows = cards.map((c) => [...CARD_FIELDS.map((f) => c[f] ?? ""), ...progressValues(schedules[c.card_id])]);
+  return { fileName, mime: spec.mime, text: serializeCSV([[...CARD_FIELDS, ...PROGRESS_FIELDS], ...rows]) };
+}
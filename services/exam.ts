@@ -0,0 +1,178 @@
+// services/exam.ts
+// Timed multiple-choice practice exam built from the card bank, weighted by domain.
+import { CCNA_DOMAINS, Card } from "../types";
+
+export type ExamQuestion = {
+  id: string;
+  cardId: string;
+  domainId: number;
+  deckName: string;
+  objective?: string;
+  stem: string;
+  options: string[];
+  correctIndex: number;
+  explanation?: string;
+};
+
+export type ExamConfig = {
+  questionCount: number;
+  durationMinutes: number;
+};
+
+export const EXAM_PRESETS: ({ label: string } & ExamConfig)[] = [
+  { label: "Full exam", questionCount: 100, durationMinutes: 120 },
+  { label: "Half exam", questionCount: 50, durationMinutes: 60 },
+  { label: "Quick check", questionCount: 20, durationMinutes: 25 },
+];
+
+// Cisco doesn't publish a fixed cut score; ~82.5% is the commonly quoted target.
+export const PASS_MARK = 0.825;
+
+const OPTION_COUNT = 4;
+
+export function shuffle<T>(items: T[], rng: () => number = Math.random): T[] {
+  const out = items.slice();
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+const normalizeAnswer = (s: string) => s.trim().toLowerCase().replace(/[.\s]+$/g, "");
+
+/**
+ * Splits `total` across domains by exam weight (largest remainder), capped by how many
+ * cards each domain actually has; leftover seats go to domains that still have cards.
+ */
+export function allocateByWeight(total: number, available: Record<number, number>): Record<number, number> {
+  const domains = CCNA_DOMAINS.filter((d) => (available[d.id] ?? 0) > 0);
+  const out: Record<number, number> = {};
+  if (domains.length === 0) return out;
+
+  const weightSum = domains.reduce((sum, d) => sum + d.weight, 0);
+  const exact = domains.map((d) => ({ id: d.id, value: (total * d.weight) / weightSum }));
+
+  exact.forEach((e) => (out[e.id] = Math.min(Math.floor(e.value), available[e.id])));
+
+  let remaining = total - Object.values(out).reduce((a, b) => a + b, 0);
+  const byRemainder = exact.slice().sort((a, b) => (b.value % 1) - (a.value % 1));
+
+  // first honour the remainders, then fill any gap left by small domains
+  while (remaining > 0) {
+    const next = byRemainder.find((e) => out[e.id] < available[e.id]);
+    if (!next) break;
+    out[next.id] += 1;
+    remaining -= 1;
+    byRemainder.push(byRemainder.splice(byRemainder.indexOf(next), 1)[0]);
+  }
+
+  return out;
+}
+
+/** Three wrong answers: prefer the same deck, then the same objective, then the same domain. */
+function pickDistractors(card: Card, pools: Card[][], rng: () => number): string[] {
+  const correct = normalizeAnswer(card.back);
+  const seen = new Set([correct]);
+  const out: string[] = [];
+
+  for (const pool of pools) {
+    for (const other of shuffle(pool, rng)) {
+      if (out.length >= OPTION_COUNT - 1) return out;
+      const key = normalizeAnswer(other.back);
+      if (!key || seen.has(key)) continue;
+      seen.add(key);
+      out.push(other.back);
+    }
+  }
+  return out;
+}
+
+export function buildExam(cards: Card[], config: ExamConfig, rng: () => number = Math.random): ExamQuestion[] {
+  const byDomain = new Map<number, Card[]>();
+  const byDeck = new Map<string, Card[]>();
+  const byObjective = new Map<string, Card[]>();
+
+  const add = <K>(map: Map<K, Card[]>, key: K, c: Card) => {
+    const list = map.get(key);
+    if (list) list.push(c);
+    else map.set(key, [c]);
+  };
+
+  for (const c of cards) {
+    add(byDomain, Number(c.domain_int) || 0, c);
+    add(byDeck, c.deck_id, c);
+    if (c.objective) add(byObjective, c.objective, c);
+  }
+
+  const available: Record<number, number> = {};
+  byDomain.forEach((list, id) => (available[id] = list.length));
+  const allocation = allocateByWeight(config.questionCount, available);
+
+  const picked: Card[] = [];
+  for (const [id, count] of Object.entries(allocation)) {
+    picked.push(...shuffle(byDomain.get(Number(id)) ?? [], rng).slice(0, count));
+  }
+
+  const questions: ExamQuestion[] = [];
+  for (const card of shuffle(picked, rng)) {
+    const domainId = Number(card.domain_int) || 0;
+    const distractors = pickDistractors(
+      card,
+      [
+        byDeck.get(card.deck_id) ?? [],
+        card.objective ? byObjective.get(card.objective) ?? [] : [],
+        byDomain.get(domainId) ?? [],
+        cards,
+      ],
+      rng
+    );
+    if (distractors.length < OPTION_COUNT - 1) continue;
+
+    const options = shuffle([card.back, ...distractors], rng);
+    questions.push({
+      id: `q${questions.length + 1}`,
+      cardId: card.card_id,
+      domainId,
+      deckName: card.deck_name,
+      objective: card.objective,
+      stem: card.front,
+      options,
+      correctIndex: options.indexOf(card.back),
+      explanation: card.explanation || undefined,
+    });
+  }
+
+  return questions;
+}
+
+export type ExamReport = {
+  correct: number;
+  total: number;
+  unanswered: number;
+  percent: number;
+  passed: boolean;
+  byDomain: Record<number, { correct: number; total: number }>;
+};
+
+export function scoreExam(questions: ExamQuestion[], answers: Record<string, number>): ExamReport {
+  const byDomain: ExamReport["byDomain"] = {};
+  let correct = 0;
+  let unanswered = 0;
+
+  for (const q of questions) {
+    const d = (byDomain[q.domainId] ??= { correct: 0, total: 0 });
+    d.total += 1;
+
+    const a = answers[q.id];
+    if (a === undefined) unanswered += 1;
+    else if (a === q.correctIndex) {
+      correct += 1;
+      d.correct += 1;
+    }
+  }
+
+  const total = questions.length;
+  const percent = total > 0 ? correct / total : 0;
+  return { correct, total, unanswered, percent, passed: percent >= PASS_MARK, byDomain };
+}
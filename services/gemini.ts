@@ -1,13 +1,10 @@
 // services/gemini.ts
 
-export type AiTutorResult = {
-  title: string;
-  simpleExplanation: string;
-  realWorldExample: string;
-  keyCommands: string[];
-  commonMistakes: string[];
-  quickCheck: string[];
-};
+import { coerceTutorResult, parseTutorOutput, TutorSchemaError, type AiTutorResult } from "./tutorSchema";
+import { validateQuizItems, type QuizDragDropItem, type QuizItem, type QuizMcqItem } from "./quizSchema";
+
+// The schemas (and their coercion rules) are shared with the server: services/tutorSchema.ts, services/quizSchema.ts
+export type { AiTutorResult, QuizDragDropItem, QuizItem, QuizMcqItem };
 
 // Back-compat alias (if you referenced TutorJSON elsewhere)
 export type TutorJSON = AiTutorResult;
@@ -18,25 +15,58 @@ export type TutorJSON = AiTutorResult;
 const memCache = new Map<string, { at: number; value: AiTutorResult }>();
 const CACHE_TTL_MS = 1000 * 60 * 30; // 30 min
 
-function cacheKey(concept: string, answerContext?: string) {
-  return `${concept}__${answerContext ?? ""}`.trim();
-}
-
-function getCached(concept: string, answerContext?: string) {
-  const k = cacheKey(concept, answerContext);
-  const hit = memCache.get(k);
+function getCached(cardId: string) {
+  const hit = memCache.get(cardId);
   if (!hit) return null;
   if (Date.now() - hit.at > CACHE_TTL_MS) {
-    memCache.delete(k);
+    memCache.delete(cardId);
     return null;
   }
   return hit.value;
 }
 
-function setCached(concept: string, answerContext: string | undefined, value: AiTutorResult) {
-  memCache.set(cacheKey(concept, answerContext), { at: Date.now(), value });
+function setCached(cardId: string, value: AiTutorResult) {
+  memCache.set(cardId, { at: Date.now(), value });
+  saveOffline(cardId, value);
 }
 
+/** ---------------------------
+ *  Offline copies (localStorage, no TTL)
+ *  Every explanation is kept so it can be shown again without a connection.
+ *  --------------------------- */
+const OFFLINE_KEY = "ccna_tutor_offline";
+const MAX_OFFLINE_EXPLANATIONS = 300;
+
+type OfflineEntry = { at: number; value: AiTutorResult };
+
+function loadOffline(): Record<string, OfflineEntry> {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(OFFLINE_KEY) || "{}");
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function saveOffline(cardId: string, value: AiTutorResult) {
+  try {
+    const all = { ...loadOffline(), [cardId]: { at: Date.now(), value } };
+    const keep = Object.entries(all)
+      .sort((a, b) => b[1].at - a[1].at)
+      .slice(0, MAX_OFFLINE_EXPLANATIONS);
+    localStorage.setItem(OFFLINE_KEY, JSON.stringify(Object.fromEntries(keep)));
+  } catch {
+    // storage full or unavailable: the explanation just won't be there offline
+  }
+}
+
+function offlineCopy(cardId: string): AiTutorResult | null {
+  const hit = loadOffline()[cardId];
+  return hit ? coerceTutorResult(hit.value).result : null;
+}
+
+const isOffline = () => typeof navigator !== "undefined" && navigator.onLine === false;
+
 /** ---------------------------
  *  Helpers
  *  --------------------------- */
@@ -47,23 +77,6 @@ function cleanText(s: unknown): string {
     .trim();
 }
 
-function asStringArray(v: unknown): string[] {
-  if (Array.isArray(v)) return v.map((x) => cleanText(x)).filter(Boolean);
-  if (typeof v === "string") {
-    // split bullets or lines
-    return v
-      .split(/\n+/)
-      .map((x) => x.replace(/^[-*•]\s*/, "").trim())
-      .filter(Boolean);
-  }
-  return [];
-}
-
-function looksLikeJsonBlob(s: string) {
-  const t = s.trim();
-  return (t.startsWith("{") && t.endsWith("}")) || (t.startsWith("[") && t.endsWith("]"));
-}
-
 function tryParseJson<T = any>(s: string): T | null {
   try {
     return JSON.parse(s) as T;
@@ -72,253 +85,335 @@ function tryParseJson<T = any>(s: string): T | null {
   }
 }
 
-// Extract first plausible {...} block (helps when model wraps JSON in text)
-function extractJsonBlock(s: string): string | null {
-  const t = s.trim();
-  const start = t.indexOf("{");
-  if (start < 0) return null;
+/** ---------------------------
+ *  Partial JSON (streaming)
+ *  --------------------------- */
+const CLOSERS: Record<string, string> = { "{": "}", "[": "]" };
+
+/**
+ * Parses a JSON prefix as far as it goes: an unterminated string value is closed where it stops,
+ * an unfinished key / number is dropped, and open objects/arrays are closed.
+ */
+export function parsePartialJson(text: string): any | undefined {
+  const start = text.indexOf("{");
+  if (start < 0) return undefined;
+  const t = text.slice(start);
+
+  const stack: string[] = [];
+  let inString = false;
+  let escape = false;
+  let stringIsKey = false;
+  let lastSig = "";
+  let safeEnd = 0;
+  let safeStack: string[] = [];
+
+  const markSafe = (end: number) => {
+    safeEnd = end;
+    safeStack = [...stack];
+  };
 
-  let depth = 0;
-  for (let i = start; i < t.length; i++) {
+  for (let i = 0; i < t.length; i++) {
     const ch = t[i];
-    if (ch === "{") depth++;
-    if (ch === "}") depth--;
-    if (depth === 0) return t.slice(start, i + 1);
+
+    if (inString) {
+      if (escape) escape = false;
+      else if (ch === "\\") escape = true;
+      else if (ch === '"') {
+        inString = false;
+        lastSig = '"';
+        if (!stringIsKey) markSafe(i + 1);
+      }
+      continue;
+    }
+
+    if (ch === '"') {
+      inString = true;
+      stringIsKey = stack[stack.length - 1] === "{" && (lastSig === "{" || lastSig === ",");
+    } else if (ch === "{" || ch === "[") {
+      stack.push(ch);
+      lastSig = ch;
+      markSafe(i + 1);
+    } else if (ch === "}" || ch === "]") {
+      stack.pop();
+      lastSig = ch;
+      markSafe(i + 1);
+      if (stack.length === 0) break;
+    } else if (ch === ",") {
+      markSafe(i);
+      lastSig = ch;
+    } else if (!/\s/.test(ch)) {
+      lastSig = ch;
+    }
   }
-  return null;
+
+  const close = (open: string[]) => open.slice().reverse().map((c) => CLOSERS[c]).join("");
+
+  const candidate =
+    inString && !stringIsKey
+      ? `${t.replace(/\\(u[0-9a-fA-F]{0,3})?$/, "")}"${close(stack)}`
+      : `${t.slice(0, safeEnd)}${close(safeStack)}`;
+
+  return tryParseJson(candidate) ?? undefined;
 }
 
-function normalizeResult(input: Partial<AiTutorResult> | null, fallbackTitle: string): AiTutorResult {
-  const title = cleanText(input?.title) || fallbackTitle || "AI Tutor";
+/** Best-effort sections from a streaming response; missing fields are simply empty. */
+export function parsePartialTutorJSON(text: string, fallbackTitle: string): AiTutorResult {
+  return coerceTutorResult(parsePartialJson(text) ?? {}, { fallbackTitle }).result;
+}
 
-  const simpleExplanation = cleanText(input?.simpleExplanation);
-  const realWorldExample = cleanText(input?.realWorldExample);
+/** ---------------------------
+ *  Main exported functions
+ *  --------------------------- */
+function finalizeResult(json: any, concept: string): AiTutorResult {
+  // Server shapes: { ok:true, data:{...} } (current) or { text:"..." } (older deployments)
+  const candidate = json?.data ?? (typeof json?.text === "string" ? json.text : json);
 
-  const keyCommands = asStringArray(input?.keyCommands);
-  const commonMistakes = asStringArray(input?.commonMistakes);
-  const quickCheck = asStringArray(input?.quickCheck);
+  let result: AiTutorResult;
+  try {
+    result = parseTutorOutput(candidate, { fallbackTitle: concept }).result;
+  } catch (e) {
+    if (!(e instanceof TutorSchemaError)) throw e;
+    result = coerceTutorResult({}, { fallbackTitle: concept }).result;
+  }
 
+  // Final safety: fill blanks so UI never looks broken
   return {
-    title,
-    simpleExplanation,
-    realWorldExample,
-    keyCommands,
-    commonMistakes,
-    quickCheck,
+    ...result,
+    simpleExplanation: result.simpleExplanation || "—",
+    realWorldExample: result.realWorldExample || "—",
   };
 }
 
 /** ---------------------------
- *  Convert plain text into structured sections
+ *  Access limits (sign-in, rate limits, daily quota)
  *  --------------------------- */
-function parseTextToSections(text: string, fallbackTitle: string): AiTutorResult {
-  const t = text.replace(/\r\n/g, "\n").trim();
-
-  // If the whole thing is JSON-ish, try that first
-  const directJson = looksLikeJsonBlob(t) ? tryParseJson<any>(t) : null;
-  if (directJson && typeof directJson === "object") {
-    return normalizeFromAny(directJson, fallbackTitle);
+export type TutorLimitCode = "unauthorized" | "rate_limited" | "daily_quota" | "model_not_allowed" | "pro_required";
+
+/** The server refused the request (see api/_lib/aiAccess.ts); retrying right away won't help. */
+export class TutorLimitError extends Error {
+  constructor(
+    message: string,
+    public code: TutorLimitCode,
+    public retryAfterSeconds: number | null,
+    public upgrade: boolean
+  ) {
+    super(message);
+    this.name = "TutorLimitError";
   }
+}
 
-  // Otherwise, parse by headings
-  const getBlock = (label: string) => {
-    const re = new RegExp(
-      String.raw`(?:^|\n)\s*(?:###?\s*)?${label}\s*:?\s*\n([\s\S]*?)(?=\n\s*(?:###?\s*)?(Simple explanation|Real-world example|Key commands|Common mistakes|Quick check)\s*:?\s*\n|$)`,
-      "i"
+/** No connection. `saved` is the last explanation of this card seen on this device, if any. */
+export class TutorOfflineError extends Error {
+  constructor(public saved: AiTutorResult | null) {
+    super(
+      saved
+        ? "You're offline. Showing the explanation saved on this device."
+        : "You're offline, and this card hasn't been explained on this device yet."
     );
-    const m = t.match(re);
-    return m ? m[1].trim() : "";
-  };
+    this.name = "TutorOfflineError";
+  }
+}
 
-  const se = getBlock("Simple explanation") || "";
-  const ex = getBlock("Real-world example") || "";
-  const kc = getBlock("Key commands") || "";
-  const cm = getBlock("Common mistakes") || "";
-  const qc = getBlock("Quick check") || "";
-
-  const out = normalizeResult(
-    {
-      title: fallbackTitle,
-      simpleExplanation: se,
-      realWorldExample: ex,
-      keyCommands: asStringArray(kc),
-      commonMistakes: asStringArray(cm),
-      quickCheck: asStringArray(qc),
-    },
-    fallbackTitle
+const LIMIT_CODES: TutorLimitCode[] = ["unauthorized", "rate_limited", "daily_quota", "model_not_allowed", "pro_required"];
+
+function limitErrorFrom(json: any): TutorLimitError | null {
+  if (!json || !LIMIT_CODES.includes(json.code)) return null;
+  const retry = Number(json.retryAfterSeconds);
+  return new TutorLimitError(
+    typeof json.error === "string" && json.error ? json.error : "AI tutor unavailable right now.",
+    json.code,
+    Number.isFinite(retry) && retry > 0 ? retry : null,
+    json.upgrade === true
   );
+}
 
-  // If we failed to find headings, do a graceful fallback:
-  if (
-    !out.simpleExplanation &&
-    !out.realWorldExample &&
-    out.keyCommands.length === 0 &&
-    out.commonMistakes.length === 0 &&
-    out.quickCheck.length === 0
-  ) {
-    return normalizeResult(
-      {
-        title: fallbackTitle,
-        simpleExplanation: t,
-        realWorldExample: "",
-        keyCommands: [],
-        commonMistakes: [],
-        quickCheck: [],
-      },
-      fallbackTitle
-    );
+const jsonHeaders = (token?: string | null): Record<string, string> => ({
+  "Content-Type": "application/json",
+  ...(token ? { Authorization: `Bearer ${token}` } : {}),
+});
+
+/**
+ * Explains one card. The server looks the card up and owns the prompt (api/_lib/prompts.ts);
+ * `concept` is only the fallback title.
+ */
+export async function explainCard(cardId: string, concept: string, token?: string | null): Promise<AiTutorResult> {
+  // Instant return if cached
+  const cached = getCached(cardId);
+  if (cached) return cached;
+  if (isOffline()) throw new TutorOfflineError(offlineCopy(cardId));
+
+  let res: Response;
+  try {
+    res = await fetch("/api/gemini", {
+      method: "POST",
+      headers: jsonHeaders(token),
+      body: JSON.stringify({ kind: "explain", cardId }),
+    });
+  } catch {
+    // fetch only rejects when the request never got an answer (no network, captive portal, …)
+    throw new TutorOfflineError(offlineCopy(cardId));
   }
 
-  return out;
+  const json = await res.json().catch(() => null);
+
+  if (!res.ok) {
+    throw limitErrorFrom(json) ?? new Error(json?.error || "Gemini API failed");
+  }
+
+  const finalOut = finalizeResult(json, concept);
+  setCached(cardId, finalOut);
+  return finalOut;
 }
 
-/** ---------------------------
- *  Normalize from "any" (handles JSON blob inside fields)
- *  --------------------------- */
-function normalizeFromAny(anyObj: any, fallbackTitle: string): AiTutorResult {
-  // Common shapes: {data:{...}}, {result:{...}}, {text:"..."}
-  const obj = anyObj?.data ?? anyObj?.result ?? anyObj;
-
-  // If obj itself is a string, parse as text
-  if (typeof obj === "string") return parseTextToSections(obj, fallbackTitle);
-
-  // If Gemini stuck the whole JSON inside a field (common bug case)
-  const candidates: string[] = [
-    cleanText(obj?.simpleExplanation),
-    cleanText(obj?.title),
-    cleanText(obj?.raw),
-    cleanText(obj?.text),
-  ].filter(Boolean);
-
-  for (const c of candidates) {
-    const trimmed = c.trim();
-    const jsonBlock = looksLikeJsonBlob(trimmed) ? trimmed : extractJsonBlock(trimmed);
-    if (!jsonBlock) continue;
-
-    const parsed = tryParseJson<any>(jsonBlock);
-    if (parsed && typeof parsed === "object") {
-      // Only accept if it has *some* meaningful content
-      const hasEnough =
-        typeof parsed.simpleExplanation === "string" &&
-        parsed.simpleExplanation.trim().length > 30 &&
-        (typeof parsed.realWorldExample === "string" ||
-          Array.isArray(parsed.keyCommands) ||
-          Array.isArray(parsed.commonMistakes) ||
-          Array.isArray(parsed.quickCheck));
-
-      if (!hasEnough) continue;
-
-      const merged = { ...obj, ...parsed };
-      const normalized = normalizeResult(
-        {
-          title: cleanText(merged.title),
-          simpleExplanation: cleanText(merged.simpleExplanation),
-          realWorldExample: cleanText(merged.realWorldExample),
-          keyCommands: asStringArray(merged.keyCommands),
-          commonMistakes: asStringArray(merged.commonMistakes),
-          quickCheck: asStringArray(merged.quickCheck),
-        },
-        fallbackTitle
-      );
-
-      // IMPORTANT: ensure we didn't keep JSON as explanation by accident
-      if (looksLikeJsonBlob(normalized.simpleExplanation)) {
-        const p = tryParseJson<any>(normalized.simpleExplanation);
-        if (p && typeof p === "object") return normalizeFromAny(p, fallbackTitle);
-      }
+/**
+ * Streaming variant: onPartial receives the sections filled in so far as the SSE deltas arrive.
+ * Falls back to explainCard only when no stream could be opened (fetch rejected, or an old server
+ * or buffering proxy answered without text/event-stream). Errors the server reports, as a JSON
+ * error response or an `error` event mid-stream, are thrown as-is. Offline, both throw
+ * TutorOfflineError with the saved copy.
+ */
+export async function explainCardStream(
+  cardId: string,
+  concept: string,
+  onPartial: (partial: AiTutorResult) => void,
+  token?: string | null
+): Promise<AiTutorResult> {
+  const cached = getCached(cardId);
+  if (cached) return cached;
+  if (isOffline()) throw new TutorOfflineError(offlineCopy(cardId));
 
-      return normalized;
-    }
+  let res: Response;
+  try {
+    res = await fetch("/api/gemini", {
+      method: "POST",
+      headers: jsonHeaders(token),
+      body: JSON.stringify({ kind: "explain", cardId, stream: true }),
+    });
+  } catch (e) {
+    console.warn("Tutor streaming failed, retrying without streaming:", e);
+    return explainCard(cardId, concept, token);
   }
 
-  // Normal structured response
-  const normalized = normalizeResult(
-    {
-      title: cleanText(obj?.title) || fallbackTitle,
-      simpleExplanation: cleanText(obj?.simpleExplanation),
-      realWorldExample: cleanText(obj?.realWorldExample),
-      keyCommands: asStringArray(obj?.keyCommands),
-      commonMistakes: asStringArray(obj?.commonMistakes),
-      quickCheck: asStringArray(obj?.quickCheck),
-    },
-    fallbackTitle
-  );
+  const contentType = res.headers.get("Content-Type") || "";
+  if (!res.ok && contentType.includes("application/json")) {
+    const json = await res.json().catch(() => null);
+    throw limitErrorFrom(json) ?? new Error(json?.error || "Gemini API failed");
+  }
+  if (!res.body || !contentType.includes("text/event-stream")) {
+    console.warn(`Tutor streaming unavailable (${res.status}), retrying without streaming`);
+    return explainCard(cardId, concept, token);
+  }
 
-  // If still empty and there is a big text field, parse it
-  const bigText = cleanText(obj?.text || obj?.raw || "");
-  if (
-    (!normalized.simpleExplanation || normalized.simpleExplanation.length < 10) &&
-    bigText.length > 30
-  ) {
-    return parseTextToSections(bigText, fallbackTitle);
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let text = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const frames = buffer.split("\n\n");
+    buffer = frames.pop() ?? "";
+
+    for (const frame of frames) {
+      const event = frame.match(/^event:\s*(.*)$/m)?.[1]?.trim() ?? "message";
+      const data = tryParseJson<any>(frame.match(/^data:\s*(.*)$/m)?.[1] ?? "");
+      if (!data) continue;
+
+      if (event === "delta" && typeof data.text === "string") {
+        text += data.text;
+        onPartial(parsePartialTutorJSON(text, concept));
+      } else if (event === "done") {
+        const finalOut = finalizeResult(data, concept);
+        setCached(cardId, finalOut);
+        return finalOut;
+      } else if (event === "error") {
+        throw new Error(data.error || "Gemini stream failed");
+      }
+    }
   }
 
-  return normalized;
+  throw new Error("Stream ended without a result");
 }
 
 /** ---------------------------
- *  Main exported function
+ *  Practice quiz ("Quiz me")
  *  --------------------------- */
-export async function explainConcept(concept: string, answerContext?: string): Promise<AiTutorResult> {
-  // Instant return if cached
-  const cached = getCached(concept, answerContext);
-  if (cached) return cached;
+export type QuizScope = { cardId: string } | { objective: string };
 
-  const prompt = `
-You are a CCNA tutor. Be clear, natural, and practical.
+/** Asks the server for a fresh set of items; both sides check them with services/quizSchema.ts. */
+export async function fetchQuiz(scope: QuizScope, token?: string | null): Promise<QuizItem[]> {
+  const res = await fetch("/api/gemini", {
+    method: "POST",
+    headers: jsonHeaders(token),
+    body: JSON.stringify({ kind: "quiz", ...scope }),
+  });
 
-CONCEPT: ${concept}
+  const json = await res.json().catch(() => null);
 
-${answerContext ? `ANSWER CONTEXT:\n${answerContext}\n` : ""}
+  if (!res.ok) {
+    throw limitErrorFrom(json) ?? new Error(json?.error || "Couldn't create a quiz");
+  }
 
-Return STRICT JSON ONLY with this exact shape:
-{
-  "title": "string",
-  "simpleExplanation": "string",
-  "realWorldExample": "string",
-  "keyCommands": ["string"],
-  "commonMistakes": ["string"],
-  "quickCheck": ["string"]
+  const items = validateQuizItems(json?.data);
+  if (items.length === 0) throw new Error("The tutor returned no questions");
+  return items;
 }
 
-Rules:
-- Each string must be plain text (no markdown headings).
-- keyCommands/commonMistakes/quickCheck must be arrays (empty array if none).
-- quickCheck: 2–4 short Q&A bullets like "Q: ... A: ..."
-`.trim();
+/** ---------------------------
+ *  Follow-up chat
+ *  --------------------------- */
+export type TutorMessage = {
+  role: "user" | "tutor";
+  text: string;
+};
 
-  const res = await fetch("/api/gemini", {
+// Card the conversation is about; the server looks up the card and its cached explanation
+export type TutorChatContext = {
+  cardId: string;
+};
+
+// Full thread for display; only `summary` + the last few messages are sent to the server
+export type TutorThread = {
+  messages: TutorMessage[];
+  summary: string;
+};
+
+const CHAT_RECENT_MESSAGES = 6;
+export const MAX_THREAD_MESSAGES = 40;
+
+export const emptyThread = (): TutorThread => ({ messages: [], summary: "" });
+
+export async function askTutor(
+  context: TutorChatContext,
+  thread: TutorThread,
+  message: string,
+  token?: string | null
+): Promise<TutorThread> {
+  const res = await fetch("/api/gemini-chat", {
     method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ prompt, model: "gemini-2.5-flash" }),
+    headers: jsonHeaders(token),
+    body: JSON.stringify({
+      cardId: context.cardId,
+      summary: thread.summary,
+      history: thread.messages.slice(-CHAT_RECENT_MESSAGES),
+      message,
+    }),
   });
 
-  const json = await res.json();
+  const json = await res.json().catch(() => null);
 
   if (!res.ok) {
-    throw new Error(json?.error || "Gemini API failed");
+    throw limitErrorFrom(json) ?? new Error(json?.error || "Tutor chat failed");
   }
 
-  // Support BOTH server shapes:
-  // 1) { ok:true, data:{...} }
-  // 2) { text:"...", model:"..." }
-  const candidate =
-    (json && typeof json === "object" && "data" in json && json.data) ? json.data :
-    (json && typeof json === "object" && typeof json.text === "string") ? json.text :
-    json;
-
-  const normalized = normalizeFromAny(candidate, concept);
+  const reply = cleanText(json?.data?.reply) || "Sorry, I couldn't answer that.";
+  const messages: TutorMessage[] = [...thread.messages, { role: "user", text: message }, { role: "tutor", text: reply }];
 
-  // Final safety: fill blanks so UI never looks broken
-  const finalOut: AiTutorResult = {
-    title: normalized.title || concept || "AI Tutor",
-    simpleExplanation: normalized.simpleExplanation || "—",
-    realWorldExample: normalized.realWorldExample || "—",
-    keyCommands: normalized.keyCommands || [],
-    commonMistakes: normalized.commonMistakes || [],
-    quickCheck: normalized.quickCheck || [],
+  return {
+    messages: messages.slice(-MAX_THREAD_MESSAGES),
+    summary: cleanText(json?.data?.summary) || thread.summary,
   };
-
-  setCached(concept, answerContext, finalOut);
-  return finalOut;
 }
@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+import {
+  canonicalInterface,
+  completeIosCommand,
+  createIosSession,
+  expectedCli,
+  gradeCliSession,
+  promptFor,
+  runIosCommand,
+  type CliOutputLine,
+  type IosSession,
+} from "./iosCli";
+
+function run(lines: string[], session: IosSession = createIosSession()) {
+  let output: CliOutputLine[] = [];
+  for (const line of lines) {
+    const r = runIosCommand(session, line);
+    session = r.session;
+    output = r.output;
+  }
+  return { session, output };
+}
+
+const errors = (output: CliOutputLine[]) => output.filter((l) => l.kind === "error").map((l) => l.text);
+const hints = (output: CliOutputLine[]) => output.filter((l) => l.kind === "hint").map((l) => l.text);
+
+describe("abbreviations", () => {
+  it("expands unique prefixes like IOS", () => {
+    const { session } = run(["en", "conf t", "int g0/1", "sw mo acc", "sw acc vl 10"]);
+    expect(session.mode).toBe("config-if");
+    expect(promptFor(session)).toBe("Router(config-if)#");
+    expect(session.entries).toEqual([
+      { context: "", command: "interface GigabitEthernet0/1" },
+      { context: "interface GigabitEthernet0/1", command: "switchport mode access" },
+      { context: "interface GigabitEthernet0/1", command: "switchport access vlan 10" },
+    ]);
+  });
+
+  it("canonicalizes interfaces and show commands", () => {
+    expect(canonicalInterface("Gi 0/1")).toBe("GigabitEthernet0/1");
+    expect(canonicalInterface("vlan 10")).toBe("Vlan10");
+    expect(canonicalInterface("x0/1")).toBeNull();
+    expect(run(["en", "sh ip int br"]).session.verify).toEqual(["show ip interfaces brief"]);
+  });
+
+  it("completes a unique keyword on Tab", () => {
+    const session = run(["en", "conf t"]).session;
+    expect(completeIosCommand(session, "hostn")).toBe("hostname ");
+    expect(completeIosCommand(session, "ip d")).toBe("ip d");
+  });
+});
+
+describe("ambiguity and errors", () => {
+  it("rejects a prefix that fits several commands", () => {
+    const { session, output } = run(["en", "c"]);
+    expect(errors(output)).toEqual(['% Ambiguous command:  "c"']);
+    expect(session.mode).toBe("privileged");
+  });
+
+  it("marks invalid input and incomplete commands", () => {
+    expect(errors(run(["en", "conf t", "ip route 10.0.0.0 255.0.0.0 bogus"]).output)).toContain(
+      "% Invalid input detected at '^' marker."
+    );
+    expect(errors(run(["en", "conf t", "ip route 10.0.0.0"]).output)).toEqual(["% Incomplete command."]);
+  });
+
+  it("hints at the mode a command belongs to", () => {
+    expect(hints(run(["conf t"]).output)).toEqual(['That\'s a privileged EXEC command: type "enable" first.']);
+    expect(hints(run(["en", "conf t", "int g0/1", "network 10.0.0.0 0.0.0.255 area 0"]).output)[0]).toMatch(
+      /router configuration mode/
+    );
+  });
+});
+
+describe("sub-mode fallback", () => {
+  it("accepts global config commands in a sub-mode and drops back", () => {
+    const { session } = run(["en", "conf t", "int g0/1", "hostname R1"]);
+    expect(session.mode).toBe("config");
+    expect(session.targets).toEqual([]);
+    expect(promptFor(session)).toBe("R1(config)#");
+  });
+
+  it("moves straight into another sub-mode", () => {
+    const { session } = run(["en", "conf t", "int g0/1", "router ospf 1", "net 10.0.0.0 0.0.0.255 area 0"]);
+    expect(session.mode).toBe("config-router");
+    expect(session.entries.at(-1)).toEqual({ context: "router ospf 1", command: "network 10.0.0.0 0.0.0.255 area 0" });
+  });
+
+  it("runs EXEC commands with do", () => {
+    const { session } = run(["en", "conf t", "do sh run"]);
+    expect(session.mode).toBe("config");
+    expect(session.verify).toEqual(["show running-config"]);
+  });
+});
+
+describe("no and grading", () => {
+  const expected = expectedCli(
+    "interface g0/1; switchport mode access; switchport access vlan 10; no shutdown",
+    "show vlan brief"
+  );
+
+  it("grades an exact session as correct", () => {
+    const { session } = run(["en", "conf t", "int g0/1", "no shut", "sw mo acc", "sw acc vl 10", "end", "sh vl br"]);
+    const grade = gradeCliSession(expected, session);
+    expect(grade.verdict).toBe("correct");
+    expect(grade.extra).toEqual([]);
+    expect(grade.verified).toEqual([{ label: "show vlan brief", ran: true }]);
+  });
+
+  it("removes the negated line from the running config", () => {
+    const { session } = run(["en", "conf t", "int g0/1", "sw mo acc", "no sw mo acc"]);
+    expect(session.running.find((s) => s.header === "interface GigabitEthernet0/1")?.lines).toEqual([]);
+  });
+
+  it("doesn't credit a command a later no cancelled", () => {
+    const { session } = run(["en", "conf t", "int g0/1", "no shut", "sw mo acc", "sw acc vl 10", "no sw acc vl"]);
+    const grade = gradeCliSession(expected, session);
+    expect(grade.verdict).toBe("partial");
+    expect(grade.expected.filter((i) => !i.matched).map((i) => i.command)).toEqual(["switchport access vlan 10"]);
+  });
+
+  it("doesn't credit a no a later command undid", () => {
+    const { session } = run(["en", "conf t", "int g0/1", "no shut", "sw mo acc", "sw acc vl 10", "shut"]);
+    expect(gradeCliSession(expected, session).expected.find((i) => i.command === "no shutdown")?.matched).toBe(false);
+  });
+
+  it("drops everything under a section that was removed", () => {
+    const ospf = expectedCli("router ospf 1; network 10.0.0.0 0.0.0.255 area 0");
+    const { session } = run(["en", "conf t", "router ospf 1", "net 10.0.0.0 0.0.0.255 area 0", "exit", "no router ospf 1"]);
+    const grade = gradeCliSession(ospf, session);
+    expect(grade.score).toBe(0);
+    expect(grade.extra).toEqual([{ context: "", command: "no router ospf 1" }]);
+  });
+
+  it("leaves out card lines the simulator can't parse", () => {
+    expect(expectedCli("ip domain-lookup; hostname R1").unsupported).toEqual(["ip domain-lookup"]);
+  });
+});
@@ -0,0 +1,841 @@
+// services/iosCli.ts
+// A small Cisco IOS simulator for cards with `cli_config` / `cli_verify`.
+// - modes: user EXEC → privileged EXEC → global config → interface (and router / line / DHCP pool / VLAN) config
+// - commands are parsed against a per-mode grammar, so unique prefixes work like on a real
+//   device ("conf t", "int g0/1", "sw mo acc") and errors look like IOS ("% Invalid input …")
+// - every accepted config line is logged with the section it applies to; grading compares that
+//   log, minus the lines a later "no" cancelled, with the card's expected command set (order
+//   inside a section doesn't matter)
+import type { GradeVerdict } from "./answerGrader";
+import type { ReviewGrade } from "./srs";
+
+export type IosMode =
+  | "user"
+  | "privileged"
+  | "config"
+  | "config-if"
+  | "config-if-range"
+  | "config-router"
+  | "config-line"
+  | "config-dhcp"
+  | "config-vlan";
+
+/** One accepted command: `context` is the section header ("interface GigabitEthernet0/1"), "" for global config, "exec" for EXEC commands. */
+export type CliEntry = { context: string; command: string };
+
+export type CliOutputKind = "echo" | "output" | "error" | "hint";
+
+export type CliOutputLine = { text: string; kind: CliOutputKind };
+
+type ConfigSection = { header: string; lines: string[] }; // header "" = global
+
+export type IosSession = {
+  hostname: string;
+  mode: IosMode;
+  targets: string[]; // sections the current sub-mode edits (several for "interface range")
+  entries: CliEntry[];
+  verify: string[]; // show / ping commands run, canonical
+  running: ConfigSection[];
+  startup: ConfigSection[] | null; // after "copy run start" / "write"
+};
+
+const PROMPT_SUFFIX: Record<IosMode, string> = {
+  user: ">",
+  privileged: "#",
+  config: "(config)#",
+  "config-if": "(config-if)#",
+  "config-if-range": "(config-if-range)#",
+  "config-router": "(config-router)#",
+  "config-line": "(config-line)#",
+  "config-dhcp": "(dhcp-config)#",
+  "config-vlan": "(config-vlan)#",
+};
+
+const SUB_MODES: IosMode[] = ["config-if", "config-if-range", "config-router", "config-line", "config-dhcp", "config-vlan"];
+
+const isConfigMode = (m: IosMode) => m === "config" || SUB_MODES.includes(m);
+
+export const promptFor = (s: IosSession) => `${s.hostname}${PROMPT_SUFFIX[s.mode]}`;
+
+export function createIosSession(hostname = "Router"): IosSession {
+  return { hostname, mode: "user", targets: [], entries: [], verify: [], running: [{ header: "", lines: [] }], startup: null };
+}
+
+/** ---------------------------
+ *  Grammar
+ *  --------------------------- */
+type ArgKind = "n" | "ip" | "word" | "iface" | "vlans" | "rest" | "range";
+
+type GrammarItem = { kind: "kw"; words: string[] } | { kind: "arg"; arg: ArgKind };
+
+type Action =
+  | "enable"
+  | "disable"
+  | "configure"
+  | "exit"
+  | "end"
+  | "show"
+  | "ping"
+  | "copy"
+  | "write"
+  | "reload"
+  | "exec" // any other EXEC command that's only logged
+  | "hostname";
+
+type Syntax = { items: GrammarItem[]; action?: Action; enters?: IosMode };
+
+function cmd(pattern: string, extra: { action?: Action; enters?: IosMode } = {}): Syntax {
+  const items: GrammarItem[] = pattern.split(" ").map((p) =>
+    p.startsWith("<") ? { kind: "arg", arg: p.slice(1, -1) as ArgKind } : { kind: "kw", words: p.split("|") }
+  );
+  return { items, ...extra };
+}
+
+const ARG_LABELS: Record<ArgKind, string> = {
+  n: "<number>",
+  ip: "A.B.C.D",
+  word: "WORD",
+  iface: "INTERFACE",
+  vlans: "VLAN_LIST",
+  rest: "LINE",
+  range: "INTERFACE_RANGE",
+};
+
+const USER_EXEC: Syntax[] = [
+  cmd("enable", { action: "enable" }),
+  cmd("exit", { action: "exit" }),
+  cmd("logout", { action: "exit" }),
+  cmd("show <rest>", { action: "show" }),
+  cmd("ping <rest>", { action: "ping" }),
+  cmd("traceroute <rest>", { action: "ping" }),
+];
+
+const FILES = "running-config|startup-config|tftp:|flash:|ftp:";
+
+const PRIVILEGED_EXEC: Syntax[] = [
+  ...USER_EXEC,
+  cmd("disable", { action: "disable" }),
+  cmd("configure terminal", { action: "configure" }),
+  cmd(`copy ${FILES} ${FILES}`, { action: "copy" }),
+  cmd("write memory", { action: "write" }),
+  cmd("write", { action: "write" }),
+  cmd("reload", { action: "reload" }),
+  cmd("clear <rest>", { action: "exec" }),
+  cmd("debug <rest>", { action: "exec" }),
+  cmd("undebug all", { action: "exec" }),
+];
+
+const CONFIG_COMMON: Syntax[] = [cmd("exit", { action: "exit" }), cmd("end", { action: "end" })];
+
+const GLOBAL_CONFIG: Syntax[] = [
+  ...CONFIG_COMMON,
+  cmd("hostname <word>", { action: "hostname" }),
+  cmd("interface range <range>", { enters: "config-if-range" }),
+  cmd("interface <iface>", { enters: "config-if" }),
+  cmd("router ospf <n>", { enters: "config-router" }),
+  cmd("line vty <n> <n>", { enters: "config-line" }),
+  cmd("line vty|console <n>", { enters: "config-line" }),
+  cmd("ip dhcp pool <word>", { enters: "config-dhcp" }),
+  cmd("vlan <vlans>", { enters: "config-vlan" }),
+  cmd("ip dhcp excluded-address <ip> <ip>"),
+  cmd("ip dhcp excluded-address <ip>"),
+  cmd("ip dhcp snooping vlan <vlans>"),
+  cmd("ip dhcp snooping"),
+  cmd("ip arp inspection vlan <vlans>"),
+  cmd("ip route <ip> <ip> <ip> <n>"),
+  cmd("ip route <ip> <ip> <iface> <n>"),
+  cmd("ip route <ip> <ip> <ip>"),
+  cmd("ip route <ip> <ip> <iface>"),
+  cmd("ip routing"),
+  cmd("ip default-gateway <ip>"),
+  cmd("ip domain-name <word>"),
+  cmd("ip name-server <ip>"),
+  cmd("ip ssh version <n>"),
+  cmd("ip nat inside source list <word> interface <iface> overload"),
+  cmd("ip nat inside source list <word> interface <iface>"),
+  cmd("ip nat inside source list <word> pool <word> overload"),
+  cmd("ip nat inside source list <word> pool <word>"),
+  cmd("ip nat inside source static <ip> <ip>"),
+  cmd("ip nat pool <word> <ip> <ip> netmask <ip>"),
+  cmd("ipv6 unicast-routing"),
+  cmd("ipv6 route <rest>"),
+  cmd("ntp server <ip>"),
+  cmd("logging host <ip>"),
+  cmd("logging trap emergencies|alerts|critical|errors|warnings|notifications|informational|debugging"),
+  cmd("logging trap <n>"),
+  cmd("logging <ip>"),
+  cmd("snmp-server community <word> ro|rw"),
+  cmd("snmp-server community <word>"),
+  cmd("access-list <n> permit|deny|remark <rest>"),
+  cmd("spanning-tree mode rapid-pvst|pvst|mst"),
+  cmd("spanning-tree vlan <vlans> priority <n>"),
+  cmd("spanning-tree vlan <vlans> root primary|secondary"),
+  cmd("spanning-tree portfast default"),
+  cmd("spanning-tree portfast bpduguard default"),
+  cmd("errdisable recovery cause bpduguard|psecure-violation|udld|link-flap|dtp-flap|arp-inspection|dhcp-rate-limit|all"),
+  cmd("errdisable recovery interval <n>"),
+  cmd("crypto key generate rsa modulus <n>"),
+  cmd("crypto key generate rsa"),
+  cmd("banner motd <rest>"),
+  cmd("service password-encryption"),
+  cmd("enable secret|password <word>"),
+  cmd("username <word> privilege <n> secret|password <word>"),
+  cmd("username <word> secret|password <word>"),
+  cmd("cdp run"),
+  cmd("lldp run"),
+];
+
+const INTERFACE_CONFIG: Syntax[] = [
+  ...CONFIG_COMMON,
+  cmd("description <rest>"),
+  cmd("ip address dhcp"),
+  cmd("ip address <ip> <ip> secondary"),
+  cmd("ip address <ip> <ip>"),
+  cmd("ipv6 address <word>"),
+  cmd("ipv6 enable"),
+  cmd("shutdown"),
+  cmd("speed <word>"),
+  cmd("duplex auto|full|half"),
+  cmd("switchport mode access|trunk"),
+  cmd("switchport mode dynamic auto|desirable"),
+  cmd("switchport access vlan <n>"),
+  cmd("switchport voice vlan <n>"),
+  cmd("switchport trunk allowed vlan all|none"),
+  cmd("switchport trunk allowed vlan add|remove|except <vlans>"),
+  cmd("switchport trunk allowed vlan <vlans>"),
+  cmd("switchport trunk native vlan <n>"),
+  cmd("switchport trunk encapsulation dot1q"),
+  cmd("switchport nonegotiate"),
+  cmd("switchport port-security maximum <n>"),
+  cmd("switchport port-security mac-address sticky"),
+  cmd("switchport port-security mac-address <word>"),
+  cmd("switchport port-security violation protect|restrict|shutdown"),
+  cmd("switchport port-security"),
+  cmd("switchport"),
+  cmd("channel-group <n> mode active|passive|on|desirable|auto"),
+  cmd("spanning-tree portfast"),
+  cmd("spanning-tree bpduguard enable|disable"),
+  cmd("spanning-tree bpdufilter enable|disable"),
+  cmd("spanning-tree guard root|loop|none"),
+  cmd("spanning-tree cost|port-priority <n>"),
+  cmd("ip ospf <n> area <n>"),
+  cmd("ip ospf priority|cost|hello-interval|dead-interval <n>"),
+  cmd("ip ospf network point-to-point|broadcast"),
+  cmd("standby version <n>"),
+  cmd("standby <n> ip <ip>"),
+  cmd("standby <n> priority <n>"),
+  cmd("standby <n> preempt"),
+  cmd("ip helper-address <ip>"),
+  cmd("ip nat inside|outside"),
+  cmd("ip access-group <word> in|out"),
+  cmd("ip dhcp snooping trust"),
+  cmd("ip dhcp snooping limit rate <n>"),
+  cmd("ip arp inspection trust"),
+  cmd("encapsulation dot1q <n>"),
+];
+
+const ROUTER_CONFIG: Syntax[] = [
+  ...CONFIG_COMMON,
+  cmd("network <ip> <ip> area <n>"),
+  cmd("router-id <ip>"),
+  cmd("passive-interface default"),
+  cmd("passive-interface <iface>"),
+  cmd("default-information originate"),
+  cmd("auto-cost reference-bandwidth <n>"),
+  cmd("maximum-paths <n>"),
+];
+
+const LINE_CONFIG: Syntax[] = [
+  ...CONFIG_COMMON,
+  cmd("transport input ssh|telnet|all|none"),
+  cmd("transport input ssh|telnet ssh|telnet"),
+  cmd("access-class <word> in|out"),
+  cmd("login local"),
+  cmd("login"),
+  cmd("password <word>"),
+  cmd("exec-timeout <n> <n>"),
+  cmd("exec-timeout <n>"),
+  cmd("logging synchronous"),
+];
+
+const DHCP_CONFIG: Syntax[] = [
+  ...CONFIG_COMMON,
+  cmd("network <ip> <ip>"),
+  cmd("default-router <ip>"),
+  cmd("dns-server <ip>"),
+  cmd("domain-name <word>"),
+  cmd("lease <rest>"),
+];
+
+const VLAN_CONFIG: Syntax[] = [...CONFIG_COMMON, cmd("name <word>")];
+
+const GRAMMAR: Record<IosMode, Syntax[]> = {
+  user: USER_EXEC,
+  privileged: PRIVILEGED_EXEC,
+  config: GLOBAL_CONFIG,
+  "config-if": INTERFACE_CONFIG,
+  "config-if-range": INTERFACE_CONFIG,
+  "config-router": ROUTER_CONFIG,
+  "config-line": LINE_CONFIG,
+  "config-dhcp": DHCP_CONFIG,
+  "config-vlan": VLAN_CONFIG,
+};
+
+const MODE_NAMES: Record<IosMode, string> = {
+  user: "user EXEC",
+  privileged: "privileged EXEC",
+  config: "global configuration",
+  "config-if": "interface configuration",
+  "config-if-range": "interface configuration",
+  "config-router": "router configuration",
+  "config-line": "line configuration",
+  "config-dhcp": "DHCP pool configuration",
+  "config-vlan": "VLAN configuration",
+};
+
+/** ---------------------------
+ *  Arguments
+ *  --------------------------- */
+const IFACE_TYPES = [
+  "GigabitEthernet",
+  "FastEthernet",
+  "TenGigabitEthernet",
+  "Ethernet",
+  "Serial",
+  "Loopback",
+  "Vlan",
+  "Port-channel",
+  "Tunnel",
+];
+
+const MAX_RANGE_MEMBERS = 48;
+
+function ifaceType(prefix: string): string | null {
+  const p = prefix.toLowerCase();
+  const hits = IFACE_TYPES.filter((t) => t.toLowerCase().startsWith(p));
+  return hits.length === 1 ? hits[0] : null;
+}
+
+/** "g0/1", "Gi 0/1", "vlan 10" → "GigabitEthernet0/1" / "Vlan10"; null if it isn't an interface. */
+export function canonicalInterface(text: string): string | null {
+  const m = text.trim().match(/^([a-z][a-z-]*)\s*(\d+(?:\/\d+)*(?:\.\d+)?)$/i);
+  const type = m && ifaceType(m[1]);
+  return type ? `${type}${m![2]}` : null;
+}
+
+/** "g0/1-2, g0/5" → display form and member interfaces. */
+function parseRange(text: string): { canon: string; members: string[] } | null {
+  const parts = text.replace(/\s+/g, "").split(",").filter(Boolean);
+  if (!parts.length) return null;
+
+  const canon: string[] = [];
+  const members: string[] = [];
+  for (const part of parts) {
+    const m = part.match(/^([a-z][a-z-]*)((?:\d+\/)*)(\d+)(?:-(\d+))?$/i);
+    const type = m && ifaceType(m[1]);
+    if (!m || !type) return null;
+
+    const from = Number(m[3]);
+    const to = m[4] ? Number(m[4]) : from;
+    if (to < from || members.length + (to - from + 1) > MAX_RANGE_MEMBERS) return null;
+
+    canon.push(`${type}${m[2]}${from}${m[4] ? ` - ${to}` : ""}`);
+    for (let i = from; i <= to; i++) members.push(`${type}${m[2]}${i}`);
+  }
+  return { canon: canon.join(", "), members };
+}
+
+const isIp = (t: string) => /^\d{1,3}(\.\d{1,3}){3}$/.test(t) && t.split(".").every((o) => Number(o) <= 255);
+
+type ArgMatch = { canon: string; consumed: number; members?: string[] };
+
+function matchArg(arg: ArgKind, tokens: string[], j: number): ArgMatch | null {
+  const t = tokens[j];
+  switch (arg) {
+    case "n":
+      return /^\d+$/.test(t) ? { canon: String(Number(t)), consumed: 1 } : null;
+    case "ip":
+      return isIp(t) ? { canon: t, consumed: 1 } : null;
+    case "word":
+      return { canon: t, consumed: 1 };
+    case "vlans":
+      return /^\d+(-\d+)?(,\d+(-\d+)?)*$/.test(t) ? { canon: t, consumed: 1 } : null;
+    case "iface": {
+      const one = canonicalInterface(t);
+      if (one) return { canon: one, consumed: 1 };
+      const two = j + 1 < tokens.length ? canonicalInterface(`${t}${tokens[j + 1]}`) : null;
+      return two ? { canon: two, consumed: 2 } : null;
+    }
+    case "rest":
+      return { canon: tokens.slice(j).join(" "), consumed: tokens.length - j };
+    case "range": {
+      const r = parseRange(tokens.slice(j).join(" "));
+      return r ? { canon: r.canon, consumed: tokens.length - j, members: r.members } : null;
+    }
+  }
+}
+
+/** ---------------------------
+ *  Matching
+ *  --------------------------- */
+type MatchState = { syntax: Syntax; pos: number; canon: string[]; pending: number; members?: string[] };
+
+type MatchError = { kind: "invalid" | "ambiguous" | "incomplete"; at: number };
+
+type MatchResult = { complete: MatchState[]; live: MatchState[]; error?: MatchError };
+
+const nextItem = (s: MatchState) => (s.pending === 0 && s.pos < s.syntax.items.length ? s.syntax.items[s.pos] : undefined);
+
+/**
+ * Walks the tokens through every syntax of the mode at once, so abbreviations are resolved the
+ * way IOS does it: a prefix must pick exactly one keyword among all commands still possible.
+ */
+function matchTokens(syntaxes: Syntax[], tokens: string[]): MatchResult {
+  let states: MatchState[] = syntaxes.map((syntax) => ({ syntax, pos: 0, canon: [], pending: 0 }));
+
+  for (let j = 0; j < tokens.length; j++) {
+    const lower = tokens[j].toLowerCase();
+    const keywords = new Set<string>();
+    for (const s of states) {
+      const item = nextItem(s);
+      if (item?.kind === "kw") item.words.filter((w) => w.startsWith(lower)).forEach((w) => keywords.add(w));
+    }
+    if (keywords.size > 1 && !keywords.has(lower)) return { complete: [], live: [], error: { kind: "ambiguous", at: j } };
+    const chosen = keywords.has(lower) ? lower : [...keywords][0];
+
+    const next: MatchState[] = [];
+    for (const s of states) {
+      if (s.pending > 0) {
+        next.push({ ...s, pending: s.pending - 1 });
+        continue;
+      }
+      const item = nextItem(s);
+      if (!item) continue;
+
+      if (item.kind === "kw") {
+        if (chosen && item.words.includes(chosen)) next.push({ ...s, pos: s.pos + 1, canon: [...s.canon, chosen] });
+        continue;
+      }
+      const m = matchArg(item.arg, tokens, j);
+      if (m) next.push({ ...s, pos: s.pos + 1, canon: [...s.canon, m.canon], pending: m.consumed - 1, members: m.members ?? s.members });
+    }
+
+    if (!next.length) return { complete: [], live: [], error: { kind: "invalid", at: j } };
+    states = next;
+  }
+
+  const complete = states.filter((s) => s.pending === 0 && s.pos === s.syntax.items.length);
+  const live = states.filter((s) => s.pending === 0 && s.pos < s.syntax.items.length);
+  return {
+    complete,
+    live,
+    error: complete.length ? undefined : { kind: "incomplete", at: tokens.length },
+  };
+}
+
+/** Negated commands may stop early ("no ip address", "no switchport port-security maximum"). */
+function pickMatch(r: MatchResult, negate: boolean): MatchState | null {
+  if (r.complete.length) return r.complete[0];
+  if (negate && r.error?.kind === "incomplete" && r.live.length) return r.live[0];
+  return null;
+}
+
+/** Splits a config/command mode prefix ("do", "no") off a line. */
+function splitPrefix(mode: IosMode, tokens: string[]): { grammar: IosMode; negate: boolean; body: string[]; skipped: number } {
+  const first = tokens[0]?.toLowerCase();
+  if (isConfigMode(mode) && first === "do") return { grammar: "privileged", negate: false, body: tokens.slice(1), skipped: 1 };
+  if (isConfigMode(mode) && first === "no") return { grammar: mode, negate: true, body: tokens.slice(1), skipped: 1 };
+  return { grammar: mode, negate: false, body: tokens, skipped: 0 };
+}
+
+/** ---------------------------
+ *  Running config
+ *  --------------------------- */
+function cloneSession(s: IosSession): IosSession {
+  return {
+    ...s,
+    targets: [...s.targets],
+    entries: [...s.entries],
+    verify: [...s.verify],
+    running: s.running.map((sec) => ({ header: sec.header, lines: [...sec.lines] })),
+  };
+}
+
+function section(s: IosSession, header: string): ConfigSection {
+  let sec = s.running.find((x) => x.header === header);
+  if (!sec) {
+    sec = { header, lines: [] };
+    s.running.push(sec);
+  }
+  return sec;
+}
+
+function applyLine(s: IosSession, header: string, line: string, negate: boolean) {
+  const sec = section(s, header);
+  // "no …" just removes the line ("no shutdown" is the default, so IOS doesn't show it either)
+  if (negate) {
+    sec.lines = sec.lines.filter((l) => l !== line && !l.startsWith(`${line} `));
+    return;
+  }
+  if (!sec.lines.includes(line)) sec.lines.push(line);
+}
+
+function renderConfig(hostname: string, sections: ConfigSection[]): string[] {
+  const out = ["Building configuration...", "", "Current configuration:", "!", `hostname ${hostname}`, "!"];
+  const global = sections.find((sec) => sec.header === "");
+  if (global?.lines.length) out.push(...global.lines, "!");
+  for (const sec of sections) {
+    if (!sec.header) continue;
+    out.push(sec.header, ...sec.lines.map((l) => ` ${l}`), "!");
+  }
+  out.push("end");
+  return out;
+}
+
+/** ---------------------------
+ *  show canonical form
+ *  --------------------------- */
+const SHOW_WORDS = (
+  "running-config startup-config ip ipv6 interfaces brief route ospf neighbor detail database protocols cef summary " +
+  "nat translations statistics dhcp binding pool snooping arp inspection ssh http server status igmp vlan spanning-tree " +
+  "inconsistentports etherchannel load-balance mac address-table aging-time count ntp associations standby timers logging " +
+  "snmp version users flash access-lists port-security errdisable recovery err-disabled counters errors trunk switchport " +
+  "dtp cdp neighbors lldp power inline policy-map ap connected local static line vty clock history"
+).split(" ");
+
+/** "sh ip int br" → "show ip interfaces brief" (also used for ping / traceroute). */
+function canonicalExec(verb: string, args: string): string {
+  const words = args.split(/\s+/).filter(Boolean).map((t) => {
+    const iface = canonicalInterface(t);
+    if (iface) return iface;
+    const lower = t.toLowerCase();
+    if (verb !== "show" || SHOW_WORDS.includes(lower)) return lower;
+    const hits = SHOW_WORDS.filter((w) => w.startsWith(lower));
+    return hits.length === 1 ? hits[0] : lower;
+  });
+  return [verb, ...words].join(" ");
+}
+
+/** ---------------------------
+ *  Running commands
+ *  --------------------------- */
+type StepResult = { session: IosSession; output: CliOutputLine[]; ok: boolean };
+
+const out = (text: string, kind: CliOutputKind = "output"): CliOutputLine => ({ text, kind });
+
+function errorLines(err: MatchError, line: string, prompt: string, offsets: number[]): CliOutputLine[] {
+  if (err.kind === "ambiguous") return [out(`% Ambiguous command:  "${line.trim()}"`, "error")];
+  if (err.kind === "incomplete") return [out("% Incomplete command.", "error")];
+  const col = prompt.length + (offsets[err.at] ?? line.length);
+  return [out(`${" ".repeat(col)}^`, "error"), out("% Invalid input detected at '^' marker.", "error")];
+}
+
+function parsesIn(mode: IosMode, tokens: string[]): boolean {
+  const negate = isConfigMode(mode) && tokens[0]?.toLowerCase() === "no";
+  const body = negate ? tokens.slice(1) : tokens;
+  return body.length > 0 && !!pickMatch(matchTokens(GRAMMAR[mode], body), negate);
+}
+
+const SUB_MODE_ENTRY: [IosMode, string][] = [
+  ["config-if", '"interface g0/1" (or the interface you need)'],
+  ["config-router", '"router ospf <id>"'],
+  ["config-line", '"line vty 0 4"'],
+  ["config-dhcp", '"ip dhcp pool <name>"'],
+  ["config-vlan", '"vlan <id>"'],
+];
+
+/** Where a rejected line would have worked, and how to get there (shown as a hint, not as IOS output). */
+function hintFor(mode: IosMode, tokens: string[], line: string): string | null {
+  if (!isConfigMode(mode)) {
+    if (mode === "user" && parsesIn("privileged", tokens)) return `That's a privileged EXEC command: type "enable" first.`;
+    const start = mode === "user" ? `type "enable", then "configure terminal"` : `enter "configure terminal"`;
+    if (parsesIn("config", tokens)) return `That's a global configuration command: ${start} first.`;
+    const sub = SUB_MODE_ENTRY.find(([m]) => parsesIn(m, tokens));
+    return sub ? `Use this in ${MODE_NAMES[sub[0]]} mode: ${start}, then ${sub[1]}.` : null;
+  }
+
+  if (parsesIn("privileged", tokens)) return `That's an EXEC command: use "do ${line.trim()}" here, or "end" first.`;
+  const sub = SUB_MODE_ENTRY.find(([m]) => GRAMMAR[m] !== GRAMMAR[mode] && parsesIn(m, tokens));
+  return sub ? `Use this in ${MODE_NAMES[sub[0]]} mode: enter ${sub[1]} first.` : null;
+}
+
+function step(session: IosSession, line: string): StepResult {
+  const prompt = promptFor(session);
+  const output: CliOutputLine[] = [out(`${prompt}${line}`, "echo")];
+  const tokenMatches = [...line.matchAll(/\S+/g)];
+  const tokens = tokenMatches.map((m) => m[0]);
+  const offsets = tokenMatches.map((m) => m.index ?? 0);
+
+  if (!tokens.length || tokens[0].startsWith("!")) return { session, output, ok: true };
+
+  const { grammar, negate, body, skipped } = splitPrefix(session.mode, tokens);
+  const bodyOffsets = offsets.slice(skipped);
+  if (!body.length) {
+    output.push(out("% Incomplete command.", "error"));
+    return { session, output, ok: false };
+  }
+
+  const first = matchTokens(GRAMMAR[grammar], body);
+  let picked = pickMatch(first, negate);
+  let mode = grammar === "privileged" && isConfigMode(session.mode) ? session.mode : grammar;
+
+  // Like IOS, a sub-mode accepts global config commands (and drops back to global config)
+  if (!picked && SUB_MODES.includes(grammar)) {
+    picked = pickMatch(matchTokens(GLOBAL_CONFIG, body), negate);
+    if (picked) mode = "config";
+  }
+
+  if (!picked) {
+    if (first.error?.at === 0 && first.error.kind === "invalid" && !isConfigMode(grammar) && body.length === 1) {
+      output.push(out(`Translating "${body[0]}"...domain server (255.255.255.255)`), out("% Unknown command or computer name, or unable to find computer address", "error"));
+    } else {
+      output.push(...errorLines(first.error ?? { kind: "invalid", at: 0 }, line, prompt, bodyOffsets));
+    }
+    const hint = hintFor(session.mode, tokens, line);
+    if (hint) output.push(out(hint, "hint"));
+    return { session, output, ok: false };
+  }
+
+  const s = cloneSession(session);
+  if (mode !== s.mode) {
+    s.mode = mode;
+    if (!SUB_MODES.includes(mode)) s.targets = [];
+  }
+  const canon = `${negate ? "no " : ""}${picked.canon.join(" ")}`;
+  const action = picked.syntax.action;
+
+  switch (action) {
+    case "enable":
+      s.mode = "privileged";
+      break;
+    case "disable":
+      s.mode = "user";
+      break;
+    case "configure":
+      s.mode = "config";
+      output.push(out("Enter configuration commands, one per line.  End with CNTL/Z."));
+      break;
+    case "exit":
+      if (SUB_MODES.includes(s.mode)) s.mode = "config";
+      else if (s.mode === "config") s.mode = "privileged";
+      else {
+        s.mode = "user";
+        output.push(out("Session closed. Press RETURN to get started."), out("(Simulated: you're back in user EXEC mode.)", "hint"));
+      }
+      s.targets = [];
+      break;
+    case "end":
+      s.mode = "privileged";
+      s.targets = [];
+      break;
+    case "show":
+    case "ping": {
+      const verb = picked.canon[0];
+      const full = canonicalExec(verb, picked.canon.slice(1).join(" "));
+      s.verify.push(full);
+      if (full === "show running-config") output.push(...renderConfig(s.hostname, s.running).map((t) => out(t)));
+      else if (full === "show startup-config") {
+        output.push(...(s.startup ? renderConfig(s.hostname, s.startup).map((t) => out(t)) : [out("startup-config is not present")]));
+      } else if (verb === "show") output.push(out(`(The simulator doesn't model the output of "${body.join(" ")}".)`, "hint"));
+      else output.push(out("Type escape sequence to abort."), out("(Simulated: no packets are sent.)", "hint"));
+      break;
+    }
+    case "copy":
+    case "write":
+    case "reload":
+    case "exec":
+      s.entries.push({ context: "exec", command: canon });
+      if (action === "reload") {
+        output.push(out("Proceed with reload? [confirm]"), out("(Simulated: the device doesn't restart.)", "hint"));
+      } else if (action === "write" || canon === "copy running-config startup-config") {
+        s.startup = s.running.map((sec) => ({ header: sec.header, lines: [...sec.lines] }));
+        output.push(out("Building configuration..."), out("[OK]"));
+      } else if (action === "copy") {
+        output.push(out("[OK]"), out("(Simulated: no file is transferred.)", "hint"));
+      }
+      break;
+    case "hostname":
+      s.hostname = picked.canon[1];
+      s.entries.push({ context: "", command: canon });
+      break;
+    default:
+      if (picked.syntax.enters && !negate) {
+        const headers = picked.members ? picked.members.map((m) => `interface ${m}`) : [canon];
+        headers.forEach((h) => {
+          section(s, h);
+          s.entries.push({ context: "", command: h });
+        });
+        s.mode = picked.syntax.enters;
+        s.targets = headers;
+      } else if (picked.syntax.enters) {
+        s.running = s.running.filter((sec) => sec.header !== canon.slice(3));
+        s.entries.push({ context: "", command: canon });
+      } else if (SUB_MODES.includes(s.mode)) {
+        for (const target of s.targets) {
+          applyLine(s, target, picked.canon.join(" "), negate);
+          s.entries.push({ context: target, command: canon });
+        }
+      } else {
+        applyLine(s, "", picked.canon.join(" "), negate);
+        s.entries.push({ context: "", command: canon });
+      }
+      if (picked.canon.join(" ") === "crypto key generate rsa" && !negate) {
+        output.push(out("How many bits in the modulus [512]: 2048"), out("% Generating 2048 bit RSA keys, keys will be non-exportable...[OK]"));
+      }
+  }
+
+  return { session: s, output, ok: true };
+}
+
+/** Runs one typed line; the output starts with the echoed prompt + line. */
+export function runIosCommand(session: IosSession, line: string): { session: IosSession; output: CliOutputLine[] } {
+  const { session: next, output } = step(session, line);
+  return { session: next, output };
+}
+
+/** ---------------------------
+ *  Help (?) and Tab completion
+ *  --------------------------- */
+function nextOptions(session: IosSession, buffer: string): { options: string[]; partial: string | null } {
+  const tokens = buffer.trim().split(/\s+/).filter(Boolean);
+  const partial = !buffer.trim() || /\s$/.test(buffer) ? null : tokens.pop()!.toLowerCase();
+  const fits = (w: string) => partial === null || w.startsWith(partial);
+
+  const { grammar, negate, body } = splitPrefix(session.mode, tokens);
+  const r = matchTokens(GRAMMAR[grammar], body);
+  if (r.error && r.error.kind !== "incomplete") return { options: [], partial };
+
+  const options = new Set<string>();
+  for (const s of r.live) {
+    const item = nextItem(s);
+    if (item?.kind === "kw") item.words.filter(fits).forEach((w) => options.add(w));
+    else if (item && partial === null) options.add(ARG_LABELS[item.arg]);
+  }
+  if (partial === null && body.length && pickMatch(r, negate)) options.add("<cr>");
+  if (!tokens.length && isConfigMode(session.mode)) ["no", "do"].filter(fits).forEach((w) => options.add(w));
+
+  return { options: [...options].sort(), partial };
+}
+
+/** What "?" prints after the current input. */
+export function iosHelp(session: IosSession, buffer: string): string[] {
+  const { options } = nextOptions(session, buffer);
+  return options.length ? options : ["% Unrecognized command"];
+}
+
+/** Tab: completes the last word when it's a unique keyword prefix; otherwise returns the input unchanged. */
+export function completeIosCommand(session: IosSession, buffer: string): string {
+  const { options, partial } = nextOptions(session, buffer);
+  const words = options.filter((o) => !o.startsWith("<") && o === o.toLowerCase());
+  if (partial === null || words.length !== 1) return buffer;
+  return `${buffer.slice(0, buffer.length - partial.length)}${words[0]} `;
+}
+
+/** ---------------------------
+ *  Cards and grading
+ *  --------------------------- */
+/** cli_config / cli_verify cells separate commands with ";" or new lines. */
+export function splitCliLines(text?: string): string[] {
+  return (text || "")
+    .split(/[;\n]/)
+    .map((l) => l.trim())
+    .filter(Boolean);
+}
+
+/** Switch prompt for switching topics, Router otherwise. */
+export function suggestedHostname(cliConfig?: string): string {
+  return /\b(switchport|spanning-tree|channel-group|errdisable|vlan|snooping|inspection|port-security)\b/i.test(cliConfig || "")
+    ? "Switch"
+    : "Router";
+}
+
+export type ExpectedCli = {
+  entries: CliEntry[];
+  unsupported: string[]; // card lines the simulator can't parse; left out of grading
+  verify: { label: string; command: string }[]; // cli_verify lines as written + canonical form
+};
+
+/** Replays the card's commands (from global config; EXEC commands from privileged EXEC) to get the expected log. */
+export function expectedCli(cliConfig?: string, cliVerify?: string): ExpectedCli {
+  let session: IosSession = { ...createIosSession(), mode: "config" };
+  const unsupported: string[] = [];
+
+  for (const line of splitCliLines(cliConfig)) {
+    const asConfig = step(session, line);
+    if (asConfig.ok) {
+      session = asConfig.session;
+      continue;
+    }
+    const asExec = step({ ...session, mode: "privileged", targets: [] }, line);
+    if (asExec.ok) session = { ...asExec.session, mode: session.mode, targets: session.targets };
+    else unsupported.push(line);
+  }
+
+  const verify = splitCliLines(cliVerify).map((label) => {
+    const [verb, ...rest] = label.split(/\s+/);
+    return { label, command: canonicalExec(verb.toLowerCase() === "ping" ? "ping" : "show", rest.join(" ")) };
+  });
+
+  return { entries: effectiveEntries(session.entries), unsupported, verify };
+}
+
+export type CliCheckItem = CliEntry & { matched: boolean };
+
+export type CliGrade = {
+  score: number; // share of expected commands entered in the right place
+  verdict: GradeVerdict;
+  suggestedGrade: ReviewGrade;
+  expected: CliCheckItem[];
+  extra: CliEntry[]; // entered but not expected (not penalized)
+  verified: { label: string; ran: boolean }[];
+};
+
+const entryKey = (e: CliEntry) => `${e.context}\n${e.command}`;
+
+const covers = (base: string, command: string) => command === base || command.startsWith(`${base} `);
+
+/**
+ * The log as it stands at the end: "no X" drops the earlier X lines of its section (same rule as
+ * applyLine) and, for a section header, everything entered under it; a later X drops "no X".
+ */
+function effectiveEntries(entries: CliEntry[]): CliEntry[] {
+  const kept: CliEntry[] = [];
+  for (const e of entries) {
+    const negated = e.context !== "exec" && e.command.startsWith("no ") ? e.command.slice(3) : null;
+    const cancelled = (k: CliEntry) => {
+      if (k.context === "exec") return false;
+      if (negated !== null) return (k.context === e.context && covers(negated, k.command)) || (e.context === "" && k.context === negated);
+      return k.context === e.context && k.command.startsWith("no ") && covers(k.command.slice(3), e.command);
+    };
+    for (let i = kept.length - 1; i >= 0; i--) if (cancelled(kept[i])) kept.splice(i, 1);
+    kept.push(e);
+  }
+  return kept;
+}
+
+export function gradeCliSession(expected: ExpectedCli, session: IosSession): CliGrade {
+  const entered = effectiveEntries(session.entries);
+  const remaining = new Map<string, number>();
+  for (const e of entered) remaining.set(entryKey(e), (remaining.get(entryKey(e)) ?? 0) + 1);
+
+  const items: CliCheckItem[] = expected.entries.map((e) => {
+    const left = remaining.get(entryKey(e)) ?? 0;
+    if (left > 0) remaining.set(entryKey(e), left - 1);
+    return { ...e, matched: left > 0 };
+  });
+
+  const extra = entered.filter((e) => {
+    const left = remaining.get(entryKey(e)) ?? 0;
+    if (left > 0) remaining.set(entryKey(e), left - 1);
+    return left > 0;
+  });
+
+  const matched = items.filter((i) => i.matched).length;
+  const score = items.length ? matched / items.length : 0;
+  const verdict: GradeVerdict = items.length && matched === items.length ? "correct" : score >= 0.5 ? "partial" : "incorrect";
+  const suggestedGrade: ReviewGrade = verdict === "correct" ? "good" : verdict === "partial" ? "hard" : "again";
+
+  const verified = expected.verify.map((v) => ({ label: v.label, ran: session.verify.includes(v.command) }));
+
+  return { score, verdict, suggestedGrade, expected: items, extra, verified };
+}
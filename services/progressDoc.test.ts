@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { coerceProgress, emptyProgress, MAX_SCHEDULES, mergeProgress, type ProgressDoc } from "./progressDoc";
+import { newSchedule, reviewCard } from "./srs";
+
+const doc = (parts: Partial<ProgressDoc>): ProgressDoc => ({ ...emptyProgress(), ...parts });
+
+describe("mergeProgress", () => {
+  it("keeps the most recent review of each card", () => {
+    const phoneC1 = reviewCard(undefined, "c1", "good", 1000);
+    const laptopC1 = reviewCard(undefined, "c1", "again", 2000);
+    const laptopC2 = reviewCard(undefined, "c2", "easy", 500);
+
+    const merged = mergeProgress(
+      doc({ schedules: { c1: phoneC1 } }),
+      doc({ schedules: { c1: laptopC1, c2: laptopC2 } })
+    );
+    expect(merged.schedules).toEqual({ c1: laptopC1, c2: laptopC2 });
+    expect(mergeProgress(doc({ schedules: { c1: laptopC1 } }), doc({ schedules: { c1: phoneC1 } })).schedules.c1).toBe(laptopC1);
+  });
+
+  it("lets a reviewed card beat one that was never reviewed", () => {
+    const fresh = newSchedule("c1", 5000);
+    const reviewed = reviewCard(undefined, "c1", "good", 10);
+    expect(mergeProgress(doc({ schedules: { c1: fresh } }), doc({ schedules: { c1: reviewed } })).schedules.c1).toBe(reviewed);
+  });
+
+  it("merges prefs key by key, last write wins", () => {
+    const merged = mergeProgress(
+      doc({ prefs: { theme: { value: "dark", updatedAt: 5 }, voice: { value: "en", updatedAt: 1 } } }),
+      doc({ prefs: { theme: { value: "light", updatedAt: 3 }, voice: { value: "fr", updatedAt: 2 }, goal: { value: 20, updatedAt: 1 } } })
+    );
+    expect(merged.prefs).toEqual({
+      theme: { value: "dark", updatedAt: 5 },
+      voice: { value: "fr", updatedAt: 2 },
+      goal: { value: 20, updatedAt: 1 },
+    });
+  });
+
+  it("keeps the later lastDeck and updatedAt", () => {
+    const older = { deckId: "d1", deckName: "OSPF", at: 1 };
+    const newer = { deckId: "d2", deckName: "VLANs", at: 2 };
+    const merged = mergeProgress(doc({ lastDeck: newer, updatedAt: 10 }), doc({ lastDeck: older, updatedAt: 20 }));
+    expect(merged.lastDeck).toBe(newer);
+    expect(merged.updatedAt).toBe(20);
+    expect(mergeProgress(doc({}), doc({ lastDeck: older })).lastDeck).toBe(older);
+  });
+
+  it("is order-independent for distinct timestamps", () => {
+    const a = doc({
+      schedules: { c1: reviewCard(undefined, "c1", "good", 1), c2: reviewCard(undefined, "c2", "hard", 4) },
+      prefs: { x: { value: 1, updatedAt: 1 } },
+      updatedAt: 4,
+    });
+    const b = doc({
+      schedules: { c1: reviewCard(undefined, "c1", "easy", 3) },
+      prefs: { x: { value: 2, updatedAt: 2 } },
+      updatedAt: 3,
+    });
+    expect(mergeProgress(a, b)).toEqual(mergeProgress(b, a));
+  });
+
+  it("doesn't change its inputs", () => {
+    const a = doc({ schedules: { c1: reviewCard(undefined, "c1", "good", 1) } });
+    const b = doc({ schedules: { c1: reviewCard(undefined, "c1", "good", 2) } });
+    const before = JSON.stringify(a);
+    mergeProgress(a, b);
+    expect(JSON.stringify(a)).toBe(before);
+  });
+});
+
+describe("coerceProgress", () => {
+  it("returns an empty doc for non-objects", () => {
+    expect(coerceProgress(null)).toEqual(emptyProgress());
+    expect(coerceProgress("progress")).toEqual(emptyProgress());
+  });
+
+  it("drops malformed or mismatched schedules", () => {
+    const good = reviewCard(undefined, "c1", "good", 1);
+    const out = coerceProgress({
+      schedules: { c1: good, c2: good, c3: { cardId: "c3", ease: "2.5" }, c4: null },
+    });
+    expect(out.schedules).toEqual({ c1: good });
+  });
+
+  it("caps the number of schedules", () => {
+    const schedules = Object.fromEntries(
+      Array.from({ length: MAX_SCHEDULES + 5 }, (_, i) => [`c${i}`, newSchedule(`c${i}`, 0)])
+    );
+    expect(Object.keys(coerceProgress({ schedules }).schedules)).toHaveLength(MAX_SCHEDULES);
+  });
+
+  it("keeps a well-formed lastDeck, prefs and updatedAt", () => {
+    const out = coerceProgress({
+      lastDeck: { deckId: "d1", deckName: "OSPF", at: 7, extra: true },
+      prefs: { theme: { value: "dark", updatedAt: 3 }, bad: { value: 1 }, worse: null },
+      updatedAt: 9,
+    });
+    expect(out.lastDeck).toEqual({ deckId: "d1", deckName: "OSPF", at: 7 });
+    expect(out.prefs).toEqual({ theme: { value: "dark", updatedAt: 3 } });
+    expect(out.updatedAt).toBe(9);
+    expect(coerceProgress({ lastDeck: { deckId: "d1" }, updatedAt: "9" })).toMatchObject({ lastDeck: null, updatedAt: 0 });
+  });
+});
@@ -0,0 +1,76 @@
+// services/progressDoc.ts
+// Per-user progress document shared by the client sync service and /api/progress.
+// Conflict resolution is a field-level merge, so two devices studying offline never lose reviews:
+// - schedules: per card, the most recent review wins
+// - lastDeck / prefs: last write wins (per pref key)
+import type { CardSchedule, ScheduleMap } from "./srs";
+
+export type PrefEntry = { value: unknown; updatedAt: number };
+
+export type ProgressDoc = {
+  schedules: ScheduleMap;
+  lastDeck: { deckId: string; deckName: string; at: number } | null;
+  prefs: Record<string, PrefEntry>;
+  updatedAt: number;
+};
+
+export const MAX_SCHEDULES = 10000;
+
+export function emptyProgress(): ProgressDoc {
+  return { schedules: {}, lastDeck: null, prefs: {}, updatedAt: 0 };
+}
+
+const reviewedAt = (s: CardSchedule | undefined) => s?.lastReviewed ?? 0;
+
+export function mergeProgress(a: ProgressDoc, b: ProgressDoc): ProgressDoc {
+  const schedules: ScheduleMap = { ...a.schedules };
+  for (const [id, s] of Object.entries(b.schedules)) {
+    if (reviewedAt(s) > reviewedAt(schedules[id])) schedules[id] = s;
+  }
+
+  const prefs: Record<string, PrefEntry> = { ...a.prefs };
+  for (const [key, entry] of Object.entries(b.prefs)) {
+    if (!prefs[key] || entry.updatedAt > prefs[key].updatedAt) prefs[key] = entry;
+  }
+
+  const lastDeck = (b.lastDeck?.at ?? 0) > (a.lastDeck?.at ?? 0) ? b.lastDeck : a.lastDeck;
+
+  return { schedules, lastDeck, prefs, updatedAt: Math.max(a.updatedAt, b.updatedAt) };
+}
+
+function isSchedule(v: any): v is CardSchedule {
+  return (
+    v &&
+    typeof v === "object" &&
+    typeof v.cardId === "string" &&
+    typeof v.ease === "number" &&
+    typeof v.interval === "number" &&
+    typeof v.due === "number"
+  );
+}
+
+/** Coerces untrusted JSON (request bodies, old local caches) into a ProgressDoc, dropping bad entries. */
+export function coerceProgress(input: any): ProgressDoc {
+  const out = emptyProgress();
+  if (!input || typeof input !== "object") return out;
+
+  if (input.schedules && typeof input.schedules === "object") {
+    for (const [id, s] of Object.entries(input.schedules).slice(0, MAX_SCHEDULES)) {
+      if (isSchedule(s) && s.cardId === id) out.schedules[id] = s;
+    }
+  }
+
+  const ld = input.lastDeck;
+  if (ld && typeof ld.deckId === "string" && typeof ld.deckName === "string" && typeof ld.at === "number") {
+    out.lastDeck = { deckId: ld.deckId, deckName: ld.deckName, at: ld.at };
+  }
+
+  if (input.prefs && typeof input.prefs === "object") {
+    for (const [key, entry] of Object.entries<any>(input.prefs)) {
+      if (entry && typeof entry.updatedAt === "number") out.prefs[key] = { value: entry.value, updatedAt: entry.updatedAt };
+    }
+  }
+
+  out.updatedAt = typeof input.updatedAt === "number" ? input.updatedAt : 0;
+  return out;
+}
@@ -0,0 +1,117 @@
+// services/progressSync.ts
+// Local-first progress storage with background sync to /api/progress.
+// - every change is written to localStorage immediately (per Clerk user)
+// - a pending marker acts as the offline queue; it is cleared only once the server has the change
+// - the server merges (see progressDoc.ts), so pushing the whole doc is safe from any device
+import { takeLegacySchedules } from "./srs";
+import { coerceProgress, emptyProgress, type ProgressDoc } from "./progressDoc";
+
+const storageKey = (userId: string) => `ccna_progress:${userId}`;
+const pendingKey = (userId: string) => `ccna_progress_pending:${userId}`;
+
+// Pre-sync keys, adopted by the first account that signs in on this device
+const LEGACY_LAST_DECK_ID_KEY = "ccna_lastDeckId";
+const LEGACY_LAST_DECK_NAME_KEY = "ccna_lastDeckName";
+const LEGACY_STUDY_MODE_KEY = "ccna_studyMode";
+
+// Legacy values are older than anything the server could hold
+const LEGACY_TIMESTAMP = 1;
+
+export function getPref<T>(doc: ProgressDoc, key: string, fallback: T): T {
+  const entry = doc.prefs[key];
+  return entry ? (entry.value as T) : fallback;
+}
+
+export function setPref(doc: ProgressDoc, key: string, value: unknown, now = Date.now()): ProgressDoc {
+  return { ...doc, prefs: { ...doc.prefs, [key]: { value, updatedAt: now } } };
+}
+
+function adoptLegacyProgress(): ProgressDoc | null {
+  const doc = emptyProgress();
+  doc.schedules = takeLegacySchedules();
+
+  const deckId = localStorage.getItem(LEGACY_LAST_DECK_ID_KEY);
+  const deckName = localStorage.getItem(LEGACY_LAST_DECK_NAME_KEY);
+  if (deckId && deckName) doc.lastDeck = { deckId, deckName, at: LEGACY_TIMESTAMP };
+
+  const studyMode = localStorage.getItem(LEGACY_STUDY_MODE_KEY);
+  if (studyMode) doc.prefs.studyMode = { value: studyMode, updatedAt: LEGACY_TIMESTAMP };
+
+  localStorage.removeItem(LEGACY_LAST_DECK_ID_KEY);
+  localStorage.removeItem(LEGACY_LAST_DECK_NAME_KEY);
+  localStorage.removeItem(LEGACY_STUDY_MODE_KEY);
+
+  const adopted = Object.keys(doc.schedules).length > 0 || doc.lastDeck !== null || studyMode !== null;
+  return adopted ? doc : null;
+}
+
+export function loadLocalProgress(userId: string): ProgressDoc {
+  const saved = localStorage.getItem(storageKey(userId));
+  if (saved) {
+    try {
+      return coerceProgress(JSON.parse(saved));
+    } catch {
+      // corrupted cache: the server copy is restored on the next sync
+    }
+  }
+
+  const legacy = adoptLegacyProgress();
+  if (!legacy) return emptyProgress();
+
+  saveLocalProgress(userId, legacy);
+  markProgressPending(userId);
+  return legacy;
+}
+
+export function saveLocalProgress(userId: string, doc: ProgressDoc) {
+  localStorage.setItem(storageKey(userId), JSON.stringify(doc));
+}
+
+export function markProgressPending(userId: string) {
+  localStorage.setItem(pendingKey(userId), String(Date.now()));
+}
+
+export function hasPendingProgress(userId: string): boolean {
+  return localStorage.getItem(pendingKey(userId)) !== null;
+}
+
+async function requestProgress(token: string, init?: RequestInit): Promise<ProgressDoc> {
+  const res = await fetch("/api/progress", {
+    ...init,
+    headers: { ...(init?.headers || {}), Authorization: `Bearer ${token}` },
+  });
+
+  const data = await res.json().catch(() => null);
+
+  if (!res.ok) {
+    throw new Error(data?.error || `Progress sync failed (${res.status})`);
+  }
+
+  return coerceProgress(data?.data);
+}
+
+/**
+ * Pushes pending local changes (or just pulls when there are none) and returns the server's merged doc.
+ * Returns null when offline or signed out; the pending marker stays put so the next attempt retries.
+ */
+export async function syncProgress(userId: string, token: string | null, local: ProgressDoc): Promise<ProgressDoc | null> {
+  if (!token || (typeof navigator !== "undefined" && navigator.onLine === false)) return null;
+
+  const pendingAtStart = localStorage.getItem(pendingKey(userId));
+
+  const remote =
+    pendingAtStart !== null
+      ? await requestProgress(token, {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ data: local }),
+        })
+      : await requestProgress(token);
+
+  // Only clear the marker if nothing new was queued while the request was in flight
+  if (localStorage.getItem(pendingKey(userId)) === pendingAtStart) {
+    localStorage.removeItem(pendingKey(userId));
+  }
+
+  return remote;
+}
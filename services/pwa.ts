@@ -0,0 +1,15 @@
+// services/pwa.ts
+// Registers public/sw.js in production builds. The build id and card bank hash (vite.config.ts)
+// go in the script URL, so a new deploy installs a new worker that drops the stale caches.
+export function registerServiceWorker() {
+  const build = process.env.APP_BUILD_ID;
+  const cards = process.env.CARD_BANK_VERSION;
+  // no ids on the dev server: a worker there would serve stale modules and CSVs
+  if (!build || !cards || typeof navigator === "undefined" || !("serviceWorker" in navigator)) return;
+
+  window.addEventListener("load", () => {
+    navigator.serviceWorker
+      .register(`/sw.js?build=${encodeURIComponent(build)}&cards=${encodeURIComponent(cards)}`)
+      .catch((e) => console.warn("Service worker registration failed:", e));
+  });
+}
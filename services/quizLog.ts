@@ -0,0 +1,37 @@
+// services/quizLog.ts
+// Results of AI practice quizzes ("Quiz me"), kept in localStorage per user (newest last).
+export type QuizResult = {
+  at: number;
+  cardId?: string; // quiz on one card …
+  objective?: string; // … or on an exam objective
+  total: number;
+  correct: number;
+};
+
+export const MAX_QUIZ_RESULTS = 2000;
+
+const storageKey = (userId: string) => `ccna_quizzes:${userId}`;
+
+export function appendQuizResult(results: QuizResult[], result: QuizResult): QuizResult[] {
+  const next = [...results, result];
+  return next.length > MAX_QUIZ_RESULTS ? next.slice(next.length - MAX_QUIZ_RESULTS) : next;
+}
+
+export function loadQuizResults(userId: string): QuizResult[] {
+  const saved = localStorage.getItem(storageKey(userId));
+  if (!saved) return [];
+
+  try {
+    const parsed = JSON.parse(saved);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(
+      (r) => r && typeof r.at === "number" && typeof r.total === "number" && typeof r.correct === "number"
+    );
+  } catch {
+    return [];
+  }
+}
+
+export function saveQuizResults(userId: string, results: QuizResult[]) {
+  localStorage.setItem(storageKey(userId), JSON.stringify(results));
+}
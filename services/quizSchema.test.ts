@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { MAX_QUIZ_ITEMS, MAX_QUIZ_TEXT, validateQuizItems } from "./quizSchema";
+
+const MCQ = {
+  type: "mcq",
+  cardId: "D2-001",
+  stem: "Which command shows the VLAN table?",
+  options: ["show vlan brief", "show interfaces trunk", "show ip route"],
+  correctIndex: 0,
+  rationale: "It lists each VLAN and its access ports.",
+};
+
+const DRAG = {
+  type: "dragdrop",
+  stem: "Order the DHCP messages.",
+  options: ["Discover", "Offer", "Request", "Acknowledge"],
+  rationale: "DORA.",
+};
+
+describe("validateQuizItems", () => {
+  it("accepts { items } and a bare array", () => {
+    expect(validateQuizItems({ items: [MCQ, DRAG] })).toHaveLength(2);
+    expect(validateQuizItems([MCQ])).toEqual([MCQ]);
+    expect(validateQuizItems(null)).toEqual([]);
+  });
+
+  it("drops invalid items instead of repairing them", () => {
+    const items = validateQuizItems([
+      { ...MCQ, correctIndex: 3 },
+      { ...MCQ, correctIndex: 1.5 },
+      { ...MCQ, options: ["only one"] },
+      { ...MCQ, options: ["same", "Same"] },
+      { ...DRAG, options: ["a", "b"] },
+      { ...MCQ, stem: "  " },
+      { ...MCQ, type: "essay" },
+    ]);
+    expect(items).toEqual([]);
+  });
+
+  it("keeps cardId only for the cards the quiz was grounded in", () => {
+    expect(validateQuizItems([MCQ], new Set(["D2-001"]))[0].cardId).toBe("D2-001");
+    expect(validateQuizItems([MCQ], new Set(["D3-004"]))[0].cardId).toBeUndefined();
+    expect(validateQuizItems([{ ...MCQ, cardId: 7 }])[0].cardId).toBeUndefined();
+  });
+
+  it("trims and caps text and the item count", () => {
+    const [item] = validateQuizItems([{ ...MCQ, stem: `  ${"x".repeat(MAX_QUIZ_TEXT + 10)}  ` }]);
+    expect(item.stem).toBe(`${"x".repeat(MAX_QUIZ_TEXT)}…`);
+    expect(validateQuizItems(Array(MAX_QUIZ_ITEMS + 3).fill(DRAG))).toHaveLength(MAX_QUIZ_ITEMS);
+  });
+});
@@ -0,0 +1,70 @@
+// services/quizSchema.ts
+// The schema for "Quiz me" practice items, shared by /api/gemini and the UI.
+//
+//   validateQuizItems(value, cardIds?)  model output or API response → the items that pass
+//
+// Invalid items are dropped rather than repaired: mcq needs 2–6 distinct options and an in-range
+// integer correctIndex, dragdrop 3–6 distinct options. Text is trimmed and capped at MAX_QUIZ_TEXT.
+
+export type QuizMcqItem = {
+  type: "mcq";
+  cardId?: string;
+  stem: string;
+  options: string[];
+  correctIndex: number;
+  rationale: string;
+};
+
+// options are stored in the correct order; the UI shuffles them
+export type QuizDragDropItem = {
+  type: "dragdrop";
+  cardId?: string;
+  stem: string;
+  options: string[];
+  rationale: string;
+};
+
+export type QuizItem = QuizMcqItem | QuizDragDropItem;
+
+export const MAX_QUIZ_ITEMS = 6;
+export const MAX_QUIZ_TEXT = 500;
+
+function quizText(v: unknown) {
+  const t = typeof v === "string" ? v.trim() : "";
+  return t.length > MAX_QUIZ_TEXT ? `${t.slice(0, MAX_QUIZ_TEXT)}…` : t;
+}
+
+/**
+ * Accepts `{ items: [...] }` or a bare array and returns at most MAX_QUIZ_ITEMS valid items.
+ * With `cardIds`, cardId is kept only when it names one of the cards the quiz was grounded in.
+ */
+export function validateQuizItems(value: unknown, cardIds?: ReadonlySet<string>): QuizItem[] {
+  const obj = value as any;
+  const raw = Array.isArray(obj?.items) ? obj.items : Array.isArray(obj) ? obj : [];
+  const items: QuizItem[] = [];
+
+  for (const it of raw) {
+    const stem = quizText(it?.stem);
+    const options: string[] = Array.isArray(it?.options) ? it.options.map(quizText).filter(Boolean) : [];
+    const distinct = new Set(options.map((o) => o.toLowerCase())).size === options.length;
+    if (!stem || !distinct) continue;
+
+    const knownCard = typeof it?.cardId === "string" && (!cardIds || cardIds.has(it.cardId));
+    const cardId = knownCard ? (it.cardId as string) : undefined;
+    const rationale = quizText(it?.rationale);
+
+    if (it?.type === "mcq") {
+      const correctIndex = Number(it.correctIndex);
+      if (options.length < 2 || options.length > 6) continue;
+      if (!Number.isInteger(correctIndex) || correctIndex < 0 || correctIndex >= options.length) continue;
+      items.push({ type: "mcq", cardId, stem, options, correctIndex, rationale });
+    } else if (it?.type === "dragdrop") {
+      if (options.length < 3 || options.length > 6) continue;
+      items.push({ type: "dragdrop", cardId, stem, options, rationale });
+    }
+
+    if (items.length >= MAX_QUIZ_ITEMS) break;
+  }
+
+  return items;
+}
@@ -0,0 +1,132 @@
+// services/readiness.ts
+// Exam readiness: estimates per-card recall from the SRS schedule, rolls it up per domain,
+// and weights the domains like the 200-301 blueprint to project an exam score.
+import { CCNA_DOMAINS, Card } from "../types";
+import { compareObjectiveCodes, domainIdForObjective } from "./blueprint";
+import { PASS_MARK } from "./exam";
+import type { CardSchedule, ScheduleMap } from "./srs";
+
+export type DomainReadiness = {
+  domainId: number;
+  weight: number; // % of the exam
+  readiness: number; // 0..1 expected recall across the domain's cards
+  coverage: number; // 0..1 share of the domain's cards reviewed at least once
+  total: number;
+};
+
+export type FocusItem = {
+  code: string;
+  title: string;
+  domainId: number;
+  readiness: number;
+  cardCount: number;
+  gain: number; // projected exam points (0..1 scale) if this objective were fully learned
+};
+
+export type ReadinessConfidence = "low" | "medium" | "high";
+
+export type ReadinessReport = {
+  domains: DomainReadiness[];
+  readiness: number; // weighted by domain weight
+  projectedPercent: number; // expected share of exam questions answered correctly
+  passMark: number;
+  verdict: "ready" | "close" | "not_yet";
+  confidence: ReadinessConfidence;
+  focus: FocusItem[];
+};
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// SM-2 intervals aim for ~90% recall on the due date; recall decays from there
+const RETENTION_AT_DUE = 0.9;
+const HARD_PENALTY = 0.85;
+const AFTER_LAPSE_RECALL = 0.2;
+
+// Four-option multiple choice: unknown questions are still guessed right a quarter of the time
+const GUESS_RATE = 0.25;
+
+// "close" = within this many percentage points of the pass mark
+const CLOSE_MARGIN = 0.1;
+
+const FOCUS_LIMIT = 5;
+
+export function cardRecall(s: CardSchedule | undefined, now = Date.now()): number {
+  if (!s || s.lastReviewed === null || s.reps === 0) return 0;
+  if (s.lastGrade === "again") return AFTER_LAPSE_RECALL;
+
+  const daysSince = Math.max(0, (now - s.lastReviewed) / DAY_MS);
+  const recall = Math.pow(RETENTION_AT_DUE, daysSince / Math.max(1, s.interval));
+  return s.lastGrade === "hard" ? recall * HARD_PENALTY : recall;
+}
+
+const cardDomainId = (c: Card) => Number(c.domain_int) || domainIdForObjective(c.objective || "");
+
+function confidenceFor(coverage: number): ReadinessConfidence {
+  if (coverage < 0.3) return "low";
+  if (coverage < 0.7) return "medium";
+  return "high";
+}
+
+export function buildReadiness(cards: Card[], schedules: ScheduleMap, now = Date.now()): ReadinessReport {
+  const recallById = new Map(cards.map((c) => [c.card_id, cardRecall(schedules[c.card_id], now)]));
+
+  const domains: DomainReadiness[] = CCNA_DOMAINS.map((d) => {
+    const domainCards = cards.filter((c) => cardDomainId(c) === d.id);
+    const total = domainCards.length;
+    const recallSum = domainCards.reduce((sum, c) => sum + (recallById.get(c.card_id) ?? 0), 0);
+    const reviewed = domainCards.filter((c) => Boolean(schedules[c.card_id]?.lastReviewed)).length;
+    return {
+      domainId: d.id,
+      weight: d.weight,
+      readiness: total > 0 ? recallSum / total : 0,
+      coverage: total > 0 ? reviewed / total : 0,
+      total,
+    };
+  });
+
+  const totalWeight = domains.reduce((sum, d) => sum + d.weight, 0) || 1;
+  const readiness = domains.reduce((sum, d) => sum + d.weight * d.readiness, 0) / totalWeight;
+  const coverage = domains.reduce((sum, d) => sum + d.weight * d.coverage, 0) / totalWeight;
+  const projectedPercent = readiness + (1 - readiness) * GUESS_RATE;
+
+  // Focus: objectives whose improvement would move the projected score most
+  const objectiveTitles = new Map(CCNA_DOMAINS.flatMap((d) => d.objectives.map((o) => [o.code, o.title] as const)));
+  const byObjective = new Map<string, Card[]>();
+  for (const c of cards) {
+    const code = (c.objective || "").trim();
+    if (!code) continue;
+    byObjective.set(code, [...(byObjective.get(code) ?? []), c]);
+  }
+
+  const focus: FocusItem[] = Array.from(byObjective.entries())
+    .map(([code, objCards]) => {
+      const domainId = domainIdForObjective(code);
+      const domain = domains.find((d) => d.domainId === domainId);
+      const objReadiness = objCards.reduce((sum, c) => sum + (recallById.get(c.card_id) ?? 0), 0) / objCards.length;
+      const share = domain && domain.total > 0 ? objCards.length / domain.total : 0;
+      return {
+        code,
+        title: objectiveTitles.get(code) || `Objective ${code}`,
+        domainId,
+        readiness: objReadiness,
+        cardCount: objCards.length,
+        gain: ((domain?.weight ?? 0) / totalWeight) * share * (1 - objReadiness) * (1 - GUESS_RATE),
+      };
+    })
+    .filter((f) => f.gain > 0)
+    .sort((a, b) => b.gain - a.gain || compareObjectiveCodes(a.code, b.code))
+    .slice(0, FOCUS_LIMIT);
+
+  const verdict =
+    projectedPercent >= PASS_MARK ? "ready" : projectedPercent >= PASS_MARK - CLOSE_MARGIN ? "close" : "not_yet";
+
+  return {
+    domains,
+    readiness,
+    projectedPercent,
+    passMark: PASS_MARK,
+    verdict,
+    confidence: confidenceFor(coverage),
+    focus,
+  };
+}
@@ -0,0 +1,77 @@
+// services/reviewLog.ts
+// Append-only log of review events, kept in localStorage per user (newest last).
+// reviewSync.ts mirrors it to /api/reviews so stats follow the student across devices.
+import type { ReviewGrade } from "./srs";
+
+export type ReviewEvent = {
+  cardId: string;
+  at: number; // when the grade was given
+  grade: ReviewGrade;
+  elapsedMs: number; // card shown → graded
+  mode: "flip" | "type" | "cli";
+};
+
+// ~100 bytes each; keeps the log well inside the localStorage quota
+export const MAX_REVIEW_EVENTS = 20000;
+
+// A card left open over lunch shouldn't skew time-to-answer
+const MAX_ELAPSED_MS = 10 * 60 * 1000;
+
+const storageKey = (userId: string) => `ccna_reviews:${userId}`;
+
+export const isCorrect = (e: ReviewEvent) => e.grade !== "again";
+
+export function createReviewEvent(
+  cardId: string,
+  grade: ReviewGrade,
+  shownAt: number,
+  mode: ReviewEvent["mode"],
+  now = Date.now()
+): ReviewEvent {
+  return { cardId, at: now, grade, elapsedMs: Math.min(Math.max(0, now - shownAt), MAX_ELAPSED_MS), mode };
+}
+
+export function appendReviewEvent(events: ReviewEvent[], event: ReviewEvent): ReviewEvent[] {
+  const next = [...events, event];
+  return next.length > MAX_REVIEW_EVENTS ? next.slice(next.length - MAX_REVIEW_EVENTS) : next;
+}
+
+/** Drops anything that isn't a review event (corrupted cache, untrusted request body). */
+export function coerceReviewEvents(raw: unknown): ReviewEvent[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter(
+    (e) => e && typeof e.cardId === "string" && typeof e.at === "number" && typeof e.grade === "string"
+  );
+}
+
+// A card can't be graded twice in the same millisecond, so this identifies an event across devices
+const eventKey = (e: ReviewEvent) => `${e.cardId}@${e.at}`;
+
+/** Union of two logs without duplicates, oldest first, capped like appendReviewEvent. */
+export function mergeReviewEvents(a: ReviewEvent[], b: ReviewEvent[]): ReviewEvent[] {
+  const byKey = new Map(a.map((e) => [eventKey(e), e]));
+  for (const e of b) if (!byKey.has(eventKey(e))) byKey.set(eventKey(e), e);
+  const merged = Array.from(byKey.values()).sort((x, y) => x.at - y.at);
+  return merged.length > MAX_REVIEW_EVENTS ? merged.slice(merged.length - MAX_REVIEW_EVENTS) : merged;
+}
+
+/** Events in `events` that `known` doesn't have yet. */
+export function missingReviewEvents(events: ReviewEvent[], known: ReviewEvent[]): ReviewEvent[] {
+  const keys = new Set(known.map(eventKey));
+  return events.filter((e) => !keys.has(eventKey(e)));
+}
+
+export function loadReviewEvents(userId: string): ReviewEvent[] {
+  const saved = localStorage.getItem(storageKey(userId));
+  if (!saved) return [];
+
+  try {
+    return coerceReviewEvents(JSON.parse(saved));
+  } catch {
+    return [];
+  }
+}
+
+export function saveReviewEvents(userId: string, events: ReviewEvent[]) {
+  localStorage.setItem(storageKey(userId), JSON.stringify(events));
+}
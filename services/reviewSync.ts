@@ -0,0 +1,98 @@
+// services/reviewSync.ts
+// Background upload of the review log to /api/reviews.
+// - every grade is queued here as well as logged locally (reviewLog.ts); offline, the queue just grows
+// - a flush posts the queue and removes only what the server acknowledged
+// - the server de-duplicates, so re-sending after a dropped response is safe
+import {
+  coerceReviewEvents,
+  MAX_REVIEW_EVENTS,
+  mergeReviewEvents,
+  missingReviewEvents,
+  type ReviewEvent,
+} from "./reviewLog";
+
+const pendingKey = (userId: string) => `ccna_reviews_pending:${userId}`;
+
+// Keeps one request comfortably under the endpoint's body limit
+const FLUSH_BATCH = 2000;
+
+const isOffline = () => typeof navigator !== "undefined" && navigator.onLine === false;
+
+function loadPending(userId: string): ReviewEvent[] {
+  try {
+    return coerceReviewEvents(JSON.parse(localStorage.getItem(pendingKey(userId)) || "[]"));
+  } catch {
+    return [];
+  }
+}
+
+function savePending(userId: string, events: ReviewEvent[]) {
+  if (events.length === 0) localStorage.removeItem(pendingKey(userId));
+  else localStorage.setItem(pendingKey(userId), JSON.stringify(events.slice(-MAX_REVIEW_EVENTS)));
+}
+
+export function queueReviewEvents(userId: string, events: ReviewEvent[]) {
+  if (events.length > 0) savePending(userId, mergeReviewEvents(loadPending(userId), events));
+}
+
+export function hasPendingReviews(userId: string): boolean {
+  return localStorage.getItem(pendingKey(userId)) !== null;
+}
+
+async function requestReviews(token: string, init?: RequestInit) {
+  const res = await fetch("/api/reviews", {
+    ...init,
+    headers: { ...(init?.headers || {}), Authorization: `Bearer ${token}` },
+  });
+
+  const data = await res.json().catch(() => null);
+
+  if (!res.ok) {
+    throw new Error(data?.error || `Review sync failed (${res.status})`);
+  }
+
+  return data;
+}
+
+/** Posts queued events in batches. Returns false when offline or signed out (the queue stays for next time). */
+export async function flushReviewEvents(userId: string, token: string | null): Promise<boolean> {
+  if (!token || isOffline()) return false;
+
+  for (;;) {
+    const batch = loadPending(userId).slice(0, FLUSH_BATCH);
+    if (batch.length === 0) return true;
+
+    await requestReviews(token, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ events: batch }),
+    });
+
+    // grades queued while the request was in flight stay pending
+    savePending(userId, missingReviewEvents(loadPending(userId), batch));
+  }
+}
+
+/**
+ * Full sync: flushes the queue, then pulls the server's log and returns it merged with `local`.
+ * Local events the server has never seen (logged before sync existed, or on a lost queue) are queued
+ * and sent too. Returns null when offline or signed out.
+ */
+export async function syncReviewEvents(
+  userId: string,
+  token: string | null,
+  local: ReviewEvent[]
+): Promise<ReviewEvent[] | null> {
+  if (!(await flushReviewEvents(userId, token))) return null;
+
+  const remote = coerceReviewEvents((await requestReviews(token!))?.data);
+  // a full server log has already dropped its oldest events; don't keep offering them back
+  const floor = remote.length >= MAX_REVIEW_EVENTS ? remote[0].at : -Infinity;
+  const unsent = missingReviewEvents(local, remote).filter((e) => e.at > floor);
+  if (unsent.length > 0) {
+    queueReviewEvents(userId, unsent);
+    await flushReviewEvents(userId, token);
+  }
+
+  return mergeReviewEvents(remote, local);
+}
@@ -0,0 +1,140 @@
+// services/sessionBuilder.ts
+// Custom study sessions: pick cards across domains/decks by tag, difficulty and SRS status,
+// then cap and order them. The result is a StudySession card id list for the study view.
+import { Card, Deck, Difficulty } from "../types";
+import { compareCards, difficultyFromValue, splitTags } from "./cards";
+import { shuffle } from "./exam";
+import { isDueToday, isMastered, type ScheduleMap } from "./srs";
+
+export type SessionStatus = "all" | "unmastered" | "due";
+export type SessionOrder = "shuffled" | "sort_key" | "hardest";
+
+// Empty lists mean "any"
+export type SessionFilter = {
+  domainIds: number[];
+  deckIds: string[];
+  tags: string[];
+  difficulties: Difficulty[];
+  status: SessionStatus;
+  limit: number; // 0 = no limit
+  order: SessionOrder;
+};
+
+export const DEFAULT_SESSION_FILTER: SessionFilter = {
+  domainIds: [],
+  deckIds: [],
+  tags: [],
+  difficulties: [],
+  status: "all",
+  limit: 30,
+  order: "shuffled",
+};
+
+export const SESSION_STATUSES: { status: SessionStatus; label: string }[] = [
+  { status: "all", label: "All cards" },
+  { status: "unmastered", label: "Not mastered" },
+  { status: "due", label: "Due today" },
+];
+
+export const SESSION_ORDERS: { order: SessionOrder; label: string }[] = [
+  { order: "shuffled", label: "Shuffled" },
+  { order: "sort_key", label: "Deck order" },
+  { order: "hardest", label: "Hardest first" },
+];
+
+export const SESSION_LIMITS = [10, 20, 30, 50, 100, 0];
+
+const DIFFICULTY_RANK: Record<Difficulty, number> = { Easy: 1, Medium: 2, Hard: 3 };
+
+/** Fills in anything missing from an older saved filter (prefs are synced across versions). */
+export function normalizeSessionFilter(saved: Partial<SessionFilter> | null | undefined): SessionFilter {
+  const f = { ...DEFAULT_SESSION_FILTER, ...(saved ?? {}) };
+  return {
+    domainIds: Array.isArray(f.domainIds) ? f.domainIds.filter((d) => typeof d === "number") : [],
+    deckIds: Array.isArray(f.deckIds) ? f.deckIds.filter((d) => typeof d === "string") : [],
+    tags: Array.isArray(f.tags) ? f.tags.filter((t) => typeof t === "string") : [],
+    difficulties: Array.isArray(f.difficulties) ? f.difficulties.filter((d) => d in DIFFICULTY_RANK) : [],
+    status: SESSION_STATUSES.some((s) => s.status === f.status) ? f.status : DEFAULT_SESSION_FILTER.status,
+    limit: Number.isFinite(f.limit) && f.limit >= 0 ? Math.floor(f.limit) : DEFAULT_SESSION_FILTER.limit,
+    order: SESSION_ORDERS.some((o) => o.order === f.order) ? f.order : DEFAULT_SESSION_FILTER.order,
+  };
+}
+
+/** Tags across the given cards, most used first. */
+export function collectTags(cards: Card[]): { tag: string; count: number }[] {
+  const counts = new Map<string, number>();
+  for (const c of cards) for (const t of splitTags(c.tags)) counts.set(t, (counts.get(t) ?? 0) + 1);
+  return [...counts.entries()]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+/** Every card matching the filter, before the limit and ordering are applied. */
+export function filterSessionCards(
+  cards: Card[],
+  decks: Deck[],
+  schedules: ScheduleMap,
+  filter: SessionFilter,
+  now = Date.now()
+): Card[] {
+  // cards.csv carries domain_int too, but the deck is authoritative (imported decks can move domains)
+  const domainByDeck = new Map(decks.map((d) => [d.deck_id, Number(d.domain_int)]));
+  const domains = new Set(filter.domainIds);
+  const deckIds = new Set(filter.deckIds);
+  const tags = new Set(filter.tags);
+  const difficulties = new Set(filter.difficulties);
+
+  return cards.filter((c) => {
+    const domainId = domainByDeck.get(c.deck_id) ?? Number(c.domain_int);
+    if (domains.size > 0 && !domains.has(domainId)) return false;
+    if (deckIds.size > 0 && !deckIds.has(c.deck_id)) return false;
+    if (tags.size > 0 && !splitTags(c.tags).some((t) => tags.has(t))) return false;
+    if (difficulties.size > 0 && !difficulties.has(difficultyFromValue(c.difficulty))) return false;
+
+    const s = schedules[c.card_id];
+    if (filter.status === "unmastered" && isMastered(s)) return false;
+    if (filter.status === "due" && !isDueToday(s, now)) return false;
+    return true;
+  });
+}
+
+/**
+ * Hardest first: most lapses, then lowest ease, then the card's own difficulty.
+ * Cards never reviewed sit between struggling and comfortable ones (default ease, no lapses).
+ */
+function compareHardest(schedules: ScheduleMap) {
+  return (a: Card, b: Card) => {
+    const sa = schedules[a.card_id];
+    const sb = schedules[b.card_id];
+    return (
+      (sb?.lapses ?? 0) - (sa?.lapses ?? 0) ||
+      (sa?.ease ?? 2.5) - (sb?.ease ?? 2.5) ||
+      DIFFICULTY_RANK[difficultyFromValue(b.difficulty)] - DIFFICULTY_RANK[difficultyFromValue(a.difficulty)] ||
+      compareCards(a, b)
+    );
+  };
+}
+
+export function orderSessionCards(
+  cards: Card[],
+  schedules: ScheduleMap,
+  order: SessionOrder,
+  rng: () => number = Math.random
+): Card[] {
+  if (order === "shuffled") return shuffle(cards, rng);
+  if (order === "hardest") return [...cards].sort(compareHardest(schedules));
+  return [...cards].sort(compareCards);
+}
+
+export function buildSessionCardIds(
+  cards: Card[],
+  decks: Deck[],
+  schedules: ScheduleMap,
+  filter: SessionFilter,
+  rng: () => number = Math.random,
+  now = Date.now()
+): string[] {
+  const matching = filterSessionCards(cards, decks, schedules, filter, now);
+  const ordered = orderSessionCards(matching, schedules, filter.order, rng);
+  return (filter.limit > 0 ? ordered.slice(0, filter.limit) : ordered).map((c) => c.card_id);
+}
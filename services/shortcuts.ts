@@ -0,0 +1,120 @@
+// services/shortcuts.ts
+// Keyboard shortcuts for the study view. Bindings are KeyboardEvent.key values (letters lower-cased)
+// saved as the "shortcuts" pref, so remapping follows the user across devices.
+import type { ReviewGrade } from "./srs";
+
+export type ShortcutAction =
+  | "flip"
+  | "prev"
+  | "next"
+  | "again"
+  | "hard"
+  | "good"
+  | "easy"
+  | "toggleMastered"
+  | "explain"
+  | "speak"
+  | "closeTutor"
+  | "help";
+
+export type ShortcutMap = Record<ShortcutAction, string>;
+
+export const DEFAULT_SHORTCUTS: ShortcutMap = {
+  flip: " ",
+  prev: "ArrowLeft",
+  next: "ArrowRight",
+  again: "1",
+  hard: "2",
+  good: "3",
+  easy: "4",
+  toggleMastered: "m",
+  explain: "e",
+  speak: "s",
+  closeTutor: "Escape",
+  help: "?",
+};
+
+export const SHORTCUT_ACTIONS: { action: ShortcutAction; label: string }[] = [
+  { action: "flip", label: "Flip card" },
+  { action: "prev", label: "Previous card" },
+  { action: "next", label: "Next card" },
+  { action: "again", label: "Grade: Again" },
+  { action: "hard", label: "Grade: Hard" },
+  { action: "good", label: "Grade: Good" },
+  { action: "easy", label: "Grade: Easy" },
+  { action: "toggleMastered", label: "Mark mastered / unmastered" },
+  { action: "explain", label: "AI explain" },
+  { action: "speak", label: "Read aloud" },
+  { action: "closeTutor", label: "Close the AI tutor / this panel" },
+  { action: "help", label: "Show shortcuts" },
+];
+
+export const GRADE_ACTIONS: Partial<Record<ShortcutAction, ReviewGrade>> = {
+  again: "again",
+  hard: "hard",
+  good: "good",
+  easy: "easy",
+};
+
+// Keys that only make sense as modifiers or would break the browser if captured
+const RESERVED_KEYS = new Set(["Shift", "Control", "Alt", "Meta", "CapsLock", "Tab", "Dead", "Unidentified"]);
+
+const KEY_LABELS: Record<string, string> = {
+  " ": "Space",
+  ArrowLeft: "←",
+  ArrowRight: "→",
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  Escape: "Esc",
+  Enter: "Enter",
+  Backspace: "Backspace",
+};
+
+/** The binding form of a key press: letters are case-insensitive, everything else as reported. */
+export function normalizeKey(key: string): string {
+  return key.length === 1 ? key.toLowerCase() : key;
+}
+
+export const isBindableKey = (key: string) => !!key && !RESERVED_KEYS.has(key);
+
+export function keyLabel(key: string): string {
+  return KEY_LABELS[key] ?? (key.length === 1 ? key.toUpperCase() : key);
+}
+
+/** Defaults for anything missing or malformed in a saved map (new actions, older clients). */
+export function normalizeShortcuts(saved: Partial<ShortcutMap> | null | undefined): ShortcutMap {
+  const out = { ...DEFAULT_SHORTCUTS };
+  for (const { action } of SHORTCUT_ACTIONS) {
+    const key = saved?.[action];
+    if (typeof key === "string" && isBindableKey(key)) out[action] = normalizeKey(key);
+  }
+  return out;
+}
+
+export function actionForKey(map: ShortcutMap, key: string): ShortcutAction | null {
+  const k = normalizeKey(key);
+  return SHORTCUT_ACTIONS.find(({ action }) => map[action] === k)?.action ?? null;
+}
+
+/** Binds `key` to `action`; an action that already had that key takes over the old binding. */
+export function assignShortcut(map: ShortcutMap, action: ShortcutAction, key: string): ShortcutMap {
+  const k = normalizeKey(key);
+  const next = { ...map, [action]: k };
+  const clash = SHORTCUT_ACTIONS.find((a) => a.action !== action && map[a.action] === k);
+  if (clash) next[clash.action] = map[action];
+  return next;
+}
+
+/** Key presses in text fields (typed recall, the CLI, tutor chat) are never shortcuts. */
+export function isTypingTarget(target: EventTarget | null): boolean {
+  const el = target as HTMLElement | null;
+  if (!el || typeof el.tagName !== "string") return false;
+  return el.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(el.tagName);
+}
+
+/** Inside a focused button or link, Space and Enter belong to the control (they activate it), not to shortcuts. */
+export function isControlTarget(target: EventTarget | null): boolean {
+  const el = target as HTMLElement | null;
+  if (!el || typeof el.closest !== "function") return false;
+  return !!el.closest("button, a[href], [role='button'], summary");
+}
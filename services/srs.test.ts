@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatInterval,
+  getDueCardIds,
+  isDueToday,
+  isMastered,
+  migrateMasteredIds,
+  newSchedule,
+  previewIntervals,
+  reviewCard,
+  type CardSchedule,
+  type ReviewGrade,
+} from "./srs";
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const NOW = new Date(2026, 0, 15, 10, 0).getTime(); // local time: isDueToday works in local days
+
+/** Reviews a fresh card with the given grades, one day apart. */
+function reviewAll(grades: ReviewGrade[]): CardSchedule {
+  let s: CardSchedule | undefined;
+  grades.forEach((g, i) => {
+    s = reviewCard(s, "c1", g, NOW + i * DAY_MS);
+  });
+  return s!;
+}
+
+describe("newSchedule", () => {
+  it("starts unlearned and due now", () => {
+    expect(newSchedule("c1", NOW)).toEqual({
+      cardId: "c1",
+      ease: 2.5,
+      interval: 0,
+      reps: 0,
+      lapses: 0,
+      due: NOW,
+      lastReviewed: null,
+      lastGrade: null,
+    });
+  });
+});
+
+describe("reviewCard", () => {
+  it("schedules the first review by grade", () => {
+    expect(reviewCard(undefined, "c1", "hard", NOW)).toMatchObject({ interval: 1, ease: 2.35, reps: 1 });
+    expect(reviewCard(undefined, "c1", "good", NOW)).toMatchObject({ interval: 1, ease: 2.5, reps: 1 });
+    expect(reviewCard(undefined, "c1", "easy", NOW)).toMatchObject({ interval: 4, ease: 2.65, reps: 1 });
+  });
+
+  it("sets due and lastReviewed from now", () => {
+    const s = reviewCard(undefined, "c1", "good", NOW);
+    expect(s.due).toBe(NOW + DAY_MS);
+    expect(s.lastReviewed).toBe(NOW);
+    expect(s.lastGrade).toBe("good");
+  });
+
+  it("jumps to six days on the second good review", () => {
+    expect(reviewAll(["good", "good"]).interval).toBe(6);
+    expect(reviewAll(["good", "easy"]).interval).toBe(8);
+    expect(reviewAll(["good", "hard"]).interval).toBe(2);
+  });
+
+  it("multiplies by ease after that", () => {
+    expect(reviewAll(["good", "good", "good"]).interval).toBe(15);
+    expect(reviewAll(["good", "good", "hard"]).interval).toBe(7);
+    expect(reviewAll(["good", "good", "easy"]).interval).toBe(21);
+  });
+
+  it("always grows the interval", () => {
+    const low: CardSchedule = { ...newSchedule("c1", NOW), ease: 1.3, reps: 3, interval: 2 };
+    expect(reviewCard(low, "c1", "hard", NOW).interval).toBe(3);
+    expect(reviewCard(low, "c1", "good", NOW).interval).toBe(3);
+    expect(reviewCard(low, "c1", "easy", NOW).interval).toBe(4);
+  });
+
+  it("sends a forgotten card back to today and counts a lapse", () => {
+    const s = reviewCard(reviewAll(["good", "good"]), "c1", "again", NOW + 10 * DAY_MS);
+    expect(s).toMatchObject({ interval: 0, reps: 0, lapses: 1, ease: 2.3, due: NOW + 10 * DAY_MS, lastGrade: "again" });
+  });
+
+  it("doesn't count a lapse for a card that was never learned", () => {
+    expect(reviewAll(["again", "again"]).lapses).toBe(0);
+  });
+
+  it("never drops ease below 1.3", () => {
+    expect(reviewAll(["again", "again", "again", "again", "again", "again", "again"]).ease).toBe(1.3);
+    expect(reviewAll(Array(10).fill("hard")).ease).toBe(1.3);
+  });
+
+  it("doesn't change the previous schedule", () => {
+    const prev = reviewAll(["good"]);
+    const copy = { ...prev };
+    reviewCard(prev, "c1", "easy", NOW);
+    expect(prev).toEqual(copy);
+  });
+});
+
+describe("previewIntervals / formatInterval", () => {
+  it("labels each grade's next interval", () => {
+    expect(previewIntervals(undefined, "c1", NOW)).toEqual({ again: "<1d", hard: "1d", good: "1d", easy: "4d" });
+    expect(previewIntervals(reviewAll(["good", "good"]), "c1", NOW)).toEqual({ again: "<1d", hard: "7d", good: "15d", easy: "21d" });
+  });
+
+  it("formats days, months and years", () => {
+    expect(formatInterval(0)).toBe("<1d");
+    expect(formatInterval(29)).toBe("29d");
+    expect(formatInterval(45)).toBe("2mo");
+    expect(formatInterval(400)).toBe("1.1y");
+  });
+});
+
+describe("queries", () => {
+  it("isDueToday covers the rest of the local day", () => {
+    const endOfDay = new Date(2026, 0, 15, 23, 59).getTime();
+    const tomorrow = new Date(2026, 0, 16, 0, 0).getTime();
+    expect(isDueToday({ ...newSchedule("c1"), due: endOfDay }, NOW)).toBe(true);
+    expect(isDueToday({ ...newSchedule("c1"), due: tomorrow }, NOW)).toBe(false);
+    expect(isDueToday(undefined, NOW)).toBe(false);
+  });
+
+  it("isMastered needs a streak ending on good or easy", () => {
+    expect(isMastered(undefined)).toBe(false);
+    expect(isMastered(newSchedule("c1", NOW))).toBe(false);
+    expect(isMastered(reviewAll(["good"]))).toBe(true);
+    expect(isMastered(reviewAll(["easy"]))).toBe(true);
+    expect(isMastered(reviewAll(["good", "hard"]))).toBe(false);
+    expect(isMastered(reviewAll(["good", "again"]))).toBe(false);
+  });
+
+  it("getDueCardIds returns due cards, most overdue first", () => {
+    const at = (cardId: string, due: number): CardSchedule => ({ ...newSchedule(cardId), due });
+    const schedules = {
+      a: at("a", NOW - DAY_MS),
+      b: at("b", NOW + 2 * DAY_MS),
+      c: at("c", NOW - 3 * DAY_MS),
+      d: at("d", NOW),
+    };
+    expect(getDueCardIds(schedules, NOW)).toEqual(["c", "a", "d"]);
+  });
+});
+
+describe("migrateMasteredIds", () => {
+  it("treats each old mastered id as one good review", () => {
+    const out = migrateMasteredIds(["c1", "", 7 as unknown as string, "c2"], NOW);
+    expect(Object.keys(out)).toEqual(["c1", "c2"]);
+    expect(out.c1).toEqual(reviewCard(undefined, "c1", "good", NOW));
+    expect(isMastered(out.c2)).toBe(true);
+  });
+});
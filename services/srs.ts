@@ -0,0 +1,181 @@
+// services/srs.ts
+// SM-2 style spaced-repetition scheduler (per card_id). Persistence lives in services/progressSync.ts.
+
+export type ReviewGrade = "again" | "hard" | "good" | "easy";
+
+export const REVIEW_GRADES: ReviewGrade[] = ["again", "hard", "good", "easy"];
+
+export type CardSchedule = {
+  cardId: string;
+  ease: number; // SM-2 ease factor (min 1.3)
+  interval: number; // days until next review (0 = relearning today)
+  reps: number; // consecutive successful reviews (reset on "again")
+  lapses: number; // times the card was forgotten after being learned
+  due: number; // epoch ms
+  lastReviewed: number | null; // epoch ms
+  lastGrade: ReviewGrade | null;
+};
+
+export type ScheduleMap = Record<string, CardSchedule>;
+
+const STORAGE_KEY = "ccna_srs";
+const LEGACY_MASTERY_KEY = "ccna_mastery";
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+const HARD_FACTOR = 1.2;
+const EASY_BONUS = 1.3;
+
+/** ---------------------------
+ *  Scheduling
+ *  --------------------------- */
+export function newSchedule(cardId: string, now = Date.now()): CardSchedule {
+  return {
+    cardId,
+    ease: DEFAULT_EASE,
+    interval: 0,
+    reps: 0,
+    lapses: 0,
+    due: now,
+    lastReviewed: null,
+    lastGrade: null,
+  };
+}
+
+function nextInterval(s: CardSchedule, grade: Exclude<ReviewGrade, "again">, ease: number): number {
+  if (s.reps === 0) {
+    if (grade === "hard") return 1;
+    if (grade === "good") return 1;
+    return 4;
+  }
+  if (s.reps === 1 && grade !== "hard") {
+    return grade === "easy" ? Math.round(6 * EASY_BONUS) : 6;
+  }
+
+  const base = Math.max(1, s.interval);
+  if (grade === "hard") return Math.max(base + 1, Math.round(base * HARD_FACTOR));
+  if (grade === "good") return Math.max(base + 1, Math.round(base * ease));
+  return Math.max(base + 2, Math.round(base * ease * EASY_BONUS));
+}
+
+/**
+ * Apply one review to a card and return its new schedule.
+ * "again" sends the card back into today's queue and counts a lapse if it had been learned.
+ */
+export function reviewCard(
+  prev: CardSchedule | undefined,
+  cardId: string,
+  grade: ReviewGrade,
+  now = Date.now()
+): CardSchedule {
+  const s = prev ?? newSchedule(cardId, now);
+
+  if (grade === "again") {
+    return {
+      ...s,
+      ease: Math.max(MIN_EASE, s.ease - 0.2),
+      interval: 0,
+      reps: 0,
+      lapses: s.reps > 0 ? s.lapses + 1 : s.lapses,
+      due: now,
+      lastReviewed: now,
+      lastGrade: grade,
+    };
+  }
+
+  const easeDelta = grade === "hard" ? -0.15 : grade === "easy" ? 0.15 : 0;
+  const ease = Math.max(MIN_EASE, s.ease + easeDelta);
+  const interval = nextInterval(s, grade, ease);
+
+  return {
+    ...s,
+    ease,
+    interval,
+    reps: s.reps + 1,
+    due: now + interval * DAY_MS,
+    lastReviewed: now,
+    lastGrade: grade,
+  };
+}
+
+/** Human-readable interval each grade would produce (for button hints). */
+export function previewIntervals(prev: CardSchedule | undefined, cardId: string, now = Date.now()) {
+  const out = {} as Record<ReviewGrade, string>;
+  for (const g of REVIEW_GRADES) {
+    const days = reviewCard(prev, cardId, g, now).interval;
+    out[g] = formatInterval(days);
+  }
+  return out;
+}
+
+export function formatInterval(days: number): string {
+  if (days <= 0) return "<1d";
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${(days / 365).toFixed(1)}y`;
+}
+
+/** ---------------------------
+ *  Queries
+ *  --------------------------- */
+function endOfToday(now = Date.now()) {
+  const d = new Date(now);
+  d.setHours(23, 59, 59, 999);
+  return d.getTime();
+}
+
+export function isDueToday(s: CardSchedule | undefined, now = Date.now()): boolean {
+  return !!s && s.due <= endOfToday(now);
+}
+
+/** A card counts as mastered once it has a passing streak that ended on Good/Easy. */
+export function isMastered(s: CardSchedule | undefined): boolean {
+  return !!s && s.reps > 0 && (s.lastGrade === "good" || s.lastGrade === "easy");
+}
+
+/** Card ids due today, most overdue first. */
+export function getDueCardIds(schedules: ScheduleMap, now = Date.now()): string[] {
+  return Object.values(schedules)
+    .filter((s) => isDueToday(s, now))
+    .sort((a, b) => a.due - b.due)
+    .map((s) => s.cardId);
+}
+
+/** ---------------------------
+ *  Persistence (+ migration from the old masteredIds set)
+ *  --------------------------- */
+export function migrateMasteredIds(ids: string[], now = Date.now()): ScheduleMap {
+  const out: ScheduleMap = {};
+  for (const id of ids) {
+    if (typeof id !== "string" || !id) continue;
+    out[id] = reviewCard(undefined, id, "good", now);
+  }
+  return out;
+}
+
+/** Reads (and removes) schedules stored before progress sync, migrating the older ccna_mastery set. */
+export function takeLegacySchedules(): ScheduleMap {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  const legacy = localStorage.getItem(LEGACY_MASTERY_KEY);
+  localStorage.removeItem(STORAGE_KEY);
+  localStorage.removeItem(LEGACY_MASTERY_KEY);
+
+  if (saved) {
+    try {
+      const parsed = JSON.parse(saved);
+      if (parsed && typeof parsed === "object") return parsed as ScheduleMap;
+    } catch {
+      // fall through to migration / empty
+    }
+  }
+
+  if (!legacy) return {};
+
+  try {
+    const ids = JSON.parse(legacy);
+    return Array.isArray(ids) ? migrateMasteredIds(ids) : {};
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,227 @@
+// services/stats.ts
+// Aggregates the review log into dashboard stats: activity by day, streaks, accuracy, weak objectives.
+import { CCNA_DOMAINS, Card } from "../types";
+import { compareObjectiveCodes, domainIdForObjective } from "./blueprint";
+import { isCorrect, type ReviewEvent } from "./reviewLog";
+import type { QuizResult } from "./quizLog";
+import type { SubnetResult } from "./subnetLog";
+
+export type DayActivity = {
+  day: string; // YYYY-MM-DD, local time
+  reviews: number;
+  correct: number;
+};
+
+export type AccuracyRow = {
+  key: string;
+  label: string;
+  reviews: number;
+  correct: number;
+  accuracy: number; // 0..1
+};
+
+export type StudyStats = {
+  totalReviews: number;
+  accuracy: number;
+  avgAnswerMs: number;
+  activeDays: number;
+  currentStreak: number;
+  longestStreak: number;
+  heatmap: DayActivity[]; // oldest first, starts on a Sunday, ends today
+  recentDays: DayActivity[]; // last RECENT_DAYS days, oldest first
+  byDomain: AccuracyRow[];
+  byDeck: AccuracyRow[];
+  weakestObjectives: AccuracyRow[];
+  quizzes: { taken: number; questions: number; accuracy: number }; // AI "Quiz me" results
+  subnetting: { attempts: number; correct: number; accuracy: number }; // subnetting drills (Domain 1)
+};
+
+export const HEATMAP_WEEKS = 18;
+export const RECENT_DAYS = 30;
+
+// Too few reviews says nothing about an objective
+const MIN_OBJECTIVE_REVIEWS = 3;
+const WEAKEST_LIMIT = 5;
+
+export function dayKey(ts: number): string {
+  const d = new Date(ts);
+  const mm = String(d.getMonth() + 1).padStart(2, "0");
+  const dd = String(d.getDate()).padStart(2, "0");
+  return `${d.getFullYear()}-${mm}-${dd}`;
+}
+
+function startOfDay(ts: number): number {
+  const d = new Date(ts);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+}
+
+// Walks calendar days (not 24h steps) so DST changes don't skip or repeat a day
+function addDays(ts: number, n: number): number {
+  const d = new Date(ts);
+  d.setDate(d.getDate() + n);
+  return d.getTime();
+}
+
+function dailyTotals(events: ReviewEvent[]): Map<string, DayActivity> {
+  const byDay = new Map<string, DayActivity>();
+  for (const e of events) {
+    const day = dayKey(e.at);
+    const a = byDay.get(day) ?? { day, reviews: 0, correct: 0 };
+    a.reviews += 1;
+    if (isCorrect(e)) a.correct += 1;
+    byDay.set(day, a);
+  }
+  return byDay;
+}
+
+function dayRange(byDay: Map<string, DayActivity>, from: number, to: number): DayActivity[] {
+  const out: DayActivity[] = [];
+  for (let t = startOfDay(from); t <= to; t = addDays(t, 1)) {
+    const day = dayKey(t);
+    out.push(byDay.get(day) ?? { day, reviews: 0, correct: 0 });
+  }
+  return out;
+}
+
+/** A streak stays alive through today until midnight, so it counts back from yesterday if today is empty. */
+export function computeStreaks(activeDays: Set<string>, now = Date.now()): { current: number; longest: number } {
+  let current = 0;
+  let t = startOfDay(now);
+  if (!activeDays.has(dayKey(t))) t = addDays(t, -1);
+  while (activeDays.has(dayKey(t))) {
+    current += 1;
+    t = addDays(t, -1);
+  }
+
+  let longest = 0;
+  let run = 0;
+  let prev: number | null = null;
+  for (const day of Array.from(activeDays).sort()) {
+    const [y, m, d] = day.split("-").map(Number);
+    const ts = new Date(y, m - 1, d).getTime();
+    run = prev !== null && dayKey(addDays(prev, 1)) === day ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    prev = ts;
+  }
+
+  return { current, longest: Math.max(longest, current) };
+}
+
+function accuracyRows(
+  events: ReviewEvent[],
+  keyOf: (e: ReviewEvent) => string | null,
+  labelOf: (key: string) => string
+): AccuracyRow[] {
+  const rows = new Map<string, AccuracyRow>();
+  for (const e of events) {
+    const key = keyOf(e);
+    if (!key) continue;
+    const r = rows.get(key) ?? { key, label: labelOf(key), reviews: 0, correct: 0, accuracy: 0 };
+    r.reviews += 1;
+    if (isCorrect(e)) r.correct += 1;
+    rows.set(key, r);
+  }
+  return Array.from(rows.values()).map((r) => ({ ...r, accuracy: r.correct / r.reviews }));
+}
+
+// Subnetting drills count like reviews in the domain / objective rows they belong to
+function withDrills(
+  rows: AccuracyRow[],
+  results: SubnetResult[],
+  keyOf: (r: SubnetResult) => string,
+  labelOf: (key: string) => string
+): AccuracyRow[] {
+  const merged = new Map(rows.map((r) => [r.key, { ...r }]));
+  for (const res of results) {
+    const key = keyOf(res);
+    const r = merged.get(key) ?? { key, label: labelOf(key), reviews: 0, correct: 0, accuracy: 0 };
+    r.reviews += 1;
+    if (res.correct) r.correct += 1;
+    merged.set(key, r);
+  }
+  return Array.from(merged.values()).map((r) => ({ ...r, accuracy: r.correct / r.reviews }));
+}
+
+export function buildStudyStats(
+  events: ReviewEvent[],
+  cards: Card[],
+  quizResults: QuizResult[] = [],
+  subnetResults: SubnetResult[] = [],
+  now = Date.now()
+): StudyStats {
+  const cardById = new Map(cards.map((c) => [c.card_id, c]));
+  const byDay = dailyTotals(events);
+  const { current, longest } = computeStreaks(new Set(byDay.keys()), now);
+
+  // heatmap columns are weeks, so start on the Sunday HEATMAP_WEEKS-1 weeks back
+  const today = startOfDay(now);
+  const heatmapStart = addDays(today, -((HEATMAP_WEEKS - 1) * 7 + new Date(today).getDay()));
+
+  const correct = events.filter(isCorrect).length;
+  const objectiveTitles = new Map(CCNA_DOMAINS.flatMap((d) => d.objectives.map((o) => [o.code, o.title] as const)));
+
+  const domainLabel = (key: string) => {
+    const d = CCNA_DOMAINS.find((x) => String(x.id) === key);
+    return d ? `${d.id}.0 ${d.subtitle}` : `Domain ${key}`;
+  };
+  const byDomain = withDrills(
+    accuracyRows(
+      events,
+      (e) => {
+        const c = cardById.get(e.cardId);
+        const id = Number(c?.domain_int) || domainIdForObjective(c?.objective || "");
+        return id ? String(id) : null;
+      },
+      domainLabel
+    ),
+    subnetResults,
+    (r) => String(domainIdForObjective(r.objective) || 1),
+    domainLabel
+  ).sort((a, b) => Number(a.key) - Number(b.key));
+
+  const deckNames = new Map(cards.map((c) => [c.deck_id, c.deck_name || c.deck_id]));
+  const byDeck = accuracyRows(
+    events,
+    (e) => cardById.get(e.cardId)?.deck_id || null,
+    (key) => deckNames.get(key) || key
+  ).sort((a, b) => b.reviews - a.reviews);
+
+  const objectiveLabel = (key: string) => objectiveTitles.get(key) || `Objective ${key}`;
+  const weakestObjectives = withDrills(
+    accuracyRows(events, (e) => (cardById.get(e.cardId)?.objective || "").trim() || null, objectiveLabel),
+    subnetResults,
+    (r) => r.objective,
+    objectiveLabel
+  )
+    .filter((r) => r.reviews >= MIN_OBJECTIVE_REVIEWS)
+    .sort((a, b) => a.accuracy - b.accuracy || b.reviews - a.reviews || compareObjectiveCodes(a.key, b.key))
+    .slice(0, WEAKEST_LIMIT);
+
+  const quizQuestions = quizResults.reduce((sum, r) => sum + r.total, 0);
+  const drillsCorrect = subnetResults.filter((r) => r.correct).length;
+
+  return {
+    totalReviews: events.length,
+    accuracy: events.length > 0 ? correct / events.length : 0,
+    avgAnswerMs: events.length > 0 ? events.reduce((sum, e) => sum + (e.elapsedMs || 0), 0) / events.length : 0,
+    activeDays: byDay.size,
+    currentStreak: current,
+    longestStreak: longest,
+    heatmap: dayRange(byDay, heatmapStart, today),
+    recentDays: dayRange(byDay, addDays(today, -(RECENT_DAYS - 1)), today),
+    byDomain,
+    byDeck,
+    weakestObjectives,
+    quizzes: {
+      taken: quizResults.length,
+      questions: quizQuestions,
+      accuracy: quizQuestions > 0 ? quizResults.reduce((sum, r) => sum + r.correct, 0) / quizQuestions : 0,
+    },
+    subnetting: {
+      attempts: subnetResults.length,
+      correct: drillsCorrect,
+      accuracy: subnetResults.length > 0 ? drillsCorrect / subnetResults.length : 0,
+    },
+  };
+}
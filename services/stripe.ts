@@ -18,3 +18,20 @@ export async function startStripeCheckout(userId: string, email?: string) {
 
   window.location.href = data.url;
 }
+
+// Pro is granted server-side by the Stripe webhook; this is the only way the client learns about it.
+export async function fetchProStatus(token: string | null): Promise<boolean> {
+  if (!token) return false;
+
+  const res = await fetch("/api/pro-status", {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+
+  const data = await res.json().catch(() => null);
+
+  if (!res.ok) {
+    throw new Error(data?.error || "Failed to load Pro status");
+  }
+
+  return data?.isPro === true;
+}
@@ -0,0 +1,39 @@
+// services/subnetLog.ts
+// Results of subnetting drills, kept in localStorage per user (newest last).
+import type { SubnetKind } from "./subnetting";
+
+export type SubnetResult = {
+  at: number;
+  kind: SubnetKind;
+  objective: string; // "1.6" (IPv4) or "1.8" (IPv6)
+  correct: boolean;
+  elapsedMs?: number;
+};
+
+export const MAX_SUBNET_RESULTS = 2000;
+
+const storageKey = (userId: string) => `ccna_subnets:${userId}`;
+
+export function appendSubnetResult(results: SubnetResult[], result: SubnetResult): SubnetResult[] {
+  const next = [...results, result];
+  return next.length > MAX_SUBNET_RESULTS ? next.slice(next.length - MAX_SUBNET_RESULTS) : next;
+}
+
+export function loadSubnetResults(userId: string): SubnetResult[] {
+  const saved = localStorage.getItem(storageKey(userId));
+  if (!saved) return [];
+
+  try {
+    const parsed = JSON.parse(saved);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(
+      (r) => r && typeof r.at === "number" && typeof r.objective === "string" && typeof r.correct === "boolean"
+    );
+  } catch {
+    return [];
+  }
+}
+
+export function saveSubnetResults(userId: string, results: SubnetResult[]) {
+  localStorage.setItem(storageKey(userId), JSON.stringify(results));
+}
@@ -0,0 +1,253 @@
+import { describe, expect, it } from "vitest";
+import {
+  checkSubnetAnswers,
+  formatIpv6,
+  generateSubnetExercise,
+  intToIpv4,
+  ipv4ToInt,
+  maskToPrefix,
+  parseIpv6,
+  prefixToMask,
+  SUBNET_KINDS,
+  type SubnetExercise,
+  type SubnetKind,
+} from "./subnetting";
+
+// Seeded so a failure can be replayed
+function seededRng(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const RUNS = 200;
+
+function generateMany(kind: SubnetKind): SubnetExercise[] {
+  const rng = seededRng(kind.length * 7919);
+  return Array.from({ length: RUNS }, () => generateSubnetExercise(kind, rng));
+}
+
+const answersOf = (ex: SubnetExercise) => Object.fromEntries(ex.fields.map((f) => [f.key, f.answer]));
+
+function parseCidr(text: string) {
+  const [addr, len] = text.split("/");
+  return { network: ipv4ToInt(addr)!, prefix: Number(len) };
+}
+
+const blockEnd = (network: number, prefix: number) => network + 2 ** (32 - prefix) - 1;
+
+describe("IPv4 helpers", () => {
+  it("converts addresses both ways", () => {
+    expect(ipv4ToInt("192.168.1.10")).toBe(0xc0a8010a);
+    expect(intToIpv4(0xc0a8010a)).toBe("192.168.1.10");
+    expect(intToIpv4(0xffffffff)).toBe("255.255.255.255");
+  });
+
+  it("rejects malformed addresses", () => {
+    for (const bad of ["192.168.1", "192.168.1.256", "1.2.3.4.5", "a.b.c.d", "1..2.3"]) {
+      expect(ipv4ToInt(bad)).toBeNull();
+    }
+  });
+
+  it("converts between prefixes and masks", () => {
+    expect(prefixToMask(0)).toBe(0);
+    expect(intToIpv4(prefixToMask(26))).toBe("255.255.255.192");
+    expect(prefixToMask(32)).toBe(0xffffffff);
+    expect(maskToPrefix(ipv4ToInt("255.255.240.0")!)).toBe(20);
+    expect(maskToPrefix(ipv4ToInt("255.0.255.0")!)).toBeNull();
+  });
+});
+
+describe("IPv6 helpers", () => {
+  it("parses full and shortened forms", () => {
+    const full = [0x2001, 0xdb8, 0, 0, 0, 0xff00, 0x42, 0x8329];
+    expect(parseIpv6("2001:0db8:0000:0000:0000:ff00:0042:8329")).toEqual(full);
+    expect(parseIpv6("2001:DB8::FF00:42:8329")).toEqual(full);
+    expect(parseIpv6("::")).toEqual([0, 0, 0, 0, 0, 0, 0, 0]);
+    expect(parseIpv6("::1")).toEqual([0, 0, 0, 0, 0, 0, 0, 1]);
+  });
+
+  it("rejects malformed addresses", () => {
+    for (const bad of ["1::2::3", "12345::", "1:2:3:4:5:6:7", "1:2:3:4:5:6:7:8::", "g::1", "", "1:2:3:4:5:6:7:8:9"]) {
+      expect(parseIpv6(bad)).toBeNull();
+    }
+  });
+
+  it("formats per RFC 5952", () => {
+    expect(formatIpv6([0x2001, 0xdb8, 0, 0, 0, 0xff00, 0x42, 0x8329])).toBe("2001:db8::ff00:42:8329");
+    expect(formatIpv6([0x2001, 0xdb8, 0, 1, 0, 0, 0, 1])).toBe("2001:db8:0:1::1");
+    expect(formatIpv6([0x2001, 0xdb8, 0, 1, 1, 1, 1, 1])).toBe("2001:db8:0:1:1:1:1:1");
+    expect(formatIpv6([0x2001, 0, 0, 1, 0, 0, 1, 1])).toBe("2001::1:0:0:1:1");
+    expect(formatIpv6([0, 0, 0, 0, 0, 0, 0, 0])).toBe("::");
+  });
+
+  it("round-trips", () => {
+    for (const text of ["2001:db8::", "fe80::1:2", "2001:db8:acad:1::", "1:2:3:4:5:6:7:8"]) {
+      expect(formatIpv6(parseIpv6(text)!)).toBe(text);
+    }
+  });
+});
+
+describe("checkSubnetAnswers", () => {
+  const exercise: SubnetExercise = {
+    id: "t",
+    kind: "ipv4-network",
+    objective: "1.6",
+    prompt: "",
+    given: [],
+    fields: [
+      { key: "ip", label: "", type: "ipv4", answer: "10.0.0.0" },
+      { key: "mask", label: "", type: "mask", answer: "255.255.255.192" },
+      { key: "prefix", label: "", type: "prefix", answer: "26" },
+      { key: "count", label: "", type: "number", answer: "1022" },
+      { key: "net", label: "", type: "ipv4-cidr", answer: "10.1.0.0/16" },
+      { key: "v6", label: "", type: "ipv6", answer: "2001:db8::" },
+      { key: "v6net", label: "", type: "ipv6-cidr", answer: "2001:db8:acad::/48" },
+    ],
+    steps: [],
+  };
+
+  it("compares values, not spelling", () => {
+    const check = checkSubnetAnswers(exercise, {
+      ip: " 10.0.0.00 ",
+      mask: "255.255.255.192",
+      prefix: "/ 26",
+      count: "1,022",
+      net: "10.1.0.0/16",
+      v6: "2001:0DB8:0:0:0:0:0:0",
+      v6net: "2001:db8:acad:0::/48",
+    });
+    expect(check.fields.filter((f) => !f.correct)).toEqual([]);
+    expect(check.correct).toBe(true);
+  });
+
+  it("explains input it can't read", () => {
+    const check = checkSubnetAnswers(exercise, {
+      mask: "255.0.255.0",
+      prefix: "33",
+      count: "lots",
+      net: "10.1.0.0",
+      v6: "2001:db8:::",
+      v6net: "2001:db8::/129",
+    });
+    expect(check.correct).toBe(false);
+    expect(Object.fromEntries(check.fields.map((f) => [f.key, f.problem]))).toEqual({
+      ip: "No answer",
+      mask: "Not a valid mask (ones must be contiguous)",
+      prefix: "Enter a prefix length like /26",
+      count: "Enter a whole number",
+      net: "Enter a network like 192.168.1.0/24",
+      v6: "Not a valid IPv6 address",
+      v6net: "Enter a prefix like 2001:db8::/32",
+    });
+  });
+
+  it("marks wrong values without a problem", () => {
+    const check = checkSubnetAnswers(exercise, { prefix: "27" });
+    expect(check.fields.find((f) => f.key === "prefix")).toEqual({ key: "prefix", correct: false, expected: "26" });
+  });
+});
+
+describe("generateSubnetExercise", () => {
+  it.each(SUBNET_KINDS.map((k) => k.kind))("%s: accepts its own answers and explains them", (kind) => {
+    for (const ex of generateMany(kind)) {
+      expect(ex.kind).toBe(kind);
+      expect(ex.steps.length).toBeGreaterThan(0);
+      expect(checkSubnetAnswers(ex, answersOf(ex)).correct).toBe(true);
+      expect(checkSubnetAnswers(ex, {}).correct).toBe(false);
+    }
+  });
+
+  it("picks any kind when none is given", () => {
+    const rng = seededRng(1);
+    const kinds = new Set(Array.from({ length: RUNS }, () => generateSubnetExercise(undefined, rng).kind));
+    expect(kinds.size).toBe(SUBNET_KINDS.length);
+  });
+
+  it("ipv4-network: the subnet contains the host", () => {
+    for (const ex of generateMany("ipv4-network")) {
+      const { network: ip, prefix } = parseCidr(ex.given[0]);
+      const { network, broadcast } = answersOf(ex);
+      const net = ipv4ToInt(network)!;
+      expect(net % 2 ** (32 - prefix)).toBe(0);
+      expect(ipv4ToInt(broadcast)).toBe(blockEnd(net, prefix));
+      expect(ip).toBeGreaterThanOrEqual(net);
+      expect(ip).toBeLessThanOrEqual(blockEnd(net, prefix));
+    }
+  });
+
+  it("ipv4-hosts: the range sits between network and broadcast", () => {
+    for (const ex of generateMany("ipv4-hosts")) {
+      const [addr, mask] = ex.given[0].split(" ");
+      const prefix = maskToPrefix(ipv4ToInt(mask)!)!;
+      const { first, last, count } = answersOf(ex);
+      const net = (ipv4ToInt(addr)! & prefixToMask(prefix)) >>> 0;
+      expect(ipv4ToInt(first)).toBe(net + 1);
+      expect(ipv4ToInt(last)).toBe(blockEnd(net, prefix) - 1);
+      expect(Number(count)).toBe(ipv4ToInt(last)! - ipv4ToInt(first)! + 1);
+    }
+  });
+
+  it("vlsm: subnets fit their hosts, stay in the block and don't overlap", () => {
+    for (const ex of generateMany("vlsm")) {
+      const block = parseCidr(ex.given[0]);
+      const subnets = ex.fields
+        .map((f) => ({ hosts: Number(f.label.match(/\((\d+) hosts\)/)![1]), ...parseCidr(f.answer) }))
+        .sort((a, b) => a.network - b.network);
+
+      subnets.forEach((s, i) => {
+        expect(2 ** (32 - s.prefix) - 2).toBeGreaterThanOrEqual(s.hosts);
+        expect(2 ** (31 - s.prefix) - 2).toBeLessThan(s.hosts); // as small as possible
+        expect(s.network % 2 ** (32 - s.prefix)).toBe(0);
+        expect(s.network).toBeGreaterThanOrEqual(block.network);
+        expect(blockEnd(s.network, s.prefix)).toBeLessThanOrEqual(blockEnd(block.network, block.prefix));
+        if (i > 0) expect(s.network).toBeGreaterThan(blockEnd(subnets[i - 1].network, subnets[i - 1].prefix));
+      });
+    }
+  });
+
+  it("ipv4-summary: the summary is the smallest that covers every network", () => {
+    for (const ex of generateMany("ipv4-summary")) {
+      const summary = parseCidr(answersOf(ex).summary);
+      const networks = ex.given.map(parseCidr);
+      const covers = (prefix: number) => {
+        const net = (summary.network & prefixToMask(prefix)) >>> 0;
+        return networks.every((n) => (n.network & prefixToMask(prefix)) >>> 0 === net && n.prefix >= prefix);
+      };
+      expect(covers(summary.prefix)).toBe(true);
+      expect(covers(summary.prefix + 1)).toBe(false);
+    }
+  });
+
+  it("ipv6-network: the prefix keeps the network bits of the host", () => {
+    for (const ex of generateMany("ipv6-network")) {
+      const [addr, len] = ex.given[0].split("/");
+      const host = parseIpv6(addr)!;
+      const network = parseIpv6(answersOf(ex).prefix)!;
+      const prefix = Number(len);
+      network.forEach((h, i) => {
+        const bits = Math.min(16, Math.max(0, prefix - 16 * i));
+        const mask = bits === 0 ? 0 : (0xffff << (16 - bits)) & 0xffff;
+        expect(h).toBe(host[i] & mask);
+      });
+    }
+  });
+
+  it("ipv6-summary: the summary is the smallest that covers every /64", () => {
+    for (const ex of generateMany("ipv6-summary")) {
+      const [addr, len] = answersOf(ex).summary.split("/");
+      const summary = parseIpv6(addr)!;
+      const prefix = Number(len);
+      const fourth = ex.given.map((g) => parseIpv6(g.split("/")[0])![3]);
+      const bits = prefix - 48;
+      const shared = (n: number) => fourth.every((h) => h >> (16 - n) === summary[3] >> (16 - n));
+
+      expect(ex.given.every((g) => parseIpv6(g.split("/")[0])!.slice(0, 3).join() === summary.slice(0, 3).join())).toBe(true);
+      expect(shared(bits)).toBe(true);
+      expect(shared(bits + 1)).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,523 @@
+// services/subnetting.ts
+// Generated subnetting drills (IPv4 + IPv6) with exact answer checking and worked solutions.
+// Everything is computed, not looked up, so there is an endless supply of fresh problems.
+
+export type SubnetKind =
+  | "ipv4-network"
+  | "ipv4-hosts"
+  | "mask-cidr"
+  | "vlsm"
+  | "ipv4-summary"
+  | "ipv6-network"
+  | "ipv6-summary";
+
+// What an answer field accepts; checking compares values, not spelling
+export type SubnetFieldType = "ipv4" | "mask" | "prefix" | "number" | "ipv4-cidr" | "ipv6" | "ipv6-cidr";
+
+export type SubnetField = {
+  key: string;
+  label: string;
+  type: SubnetFieldType;
+  answer: string; // canonical form, shown when the answer is wrong
+};
+
+export type SubnetExercise = {
+  id: string;
+  kind: SubnetKind;
+  objective: "1.6" | "1.8";
+  prompt: string;
+  given: string[]; // addresses / networks the prompt refers to, shown in monospace
+  fields: SubnetField[];
+  steps: string[]; // worked solution
+};
+
+export type SubnetFieldCheck = {
+  key: string;
+  correct: boolean;
+  expected: string;
+  problem?: string; // input couldn't be read as the field's type
+};
+
+export type SubnetCheck = { correct: boolean; fields: SubnetFieldCheck[] };
+
+export const SUBNET_KINDS: { kind: SubnetKind; label: string }[] = [
+  { kind: "ipv4-network", label: "Network & broadcast" },
+  { kind: "ipv4-hosts", label: "Usable host range" },
+  { kind: "mask-cidr", label: "Mask ↔ CIDR" },
+  { kind: "vlsm", label: "VLSM" },
+  { kind: "ipv4-summary", label: "IPv4 summarization" },
+  { kind: "ipv6-network", label: "IPv6 prefix" },
+  { kind: "ipv6-summary", label: "IPv6 summarization" },
+];
+
+type Rng = () => number;
+
+const randInt = (min: number, max: number, rng: Rng) => min + Math.floor(rng() * (max - min + 1));
+const pick = <T>(items: readonly T[], rng: Rng): T => items[Math.floor(rng() * items.length)];
+
+// -----------------------------
+// IPv4 arithmetic (unsigned 32-bit numbers)
+// -----------------------------
+
+export function ipv4ToInt(ip: string): number | null {
+  const parts = ip.trim().split(".");
+  if (parts.length !== 4) return null;
+  let out = 0;
+  for (const p of parts) {
+    if (!/^\d{1,3}$/.test(p) || Number(p) > 255) return null;
+    out = out * 256 + Number(p);
+  }
+  return out;
+}
+
+export function intToIpv4(n: number): string {
+  return [24, 16, 8, 0].map((shift) => (n >>> shift) & 255).join(".");
+}
+
+export const prefixToMask = (prefix: number) => (prefix === 0 ? 0 : (0xffffffff << (32 - prefix)) >>> 0);
+
+/** Prefix length of a contiguous mask, or null when the ones aren't contiguous. */
+export function maskToPrefix(mask: number): number | null {
+  for (let p = 0; p <= 32; p++) if (prefixToMask(p) === mask) return p;
+  return null;
+}
+
+const networkOf = (ip: number, prefix: number) => (ip & prefixToMask(prefix)) >>> 0;
+const broadcastOf = (ip: number, prefix: number) => (networkOf(ip, prefix) + 2 ** (32 - prefix) - 1) >>> 0;
+const usableHosts = (prefix: number) => (prefix >= 31 ? 0 : 2 ** (32 - prefix) - 2);
+
+const octetBinary = (n: number) => n.toString(2).padStart(8, "0");
+const maskBinary = (prefix: number) =>
+  intToIpv4(prefixToMask(prefix))
+    .split(".")
+    .map((o) => octetBinary(Number(o)))
+    .join(".");
+
+// -----------------------------
+// IPv6 (eight 16-bit hextets)
+// -----------------------------
+
+export function parseIpv6(text: string): number[] | null {
+  const s = text.trim().toLowerCase();
+  if (!/^[0-9a-f:]+$/.test(s) || s.split("::").length > 2) return null;
+
+  const [head, tail] = s.includes("::") ? s.split("::") : [s, null];
+  const toHextets = (part: string) => (part === "" ? [] : part.split(":"));
+  const left = toHextets(head);
+  const right = tail === null ? [] : toHextets(tail);
+  const missing = 8 - left.length - right.length;
+  if (tail === null ? missing !== 0 : missing < 1) return null;
+
+  const all = [...left, ...Array(tail === null ? 0 : missing).fill("0"), ...right];
+  if (all.some((h) => !/^[0-9a-f]{1,4}$/.test(h))) return null;
+  return all.map((h) => parseInt(h, 16));
+}
+
+/** RFC 5952 text: lowercase, no leading zeros, longest run (2+) of zero hextets as "::". */
+export function formatIpv6(hextets: number[]): string {
+  let best = { start: -1, len: 0 };
+  for (let i = 0; i < 8; ) {
+    if (hextets[i] !== 0) {
+      i++;
+      continue;
+    }
+    let j = i;
+    while (j < 8 && hextets[j] === 0) j++;
+    if (j - i > best.len) best = { start: i, len: j - i };
+    i = j;
+  }
+
+  const hex = hextets.map((h) => h.toString(16));
+  if (best.len < 2) return hex.join(":");
+  return `${hex.slice(0, best.start).join(":")}::${hex.slice(best.start + best.len).join(":")}`;
+}
+
+const ipv6Network = (hextets: number[], prefix: number) =>
+  hextets.map((h, i) => {
+    const bits = Math.min(16, Math.max(0, prefix - 16 * i));
+    return bits === 0 ? 0 : h & ((0xffff << (16 - bits)) & 0xffff);
+  });
+
+const hextetBinary = (h: number) =>
+  h
+    .toString(2)
+    .padStart(16, "0")
+    .replace(/(.{4})(?!$)/g, "$1 ");
+
+// -----------------------------
+// Answer checking
+// -----------------------------
+
+// Canonical value for comparison, or an explanation of why the input can't be read
+function canonical(type: SubnetFieldType, input: string): { value: string } | { problem: string } {
+  const s = input.trim();
+  if (!s) return { problem: "No answer" };
+
+  switch (type) {
+    case "ipv4": {
+      const n = ipv4ToInt(s);
+      return n === null ? { problem: "Not a dotted-decimal IPv4 address" } : { value: intToIpv4(n) };
+    }
+    case "mask": {
+      const n = ipv4ToInt(s);
+      if (n === null) return { problem: "Not a dotted-decimal mask" };
+      return maskToPrefix(n) === null ? { problem: "Not a valid mask (ones must be contiguous)" } : { value: intToIpv4(n) };
+    }
+    case "prefix": {
+      const m = s.match(/^\/?\s*(\d{1,3})$/);
+      return m && Number(m[1]) <= 32 ? { value: String(Number(m[1])) } : { problem: "Enter a prefix length like /26" };
+    }
+    case "number": {
+      const digits = s.replace(/[,\s]/g, "");
+      return /^\d+$/.test(digits) ? { value: String(Number(digits)) } : { problem: "Enter a whole number" };
+    }
+    case "ipv4-cidr": {
+      const [addr, len, ...rest] = s.split("/");
+      const n = ipv4ToInt(addr ?? "");
+      const p = Number(len);
+      if (rest.length || n === null || !/^\d{1,2}$/.test((len ?? "").trim()) || p > 32) {
+        return { problem: "Enter a network like 192.168.1.0/24" };
+      }
+      return { value: `${intToIpv4(n)}/${p}` };
+    }
+    case "ipv6": {
+      const h = parseIpv6(s);
+      return h ? { value: formatIpv6(h) } : { problem: "Not a valid IPv6 address" };
+    }
+    case "ipv6-cidr": {
+      const [addr, len, ...rest] = s.split("/");
+      const h = parseIpv6(addr ?? "");
+      const p = Number(len);
+      if (rest.length || !h || !/^\d{1,3}$/.test((len ?? "").trim()) || p > 128) {
+        return { problem: "Enter a prefix like 2001:db8::/32" };
+      }
+      return { value: `${formatIpv6(h)}/${p}` };
+    }
+  }
+}
+
+/** Exact check of every field. Notation doesn't matter (/26 vs 26, leading zeros, :: placement); the value does. */
+export function checkSubnetAnswers(exercise: SubnetExercise, answers: Record<string, string>): SubnetCheck {
+  const fields = exercise.fields.map((f): SubnetFieldCheck => {
+    const got = canonical(f.type, answers[f.key] ?? "");
+    if ("problem" in got) return { key: f.key, correct: false, expected: f.answer, problem: got.problem };
+    return { key: f.key, correct: got.value === f.answer, expected: f.answer };
+  });
+  return { correct: fields.every((f) => f.correct), fields };
+}
+
+// -----------------------------
+// Generators
+// -----------------------------
+
+// Private ranges only, like the exam and most labs
+function randomPrivateIpv4(rng: Rng): number {
+  const octet = () => randInt(0, 255, rng);
+  const block = pick(["10", "172", "192"] as const, rng);
+  if (block === "10") return ipv4ToInt(`10.${octet()}.${octet()}.${octet()}`)!;
+  if (block === "172") return ipv4ToInt(`172.${randInt(16, 31, rng)}.${octet()}.${octet()}`)!;
+  return ipv4ToInt(`192.168.${octet()}.${octet()}`)!;
+}
+
+// Mostly the /20–/30 range the exam likes, occasionally something wider
+const randomPrefix = (rng: Rng) => (rng() < 0.8 ? randInt(20, 30, rng) : randInt(12, 19, rng));
+
+/** "Block size" walk-through for one address/prefix: mask, interesting octet, network and broadcast. */
+function networkSteps(ip: number, prefix: number): string[] {
+  const mask = intToIpv4(prefixToMask(prefix));
+  const network = intToIpv4(networkOf(ip, prefix));
+  const broadcast = intToIpv4(broadcastOf(ip, prefix));
+
+  if (prefix % 8 === 0) {
+    const kept = prefix / 8;
+    return [
+      `/${prefix} = ${mask}: the mask ends on an octet boundary, so the first ${kept} octet${kept === 1 ? "" : "s"} are network bits.`,
+      `Network: keep those octets and set the rest to 0 → ${network}.`,
+      `Broadcast: set the host octets to 255 → ${broadcast}.`,
+    ];
+  }
+
+  const octetIndex = Math.floor(prefix / 8); // 0-based
+  const maskOctet = (prefixToMask(prefix) >>> (24 - 8 * octetIndex)) & 255;
+  const block = 256 - maskOctet;
+  const value = (ip >>> (24 - 8 * octetIndex)) & 255;
+  const start = value - (value % block);
+  const ordinal = ["1st", "2nd", "3rd", "4th"][octetIndex];
+
+  return [
+    `/${prefix} = ${mask} (${maskBinary(prefix)}). The interesting octet is the ${ordinal} (mask ${maskOctet}).`,
+    `Block size = 256 − ${maskOctet} = ${block}, so subnets in that octet start at 0, ${block}, ${block * 2}, …`,
+    `The ${ordinal} octet of ${intToIpv4(ip)} is ${value}, which falls in ${start}–${start + block - 1}.`,
+    `Network: ${network} (host bits all 0${octetIndex < 3 ? ", later octets 0" : ""}).`,
+    `Broadcast: next subnet − 1 = ${start + block - 1} in that octet → ${broadcast} (host bits all 1${octetIndex < 3 ? ", later octets 255" : ""}).`,
+  ];
+}
+
+function ipv4NetworkExercise(rng: Rng): SubnetExercise {
+  const ip = randomPrivateIpv4(rng);
+  const prefix = randomPrefix(rng);
+  const given = `${intToIpv4(ip)}/${prefix}`;
+
+  return {
+    id: `ipv4-network:${given}`,
+    kind: "ipv4-network",
+    objective: "1.6",
+    prompt: "Find the network and broadcast address of the subnet this host is in.",
+    given: [given],
+    fields: [
+      { key: "network", label: "Network address", type: "ipv4", answer: intToIpv4(networkOf(ip, prefix)) },
+      { key: "broadcast", label: "Broadcast address", type: "ipv4", answer: intToIpv4(broadcastOf(ip, prefix)) },
+    ],
+    steps: networkSteps(ip, prefix),
+  };
+}
+
+function ipv4HostsExercise(rng: Rng): SubnetExercise {
+  const ip = randomPrivateIpv4(rng);
+  const prefix = Math.min(30, randomPrefix(rng));
+  const network = networkOf(ip, prefix);
+  const broadcast = broadcastOf(ip, prefix);
+  const given = `${intToIpv4(ip)} ${intToIpv4(prefixToMask(prefix))}`;
+
+  return {
+    id: `ipv4-hosts:${given}`,
+    kind: "ipv4-hosts",
+    objective: "1.6",
+    prompt: "What range of addresses can hosts on this subnet use, and how many are there?",
+    given: [given],
+    fields: [
+      { key: "first", label: "First usable host", type: "ipv4", answer: intToIpv4(network + 1) },
+      { key: "last", label: "Last usable host", type: "ipv4", answer: intToIpv4(broadcast - 1) },
+      { key: "count", label: "Usable hosts", type: "number", answer: String(usableHosts(prefix)) },
+    ],
+    steps: [
+      ...networkSteps(ip, prefix),
+      `First usable = network + 1 → ${intToIpv4(network + 1)}.`,
+      `Last usable = broadcast − 1 → ${intToIpv4(broadcast - 1)}.`,
+      `Usable hosts = 2^${32 - prefix} − 2 = ${usableHosts(prefix)} (the network and broadcast addresses can't be assigned).`,
+    ],
+  };
+}
+
+function maskCidrExercise(rng: Rng): SubnetExercise {
+  const prefix = randInt(8, 30, rng);
+  const mask = intToIpv4(prefixToMask(prefix));
+  const wildcard = intToIpv4(~prefixToMask(prefix) >>> 0);
+  const onesPerOctet = mask.split(".").map((o) => octetBinary(Number(o)).replace(/0/g, "").length);
+  const toMask = rng() < 0.5;
+
+  return {
+    id: `mask-cidr:${toMask ? "/" : ""}${prefix}`,
+    kind: "mask-cidr",
+    objective: "1.6",
+    prompt: toMask
+      ? "Convert the prefix length to a dotted-decimal subnet mask and wildcard mask."
+      : "Convert the subnet mask to a prefix length and wildcard mask.",
+    given: [toMask ? `/${prefix}` : mask],
+    fields: [
+      toMask
+        ? { key: "mask", label: "Subnet mask", type: "mask", answer: mask }
+        : { key: "prefix", label: "Prefix length", type: "prefix", answer: String(prefix) },
+      { key: "wildcard", label: "Wildcard mask", type: "ipv4", answer: wildcard },
+    ],
+    steps: [
+      toMask
+        ? `/${prefix} means ${prefix} ones from the left: ${maskBinary(prefix)}.`
+        : `Write each octet in binary: ${maskBinary(prefix)}.`,
+      toMask
+        ? `Convert each octet back to decimal → ${mask}.`
+        : `Count the ones: ${onesPerOctet.join(" + ")} = ${prefix} → /${prefix}.`,
+      `Wildcard = 255.255.255.255 − mask, octet by octet → ${wildcard}.`,
+    ],
+  };
+}
+
+function vlsmExercise(rng: Rng): SubnetExercise {
+  // Pick requirements until they fit the block with a little room to spare
+  for (;;) {
+    const blockPrefix = pick([22, 23, 24, 24, 24], rng);
+    const blockSize = 2 ** (32 - blockPrefix);
+    const base = networkOf(randomPrivateIpv4(rng), blockPrefix);
+    const lanCount = randInt(3, 4, rng);
+    const maxHosts = blockSize / 4;
+
+    const needs = Array.from({ length: lanCount }, (_, i) => ({
+      name: `LAN ${String.fromCharCode(65 + i)}`,
+      hosts: randInt(3, Math.max(6, maxHosts - 2), rng),
+    }));
+    if (rng() < 0.6) needs.push({ name: "WAN link", hosts: 2 });
+
+    const sized = needs.map((n, order) => {
+      let hostBits = 2;
+      while (2 ** hostBits - 2 < n.hosts) hostBits++;
+      return { ...n, order, prefix: 32 - hostBits, size: 2 ** hostBits };
+    });
+    const total = sized.reduce((sum, n) => sum + n.size, 0);
+    if (total > blockSize) continue;
+
+    // Largest first keeps every subnet aligned on its own block size
+    const allocation = sized.slice().sort((a, b) => b.size - a.size || b.hosts - a.hosts || a.order - b.order);
+    let next = base;
+    const steps = [
+      `Sort the requirements largest first: ${allocation.map((n) => `${n.name} (${n.hosts})`).join(", ")}.`,
+    ];
+    const answers = new Map<string, string>();
+    for (const n of allocation) {
+      const hostBits = 32 - n.prefix;
+      const network = `${intToIpv4(next)}/${n.prefix}`;
+      answers.set(n.name, network);
+      steps.push(
+        `${n.name}: ${n.hosts} hosts → 2^${hostBits} − 2 = ${2 ** hostBits - 2} ≥ ${n.hosts}, so /${n.prefix} (block of ${n.size}). ` +
+          `Next free address is ${intToIpv4(next)} → ${network}, which runs to ${intToIpv4(next + n.size - 1)}.`
+      );
+      next += n.size;
+    }
+    steps.push(`${blockSize - total} of the ${blockSize} addresses in the block are left for growth.`);
+
+    const block = `${intToIpv4(base)}/${blockPrefix}`;
+    return {
+      id: `vlsm:${block}:${sized.map((n) => n.hosts).join(",")}`,
+      kind: "vlsm",
+      objective: "1.6",
+      prompt:
+        `Carve ${block} with VLSM. Allocate the largest subnet first from the start of the block, ` +
+        "each as small as possible, and give every subnet as network/prefix.",
+      given: [block, ...sized.map((n) => `${n.name}: ${n.hosts} host${n.hosts === 1 ? "" : "s"}`)],
+      fields: sized.map((n) => ({
+        key: n.name,
+        label: `${n.name} (${n.hosts} hosts)`,
+        type: "ipv4-cidr" as const,
+        answer: answers.get(n.name)!,
+      })),
+      steps,
+    };
+  }
+}
+
+/** Indices of `count` distinct subnets in a block of 2^bits that include both halves, so no longer summary covers them. */
+function spanningIndices(bits: number, count: number, rng: Rng): number[] {
+  const half = 2 ** (bits - 1);
+  const picked = new Set([randInt(0, half - 1, rng), randInt(half, 2 * half - 1, rng)]);
+  while (picked.size < Math.min(count, 2 * half)) picked.add(randInt(0, 2 * half - 1, rng));
+  return Array.from(picked).sort((a, b) => a - b);
+}
+
+function ipv4SummaryExercise(rng: Rng): SubnetExercise {
+  // summary and component prefixes sit in the same octet so one binary column shows the whole story
+  const summary = rng() < 0.75 ? randInt(17, 22, rng) : randInt(25, 28, rng);
+  const octetEnd = 8 * (Math.floor(summary / 8) + 1);
+  const extraBits = randInt(2, Math.min(3, octetEnd - summary), rng);
+  const component = summary + extraBits;
+
+  const base = networkOf(randomPrivateIpv4(rng), summary);
+  const networks = spanningIndices(extraBits, randInt(2, 4, rng), rng).map((i) => base + i * 2 ** (32 - component));
+
+  const octetIndex = Math.floor(summary / 8);
+  const octetOf = (n: number) => (n >>> (24 - 8 * octetIndex)) & 255;
+  const ordinal = ["1st", "2nd", "3rd", "4th"][octetIndex];
+  const sharedInOctet = summary - 8 * octetIndex;
+  const answer = `${intToIpv4(base)}/${summary}`;
+  const given = networks.map((n) => `${intToIpv4(n)}/${component}`);
+
+  return {
+    id: `ipv4-summary:${given.join(",")}`,
+    kind: "ipv4-summary",
+    objective: "1.6",
+    prompt: "Give the smallest single summary route that covers all of these networks.",
+    given,
+    fields: [{ key: "summary", label: "Summary route", type: "ipv4-cidr", answer }],
+    steps: [
+      `The networks differ only in the ${ordinal} octet. Write it in binary:`,
+      ...networks.map((n) => `${String(octetOf(n)).padStart(3, " ")} = ${octetBinary(octetOf(n))}`),
+      `They share the first ${sharedInOctet} bit${sharedInOctet === 1 ? "" : "s"} of that octet, plus ${8 * octetIndex} bits before it → /${summary}.`,
+      `Summary network = first network with the remaining bits zeroed → ${answer}.`,
+    ],
+  };
+}
+
+function randomIpv6Host(rng: Rng): number[] {
+  const hextet = () => randInt(0, 0xffff, rng);
+  // documentation prefix, sometimes with a site hextet that's mostly zeros so :: shows up
+  return [0x2001, 0x0db8, pick([0xacad, 0x0, hextet()], rng), hextet(), hextet(), pick([0, hextet()], rng), 0, hextet()];
+}
+
+// Full or partly shortened, the way addresses show up in questions
+const ipv6Display = (hextets: number[], rng: Rng) =>
+  rng() < 0.5 ? hextets.map((h) => h.toString(16).padStart(4, "0")).join(":") : formatIpv6(hextets);
+
+function ipv6NetworkExercise(rng: Rng): SubnetExercise {
+  const host = randomIpv6Host(rng);
+  const prefix = pick([64, 64, 64, 48, 56, 60], rng);
+  const network = ipv6Network(host, prefix);
+  const given = `${ipv6Display(host, rng)}/${prefix}`;
+  const fullHextets = Math.floor(prefix / 16);
+  const nibbles = (prefix % 16) / 4;
+
+  const steps = [
+    `/${prefix} = ${fullHextets} full hextet${fullHextets === 1 ? "" : "s"} (${fullHextets} × 16 bits)` +
+      (nibbles ? ` plus the first ${nibbles} hex digit${nibbles === 1 ? "" : "s"} (${nibbles} × 4 bits) of hextet ${fullHextets + 1}.` : "."),
+    `Keep those, zero the rest: ${network.map((h) => h.toString(16).padStart(4, "0")).join(":")}.`,
+  ];
+  if (nibbles) {
+    steps.splice(
+      1,
+      0,
+      `Hextet ${fullHextets + 1}: ${host[fullHextets].toString(16).padStart(4, "0")} → ${network[fullHextets]
+        .toString(16)
+        .padStart(4, "0")}.`
+    );
+  }
+  steps.push(`Shorten: drop leading zeros and replace the longest run of zero hextets with :: → ${formatIpv6(network)}/${prefix}.`);
+
+  return {
+    id: `ipv6-network:${given}`,
+    kind: "ipv6-network",
+    objective: "1.8",
+    prompt: "What is the network prefix this IPv6 address belongs to?",
+    given: [given],
+    fields: [{ key: "prefix", label: `Prefix (/${prefix})`, type: "ipv6", answer: formatIpv6(network) }],
+    steps,
+  };
+}
+
+function ipv6SummaryExercise(rng: Rng): SubnetExercise {
+  // /64 subnets that differ in the 4th hextet, summarized to a /60–/62 or a nibble-aligned /56
+  const extraBits = pick([2, 3, 4, 8], rng);
+  const summary = 64 - extraBits;
+  const site = [0x2001, 0x0db8, pick([0xacad, randInt(1, 0xffff, rng)], rng)];
+  const baseHextet = randInt(0, 0xffff, rng) & ((0xffff << extraBits) & 0xffff);
+  const subnets = spanningIndices(extraBits, randInt(2, 4, rng), rng).map((i) => [...site, baseHextet + i, 0, 0, 0, 0]);
+  const answer = `${formatIpv6([...site, baseHextet, 0, 0, 0, 0])}/${summary}`;
+  const given = subnets.map((s) => `${formatIpv6(s)}/64`);
+  const hex4 = (h: number) => h.toString(16).padStart(4, "0");
+
+  return {
+    id: `ipv6-summary:${given.join(",")}`,
+    kind: "ipv6-summary",
+    objective: "1.8",
+    prompt: "Give the smallest single prefix that summarizes all of these /64 subnets.",
+    given,
+    fields: [{ key: "summary", label: "Summary prefix", type: "ipv6-cidr", answer }],
+    steps: [
+      `The first three hextets (48 bits) match; write the 4th hextet in binary:`,
+      ...subnets.map((s) => `${hex4(s[3])} = ${hextetBinary(s[3])}`),
+      `They share ${16 - extraBits} bits of it → 48 + ${16 - extraBits} = /${summary}.`,
+      `Zero everything after bit ${summary} and shorten → ${answer}.`,
+    ],
+  };
+}
+
+const GENERATORS: Record<SubnetKind, (rng: Rng) => SubnetExercise> = {
+  "ipv4-network": ipv4NetworkExercise,
+  "ipv4-hosts": ipv4HostsExercise,
+  "mask-cidr": maskCidrExercise,
+  vlsm: vlsmExercise,
+  "ipv4-summary": ipv4SummaryExercise,
+  "ipv6-network": ipv6NetworkExercise,
+  "ipv6-summary": ipv6SummaryExercise,
+};
+
+/** A fresh exercise of `kind`, or of any kind when omitted. */
+export function generateSubnetExercise(kind?: SubnetKind, rng: Rng = Math.random): SubnetExercise {
+  return GENERATORS[kind ?? pick(SUBNET_KINDS, rng).kind](rng);
+}
@@ -0,0 +1,153 @@
+// services/tutorFixtures.ts
+// Malformed model outputs seen in the wild (or close to it) and what parseTutorOutput must make
+// of them. checkTutorFixtures() runs the suite; the mock LLM can replay any of them
+// (MOCK_LLM_TUTOR_FIXTURE=<name>) to see how the endpoint and UI cope end to end.
+import { parseTutorOutput, TutorSchemaError, type AiTutorResult } from "./tutorSchema";
+
+export type TutorFixture = {
+  name: string;
+  raw: string;
+  expect:
+    | { error: true }
+    | {
+        source: "json" | "sections" | "text";
+        title?: string;
+        explanationIncludes?: string;
+        counts?: Partial<Record<"keyCommands" | "commonMistakes" | "quickCheck", number>>;
+      };
+};
+
+const GOOD = {
+  title: "STP",
+  simpleExplanation: "Spanning Tree blocks redundant switch links so frames can't loop forever.",
+  realWorldExample: "Two uplinks between access and distribution switches; one is blocked until the other fails.",
+  keyCommands: ["show spanning-tree", "spanning-tree mode rapid-pvst"],
+  commonMistakes: ["Leaving the root bridge to chance"],
+  quickCheck: ["Q: Which port state forwards frames? A: Forwarding"],
+};
+
+export const TUTOR_FIXTURES: TutorFixture[] = [
+  {
+    name: "clean-json",
+    raw: JSON.stringify(GOOD),
+    expect: { source: "json", title: "STP", counts: { keyCommands: 2, commonMistakes: 1, quickCheck: 1 } },
+  },
+  {
+    name: "code-fenced",
+    raw: "```json\n" + JSON.stringify(GOOD, null, 2) + "\n```",
+    expect: { source: "json", title: "STP", counts: { keyCommands: 2 } },
+  },
+  {
+    name: "prose-around-json",
+    raw: `Sure! Here is the explanation you asked for:\n${JSON.stringify(GOOD)}\nLet me know if you need more.`,
+    expect: { source: "json", explanationIncludes: "Spanning Tree" },
+  },
+  {
+    name: "braces-inside-strings",
+    raw: JSON.stringify({ ...GOOD, simpleExplanation: "Use {curly} placeholders like {vlan-id} in templates." }),
+    expect: { source: "json", explanationIncludes: "{vlan-id}" },
+  },
+  {
+    name: "lists-as-bulleted-strings",
+    raw: JSON.stringify({ ...GOOD, keyCommands: "- show spanning-tree\n- show spanning-tree root\n* debug spanning-tree events" }),
+    expect: { source: "json", counts: { keyCommands: 3 } },
+  },
+  {
+    name: "numbered-list-string",
+    raw: JSON.stringify({ ...GOOD, quickCheck: "1. Q: Root bridge? A: Lowest BID\n2) Q: Default priority? A: 32768" }),
+    expect: { source: "json", counts: { quickCheck: 2 } },
+  },
+  {
+    name: "wrong-types",
+    raw: JSON.stringify({ ...GOOD, title: 42, keyCommands: [1, null, "show run", { cmd: "x" }], commonMistakes: null }),
+    expect: { source: "json", title: "42", counts: { keyCommands: 2, commonMistakes: 0 } },
+  },
+  {
+    name: "wrapped-in-data",
+    raw: JSON.stringify({ ok: true, data: GOOD }),
+    expect: { source: "json", title: "STP" },
+  },
+  {
+    name: "json-inside-explanation",
+    raw: JSON.stringify({ title: "AI Tutor", simpleExplanation: JSON.stringify(GOOD), keyCommands: [] }),
+    expect: { source: "json", title: "STP", explanationIncludes: "Spanning Tree", counts: { keyCommands: 2 } },
+  },
+  {
+    name: "markdown-headings-in-fields",
+    raw: JSON.stringify({ ...GOOD, simpleExplanation: "### Simple explanation\nSTP prevents Layer 2 loops." }),
+    expect: { source: "json", explanationIncludes: "STP prevents" },
+  },
+  {
+    name: "section-headings-text",
+    raw: [
+      "### Simple explanation",
+      "OSPF is a link-state protocol.",
+      "",
+      "### Key commands",
+      "- router ospf 1",
+      "- show ip ospf neighbor",
+      "",
+      "**Common mistakes**",
+      "- Mismatched area IDs",
+    ].join("\n"),
+    expect: { source: "sections", explanationIncludes: "link-state", counts: { keyCommands: 2, commonMistakes: 1 } },
+  },
+  {
+    name: "plain-prose",
+    raw: "A VLAN is a logical broadcast domain configured on a switch.",
+    expect: { source: "text", explanationIncludes: "broadcast domain" },
+  },
+  {
+    name: "truncated-json",
+    raw: '{"title":"NAT","simpleExplanation":"NAT translates private addresses to a public one so that',
+    expect: { source: "text", explanationIncludes: "NAT translates" },
+  },
+  {
+    name: "too-many-items",
+    raw: JSON.stringify({ ...GOOD, commonMistakes: Array.from({ length: 20 }, (_, i) => `Mistake ${i + 1}`) }),
+    expect: { source: "json", counts: { commonMistakes: 12 } },
+  },
+  {
+    name: "empty-object",
+    raw: "{}",
+    expect: { error: true },
+  },
+  {
+    name: "whitespace-only",
+    raw: "  \n\t ",
+    expect: { error: true },
+  },
+];
+
+function mismatch(f: TutorFixture, result: AiTutorResult, source: string): string | null {
+  if ("error" in f.expect) return "expected TutorSchemaError";
+  const e = f.expect;
+  if (source !== e.source) return `source ${source}, expected ${e.source}`;
+  if (e.title !== undefined && result.title !== e.title) return `title "${result.title}", expected "${e.title}"`;
+  if (e.explanationIncludes && !result.simpleExplanation.includes(e.explanationIncludes)) {
+    return `simpleExplanation lacks "${e.explanationIncludes}"`;
+  }
+  for (const [field, n] of Object.entries(e.counts ?? {}) as [keyof AiTutorResult, number][]) {
+    const got = (result[field] as string[]).length;
+    if (got !== n) return `${field} has ${got} items, expected ${n}`;
+  }
+  return null;
+}
+
+/** Runs every fixture; returns the failures (empty when the schema behaves as documented). */
+export function checkTutorFixtures(): { name: string; problem: string }[] {
+  const failures: { name: string; problem: string }[] = [];
+
+  for (const f of TUTOR_FIXTURES) {
+    try {
+      const { result, source } = parseTutorOutput(f.raw, { fallbackTitle: "Fallback" });
+      const problem = mismatch(f, result, source);
+      if (problem) failures.push({ name: f.name, problem });
+    } catch (e) {
+      if (!(e instanceof TutorSchemaError)) failures.push({ name: f.name, problem: `threw ${String(e)}` });
+      else if (!("error" in f.expect)) failures.push({ name: f.name, problem: `threw: ${e.message}` });
+    }
+  }
+
+  return failures;
+}
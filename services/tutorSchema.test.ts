@@ -0,0 +1,242 @@
+import { describe, expect, it } from "vitest";
+import {
+  coerceTutorResult,
+  extractJsonObject,
+  MAX_LIST_ITEMS,
+  missingSections,
+  parseTutorOutput,
+  TutorSchemaError,
+  validateTutorResult,
+  type AiTutorResult,
+} from "./tutorSchema";
+import { checkTutorFixtures } from "./tutorFixtures";
+
+const GOOD: AiTutorResult = {
+  title: "VLANs",
+  simpleExplanation: "A VLAN splits one switch into separate broadcast domains.",
+  realWorldExample: "Guests and staff share the switches but not the broadcasts.",
+  keyCommands: ["vlan 10", "show vlan brief"],
+  commonMistakes: ["Forgetting to allow the VLAN on the trunk"],
+  quickCheck: ["Q: Default VLAN? A: 1"],
+};
+
+function schemaError(fn: () => unknown): TutorSchemaError {
+  try {
+    fn();
+  } catch (e) {
+    if (e instanceof TutorSchemaError) return e;
+    throw e;
+  }
+  throw new Error("expected a TutorSchemaError");
+}
+
+describe("tutor fixtures", () => {
+  it("all pass", () => {
+    expect(checkTutorFixtures()).toEqual([]);
+  });
+});
+
+describe("validateTutorResult", () => {
+  it("returns a copy of a valid result", () => {
+    const result = validateTutorResult(GOOD);
+    expect(result).toEqual(GOOD);
+    expect(result.keyCommands).not.toBe(GOOD.keyCommands);
+  });
+
+  it("drops unknown fields", () => {
+    expect(validateTutorResult({ ...GOOD, extra: 1 })).not.toHaveProperty("extra");
+  });
+
+  it("rejects non-objects as a whole", () => {
+    for (const value of [null, "text", [GOOD], 42]) {
+      expect(schemaError(() => validateTutorResult(value)).issues).toEqual([{ field: "$", message: "not an object" }]);
+    }
+  });
+
+  it("lists every bad field", () => {
+    const e = schemaError(() => validateTutorResult({ ...GOOD, title: " ", realWorldExample: 3, quickCheck: ["ok", 1] }));
+    expect(e.message).toBe("Invalid tutor result");
+    expect(e.issues).toEqual([
+      { field: "realWorldExample", message: "must be a string" },
+      { field: "quickCheck", message: "must be a string array" },
+      { field: "title", message: "is empty" },
+    ]);
+  });
+
+  it("requires an explanation", () => {
+    expect(schemaError(() => validateTutorResult({ ...GOOD, simpleExplanation: "" })).issues).toEqual([
+      { field: "simpleExplanation", message: "is empty" },
+    ]);
+  });
+});
+
+describe("missingSections", () => {
+  it("lists empty required sections only", () => {
+    expect(missingSections(GOOD)).toEqual([]);
+    expect(missingSections({ ...GOOD, realWorldExample: "", commonMistakes: [], quickCheck: [] })).toEqual([
+      "realWorldExample",
+      "commonMistakes",
+    ]);
+  });
+});
+
+describe("extractJsonObject", () => {
+  it("parses plain and fenced JSON", () => {
+    expect(extractJsonObject('{"a":1}')).toEqual({ a: 1 });
+    expect(extractJsonObject('```json\n{"a":1}\n```')).toEqual({ a: 1 });
+  });
+
+  it("finds the first balanced object in prose", () => {
+    expect(extractJsonObject('Here you go: {"a":"}{","b":{"c":2}} and {"d":3}')).toEqual({ a: "}{", b: { c: 2 } });
+  });
+
+  it("skips blocks that aren't JSON", () => {
+    expect(extractJsonObject('use {vlan-id} then {"a":1}')).toEqual({ a: 1 });
+  });
+
+  it("returns undefined without an object", () => {
+    expect(extractJsonObject("no json here")).toBeUndefined();
+    expect(extractJsonObject('{"a":')).toBeUndefined();
+    expect(extractJsonObject("42")).toBeUndefined();
+  });
+});
+
+describe("coerceTutorResult", () => {
+  it("leaves a valid result alone", () => {
+    expect(coerceTutorResult(GOOD)).toEqual({ result: GOOD, issues: [] });
+  });
+
+  it("unwraps data/result wrappers and JSON text (rule 1)", () => {
+    expect(coerceTutorResult({ data: GOOD }).result).toEqual(GOOD);
+    expect(coerceTutorResult({ result: { data: GOOD } }).issues).toEqual([
+      { field: "$", message: "unwrapped from data/result" },
+      { field: "$", message: "unwrapped from data/result" },
+    ]);
+    expect(coerceTutorResult(JSON.stringify(GOOD)).result).toEqual(GOOD);
+  });
+
+  it("replaces the outer object with JSON found in a text field (rule 2)", () => {
+    const { result, issues } = coerceTutorResult({ title: "AI Tutor", raw: `Answer: ${JSON.stringify(GOOD)}` });
+    expect(result).toEqual(GOOD);
+    expect(issues).toContainEqual({ field: "$", message: "JSON found inside a text field" });
+  });
+
+  it("ignores nested JSON without a real explanation (rule 2)", () => {
+    const { result } = coerceTutorResult({ ...GOOD, simpleExplanation: '{"simpleExplanation":"short"}' });
+    expect(result.simpleExplanation).toBe('{"simpleExplanation":"short"}');
+  });
+
+  it("converts text field values (rule 3)", () => {
+    const { result, issues } = coerceTutorResult({
+      ...GOOD,
+      title: 42,
+      simpleExplanation: ["Line one", 2, { x: 1 }],
+      realWorldExample: { x: 1 },
+    });
+    expect(result.title).toBe("42");
+    expect(result.simpleExplanation).toBe("Line one\n2");
+    expect(result.realWorldExample).toBe("");
+    expect(issues).toEqual([
+      { field: "title", message: "number converted to text" },
+      { field: "simpleExplanation", message: "array joined into text" },
+      { field: "realWorldExample", message: "unsupported value dropped" },
+    ]);
+  });
+
+  it("cleans fences, headings, CR and NUL from text (rule 3)", () => {
+    const { result } = coerceTutorResult({
+      ...GOOD,
+      simpleExplanation: "## Simple explanation\r\n```\r\nshow\u0000 vlan\r\n```\r\n  ",
+    });
+    expect(result.simpleExplanation).toBe("show vlan");
+  });
+
+  it("keeps usable list items and splits bulleted text (rule 4)", () => {
+    const { result, issues } = coerceTutorResult({
+      ...GOOD,
+      keyCommands: ["vlan 10", 7, null, "", { cmd: "x" }],
+      commonMistakes: "- one\n* two\n• three\n1. four\n2) five\n\nsix",
+      quickCheck: true,
+    });
+    expect(result.keyCommands).toEqual(["vlan 10", "7"]);
+    expect(result.commonMistakes).toEqual(["one", "two", "three", "four", "five", "six"]);
+    expect(result.quickCheck).toEqual([]);
+    expect(issues).toEqual([
+      { field: "keyCommands", message: "non-text items dropped" },
+      { field: "commonMistakes", message: "text split into list items" },
+      { field: "quickCheck", message: "unsupported value dropped" },
+    ]);
+  });
+
+  it("caps lists at MAX_LIST_ITEMS (rule 4)", () => {
+    const keyCommands = Array.from({ length: MAX_LIST_ITEMS + 3 }, (_, i) => `cmd ${i}`);
+    const { result, issues } = coerceTutorResult({ ...GOOD, keyCommands });
+    expect(result.keyCommands).toEqual(keyCommands.slice(0, MAX_LIST_ITEMS));
+    expect(issues).toEqual([{ field: "keyCommands", message: `truncated to ${MAX_LIST_ITEMS} items` }]);
+  });
+
+  it("falls back to fallbackTitle, then AI Tutor (rule 5)", () => {
+    const { title: _title, ...untitled } = GOOD;
+    expect(coerceTutorResult(untitled, { fallbackTitle: " OSPF " }).result.title).toBe("OSPF");
+    expect(coerceTutorResult(untitled).result.title).toBe("AI Tutor");
+    expect(coerceTutorResult({ ...GOOD, title: "  " }, { fallbackTitle: "OSPF" }).result.title).toBe("OSPF");
+  });
+
+  it("reports missing fields and non-object input", () => {
+    const { result, issues } = coerceTutorResult(7);
+    expect(result).toEqual({
+      title: "AI Tutor",
+      simpleExplanation: "",
+      realWorldExample: "",
+      keyCommands: [],
+      commonMistakes: [],
+      quickCheck: [],
+    });
+    expect(issues[0]).toEqual({ field: "$", message: "not an object" });
+    expect(issues).toContainEqual({ field: "keyCommands", message: "missing" });
+  });
+});
+
+describe("parseTutorOutput", () => {
+  it("takes objects as JSON", () => {
+    expect(parseTutorOutput(GOOD)).toMatchObject({ result: GOOD, source: "json" });
+  });
+
+  it("finds JSON anywhere in text", () => {
+    expect(parseTutorOutput(`Sure!\n${JSON.stringify(GOOD)}`)).toMatchObject({ result: GOOD, source: "json" });
+  });
+
+  it("reads headed sections", () => {
+    const { result, source, issues } = parseTutorOutput("Simple explanation:\nTrunks carry many VLANs.\n\nKey commands:\n- switchport mode trunk");
+    expect(source).toBe("sections");
+    expect(result.simpleExplanation).toBe("Trunks carry many VLANs.");
+    expect(result.keyCommands).toEqual(["switchport mode trunk"]);
+    expect(issues[0]).toEqual({ field: "$", message: "parsed from section headings" });
+  });
+
+  it("uses plain text as the explanation", () => {
+    const { result, source } = parseTutorOutput("  A trunk carries many VLANs.  ", { fallbackTitle: "Trunks" });
+    expect(source).toBe("text");
+    expect(result).toMatchObject({ title: "Trunks", simpleExplanation: "A trunk carries many VLANs.", keyCommands: [] });
+  });
+
+  it("throws on empty output, keeping the raw text", () => {
+    const e = schemaError(() => parseTutorOutput(" \n "));
+    expect(e.message).toBe("Empty model output");
+    expect(e.issues).toEqual([{ field: "$", message: "empty" }]);
+    expect(e.raw).toBe(" \n ");
+  });
+
+  it("throws when JSON has no tutor content", () => {
+    const e = schemaError(() => parseTutorOutput('{"title":"Only a title"}'));
+    expect(e.message).toBe("No tutor content in response");
+    expect(e.raw).toBe('{"title":"Only a title"}');
+    expect(schemaError(() => parseTutorOutput({ quickCheck: ["Q?"] })).message).toBe("No tutor content in response");
+  });
+
+  it("accepts JSON with sections but no explanation", () => {
+    const { result } = parseTutorOutput(JSON.stringify({ keyCommands: ["show vlan"] }));
+    expect(result.keyCommands).toEqual(["show vlan"]);
+    expect(missingSections(result)).toEqual(["simpleExplanation", "realWorldExample", "commonMistakes"]);
+  });
+});
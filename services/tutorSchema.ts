@@ -0,0 +1,346 @@
+// services/tutorSchema.ts
+// The one schema for AI Tutor explanations, shared by /api/gemini and the UI.
+//
+//   validateTutorResult(value)      strict: exact shape or TutorSchemaError
+//   coerceTutorResult(value, opts)  lenient: applies the coercion rules below, lists what it fixed
+//   parseTutorOutput(raw, opts)     raw model output (text or object) → result + where it came from
+//
+// Coercion rules (applied in this order):
+//  1. Wrappers are unwrapped: { data: {...} }, { result: {...} }, and a JSON string input.
+//  2. A JSON object stuck inside a text field (simpleExplanation/title/raw/text) replaces the
+//     outer object when it has a real explanation (the classic "whole answer in one field" bug).
+//  3. Text fields: numbers/booleans are stringified, arrays joined with newlines, anything else
+//     becomes "". Code fences, markdown heading lines, CR and NUL characters are removed; trimmed.
+//  4. List fields: arrays keep their non-empty string/number items; a string is split into lines
+//     or bullets ("-", "*", "•", "1."). Items are cleaned like text and capped at MAX_LIST_ITEMS.
+//  5. Missing title → fallbackTitle → "AI Tutor". Unknown fields are dropped.
+//
+// Fixtures of malformed model outputs and their expected results: services/tutorFixtures.ts.
+
+export type AiTutorResult = {
+  title: string;
+  simpleExplanation: string;
+  realWorldExample: string;
+  keyCommands: string[];
+  commonMistakes: string[];
+  quickCheck: string[];
+};
+
+export const TUTOR_TEXT_FIELDS = ["title", "simpleExplanation", "realWorldExample"] as const;
+export const TUTOR_LIST_FIELDS = ["keyCommands", "commonMistakes", "quickCheck"] as const;
+
+export type TutorField = (typeof TUTOR_TEXT_FIELDS)[number] | (typeof TUTOR_LIST_FIELDS)[number];
+
+export type TutorSchemaIssue = {
+  field: TutorField | "$"; // "$" = the value as a whole
+  message: string;
+};
+
+/**
+ * The value can't be used as a tutor result: strict validation failed, or raw output had
+ * nothing usable in it. `issues` lists every problem found; `raw` is the offending text, if any.
+ */
+export class TutorSchemaError extends Error {
+  constructor(
+    message: string,
+    public issues: TutorSchemaIssue[],
+    public raw?: string
+  ) {
+    super(message);
+    this.name = "TutorSchemaError";
+  }
+}
+
+export const MAX_LIST_ITEMS = 12;
+const DEFAULT_TITLE = "AI Tutor";
+
+// Sections the explain prompt asks for; without them the answer is worth one repair attempt
+const REQUIRED_SECTIONS: TutorField[] = ["simpleExplanation", "realWorldExample", "keyCommands", "commonMistakes"];
+
+const isPlainObject = (v: unknown): v is Record<string, unknown> =>
+  !!v && typeof v === "object" && !Array.isArray(v);
+
+/** ---------------------------
+ *  Strict validation
+ *  --------------------------- */
+export function validateTutorResult(value: unknown): AiTutorResult {
+  const issues: TutorSchemaIssue[] = [];
+
+  if (!isPlainObject(value)) {
+    throw new TutorSchemaError("Tutor result must be an object", [{ field: "$", message: "not an object" }]);
+  }
+
+  for (const f of TUTOR_TEXT_FIELDS) {
+    if (typeof value[f] !== "string") issues.push({ field: f, message: "must be a string" });
+  }
+  for (const f of TUTOR_LIST_FIELDS) {
+    const v = value[f];
+    if (!Array.isArray(v) || v.some((x) => typeof x !== "string")) issues.push({ field: f, message: "must be a string array" });
+  }
+  if (typeof value.title === "string" && !value.title.trim()) issues.push({ field: "title", message: "is empty" });
+  if (typeof value.simpleExplanation === "string" && !value.simpleExplanation.trim()) {
+    issues.push({ field: "simpleExplanation", message: "is empty" });
+  }
+
+  if (issues.length) throw new TutorSchemaError("Invalid tutor result", issues);
+
+  return {
+    title: value.title as string,
+    simpleExplanation: value.simpleExplanation as string,
+    realWorldExample: value.realWorldExample as string,
+    keyCommands: [...(value.keyCommands as string[])],
+    commonMistakes: [...(value.commonMistakes as string[])],
+    quickCheck: [...(value.quickCheck as string[])],
+  };
+}
+
+/** Required sections that are empty (the server repairs once when this isn't empty). */
+export function missingSections(r: AiTutorResult): TutorField[] {
+  return REQUIRED_SECTIONS.filter((f) => {
+    const v = r[f];
+    return Array.isArray(v) ? v.length === 0 : !v;
+  });
+}
+
+/** ---------------------------
+ *  JSON helpers
+ *  --------------------------- */
+function tryParseJson(s: string): unknown {
+  try {
+    return JSON.parse(s);
+  } catch {
+    return undefined;
+  }
+}
+
+function stripFences(s: string) {
+  return s.replace(/```(?:json)?/gi, "");
+}
+
+/**
+ * First balanced {...} block in the text, parsed. Handles prose or code fences around the JSON
+ * and braces inside strings. Returns undefined when there is no parseable object.
+ */
+export function extractJsonObject(text: string): unknown {
+  const t = stripFences(text).trim();
+  const direct = tryParseJson(t);
+  if (direct !== undefined && typeof direct === "object") return direct;
+
+  for (let start = t.indexOf("{"); start >= 0; start = t.indexOf("{", start + 1)) {
+    let depth = 0;
+    let inString = false;
+    let escape = false;
+
+    for (let i = start; i < t.length; i++) {
+      const ch = t[i];
+      if (inString) {
+        if (escape) escape = false;
+        else if (ch === "\\") escape = true;
+        else if (ch === '"') inString = false;
+        continue;
+      }
+      if (ch === '"') inString = true;
+      else if (ch === "{") depth++;
+      else if (ch === "}" && --depth === 0) {
+        const parsed = tryParseJson(t.slice(start, i + 1));
+        if (parsed !== undefined) return parsed;
+        break;
+      }
+    }
+  }
+  return undefined;
+}
+
+/** ---------------------------
+ *  Coercion
+ *  --------------------------- */
+function cleanText(s: string) {
+  return stripFences(s)
+    .replace(/\r\n?/g, "\n")
+    .replace(/\u0000/g, "")
+    .split("\n")
+    .filter((line) => !/^\s*#{1,6}\s/.test(line))
+    .join("\n")
+    .trim();
+}
+
+function coerceText(v: unknown, field: TutorField, issues: TutorSchemaIssue[]): string {
+  if (typeof v === "string") return cleanText(v);
+  if (v === undefined || v === null) {
+    issues.push({ field, message: "missing" });
+    return "";
+  }
+  if (typeof v === "number" || typeof v === "boolean") {
+    issues.push({ field, message: `${typeof v} converted to text` });
+    return String(v);
+  }
+  if (Array.isArray(v)) {
+    issues.push({ field, message: "array joined into text" });
+    return cleanText(v.filter((x) => typeof x === "string" || typeof x === "number").join("\n"));
+  }
+  issues.push({ field, message: "unsupported value dropped" });
+  return "";
+}
+
+const BULLET = /^\s*(?:[-*•·]|\d+[.)])\s+/;
+
+function coerceList(v: unknown, field: TutorField, issues: TutorSchemaIssue[]): string[] {
+  let items: string[];
+
+  if (Array.isArray(v)) {
+    const usable = v.filter((x) => typeof x === "string" || typeof x === "number");
+    if (usable.length !== v.length) issues.push({ field, message: "non-text items dropped" });
+    items = usable.map((x) => cleanText(String(x)));
+  } else if (typeof v === "string") {
+    issues.push({ field, message: "text split into list items" });
+    items = cleanText(v)
+      .split(/\n+/)
+      .map((line) => line.replace(BULLET, "").trim());
+  } else {
+    issues.push({ field, message: v === undefined || v === null ? "missing" : "unsupported value dropped" });
+    items = [];
+  }
+
+  const out = items.filter(Boolean);
+  if (out.length > MAX_LIST_ITEMS) issues.push({ field, message: `truncated to ${MAX_LIST_ITEMS} items` });
+  return out.slice(0, MAX_LIST_ITEMS);
+}
+
+/** Rule 2: a real explanation JSON hiding inside one of the text fields. */
+function nestedResult(obj: Record<string, unknown>): Record<string, unknown> | null {
+  for (const key of ["simpleExplanation", "title", "raw", "text"]) {
+    const v = obj[key];
+    if (typeof v !== "string" || !v.includes("{")) continue;
+
+    const inner = extractJsonObject(v);
+    if (isPlainObject(inner) && typeof inner.simpleExplanation === "string" && inner.simpleExplanation.trim().length > 20) {
+      return inner;
+    }
+  }
+  return null;
+}
+
+function unwrap(value: unknown, issues: TutorSchemaIssue[]): unknown {
+  let v = value;
+  for (let depth = 0; depth < 3; depth++) {
+    if (typeof v === "string") {
+      const parsed = extractJsonObject(v);
+      if (parsed === undefined) return v;
+      v = parsed;
+    }
+    if (!isPlainObject(v)) return v;
+
+    const inner = isPlainObject(v.data) ? v.data : isPlainObject(v.result) ? v.result : null;
+    if (inner) {
+      issues.push({ field: "$", message: "unwrapped from data/result" });
+      v = inner;
+      continue;
+    }
+
+    const nested = nestedResult(v);
+    if (nested) {
+      issues.push({ field: "$", message: "JSON found inside a text field" });
+      v = { ...v, ...nested };
+      delete (v as Record<string, unknown>).raw;
+      delete (v as Record<string, unknown>).text;
+      continue;
+    }
+    return v;
+  }
+  return v;
+}
+
+export type CoerceOptions = { fallbackTitle?: string };
+
+/** Applies the coercion rules to an object (or JSON text). Non-object input yields an empty result. */
+export function coerceTutorResult(value: unknown, opts: CoerceOptions = {}): { result: AiTutorResult; issues: TutorSchemaIssue[] } {
+  const issues: TutorSchemaIssue[] = [];
+  const v = unwrap(value, issues);
+  const obj: Record<string, unknown> = isPlainObject(v) ? v : {};
+  if (!isPlainObject(v)) issues.push({ field: "$", message: "not an object" });
+
+  const title = coerceText(obj.title, "title", issues) || opts.fallbackTitle?.trim() || DEFAULT_TITLE;
+
+  return {
+    result: {
+      title,
+      simpleExplanation: coerceText(obj.simpleExplanation, "simpleExplanation", issues),
+      realWorldExample: coerceText(obj.realWorldExample, "realWorldExample", issues),
+      keyCommands: coerceList(obj.keyCommands, "keyCommands", issues),
+      commonMistakes: coerceList(obj.commonMistakes, "commonMistakes", issues),
+      quickCheck: coerceList(obj.quickCheck, "quickCheck", issues),
+    },
+    issues,
+  };
+}
+
+/** ---------------------------
+ *  Raw model output
+ *  --------------------------- */
+const SECTION_LABELS: [TutorField, string][] = [
+  ["simpleExplanation", "Simple explanation"],
+  ["realWorldExample", "Real[- ]world example"],
+  ["keyCommands", "Key commands"],
+  ["commonMistakes", "Common mistakes"],
+  ["quickCheck", "Quick check"],
+];
+
+/** Plain-text answers written with section headings ("Key commands:" / "### Key commands"). */
+function sectionsFromText(text: string): Record<string, string> | null {
+  const t = text.replace(/\r\n?/g, "\n");
+  const anyLabel = SECTION_LABELS.map(([, l]) => l).join("|");
+  const out: Record<string, string> = {};
+
+  for (const [field, label] of SECTION_LABELS) {
+    const re = new RegExp(
+      String.raw`(?:^|\n)\s*(?:#{1,6}\s*)?(?:\*\*)?${label}(?:\*\*)?\s*:?\s*\n([\s\S]*?)(?=\n\s*(?:#{1,6}\s*)?(?:\*\*)?(?:${anyLabel})(?:\*\*)?\s*:?\s*\n|$)`,
+      "i"
+    );
+    const m = t.match(re);
+    if (m && m[1].trim()) out[field] = m[1].trim();
+  }
+
+  return Object.keys(out).length ? out : null;
+}
+
+export type ParsedTutorOutput = {
+  result: AiTutorResult;
+  issues: TutorSchemaIssue[];
+  source: "json" | "sections" | "text"; // where the sections came from
+};
+
+/**
+ * Turns raw model output into a result: JSON (anywhere in the text) first, then headed sections,
+ * then the whole text as the explanation. Throws TutorSchemaError when there's nothing usable.
+ */
+export function parseTutorOutput(raw: unknown, opts: CoerceOptions = {}): ParsedTutorOutput {
+  if (typeof raw !== "string") {
+    const { result, issues } = coerceTutorResult(raw, opts);
+    if (!result.simpleExplanation && missingSections(result).length === REQUIRED_SECTIONS.length) {
+      throw new TutorSchemaError("No tutor content in response", issues);
+    }
+    return { result, issues, source: "json" };
+  }
+
+  const text = raw.trim();
+  if (!text) throw new TutorSchemaError("Empty model output", [{ field: "$", message: "empty" }], raw);
+
+  const json = extractJsonObject(text);
+  if (isPlainObject(json)) {
+    const { result, issues } = coerceTutorResult(json, opts);
+    if (result.simpleExplanation || missingSections(result).length < REQUIRED_SECTIONS.length) {
+      return { result, issues, source: "json" };
+    }
+    throw new TutorSchemaError("No tutor content in response", issues, raw);
+  }
+
+  const sections = sectionsFromText(text);
+  if (sections) {
+    const { result, issues } = coerceTutorResult(sections, opts);
+    return { result, issues: [{ field: "$", message: "parsed from section headings" }, ...issues], source: "sections" };
+  }
+
+  const { result } = coerceTutorResult({ simpleExplanation: text }, opts);
+  if (!result.simpleExplanation) throw new TutorSchemaError("No tutor content in response", [{ field: "$", message: "empty" }], raw);
+  return { result, issues: [{ field: "$", message: "plain text used as the explanation" }], source: "text" };
+}
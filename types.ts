@@ -4,14 +4,24 @@ export interface Flashcard {
   answer: string;
   explanation?: string;
   cliExample?: string;
+  cliConfig?: string; // commands the learner types in the CLI simulator
+  cliVerify?: string;
+  commonMistakes?: string;
   category: CCNA_Category;
-  difficulty: 'Easy' | 'Medium' | 'Hard';
+  difficulty: Difficulty;
   domainId: number;
   deckId: string;
   deckName: string;
   isPremium: boolean;
+  objective?: string;
+  subobjective?: string;
+  tags: string[];
+  version?: string;
+  sortKey?: string;
 }
 
+export type Difficulty = 'Easy' | 'Medium' | 'Hard';
+
 export interface User {
   email: string;
   isPro: boolean;
@@ -28,16 +38,25 @@ export type Deck = {
 
 export type Card = {
   card_id: string;
+  domain?: string;
+  domain_int?: string;
+  objective?: string;
+  subobjective?: string;
   deck_id: string;
   deck_name: string;
   front: string;
   back: string;
   explanation: string;
-  difficulty?: string;
   cli_config?: string;
   cli_verify?: string;
+  common_mistakes?: string;
+  tags?: string; // comma-separated
+  difficulty?: string; // 1 = Easy, 2 = Medium, 3 = Hard
+  version?: string;
   is_premium?: string;
-  domain_int?: string;
+  status?: string; // only "published" cards are shown
+  card_num?: string;
+  sort_key?: string;
 };
 
 export enum CCNA_Category {
@@ -49,19 +68,102 @@ export enum CCNA_Category {
   AutomationProgrammability = 'Automation & Programmability'
 }
 
+export interface ExamObjective {
+  code: string; // e.g. "1.6" (sub-objectives like "1.6.a" come from the card data)
+  title: string;
+}
+
 export interface DomainInfo {
   id: number;
   title: string;
   subtitle: string;
   description: string;
   icon: string;
+  category: CCNA_Category;
+  weight: number; // % of the 200-301 exam
+  objectives: ExamObjective[];
 }
 
 export const CCNA_DOMAINS: DomainInfo[] = [
-  { id: 1, title: 'Domain 1', subtitle: 'Network Fundamentals', description: 'Routers, switches, cabling, TCP/UDP, IPv4/IPv6.', icon: '🌐' },
-  { id: 2, title: 'Domain 2', subtitle: 'Network Access', description: 'VLANs, STP, EtherChannel, Wireless architecture.', icon: '🔌' },
-  { id: 3, title: 'Domain 3', subtitle: 'IP Connectivity', description: 'Routing tables, OSPFv2, Static routing.', icon: '🛣️' },
-  { id: 4, title: 'Domain 4', subtitle: 'IP Services', description: 'NAT, NTP, DHCP, DNS, SNMP, QoS.', icon: '🛠️' },
-  { id: 5, title: 'Domain 5', subtitle: 'Security Fundamentals', description: 'Threats, VPNs, ACLs, Port Security, WPA3.', icon: '🛡️' },
-  { id: 6, title: 'Domain 6', subtitle: 'Automation', description: 'REST APIs, Puppet, Chef, SDN, JSON.', icon: '🤖' }
-];
\ No newline at end of file
+  {
+    id: 1, title: 'Domain 1', subtitle: 'Network Fundamentals', description: 'Routers, switches, cabling, TCP/UDP, IPv4/IPv6.', icon: '🌐', category: CCNA_Category.NetworkFundamentals, weight: 20,
+    objectives: [
+      { code: '1.1', title: 'Role and function of network components' },
+      { code: '1.2', title: 'Network topology architectures' },
+      { code: '1.3', title: 'Physical interface and cabling types' },
+      { code: '1.4', title: 'Interface and cable issues' },
+      { code: '1.5', title: 'TCP vs UDP' },
+      { code: '1.6', title: 'IPv4 addressing and subnetting' },
+      { code: '1.7', title: 'Private IPv4 addressing' },
+      { code: '1.8', title: 'IPv6 addressing and prefix' },
+      { code: '1.9', title: 'IPv6 address types' },
+      { code: '1.10', title: 'IP parameters for client OS' },
+      { code: '1.11', title: 'Wireless principles' },
+      { code: '1.12', title: 'Virtualization fundamentals' },
+      { code: '1.13', title: 'Switching concepts' },
+    ],
+  },
+  {
+    id: 2, title: 'Domain 2', subtitle: 'Network Access', description: 'VLANs, STP, EtherChannel, Wireless architecture.', icon: '🔌', category: CCNA_Category.NetworkAccess, weight: 20,
+    objectives: [
+      { code: '2.1', title: 'VLANs spanning multiple switches' },
+      { code: '2.2', title: 'Interswitch connectivity (802.1Q trunking)' },
+      { code: '2.3', title: 'Dynamic Trunking Protocol' },
+      { code: '2.4', title: 'EtherChannel (LACP)' },
+      { code: '2.5', title: 'Rapid PVST+ Spanning Tree' },
+      { code: '2.6', title: 'Cisco wireless architectures and AP modes' },
+      { code: '2.7', title: 'Network device management access' },
+    ],
+  },
+  {
+    id: 3, title: 'Domain 3', subtitle: 'IP Connectivity', description: 'Routing tables, OSPFv2, Static routing.', icon: '🛣️', category: CCNA_Category.IPConnectivity, weight: 25,
+    objectives: [
+      { code: '3.1', title: 'Components of the routing table' },
+      { code: '3.2', title: 'Router forwarding decisions' },
+      { code: '3.3', title: 'IPv4 and IPv6 static routing' },
+      { code: '3.4', title: 'Route lookup and longest match' },
+      { code: '3.5', title: 'Single-area OSPFv2' },
+      { code: '3.6', title: 'First hop redundancy protocols' },
+    ],
+  },
+  {
+    id: 4, title: 'Domain 4', subtitle: 'IP Services', description: 'NAT, NTP, DHCP, DNS, SNMP, QoS.', icon: '🛠️', category: CCNA_Category.IPServices, weight: 10,
+    objectives: [
+      { code: '4.1', title: 'DHCP client and relay' },
+      { code: '4.2', title: 'DNS within the network' },
+      { code: '4.3', title: 'NTP client and server' },
+      { code: '4.4', title: 'Inside source NAT and PAT' },
+      { code: '4.5', title: 'SNMP and syslog' },
+      { code: '4.6', title: 'QoS per-hop behavior' },
+      { code: '4.7', title: 'Network file services (TFTP/FTP)' },
+    ],
+  },
+  {
+    id: 5, title: 'Domain 5', subtitle: 'Security Fundamentals', description: 'Threats, VPNs, ACLs, Port Security, WPA3.', icon: '🛡️', category: CCNA_Category.SecurityFundamentals, weight: 15,
+    objectives: [
+      { code: '5.1', title: 'Key security concepts and VPNs' },
+      { code: '5.2', title: 'Security program elements' },
+      { code: '5.3', title: 'Access control lists' },
+      { code: '5.4', title: 'Device access control with passwords' },
+      { code: '5.5', title: 'Secure management access' },
+      { code: '5.6', title: 'Port security' },
+      { code: '5.7', title: 'DHCP snooping' },
+      { code: '5.8', title: 'Dynamic ARP inspection' },
+      { code: '5.9', title: 'IP Source Guard' },
+    ],
+  },
+  {
+    id: 6, title: 'Domain 6', subtitle: 'Automation', description: 'REST APIs, Puppet, Chef, SDN, JSON.', icon: '🤖', category: CCNA_Category.AutomationProgrammability, weight: 10,
+    objectives: [
+      { code: '6.1', title: 'Automation and network controllers' },
+      { code: '6.2', title: 'REST-based APIs' },
+      { code: '6.3', title: 'JSON-encoded data' },
+      { code: '6.4', title: 'Python basics' },
+      { code: '6.5', title: 'DevOps concepts' },
+      { code: '6.6', title: 'Automation use cases' },
+      { code: '6.7', title: 'Management models (NETCONF/RESTCONF)' },
+      { code: '6.8', title: 'Configuration management tools' },
+      { code: '6.9', title: 'Automation best practices' },
+    ],
+  },
+];
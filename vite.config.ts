@@ -1,18 +1,50 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+// Changes only when the card bank does; the service worker keys its CSV cache on it
+const cardBankVersion = () => {
+    const hash = createHash('sha256');
+    for (const file of ['decks.csv', 'cards.csv']) {
+        hash.update(fs.readFileSync(path.resolve(__dirname, 'public/data', file)));
+    }
+    return hash.digest('hex').slice(0, 12);
+};
+
+// Writes the hashed bundle names into dist/sw.js so the worker can precache them on install
+const SW_ASSETS_PLACEHOLDER = 'const BUILD_ASSETS = [];';
+
+const serviceWorkerAssets = (): Plugin => ({
+    name: 'sw-build-assets',
+    apply: 'build',
+    writeBundle(options, bundle) {
+        const assets = Object.keys(bundle)
+            .filter((file) => file.startsWith('assets/') && !file.endsWith('.map'))
+            .map((file) => `/${file}`);
+        const swPath = path.resolve(options.dir || 'dist', 'sw.js');
+        const source = fs.readFileSync(swPath, 'utf8');
+        if (!source.includes(SW_ASSETS_PLACEHOLDER)) this.error(`${SW_ASSETS_PLACEHOLDER} not found in ${swPath}`);
+        fs.writeFileSync(swPath, source.replace(SW_ASSETS_PLACEHOLDER, `const BUILD_ASSETS = ${JSON.stringify(assets)};`));
+    },
+});
+
+export default defineConfig(({ command, mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Empty on the dev server, which then skips the service worker (see services/pwa.ts)
+    const isBuild = command === 'build';
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorkerAssets()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.APP_BUILD_ID': JSON.stringify(isBuild ? Date.now().toString(36) : ''),
+        'process.env.CARD_BANK_VERSION': JSON.stringify(isBuild ? cardBankVersion() : '')
       },
       resolve: {
         alias: {